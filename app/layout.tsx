@@ -1,6 +1,7 @@
 import type { Metadata } from 'next'
 import "leaflet/dist/leaflet.css"
 import './globals.css'
+import SessionGate from '@/components/SessionGate'
 
 export const metadata: Metadata = {
   title: 'Jarbits - SkyrouteX Platform v1.0',
@@ -14,7 +15,9 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <SessionGate>{children}</SessionGate>
+      </body>
     </html>
   )
 }
\ No newline at end of file
@@ -1,19 +1,8 @@
 'use client'
 
-import { useState } from 'react'
-import LoginPage from '@/components/LoginPage'
 import DashboardLayout from '@/components/DashboardLayout'
 
+// Signing in is handled by SessionGate in the root layout
 export default function Home() {
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false)
-
-  const handleLogin = () => {
-    setIsLoggedIn(true)
-  }
-
-  if (!isLoggedIn) {
-    return <LoginPage onLogin={handleLogin} />
-  }
-
   return <DashboardLayout />
-}
\ No newline at end of file
+}
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { ArrowLeft, RefreshCw, Activity, Zap } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { authHeaders } from '@/lib/http';
 
 // Dynamically import the component to avoid SSR issues with Leaflet
 const SituationalAwareness = dynamic(
@@ -91,7 +92,7 @@ export default function SituationalAwarenessPage() {
   const fetchMissionById = async (missionId: number) => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE}/api/missions/${missionId}`);
+      const response = await fetch(`${API_BASE}/api/missions/${missionId}`, { headers: authHeaders() });
       const data = await response.json();
       
       if (data && data.id) {
@@ -113,7 +114,7 @@ export default function SituationalAwarenessPage() {
   const fetchMissions = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_BASE}/api/missions?limit=20&status=active`);
+      const response = await fetch(`${API_BASE}/api/missions?limit=20&status=in_flight`, { headers: authHeaders() });
       const data = await response.json();
       
       if (data.success && data.missions) {
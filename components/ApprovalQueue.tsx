@@ -0,0 +1,237 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { AlertTriangle, Eye, Inbox, Loader2, MessageSquare, RefreshCw, ShieldCheck, XCircle } from 'lucide-react'
+import { Toaster, toast } from 'react-hot-toast'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { usePermissions } from '@/hooks/usePermissions'
+import { useRequestSignal } from '@/hooks/useRequestSignal'
+import { isCancelled } from '@/lib/api'
+import {
+  APPROVER_ROLES,
+  EVENTS_NEEDING_REASON,
+  lastTransition,
+  MISSION_EVENT_LABELS,
+  MISSION_STATE_LABELS,
+  transitionBlocker,
+} from '@/lib/missionLifecycle'
+import { EVENT_PERMISSIONS, notPermitted } from '@/lib/permissions'
+import { getMissions, transitionMission, type ApiMission } from '@/services/missionService'
+import type { MissionEvent } from '@/types'
+
+// The decisions a reviewer can make, in the order they are offered
+const DECISIONS: { event: MissionEvent; icon: typeof ShieldCheck; className: string }[] = [
+  { event: 'approve', icon: ShieldCheck, className: 'bg-teal-600 hover:bg-teal-700' },
+  { event: 'request_changes', icon: MessageSquare, className: 'bg-yellow-600 hover:bg-yellow-700' },
+  { event: 'reject', icon: XCircle, className: 'bg-rose-600 hover:bg-rose-700' },
+]
+
+interface ApprovalQueueProps {
+  onViewMission?: (mission: ApiMission) => void
+}
+
+/**
+ * Missions submitted by planners and waiting for a commander's decision.
+ * Rejecting or requesting changes needs comments; they are recorded in the
+ * mission's history and shown to the planner.
+ */
+export default function ApprovalQueue({ onViewMission }: ApprovalQueueProps) {
+  const [missions, setMissions] = useState<ApiMission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [comments, setComments] = useState<Record<number, string>>({})
+  const [deciding, setDeciding] = useState<number | null>(null)
+
+  const requestSignal = useRequestSignal()
+  const currentUser = useCurrentUser()
+  const can = usePermissions()
+  const isApprover = !!currentUser && APPROVER_ROLES.includes(currentUser.role) && can('approve_missions')
+
+  const loadQueue = useCallback(async (signal: AbortSignal = requestSignal()) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await getMissions({ status: 'planned' }, { signal })
+      setMissions(response.missions)
+    } catch (err: any) {
+      if (isCancelled(err)) return
+      setError(err.message || 'Failed to load pending approvals')
+      console.error('Error loading pending approvals:', err)
+    }
+    setLoading(false)
+  }, [requestSignal])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadQueue(controller.signal)
+    return () => controller.abort()
+  }, [loadQueue])
+
+  const handleDecision = async (mission: ApiMission, event: MissionEvent) => {
+    const reason = comments[mission.id]?.trim()
+    if (EVENTS_NEEDING_REASON.includes(event) && !reason) {
+      toast.error(`Add comments for the planner to ${MISSION_EVENT_LABELS[event].toLowerCase()}`)
+      return
+    }
+    if (event === 'approve' && !confirm(`Approve mission "${mission.mission_name}" for upload and flight?`)) return
+
+    setDeciding(mission.id)
+    try {
+      const updated = await transitionMission(mission.id, event, { reason: reason || undefined, signal: requestSignal() })
+      toast.success(`"${mission.mission_name}" is now ${MISSION_STATE_LABELS[updated.status].toLowerCase()}`)
+      setComments(prev => ({ ...prev, [mission.id]: '' }))
+      await loadQueue()
+    } catch (err: any) {
+      if (isCancelled(err)) return
+      toast.error(`Failed to ${MISSION_EVENT_LABELS[event].toLowerCase()} mission: ${err.message}`)
+      console.error(`Error applying ${event} to mission:`, err)
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  const formatDateTime = (dateString: string): string =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    })
+
+  return (
+    <div className="flex-1 bg-slate-900 min-h-screen overflow-y-auto">
+      <Toaster position="top-right" />
+
+      <div className="p-8">
+        {/* Header Section */}
+        <div className="bg-blue-600 rounded-xl p-6 mb-6 shadow-xl">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-white mb-2">Pending Approvals</h1>
+              <p className="text-blue-100">Missions submitted by planners, waiting for a commander&apos;s sign-off</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => loadQueue()}
+                disabled={loading}
+                className="p-3 bg-slate-800 rounded-lg text-white hover:bg-slate-700 transition-colors disabled:opacity-50"
+                title="Refresh"
+              >
+                <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+              </button>
+              <div className="bg-slate-900 px-6 py-3 rounded-lg shadow-lg">
+                <div className="text-slate-400 text-sm">Waiting</div>
+                <div className="text-3xl font-bold text-center text-white">{missions.length}</div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {!isApprover && (
+          <div className="bg-yellow-500 bg-opacity-10 border border-yellow-500 rounded-lg p-4 mb-6">
+            <div className="flex items-center space-x-2 text-yellow-400">
+              <AlertTriangle size={20} />
+              <span className="font-medium">
+                Only a {APPROVER_ROLES.join(' or ').toLowerCase()} can decide on missions. You can review the queue.
+              </span>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-4 mb-6">
+            <div className="flex items-center space-x-2 text-red-500">
+              <AlertTriangle size={20} />
+              <span className="font-medium">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {loading && missions.length === 0 ? (
+          <div className="flex items-center justify-center py-20 text-slate-400">
+            <Loader2 size={32} className="animate-spin mr-3" />
+            Loading pending approvals...
+          </div>
+        ) : missions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-slate-400">
+            <Inbox size={48} className="mb-4" />
+            <p>No missions are waiting for approval</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {missions.map(mission => {
+              const submission = lastTransition(mission, ['submit'])
+              return (
+                <div key={mission.id} className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <div className="flex items-center space-x-3 mb-1">
+                        <h2 className="text-xl font-semibold text-white">{mission.mission_name}</h2>
+                        <span className="text-slate-400 text-sm">#{mission.id}</span>
+                      </div>
+                      <div className="text-slate-400 text-sm">
+                        {mission.mission_type || 'Mission'}
+                        {mission.corridor_label ? ` · ${mission.corridor_label}` : ''}
+                        {` · ${mission.waypoints?.length ?? 0} waypoints`}
+                        {mission.total_distance ? ` · ${mission.total_distance.toFixed(2)} km` : ''}
+                        {mission.flight_time ? ` · ${mission.flight_time.toFixed(1)} min` : ''}
+                      </div>
+                      <div className="text-slate-400 text-sm mt-1">
+                        Submitted by <span className="text-white">{submission?.by || mission.created_by || 'unknown'}</span>
+                        {submission && ` on ${formatDateTime(submission.at)}`}
+                      </div>
+                      {submission?.reason && (
+                        <div className="mt-3 px-3 py-2 bg-slate-900 rounded-lg text-slate-300 text-sm italic">
+                          &ldquo;{submission.reason}&rdquo;
+                        </div>
+                      )}
+                    </div>
+                    {onViewMission && (
+                      <button
+                        onClick={() => onViewMission(mission)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+                      >
+                        <Eye size={16} />
+                        <span>View route</span>
+                      </button>
+                    )}
+                  </div>
+
+                  <textarea
+                    value={comments[mission.id] ?? ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [mission.id]: e.target.value }))}
+                    placeholder="Comments for the planner (required to reject or request changes)"
+                    rows={2}
+                    disabled={!isApprover}
+                    className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  />
+
+                  <div className="flex items-center justify-end space-x-3 mt-4">
+                    {DECISIONS.map(({ event, icon: Icon, className }) => {
+                      const blocker = can(EVENT_PERMISSIONS[event])
+                        ? transitionBlocker(mission, event, currentUser)
+                        : notPermitted(EVENT_PERMISSIONS[event])
+                      return (
+                        <button
+                          key={event}
+                          onClick={() => handleDecision(mission, event)}
+                          disabled={!!blocker || deciding === mission.id}
+                          title={blocker ?? MISSION_EVENT_LABELS[event]}
+                          className={`flex items-center space-x-2 px-4 py-2 text-white font-medium rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${className}`}
+                        >
+                          {deciding === mission.id ? <Loader2 size={16} className="animate-spin" /> : <Icon size={16} />}
+                          <span>{MISSION_EVENT_LABELS[event]}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
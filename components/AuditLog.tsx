@@ -0,0 +1,365 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, CloudOff, Download, Loader2, RefreshCw, ScrollText, Search } from 'lucide-react'
+import { Toaster, toast } from 'react-hot-toast'
+import { AUDIT_CONFIG } from '@/config/missionExecution.config'
+import { useRequestSignal } from '@/hooks/useRequestSignal'
+import { isCancelled } from '@/lib/api'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTIONS,
+  AUDIT_RESULT_LABELS,
+  AUDIT_RESULTS,
+  downloadAuditLog,
+  type AuditExportFormat,
+} from '@/lib/audit'
+import auditService, { type AuditEntry, type AuditQuery } from '@/services/auditService'
+import type { AuditAction, AuditResult } from '@/types'
+
+const RESULT_COLORS: Record<AuditResult, string> = {
+  success: 'bg-green-500',
+  failure: 'bg-red-500',
+  denied: 'bg-yellow-500',
+}
+
+/**
+ * Every vehicle command and mission change: who made it, on which vehicle
+ * and mission, with what parameters and how it turned out. Searchable by
+ * text, action, result and time, and exportable as CSV or JSON for incident
+ * investigations.
+ */
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [action, setAction] = useState<AuditAction | ''>('')
+  const [result, setResult] = useState<AuditResult | ''>('')
+  const [from, setFrom] = useState('') // datetime-local values, in local time
+  const [to, setTo] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [exporting, setExporting] = useState<AuditExportFormat | null>(null)
+  const [pending, setPending] = useState(() => auditService.getPending().length)
+  const [sending, setSending] = useState(false)
+  const itemsPerPage = AUDIT_CONFIG.pageSize
+
+  const requestSignal = useRequestSignal()
+
+  const query = useMemo<AuditQuery>(() => ({
+    search: searchQuery.trim() || undefined,
+    action: action || undefined,
+    result: result || undefined,
+    from: from ? new Date(from).toISOString() : undefined,
+    to: to ? new Date(to).toISOString() : undefined,
+  }), [searchQuery, action, result, from, to])
+
+  const loadEntries = useCallback(async (signal: AbortSignal = requestSignal()) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const page = await auditService.search(
+        { ...query, skip: (currentPage - 1) * itemsPerPage, limit: itemsPerPage },
+        { signal }
+      )
+      setEntries(page.entries)
+      setTotal(page.total)
+    } catch (err: any) {
+      if (isCancelled(err)) return
+      setError(err.message || 'Failed to load the audit log')
+      console.error('Error loading audit log:', err)
+    }
+    setLoading(false)
+  }, [query, currentPage, itemsPerPage, requestSignal])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadEntries(controller.signal)
+    return () => controller.abort()
+  }, [loadEntries])
+
+  useEffect(() => {
+    setPending(auditService.getPending().length)
+    return auditService.subscribe(() => setPending(auditService.getPending().length))
+  }, [])
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setExporting(format)
+    try {
+      const matching = await auditService.searchAll(query, { signal: requestSignal() })
+      downloadAuditLog(matching, format)
+      if (matching.length < total) {
+        toast(`Exported the newest ${matching.length} of ${total} entries; narrow the search for the rest`)
+      } else {
+        toast.success(`Exported ${matching.length} entries`)
+      }
+    } catch (err: any) {
+      if (isCancelled(err)) return
+      toast.error(`Export failed: ${err.message}`)
+      console.error('Error exporting audit log:', err)
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const handleSendPending = async () => {
+    setSending(true)
+    try {
+      await auditService.flush()
+      if (auditService.getPending().length === 0) {
+        toast.success('All recorded entries have reached the server')
+        await loadEntries()
+      } else {
+        toast.error('Sign in to send the recorded entries')
+      }
+    } catch (err: any) {
+      toast.error(`Still cannot reach the server: ${err.message}`)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  // Changing a filter starts again from the first page
+  const filterBy = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value)
+    setCurrentPage(1)
+  }
+
+  const formatDateTime = (dateString: string): string =>
+    new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    })
+
+  const formatParameters = (parameters: Record<string, unknown>): string =>
+    Object.entries(parameters)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+      .join(', ')
+
+  const totalPages = Math.max(1, Math.ceil(total / itemsPerPage))
+
+  return (
+    <div className="flex-1 bg-slate-900 min-h-screen overflow-y-auto">
+      <Toaster position="top-right" />
+
+      <div className="p-8">
+        {/* Header Section */}
+        <div className="bg-blue-600 rounded-xl p-6 mb-6 shadow-xl">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-white mb-2">Audit Log</h1>
+              <p className="text-blue-100">Every vehicle command and mission change, with who made it and what happened</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => loadEntries()}
+                disabled={loading}
+                className="p-3 bg-slate-800 rounded-lg text-white hover:bg-slate-700 transition-colors disabled:opacity-50"
+                title="Refresh"
+              >
+                <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+              </button>
+              <div className="bg-slate-900 px-6 py-3 rounded-lg shadow-lg">
+                <div className="text-slate-400 text-sm">Matching</div>
+                <div className="text-3xl font-bold text-center text-white">{total}</div>
+              </div>
+            </div>
+          </div>
+
+          {/* Search and Export Bar */}
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={20} />
+              <input
+                type="text"
+                placeholder="Search by user, vehicle, mission or parameters..."
+                value={searchQuery}
+                onChange={(e) => filterBy(setSearchQuery)(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+            </div>
+            {(['csv', 'json'] as AuditExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null || total === 0}
+                className="flex items-center space-x-2 px-6 py-3 bg-white text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exporting === format ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+                <span>Export {format.toUpperCase()}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Entries recorded here but not yet on the server */}
+        {pending > 0 && (
+          <div className="bg-yellow-500 bg-opacity-10 border border-yellow-500 rounded-lg p-4 mb-6 flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-yellow-400">
+              <CloudOff size={20} />
+              <span className="font-medium">
+                {pending} {pending === 1 ? 'entry' : 'entries'} recorded on this station {pending === 1 ? 'has' : 'have'} not reached the server yet and {pending === 1 ? 'is' : 'are'} not shown below
+              </span>
+            </div>
+            <button
+              onClick={handleSendPending}
+              disabled={sending}
+              className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : 'Send now'}
+            </button>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-500 bg-opacity-10 border border-red-500 rounded-lg p-4 mb-6">
+            <div className="flex items-center space-x-2 text-red-500">
+              <AlertTriangle size={20} />
+              <span className="font-medium">{error}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-xl overflow-hidden shadow-xl">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4 px-6 py-4 border-b border-slate-700">
+            <select
+              value={action}
+              onChange={(e) => filterBy(setAction)(e.target.value as AuditAction | '')}
+              className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((value) => (
+                <option key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</option>
+              ))}
+            </select>
+            <select
+              value={result}
+              onChange={(e) => filterBy(setResult)(e.target.value as AuditResult | '')}
+              className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              <option value="">All results</option>
+              {AUDIT_RESULTS.map((value) => (
+                <option key={value} value={value}>{AUDIT_RESULT_LABELS[value]}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-2 text-slate-400 text-sm">
+              <span>From</span>
+              <input
+                type="datetime-local"
+                value={from}
+                onChange={(e) => filterBy(setFrom)(e.target.value)}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-slate-400 text-sm">
+              <span>To</span>
+              <input
+                type="datetime-local"
+                value={to}
+                onChange={(e) => filterBy(setTo)(e.target.value)}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+            </label>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex items-center justify-center py-20">
+              <Loader2 size={40} className="text-blue-500 animate-spin" />
+              <span className="ml-3 text-slate-400 text-lg">Loading audit log...</span>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && entries.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-20">
+              <ScrollText size={48} className="text-slate-600 mb-4" />
+              <p className="text-slate-400 text-lg mb-2">No audit entries found</p>
+              <p className="text-slate-500 text-sm">Try adjusting your search or filters</p>
+            </div>
+          )}
+
+          {/* Entries Table */}
+          {!loading && entries.length > 0 && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-slate-700">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Time</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">User</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Action</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Vehicle</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Mission</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Parameters</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-slate-300 uppercase">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {entries.map((entry) => {
+                      const parameters = formatParameters(entry.parameters)
+                      return (
+                        <tr key={entry.id} className="hover:bg-slate-700 transition-colors">
+                          <td className="px-6 py-4 text-slate-300 text-sm whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                          <td className="px-6 py-4">
+                            <div className="text-white text-sm font-medium">{entry.user_name}</div>
+                            {entry.role && <div className="text-slate-400 text-xs">{entry.role}</div>}
+                          </td>
+                          <td className="px-6 py-4 text-white text-sm whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action]}</td>
+                          <td className="px-6 py-4 text-slate-300 text-sm">{entry.vehicle_id ?? '—'}</td>
+                          <td className="px-6 py-4 text-slate-300 text-sm">{entry.mission_id ? `#${entry.mission_id}` : '—'}</td>
+                          <td className="px-6 py-4 text-slate-400 text-xs font-mono max-w-xs truncate" title={parameters}>
+                            {parameters || '—'}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className={`${RESULT_COLORS[entry.result]} px-3 py-1 rounded-full text-white text-xs font-medium`}>
+                              {AUDIT_RESULT_LABELS[entry.result]}
+                            </span>
+                            {entry.error && <div className="text-red-400 text-xs mt-1">{entry.error}</div>}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+                <div className="text-slate-400 text-sm">
+                  Showing {(currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, total)} of {total} entries
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                    disabled={currentPage === 1}
+                    className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <span className="px-2 text-slate-400 text-sm">Page {currentPage} of {totalPages}</span>
+                  <button
+                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                    disabled={currentPage === totalPages}
+                    className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
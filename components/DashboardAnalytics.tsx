@@ -13,6 +13,9 @@ import {
   Target,
   BarChart3
 } from 'lucide-react'
+import { authHeaders } from '@/lib/http'
+import { countByState, MISSION_STATE_LABELS, MISSION_STATES } from '@/lib/missionLifecycle'
+import type { MissionState } from '@/types'
 
 // CRITICAL FIX: Use proper API base URL
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
@@ -31,7 +34,7 @@ interface DashboardData {
   recentMissions: Array<{
     id: string
     name: string
-    status: string
+    status: MissionState
     time: string
   }>
   activeVehicles: number
@@ -53,7 +56,7 @@ export default function DashboardAnalytics() {
         setError(null)
         
         // FIXED: Use full API URL instead of relative path
-        const response = await fetch(`${API_BASE_URL}/api/missions/stats/summary`)
+        const response = await fetch(`${API_BASE_URL}/api/missions/stats/summary`, { headers: authHeaders() })
         
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`)
@@ -90,34 +93,36 @@ export default function DashboardAnalytics() {
   // Mock data for demonstration
   const dashboardData: DashboardData = {
     recentMissions: [
-      { id: 'M-2024-045', name: 'Border Surveillance Alpha', status: 'Completed', time: '2h ago' },
-      { id: 'M-2024-046', name: 'Supply Drop Beta', status: 'In Flight', time: '30m ago' },
-      { id: 'M-2024-047', name: 'Inspection Route C', status: 'Pending', time: '1h ago' },
-      { id: 'M-2024-048', name: 'Emergency Response', status: 'In Flight', time: '15m ago' },
+      { id: 'M-2024-045', name: 'Border Surveillance Alpha', status: 'completed', time: '2h ago' },
+      { id: 'M-2024-046', name: 'Supply Drop Beta', status: 'in_flight', time: '30m ago' },
+      { id: 'M-2024-047', name: 'Inspection Route C', status: 'planned', time: '1h ago' },
+      { id: 'M-2024-048', name: 'Emergency Response', status: 'in_flight', time: '15m ago' },
     ],
     activeVehicles: 12,
     todayFlights: 24,
     successRate: 98.5
   }
 
-  const getStatusColor = (status: string): string => {
+  const getStatusColor = (status: MissionState): string => {
     switch (status) {
-      case 'Completed': return 'bg-green-500'
       case 'completed': return 'bg-green-500'
-      case 'In Flight': return 'bg-blue-500'
-      case 'active': return 'bg-blue-500'
-      case 'in_progress': return 'bg-blue-500'
-      case 'Pending': return 'bg-yellow-500'
-      case 'pending': return 'bg-yellow-500'
+      case 'in_flight': return 'bg-blue-500'
+      case 'uploaded': return 'bg-cyan-500'
+      case 'approved': return 'bg-teal-500'
+      case 'rejected': return 'bg-rose-500'
+      case 'planned': return 'bg-yellow-500'
       case 'draft': return 'bg-gray-500'
-      case 'Failed': return 'bg-red-500'
       case 'failed': return 'bg-red-500'
-      case 'cancelled': return 'bg-red-500'
+      case 'aborted': return 'bg-red-500'
       case 'paused': return 'bg-orange-500'
       default: return 'bg-gray-500'
     }
   }
 
+  // Legacy statuses such as 'active' are folded into their lifecycle state
+  const stateCounts = stats?.by_status ? countByState(stats.by_status) : null
+  const countedStates = MISSION_STATES.filter(state => (stateCounts?.[state] ?? 0) > 0)
+
   const StatCard = ({ 
     title, 
     value, 
@@ -254,13 +259,14 @@ export default function DashboardAnalytics() {
 
             {/* Status Bars */}
             <div className="space-y-4">
-              {stats?.by_status && Object.keys(stats.by_status).length > 0 ? (
-                Object.entries(stats.by_status).map(([status, count]) => {
+              {stats && stateCounts && countedStates.length > 0 ? (
+                countedStates.map(status => {
+                  const count = stateCounts[status]
                   const percentage = ((count / stats.total_missions) * 100).toFixed(1)
                   return (
                     <div key={status}>
                       <div className="flex items-center justify-between mb-2">
-                        <span className="text-slate-300 font-medium capitalize">{status}</span>
+                        <span className="text-slate-300 font-medium">{MISSION_STATE_LABELS[status]}</span>
                         <span className="text-white font-bold">{count} ({percentage}%)</span>
                       </div>
                       <div className="w-full bg-slate-700 rounded-full h-3">
@@ -281,25 +287,25 @@ export default function DashboardAnalytics() {
             </div>
 
             {/* Quick Stats */}
-            {stats?.by_status && Object.keys(stats.by_status).length > 0 && (
+            {stateCounts && countedStates.length > 0 && (
               <div className="mt-6 pt-6 border-t border-slate-700 grid grid-cols-3 gap-4">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-400">
-                    {stats?.by_status['completed'] || stats?.by_status['Completed'] || 0}
+                    {stateCounts.completed}
                   </div>
                   <div className="text-slate-400 text-sm mt-1">Completed</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-blue-400">
-                    {stats?.by_status['active'] || stats?.by_status['in_progress'] || stats?.by_status['In Flight'] || 0}
+                    {stateCounts.in_flight + stateCounts.paused}
                   </div>
-                  <div className="text-slate-400 text-sm mt-1">Active</div>
+                  <div className="text-slate-400 text-sm mt-1">In Flight</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-yellow-400">
-                    {stats?.by_status['pending'] || stats?.by_status['Pending'] || 0}
+                    {stateCounts.planned + stateCounts.approved + stateCounts.uploaded}
                   </div>
-                  <div className="text-slate-400 text-sm mt-1">Pending</div>
+                  <div className="text-slate-400 text-sm mt-1">Awaiting Flight</div>
                 </div>
               </div>
             )}
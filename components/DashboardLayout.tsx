@@ -5,7 +5,13 @@ import dynamic from 'next/dynamic'
 import Sidebar from './Sidebar'
 import MissionListComponent from './MissionList'
 import RoutePlanning from './RoutePlanning'
+import ApprovalQueue from './ApprovalQueue'
+import NotPermitted from './NotPermitted'
 import { ApiMission } from '@/services/missionService'
+import { parseGeofences } from '@/lib/geofence'
+import { PAGE_PERMISSIONS } from '@/lib/permissions'
+import { usePermissions } from '@/hooks/usePermissions'
+import { parseWaypointAltitude } from '@/lib/missionValidation'
 import DashboardAnalytics from './DashboardAnalytics'
 import SituationalAwareness from './SituationalAwareness';
 import DroneFlightVisualization from './Droneflightvisualization';
@@ -18,11 +24,17 @@ const OperatorLibrary = dynamic(() => import('./OperatorLibrary'), { ssr: false
 const UserProfile = dynamic(() => import('./UserProfile'), { ssr: false })
 const Settings = dynamic(() => import('./Settings'), { ssr: false })
 const Guide = dynamic(() => import('./Guide'), { ssr: false })
+const RolesPermissions = dynamic(() => import('./RolesPermissions'), { ssr: false })
+const AuditLog = dynamic(() => import('./AuditLog'), { ssr: false })
 
 export default function DashboardLayout() {
   const [currentPage, setCurrentPage] = useState('dashboard')
   const [selectedMission, setSelectedMission] = useState<ApiMission | null>(null)
   const [editMode, setEditMode] = useState(false)
+  const can = usePermissions()
+  const pagePermission = PAGE_PERMISSIONS[currentPage]
+  // Pages the user's role does not permit show NotPermitted instead
+  const page = !pagePermission || can(pagePermission) ? currentPage : 'not-permitted'
 
   const handlePlanMission = () => {
     setSelectedMission(null)
@@ -64,9 +76,9 @@ export default function DashboardLayout() {
     <div className="flex h-screen bg-gray-950">
       <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
       
-      {currentPage === 'dashboard' && <DashboardAnalytics />}
+      {page === 'dashboard' && <DashboardAnalytics />}
 
-      {currentPage === 'missions' && (
+      {page === 'missions' && (
         <MissionListComponent 
           onPageChange={setCurrentPage} 
           onViewMission={handleViewMission}
@@ -74,7 +86,7 @@ export default function DashboardLayout() {
           onVisualizeMission={handleVisualizeMission}
         />
       )}
-      {currentPage === 'plan-mission' && (
+      {page === 'plan-mission' && (
         <RoutePlanning 
           selectedMission={selectedMission}
           editMode={editMode}
@@ -82,17 +94,16 @@ export default function DashboardLayout() {
           onBackToMissions={handleBackToMissions}
         />
       )}
-      {currentPage === 'mission-types' && <MissionTypes onPageChange={setCurrentPage} />}
-      {currentPage === 'flight-monitor' && (
+      {page === 'approvals' && <ApprovalQueue onViewMission={handleViewMission} />}
+      {page === 'mission-types' && <MissionTypes onPageChange={setCurrentPage} />}
+      {page === 'flight-monitor' && (
         <DroneFlightVisualization 
           selectedMission={selectedMission ? {
-            id: selectedMission.id,
-            name: selectedMission.mission_name || selectedMission.name || 'Unnamed Mission',
-            waypoints: selectedMission.waypoints.map(wp => {
-              const wpAny = wp as any;
-              
+            id: String(selectedMission.id),
+            name: selectedMission.mission_name || 'Unnamed Mission',
+            waypoints: (selectedMission.waypoints || []).map(wp => {
               // Get longitude from either lng or lon property
-              const longitude = wpAny.lng ?? wpAny.lon;
+              const longitude = wp.lng ?? wp.lon;
               
               // Validate coordinates
               if (!longitude || !wp.lat) {
@@ -103,23 +114,38 @@ export default function DashboardLayout() {
               return {
                 lat: wp.lat,
                 lng: longitude,
-                alt: wp.alt,
-                name: wp.name
+                alt: parseWaypointAltitude(wp.alt),
+                frame: wp.frame,
+                holdTime: wp.holdTime ?? wp.hold_time,
+                speed: wp.speed,
+                acceptanceRadius: wp.acceptanceRadius ?? wp.acceptance_radius,
+                command: wp.command,
+                loiterTurns: wp.loiterTurns,
+                loiterRadius: wp.loiterRadius,
+                actions: wp.actions,
+                name: wp.name ?? wp.label
               };
             }),
-            corridor: selectedMission.corridor_label || selectedMission.corridor_value || selectedMission.corridor,
+            corridor: selectedMission.corridor_label || selectedMission.corridor_value,
             distance: selectedMission.total_distance,
-            status: selectedMission.status
+            status: selectedMission.status,
+            geofences: parseGeofences(selectedMission.geofences),
+            vehicleId: selectedMission.vehicle_id,
+            missionType: selectedMission.mission_type,
+            batteryUsage: selectedMission.battery_usage
           } : null}
           onBack={handleBackToMissions}
         />
       )}
-      {currentPage === 'awareness' && <SituationalAwareness />}
-      {currentPage === 'vehicles' && <VehicleLibrary />}
-      {currentPage === 'operators' && <OperatorLibrary />}
-      {currentPage === 'profile' && <UserProfile />}
-      {currentPage === 'settings' && <Settings />}
-      {currentPage === 'guide' && <Guide />}
+      {page === 'awareness' && <SituationalAwareness />}
+      {page === 'vehicles' && <VehicleLibrary />}
+      {page === 'operators' && <OperatorLibrary />}
+      {page === 'profile' && <UserProfile />}
+      {page === 'settings' && <Settings />}
+      {page === 'guide' && <Guide />}
+      {page === 'roles' && <RolesPermissions />}
+      {page === 'audit' && <AuditLog />}
+      {page === 'not-permitted' && pagePermission && <NotPermitted permission={pagePermission} />}
     </div>
   )
 }
\ No newline at end of file
@@ -1,11 +1,56 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, Popup, useMap } from 'react-leaflet';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { MapContainer, Marker, Polyline, Polygon, Circle as LeafletCircle, Popup, Tooltip, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { ArrowLeft, Upload, PlayCircle, StopCircle } from 'lucide-react';
+import { ArrowLeft, Upload, PlayCircle, StopCircle, Video, Circle, Square, History, ShieldAlert } from 'lucide-react';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
+import VideoFeed from '@/components/VideoFeed';
+import VideoHUD from '@/components/VideoHUD';
+import FlightReplayControls from '@/components/FlightReplayControls';
+import InterlockDialog from '@/components/InterlockDialog';
+import PreflightChecklist from '@/components/PreflightChecklist';
+import OfflineTileLayer from '@/components/OfflineTileLayer';
+import { VIDEO_CONFIG } from '@/config/missionExecution.config';
+import telemetryService, { DEFAULT_VEHICLE_ID } from '@/services/telemetryService';
+import droneControlService, { type ApiResponse, type CommandOptions } from '@/services/DroneControlService';
+import auditService from '@/services/auditService';
+import interlockService from '@/services/interlockService';
+import { IMAGERY_SOURCE } from '@/services/tileCache';
+import { Geofence, TelemetryData, TelemetryValidationError } from '@/types/types';
+import type { AltitudeFrame, AuditAction, InterlockId, MissionEvent, MissionState, PermissionId, WaypointAction, WaypointCommand } from '@/types';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useGeofenceMonitor } from '@/hooks/useGeofenceMonitor';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useRequestSignal } from '@/hooks/useRequestSignal';
+import { ApiError, isCancelled } from '@/lib/api';
+import { buildMissionItems } from '@/lib/missionItems';
+import { transitionBlocker } from '@/lib/missionLifecycle';
+import { INTERLOCKS, type InterlockOverride } from '@/lib/interlocks';
+import type { PreflightItemResult } from '@/lib/missionSchemas';
+import {
+  checklistFor,
+  evaluatePreflight,
+  preflightBlocker,
+  preflightRecord,
+  type PreflightInputs,
+  type PreflightSignOff
+} from '@/lib/preflight';
+import { notPermitted, PermissionDeniedError } from '@/lib/permissions';
+import { validateMission } from '@/lib/missionValidation';
+import { recordPreflight, transitionMission } from '@/services/missionService';
+import { buildTerrainProfile } from '@/lib/terrainProfile';
+import terrainService from '@/services/terrainService';
+import { vehiclesData } from '@/lib/data';
+import {
+  FlightRecorder,
+  FlightRecording,
+  FlightSession,
+  findFrameIndex,
+  parseFlightSession,
+  downloadFlightRecording
+} from '@/services/flightRecorder';
 
 // Fix Leaflet default icon issue
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -19,34 +64,6 @@ L.Icon.Default.mergeOptions({
 // TYPES & INTERFACES
 // ============================================================================
 
-interface TelemetryData {
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    fix_type: number;
-    hdop: number;
-  };
-}
-
 interface DroneStatus {
   connected: boolean;
   armed: boolean;
@@ -80,6 +97,14 @@ interface MissionWaypoint {
   lng?: number;
   lon?: number;
   alt?: number;
+  frame?: AltitudeFrame;
+  holdTime?: number; // seconds
+  speed?: number; // m/s from this waypoint on
+  acceptanceRadius?: number; // meters
+  command?: WaypointCommand;
+  loiterTurns?: number;
+  loiterRadius?: number; // meters
+  actions?: WaypointAction[];
   name?: string;
 }
 
@@ -89,7 +114,11 @@ interface SelectedMission {
   waypoints: MissionWaypoint[];
   corridor?: string;
   distance?: number;
-  status?: string;
+  status?: MissionState;
+  geofences?: Geofence[];
+  vehicleId?: string | null;
+  missionType?: string | null;
+  batteryUsage?: number;
 }
 
 interface DroneFlightVisualizationProps {
@@ -103,6 +132,21 @@ interface WaypointStatus {
   arrivalTime?: number;
 }
 
+interface ReplayState {
+  session: FlightSession;
+  videoUrl: string | null;
+}
+
+const REPLAY_TICK_MS = 100;
+
+const NO_GEOFENCES: Geofence[] = [];
+
+const GEOFENCE_COLORS = {
+  inclusion: '#22c55e',
+  exclusion: '#ef4444',
+  breached: '#f97316'
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -228,6 +272,34 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   const [takeoffAltitude, setTakeoffAltitude] = useState<number>(10);
   const [loading, setLoading] = useState<{[key: string]: boolean}>({});
   const [missionUploaded, setMissionUploaded] = useState<boolean>(false);
+  // Mission items the vehicle reported taking when the mission was last uploaded from here
+  const [uploadConfirmed, setUploadConfirmed] = useState<number | null>(null);
+  // Uploaded from here, or from the mission list as the mission record shows
+  const missionOnVehicle = missionUploaded || selectedMission?.status === 'uploaded';
+  // What the vehicle should hold once the selected mission is on it
+  const missionItemTotal = useMemo(
+    () => buildMissionItems((selectedMission?.waypoints || []).map(wp => ({
+      ...wp,
+      lon: getWaypointLongitude(wp) ?? NaN
+    }))).length,
+    [selectedMission?.waypoints]
+  );
+  const [preflightSignOffs, setPreflightSignOffs] = useState<Record<string, PreflightSignOff>>({});
+  const [preflightNow, setPreflightNow] = useState<number>(() => Date.now());
+  const [interlockRequest, setInterlockRequest] = useState<{
+    interlock: InterlockId;
+    onConfirm: (override: InterlockOverride) => void;
+  } | null>(null);
+  const [showVideoFeed, setShowVideoFeed] = useState<boolean>(true);
+
+  // Flight recording & replay
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recordingStats, setRecordingStats] = useState<{ frames: number; elapsed: number }>({ frames: 0, elapsed: 0 });
+  const [lastRecording, setLastRecording] = useState<FlightRecording | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [replayTime, setReplayTime] = useState<number>(0);
+  const [replayPlaying, setReplayPlaying] = useState<boolean>(false);
+  const [replaySpeed, setReplaySpeed] = useState<number>(1);
   
   // SIMULATION MODE STATE
   const [simulationMode, setSimulationMode] = useState<boolean>(false);
@@ -241,14 +313,80 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   
   const telemetryInterval = useRef<NodeJS.Timeout | null>(null);
   const simulationInterval = useRef<NodeJS.Timeout | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 5;
+  const telemetryUnsubscribeRef = useRef<(() => void) | null>(null);
+  const recorderRef = useRef<FlightRecorder>(new FlightRecorder());
+  const statusRef = useRef<DroneStatus | null>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  // Every frame goes to the recorder; the on-screen flight path stays capped at 500 points
+  const recordFrame = (frame: TelemetryData, statusOverrides?: Partial<DroneStatus>) => {
+    if (!recorderRef.current.isRecording()) return;
+    recorderRef.current.record(frame, { ...statusRef.current, ...statusOverrides });
+  };
   
-  const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
-  const MISSION_API_BASE = process.env.NEXT_PUBLIC_MISSION_API_URL || 'http://localhost:8000';
-  const WS_BASE = process.env.NEXT_PUBLIC_DRONE_WS_URL || 'ws://localhost:7000';
+  // Commands still waiting for the backend are cancelled when the view closes
+  const requestSignal = useRequestSignal();
+  const can = usePermissions();
+  const currentUser = useCurrentUser();
+
+  // Arming, takeoff and mission execution need the role to permit them;
+  // disarm, land and RTL never do. A refusal here is logged just as the
+  // service would log it.
+  const refuseUnless = (action: AuditAction, permission: PermissionId, situation = ''): boolean => {
+    if (can(permission)) return false;
+    auditService.record(action, auditContext(), 'denied', new PermissionDeniedError(permission).message);
+    showToast(`${situation}${notPermitted(permission)}`, 'error');
+    return true;
+  };
+
+  // Commands go through droneControlService, which checks the role and the
+  // interlock overrides again, sends once with the command timeout and audits
+  // the outcome
+  const commandOptions = (overrides: InterlockOverride[] = []): CommandOptions => ({
+    overrides,
+    vehicleId: selectedMission?.vehicleId ?? undefined,
+    signal: requestSignal()
+  });
+
+  // What interlock approval requests are logged against
+  const auditContext = () => ({ vehicle_id: selectedMission?.vehicleId ?? DEFAULT_VEHICLE_ID, mission_id: currentMissionId });
+
+  // Hazardous commands wait for the safety interlock dialog, then run again
+  // with the override. Nothing is sent in simulation mode, so nothing is held back.
+  const needsOverride = (interlock: InterlockId, overrides: InterlockOverride[]) =>
+    !simulationMode && !overrides.some(override => override.interlock === interlock);
+
+  // Set each render, once the handlers below exist
+  const latestHandlersRef = useRef<{
+    handleArm: (forceArm: boolean, overrides: InterlockOverride[]) => Promise<void>;
+    handleDisarm: (overrides: InterlockOverride[]) => void;
+    handleStartMission: (overrides: InterlockOverride[]) => Promise<void>;
+    handleForceStart: (overrides: InterlockOverride[]) => Promise<void>;
+  } | null>(null);
+
+  const requestOverride = (interlock: InterlockId, onConfirm: (override: InterlockOverride) => void) => {
+    setInterlockRequest({
+      interlock,
+      onConfirm: override => {
+        setInterlockRequest(null);
+        onConfirm(override);
+      }
+    });
+  };
+
+  // Keep the mission lifecycle in step with what the vehicle was told. Failing
+  // to record it must not get in the way of flight control.
+  const recordTransition = (event: MissionEvent, reason?: string) => {
+    const missionId = Number(currentMissionId);
+    if (!Number.isInteger(missionId)) return;
+    transitionMission(missionId, event, { reason, signal: requestSignal() }).catch(error => {
+      if (!isCancelled(error)) console.warn(`Mission status not updated for ${event}:`, error);
+    });
+  };
   
   // ============================================================================
   // SIMULATION MODE FUNCTIONS
@@ -413,7 +551,9 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         const vy = simulatedSpeed * Math.sin((bearing * Math.PI) / 180);
 
         // Update telemetry
-        setTelemetry({
+        const simFrame: TelemetryData = {
+          timestamp: Date.now(),
+          source: 'simulator',
           position: currentPos,
           velocity: { vx, vy, vz: 0 },
           attitude: { roll: 0, pitch: 0, yaw: bearing },
@@ -427,6 +567,13 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             fix_type: 3,
             hdop: 0.8
           }
+        };
+        setTelemetry(simFrame);
+        recordFrame(simFrame, {
+          current_position: currentPos,
+          battery_level: simFrame.battery!.remaining,
+          mission_current: currentWpIndex,
+          mission_count: totalWaypoints
         });
 
         // Update status
@@ -455,134 +602,48 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   // WEBSOCKET TELEMETRY CONNECTION
   // ============================================================================
 
-  const connectWebSocket = () => {
+  const connectWebSocket = (missionId: string = currentMissionId) => {
     if (simulationMode) {
       console.log('Simulation mode active, skipping WebSocket connection');
       return;
     }
 
-    // Don't reconnect if already connected or if we've exceeded max attempts
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('WebSocket already connected');
-      return;
-    }
-
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max WebSocket reconnection attempts reached');
-      showToast('WebSocket connection failed. Using fallback polling.', 'error');
-      startStatusPolling();
+    if (telemetryUnsubscribeRef.current) {
+      console.log('Telemetry already subscribed');
       return;
     }
 
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-      
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        showToast('✅ Real-time telemetry connected', 'success');
-        
-        if (currentMissionId) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: currentMissionId
-          }));
-          console.log(`📡 Subscribed to mission: ${currentMissionId}`);
-        }
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          console.log('📨 WebSocket message received:', message);
-          
-          switch (message.type) {
-            case 'telemetry_update':
-              // ⭐ IMPROVED: Handle both message.data and root-level data
-              const telemetryData = message.data || message;
-              handleTelemetryUpdate(telemetryData);
-              break;
-            case 'connection_info':
-              console.log('🔌 Connection info:', message);
-              break;
-            case 'error':
-              console.error('❌ WebSocket error:', message.message);
-              break;
-            case 'pong':
-              // Silent - heartbeat response
-              break;
-            default:
-              console.log('❓ Unknown message type:', message.type);
-              console.log('Full message:', message);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-          console.error('Raw event data:', event.data);
+    telemetryUnsubscribeRef.current = telemetryService.subscribe(DEFAULT_VEHICLE_ID, {
+      missionId: missionId || undefined,
+      onTelemetry: (frame) => handleTelemetryUpdate(frame),
+      onInvalidFrame: (error) => handleInvalidFrame(error),
+      onStatusText: (message) => {
+        // MAV_SEVERITY_WARNING (4) and above is worth interrupting the operator for
+        if (message.severity <= 4) {
+          showToast(`🛩️ ${message.text}`, message.severity <= 3 ? 'error' : 'info');
         }
-      };
-      
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        console.error('WebSocket state:', ws.readyState);
-        console.error('WebSocket URL:', `${WS_BASE}/ws/telemetry`);
-        setWsConnected(false);
-      };
-      
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-        
-        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          
-          console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        } else {
-          console.log('❌ Max reconnection attempts reached, switching to polling');
+      },
+      onConnectionChange: (state) => {
+        setWsConnected(state === 'open');
+        if (state === 'open') {
+          showToast('✅ Real-time telemetry connected', 'success');
+        } else if (state === 'failed') {
+          showToast('WebSocket connection failed. Using fallback polling.', 'error');
           startStatusPolling();
         }
-      };
-      
-      wsRef.current = ws;
-      
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      setWsConnected(false);
-      startStatusPolling();
-    }
+      }
+    });
   };
 
   const disconnectWebSocket = () => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (telemetryUnsubscribeRef.current) {
+      telemetryUnsubscribeRef.current();
+      telemetryUnsubscribeRef.current = null;
     }
     
     setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
   };
 
-  useEffect(() => {
-    if (wsConnected && wsRef.current?.readyState === WebSocket.OPEN) {
-      const pingInterval = setInterval(() => {
-        wsRef.current?.send(JSON.stringify({ action: 'ping' }));
-      }, 30000);
-      
-      return () => clearInterval(pingInterval);
-    }
-  }, [wsConnected]);
-
   // ============================================================================
   // FALLBACK HTTP POLLING
   // ============================================================================
@@ -609,11 +670,14 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     if (simulationMode) return;
     
     try {
-      const response = await fetch(`${API_BASE}/telemetry`);
-      const data = await response.json();
-      handleTelemetryUpdate(data);
+      handleTelemetryUpdate(await droneControlService.getTelemetry({ signal: requestSignal() }));
     } catch (error) {
-      console.error('Error fetching telemetry via HTTP:', error);
+      if (isCancelled(error)) return;
+      if (error instanceof TelemetryValidationError) {
+        handleInvalidFrame(error);
+      } else {
+        console.error('Error fetching telemetry via HTTP:', error);
+      }
     }
   };
 
@@ -644,10 +708,8 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     return (
       lat !== undefined && 
       lon !== undefined && 
-      !isNaN(lat) && 
-      !isNaN(lon) && 
-      lat !== 0 && 
-      lon !== 0 &&
+      Number.isFinite(lat) && 
+      Number.isFinite(lon) && 
       lat >= -90 && 
       lat <= 90 && 
       lon >= -180 && 
@@ -678,32 +740,28 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     if (simulationMode) return;
     
     try {
-      const response = await fetch(`${API_BASE}/status`);
-      const data = await response.json();
+      const statusData = await droneControlService.getStatus({ signal: requestSignal() });
+      setStatus(statusData);
+      setIsConnected(statusData.connected);
       
-      if (data.success || data.data) {
-        const statusData = data.data || data;
-        setStatus(statusData);
-        setIsConnected(statusData.connected);
-        
-        if (statusData.current_position && statusData.flying) {
-          const { lat, lon } = statusData.current_position;
-          if (isValidCoordinate(lat, lon)) {
-            setMapCenter([lat, lon]);
-          }
+      if (statusData.current_position && statusData.flying) {
+        const { lat, lon } = statusData.current_position;
+        if (isValidCoordinate(lat, lon)) {
+          setMapCenter([lat, lon]);
         }
       }
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error('Error fetching status:', error);
       setIsConnected(false);
     }
   };
 
   const handleCommand = async (
-    endpoint: string,
-    body: any,
-    loadingKey: string,
-    successMessage: string
+    loadingKey: AuditAction,
+    send: (options: CommandOptions) => Promise<ApiResponse>,
+    successMessage: string,
+    overrides: InterlockOverride[] = []
   ) => {
     if (simulationMode) {
       showToast('Simulation mode active - command not sent to real drone', 'info');
@@ -713,19 +771,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     setLoading(prev => ({ ...prev, [loadingKey]: true }));
     
     try {
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-      });
-      
-      const data = await response.json();
-      
-      if (response.status === 422) {
-        console.error('Validation error:', data);
-        showToast(`Validation failed: ${JSON.stringify(data.detail)}`, 'error');
-        return;
-      }
+      const data = await send(commandOptions(overrides));
       
       if (data.success) {
         showToast(successMessage, 'success');
@@ -751,8 +797,13 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         showToast(data.message || 'Command failed', 'error');
       }
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error(`Error executing ${loadingKey}:`, error);
-      showToast(`Failed to ${loadingKey}`, 'error');
+      if (error instanceof ApiError && error.status === 422) {
+        showToast(`Validation failed: ${error.message}`, 'error');
+      } else {
+        showToast(`Failed to ${loadingKey}: ${(error as Error).message}`, 'error');
+      }
     } finally {
       setLoading(prev => ({ ...prev, [loadingKey]: false }));
     }
@@ -764,6 +815,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
       setMissionUploaded(true);
       return;
     }
+    if (refuseUnless('mission_upload', 'execute_missions')) return;
 
     if (!currentMissionId) {
       showToast('Please select a mission first', 'error');
@@ -775,6 +827,37 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
       return;
     }
 
+    const lifecycleBlocker = selectedMission?.status
+      ? transitionBlocker({ status: selectedMission.status, waypoints: selectedMission.waypoints }, 'upload')
+      : null;
+    if (lifecycleBlocker) {
+      showToast(`❌ ${lifecycleBlocker}`, 'error');
+      return;
+    }
+
+    // Reject missions the autopilot would refuse, or that are unsafe to fly
+    await terrainService.restore();
+    const validationWaypoints = (selectedMission?.waypoints || []).map(wp => ({
+      ...wp,
+      lon: getWaypointLongitude(wp) ?? NaN
+    }));
+    const missionErrors = validateMission({
+      waypoints: validationWaypoints,
+      geofences: selectedMission?.geofences ?? NO_GEOFENCES,
+      vehicle: vehiclesData.find(vehicle => vehicle.id === selectedMission?.vehicleId),
+      estimatedBatteryUsage: selectedMission?.batteryUsage,
+      terrain: terrainService.hasData()
+        ? buildTerrainProfile(validationWaypoints, point => terrainService.elevationAt(point))
+        : null
+    }).filter(issue => issue.severity === 'error');
+
+    if (missionErrors.length > 0) {
+      console.error('❌ Mission failed pre-upload checks:', missionErrors);
+      const more = missionErrors.length > 1 ? ` (+${missionErrors.length - 1} more)` : '';
+      showToast(`❌ Mission checks failed: ${missionErrors[0].message}${more}`, 'error');
+      return;
+    }
+
     setLoading(prev => ({ ...prev, upload: true }));
     showToast('📤 Uploading mission to PX4 SITL...', 'info');
 
@@ -785,106 +868,16 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
 
       console.log(`📤 Uploading mission ${currentMissionId} with ${selectedMission.waypoints.length} waypoints`);
 
-      const waypoints = selectedMission.waypoints.map((wp, index) => {
-        const lng = getWaypointLongitude(wp);
-        
-        if (wp.lat === undefined || wp.lat === null || lng === undefined || lng === null) {
-          console.error(`❌ Invalid waypoint ${index}:`, wp);
-          throw new Error(`Invalid waypoint at index ${index}: missing lat or lon`);
-        }
-
-        const latitude = parseFloat(String(wp.lat));
-        const longitude = parseFloat(String(lng));
-        
-        let altitude = 10;
-        if (wp.alt !== null && wp.alt !== undefined && wp.alt !== '') {
-          const altNum = parseFloat(String(wp.alt));
-          if (!isNaN(altNum)) {
-            altitude = altNum;
-          }
-        }
-
-        if (isNaN(latitude) || isNaN(longitude) || isNaN(altitude)) {
-          console.error(`❌ Invalid conversion at waypoint ${index}:`, {
-            lat: wp.lat, lng, alt: wp.alt,
-            converted: { latitude, longitude, altitude }
-          });
-          throw new Error(`Invalid coordinate values at waypoint ${index}`);
-        }
-
-        return {
-          latitude: latitude,
-          longitude: longitude,
-          altitude: altitude
-        };
-      });
-
-      const cleanedWaypoints = waypoints.map((wp, idx) => {
-        const cleaned = {
-          latitude: parseFloat(String(wp.latitude)),
-          longitude: parseFloat(String(wp.longitude)),
-          altitude: parseFloat(String(wp.altitude))
-        };
-        
-        if (isNaN(cleaned.latitude) || isNaN(cleaned.longitude) || isNaN(cleaned.altitude)) {
-          console.error(`Final validation failed for waypoint ${idx}:`, cleaned);
-          throw new Error(`Waypoint ${idx} has invalid numeric values after cleaning`);
-        }
-        
-        return cleaned;
-      });
-
-      console.log(`✅ Prepared ${cleanedWaypoints.length} waypoints for upload`);
-
-      const payload = {
-        mission_id: String(currentMissionId),
-        vehicle_id: 'UAV-001',
-        waypoints: cleanedWaypoints,
-        connection_string: 'udp://127.0.0.1:14540'
-      };
-
-      if (payload.connection_string === null || payload.connection_string === undefined) {
-        delete (payload as any).connection_string;
-      }
-
-      const url = `${API_BASE}/api/v1/missions/upload-to-px4/${currentMissionId}`;
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 422 && data.detail) {
-          console.error('❌ Validation Error:', data.detail);
-          
-          let errorMsg = 'Validation failed:\n';
-          if (Array.isArray(data.detail)) {
-            data.detail.forEach((err: any) => {
-              errorMsg += `- ${err.loc?.join(' -> ')}: ${err.msg}\n`;
-            });
-          } else {
-            errorMsg = data.detail;
-          }
-          
-          showToast(errorMsg, 'error');
-          throw new Error(errorMsg);
-        }
-        
-        console.error('❌ Upload failed:', response.status, data);
-        throw new Error(data.detail || data.message || `HTTP ${response.status}: Upload failed`);
-      }
+      const data = await droneControlService.uploadMission(String(currentMissionId), validationWaypoints, commandOptions());
 
       if (data.success) {
-        const waypointCount = data.waypoint_count || data.data?.waypoint_count || waypoints.length;
+        const waypointCount = data.data?.waypoint_count ?? validationWaypoints.length;
+        const confirmed = data.data?.mission_item_count;
         console.log(`✅ Mission uploaded: ${waypointCount} waypoints`);
         showToast(`✅ Mission uploaded! ${waypointCount} waypoints transferred to PX4`, 'success');
         setMissionUploaded(true);
+        setUploadConfirmed(typeof confirmed === 'number' ? confirmed : null);
+        recordTransition('upload');
         
         setTimeout(async () => {
           await fetchStatus();
@@ -893,102 +886,63 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         throw new Error(data.message || 'Upload failed');
       }
     } catch (error: any) {
+      if (isCancelled(error)) return;
       console.error('❌ Error uploading mission:', error);
       showToast(`❌ Upload error: ${error.message || 'Network error'}`, 'error');
       setMissionUploaded(false);
+      setUploadConfirmed(null);
     } finally {
       setLoading(prev => ({ ...prev, upload: false }));
     }
   };
 
-  const handleStartMission = async () => {
+  const handleStartMission = async (overrides: InterlockOverride[] = []) => {
     if (simulationMode) {
       startSimulation();
       return;
     }
+    if (refuseUnless('mission_start', 'execute_missions')) return;
 
-    if (!missionUploaded) {
+    if (!missionOnVehicle) {
       showToast('Please upload mission to PX4 first', 'error');
       return;
     }
+
+    const geofenceBreached = geofenceBreaches.length > 0;
+    if (geofenceBreached && needsOverride('geofence_override', overrides)) {
+      requestOverride('geofence_override', override => latestHandlersRef.current?.handleStartMission([...overrides, override]));
+      return;
+    }
     
     setLoading(prev => ({ ...prev, start: true }));
     
+    // Sent once each; a timed-out start may still have reached the vehicle
+    const startMission = (force: boolean, startOverrides: InterlockOverride[]) =>
+      droneControlService.startMission(String(currentMissionId), force, { ...commandOptions(startOverrides), geofenceBreached });
+
     try {
-      const response = await fetch(`${API_BASE}/api/v1/missions/${currentMissionId}/start`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ force_start: false }),
-      });
+      const data = await startMission(false, overrides);
       
-      const data = await response.json();
-      
-      if (response.status === 400 && data.detail?.includes('already active')) {
-        setLoading(prev => ({ ...prev, start: false }));
-        
-        showConfirmationToast(
-          '⚠️ A mission is already active. Stop current mission and start new one?',
-          async () => {
-            setLoading(prev => ({ ...prev, start: true }));
-            showToast('Stopping current mission...', 'info');
-            
-            try {
-              const stopResponse = await fetch(`${API_BASE}/api/v1/missions/${currentMissionId}/stop`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ force_stop: true }),
-              });
-              
-              if (stopResponse.ok) {
-                showToast('✅ Current mission stopped', 'success');
-                
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                
-                showToast('Starting new mission...', 'info');
-                
-                const retryResponse = await fetch(`${API_BASE}/api/v1/missions/${currentMissionId}/start`, {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ force_start: true }),
-                });
-                
-                const retryData = await retryResponse.json();
-                
-                if (retryData.success) {
-                  showToast('✅ New mission started successfully', 'success');
-                  
-                  setTimeout(async () => {
-                    for (let i = 0; i < 3; i++) {
-                      await new Promise(resolve => setTimeout(resolve, 300));
-                      await fetchStatus();
-                    }
-                  }, 500);
-                } else {
-                  throw new Error(retryData.message || 'Failed to start mission after stop');
-                }
-              } else {
-                throw new Error('Failed to stop current mission');
-              }
-            } catch (stopError: any) {
-              showToast(`❌ Failed: ${stopError.message}`, 'error');
-            } finally {
-              setLoading(prev => ({ ...prev, start: false }));
-            }
-          },
-          () => {
-            showToast('Mission start cancelled', 'info');
-          }
-        );
-        
-        return;
-      } else if (!response.ok) {
-        throw new Error(data.detail || data.message || 'Failed to start mission');
-      } else if (data.success) {
+      if (data.success) {
         showToast('✅ Mission started successfully', 'success');
+        recordTransition('start');
       } else {
         throw new Error(data.message || 'Command failed');
       }
     } catch (error: any) {
+      if (isCancelled(error)) return;
+
+      if (error instanceof ApiError && error.status === 400 && error.message.includes('already active')) {
+        setLoading(prev => ({ ...prev, start: false }));
+
+        if (refuseUnless('mission_start', 'force_start', '⚠️ A mission is already active. ')) return;
+        
+        showToast('⚠️ A mission is already active', 'info');
+
+        handleForceStart(overrides.filter(override => override.interlock !== 'force_start'));
+        return;
+      }
+
       console.error('Error starting mission:', error);
       showToast(`❌ Failed to start mission: ${error.message}`, 'error');
     } finally {
@@ -1003,6 +957,60 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     }
   };
 
+  // Stop the active mission and start this one. The stop goes out first, so
+  // every interlock the new start needs is checked before it; the first
+  // attempt spent any geofence approval, so that one is asked for again.
+  const handleForceStart = async (retryOverrides: InterlockOverride[]) => {
+    const geofenceBreached = geofenceBreaches.length > 0;
+    const needed: InterlockId[] = geofenceBreached ? ['force_start', 'geofence_override'] : ['force_start'];
+    for (const id of needed) {
+      const override = retryOverrides.find(candidate => candidate.interlock === id);
+      const blocker = interlockService.blocker(id, override);
+      if (blocker) {
+        if (override) showToast(`⚠️ ${blocker}`, 'info');
+        requestOverride(id, fresh => latestHandlersRef.current?.handleForceStart([...retryOverrides.filter(candidate => candidate.interlock !== id), fresh]));
+        return;
+      }
+    }
+
+    setLoading(prev => ({ ...prev, start: true }));
+    showToast('Stopping current mission...', 'info');
+    
+    try {
+      await droneControlService.stopMission(String(currentMissionId), true, commandOptions());
+      showToast('✅ Current mission stopped', 'success');
+      
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      showToast('Starting new mission...', 'info');
+      
+      const retryData = await droneControlService.startMission(
+        String(currentMissionId),
+        true,
+        { ...commandOptions(retryOverrides), geofenceBreached }
+      );
+      
+      if (retryData.success) {
+        showToast('✅ New mission started successfully', 'success');
+        recordTransition('start');
+        
+        setTimeout(async () => {
+          for (let i = 0; i < 3; i++) {
+            await new Promise(resolve => setTimeout(resolve, 300));
+            await fetchStatus();
+          }
+        }, 500);
+      } else {
+        throw new Error(retryData.message || 'Failed to start mission after stop');
+      }
+    } catch (stopError: any) {
+      if (isCancelled(stopError)) return;
+      showToast(`❌ Failed: ${stopError.message}`, 'error');
+    } finally {
+      setLoading(prev => ({ ...prev, start: false }));
+    }
+  };
+
   const handleStopMission = async () => {
     if (simulationMode) {
       stopSimulation();
@@ -1018,20 +1026,11 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     showToast('Stopping mission...', 'info');
 
     try {
-      const response = await fetch(`${API_BASE}/api/v1/missions/${currentMissionId}/stop`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ force_stop: false }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.detail || data.message || 'Failed to stop mission');
-      }
+      const data = await droneControlService.stopMission(String(currentMissionId), false, commandOptions());
 
       if (data.success) {
         showToast('✅ Mission stopped successfully', 'success');
+        recordTransition('abort', 'Stopped from flight control');
         
         setTimeout(async () => {
           for (let i = 0; i < 3; i++) {
@@ -1043,6 +1042,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         throw new Error(data.message || 'Stop command failed');
       }
     } catch (error: any) {
+      if (isCancelled(error)) return;
       console.error('Error stopping mission:', error);
       showToast(`❌ Failed to stop mission: ${error.message}`, 'error');
     } finally {
@@ -1069,55 +1069,82 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   const lastTelemetryTimeRef = useRef<number>(Date.now());
   const dataFlowIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const handleArm = () => {
+  // Force-arming skips the autopilot's pre-arm checks, never the pre-flight
+  // checklist, whose geofence_clear item holds arming while a geofence is breached
+  const handleArm = async (forceArm: boolean = false, overrides: InterlockOverride[] = []) => {
+    if (refuseUnless('arm', 'control_vehicle')) return;
     if (!currentMissionId) {
       showToast('No mission selected. Please load a mission first.', 'error');
       return;
     }
+    const preflight = currentPreflightResults();
+    const hold = preflightBlocker(preflight);
+    if (hold) {
+      showToast(`Pre-flight checklist incomplete: ${hold.label}`, 'error');
+      return;
+    }
+    if (forceArm && needsOverride('force_arm', overrides)) {
+      requestOverride('force_arm', override => latestHandlersRef.current?.handleArm(forceArm, [...overrides, override]));
+      return;
+    }
+    if (!(await savePreflight(preflight))) return;
     handleCommand(
-      '/api/v1/vehicle/arm',
-      { mission_id: String(currentMissionId), force_arm: false },
       'arm',
-      '✅ Vehicle armed successfully'
+      options => droneControlService.armVehicle(String(currentMissionId), forceArm, options),
+      forceArm ? '⚠️ Vehicle force-armed' : '✅ Vehicle armed successfully',
+      overrides
     );
   };
 
-  const handleDisarm = () => {
+  const handleDisarm = (overrides: InterlockOverride[] = []) => {
     if (!currentMissionId) {
       showToast('No mission selected', 'error');
       return;
     }
+    if (status?.flying && needsOverride('disarm_in_flight', overrides)) {
+      requestOverride('disarm_in_flight', override => latestHandlersRef.current?.handleDisarm([...overrides, override]));
+      return;
+    }
     handleCommand(
-      '/api/v1/vehicle/disarm',
-      { mission_id: String(currentMissionId) },
       'disarm',
-      '✅ Vehicle disarmed successfully'
+      options => droneControlService.disarmVehicle(String(currentMissionId), options),
+      '✅ Vehicle disarmed successfully',
+      overrides
     );
   };
 
+  // The interlock dialog can stay open well past PREFLIGHT_CONFIG.telemetryMaxAge,
+  // so confirming runs the command again as of the latest render
+  useEffect(() => {
+    latestHandlersRef.current = { handleArm, handleDisarm, handleStartMission, handleForceStart };
+  });
+
   const handleTakeoff = () => {
+    if (refuseUnless('takeoff', 'control_vehicle')) return;
+    const hold = preflightBlocker(currentPreflightResults());
+    if (hold) {
+      showToast(`Pre-flight checklist no longer passes: ${hold.label}`, 'error');
+      return;
+    }
     handleCommand(
-      '/api/v1/vehicle/takeoff',
-      { mission_id: String(currentMissionId), altitude: takeoffAltitude },
       'takeoff',
+      options => droneControlService.takeoff(String(currentMissionId), takeoffAltitude, options),
       `✅ Takeoff initiated to ${takeoffAltitude}m`
     );
   };
 
   const handleLand = () => {
     handleCommand(
-      '/api/v1/vehicle/land',
-      { mission_id: String(currentMissionId) },
       'land',
+      options => droneControlService.land(String(currentMissionId), options),
       '✅ Landing initiated'
     );
   };
 
   const handleRTL = () => {
     handleCommand(
-      '/api/v1/vehicle/rtl',
-      { mission_id: String(currentMissionId) },
       'rtl',
+      options => droneControlService.returnToLaunch(String(currentMissionId), options),
       '✅ Return to launch initiated'
     );
   };
@@ -1133,17 +1160,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
       setLoading(prev => ({ ...prev, connect: true }));
       showToast('Connecting to simulator...', 'info');
       
-      const response = await fetch(`${API_BASE}/connect`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ detail: 'Connection failed' }));
-        throw new Error(errorData.detail || 'Failed to connect');
-      }
-      
-      const data = await response.json();
+      const data = await droneControlService.connect({ signal: requestSignal() });
       
       if (data.success) {
         showToast('✅ Connected to PX4 SITL', 'success');
@@ -1155,6 +1172,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         throw new Error(data.message || 'Connection failed');
       }
     } catch (error: any) {
+      if (isCancelled(error)) return;
       console.error('❌ Connection error:', error);
       showToast(
         error.message || 'Failed to connect to simulator. Check if PX4 SITL is running.',
@@ -1193,104 +1211,6 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     }, 3000);
   };
 
-  const showConfirmationToast = (
-    message: string, 
-    onConfirm: () => void, 
-    onCancel: () => void
-  ) => {
-    const toast = document.createElement('div');
-    toast.className = 'toast toast-confirmation';
-    toast.style.cssText = `
-      position: fixed;
-      top: 20px;
-      right: 20px;
-      padding: 16px 20px;
-      background: #f59e0b;
-      color: white;
-      border-radius: 8px;
-      z-index: 10000;
-      animation: slideIn 0.3s ease;
-      box-shadow: 0 4px 12px rgba(0,0,0,0.3);
-      min-width: 400px;
-      max-width: 500px;
-    `;
-    
-    const messageDiv = document.createElement('div');
-    messageDiv.textContent = message;
-    messageDiv.style.cssText = `
-      margin-bottom: 12px;
-      font-size: 14px;
-      line-height: 1.5;
-    `;
-    
-    const buttonsDiv = document.createElement('div');
-    buttonsDiv.style.cssText = `
-      display: flex;
-      gap: 8px;
-      justify-content: flex-end;
-    `;
-    
-    const confirmButton = document.createElement('button');
-    confirmButton.textContent = 'Stop & Start New';
-    confirmButton.style.cssText = `
-      padding: 8px 16px;
-      background: #ef4444;
-      color: white;
-      border: none;
-      border-radius: 6px;
-      cursor: pointer;
-      font-weight: 600;
-      font-size: 13px;
-      transition: background 0.2s;
-    `;
-    confirmButton.onmouseover = () => confirmButton.style.background = '#dc2626';
-    confirmButton.onmouseout = () => confirmButton.style.background = '#ef4444';
-    confirmButton.onclick = () => {
-      document.body.removeChild(toast);
-      onConfirm();
-    };
-    
-    const cancelButton = document.createElement('button');
-    cancelButton.textContent = 'Cancel';
-    cancelButton.style.cssText = `
-      padding: 8px 16px;
-      background: rgba(255,255,255,0.2);
-      color: white;
-      border: 1px solid rgba(255,255,255,0.3);
-      border-radius: 6px;
-      cursor: pointer;
-      font-weight: 600;
-      font-size: 13px;
-      transition: background 0.2s;
-    `;
-    cancelButton.onmouseover = () => cancelButton.style.background = 'rgba(255,255,255,0.3)';
-    cancelButton.onmouseout = () => cancelButton.style.background = 'rgba(255,255,255,0.2)';
-    cancelButton.onclick = () => {
-      toast.style.animation = 'slideOut 0.3s ease';
-      setTimeout(() => document.body.removeChild(toast), 300);
-      onCancel();
-    };
-    
-    buttonsDiv.appendChild(cancelButton);
-    buttonsDiv.appendChild(confirmButton);
-    
-    toast.appendChild(messageDiv);
-    toast.appendChild(buttonsDiv);
-    document.body.appendChild(toast);
-    
-    setTimeout(() => {
-      if (document.body.contains(toast)) {
-        toast.style.animation = 'slideOut 0.3s ease';
-        setTimeout(() => {
-          if (document.body.contains(toast)) {
-            document.body.removeChild(toast);
-          }
-        }, 300);
-        onCancel();
-      }
-    }, 10000);
-  };
-
   // ============================================================================
   // CUSTOM ICONS - QGC STYLE
   // ============================================================================
@@ -1458,16 +1378,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         setLoading(prev => ({ ...prev, connect: true }));
         showToast('Connecting to simulator...', 'info');
         
-        const response = await fetch(`${API_BASE}/connect`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to connect');
-        }
-        
-        const data = await response.json();
+        const data = await droneControlService.connect({ signal: requestSignal() });
         
         if (data.success && isMounted) {
           showToast('✅ Connected to PX4 SITL', 'success');
@@ -1502,12 +1413,13 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         clearInterval(simulationInterval.current);
       }
     };
-  }, [simulationMode]);
+  }, [simulationMode, requestSignal]);
 
   useEffect(() => {
     if (selectedMission?.id) {
       setCurrentMissionId(selectedMission.id);
       setMissionUploaded(false);
+      setUploadConfirmed(null);
       const newCenter = getDefaultPosition();
       setMapCenter(newCenter);
       showToast(`Mission "${selectedMission.name}" loaded`, 'success');
@@ -1515,34 +1427,201 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
       // Initialize waypoint statuses
       initializeWaypointStatuses();
       
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({
-          action: 'subscribe',
-          mission_id: selectedMission.id
-        }));
+      // Move the live subscription over to the new mission
+      if (telemetryUnsubscribeRef.current) {
+        disconnectWebSocket();
+        connectWebSocket(selectedMission.id);
       }
     }
   }, [selectedMission?.id]);
 
+  // ============================================================================
+  // FLIGHT RECORDING & REPLAY
+  // ============================================================================
+
+  const handleToggleRecording = async () => {
+    const recorder = recorderRef.current;
+
+    if (recorder.isRecording()) {
+      const recording = await recorder.stop();
+      setIsRecording(false);
+      if (recording) {
+        setLastRecording(recording);
+        downloadFlightRecording(recording);
+        showToast(`💾 Flight session saved (${recording.session.frames.length} frames)`, 'success');
+      }
+      return;
+    }
+
+    recorder.start({ missionId: currentMissionId, missionName: selectedMission?.name });
+    setRecordingStats({ frames: 0, elapsed: 0 });
+    setIsRecording(true);
+    showToast('⏺️ Recording flight telemetry and video', 'info');
+  };
+
+  const handleVideoElement = useCallback((element: HTMLVideoElement | HTMLImageElement | null) => {
+    recorderRef.current.setVideoSource(element);
+  }, []);
+
+  const startReplay = (session: FlightSession, video: Blob | null) => {
+    setReplay({ session, videoUrl: video ? URL.createObjectURL(video) : null });
+    setReplayTime(0);
+    setReplayPlaying(false);
+
+    const firstFix = session.frames.find(frame =>
+      isValidCoordinate(frame.telemetry.position?.lat, frame.telemetry.position?.lon)
+    );
+    if (firstFix?.telemetry.position) {
+      setMapCenter([firstFix.telemetry.position.lat, firstFix.telemetry.position.lon]);
+    }
+
+    console.log(`▶️ Replaying flight session ${session.id} (${session.frames.length} frames)`);
+  };
+
+  const handleLoadSession = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const sessionFile = files.find(file => file.name.toLowerCase().endsWith('.json'));
+    if (!sessionFile) {
+      showToast('Select a flight session (.json) file', 'error');
+      return;
+    }
+
+    try {
+      const session = parseFlightSession(await sessionFile.text());
+      const videoFile = files.find(file => file.type.startsWith('video/')) ?? null;
+      startReplay(session, videoFile);
+      showToast(`▶️ Loaded ${session.frames.length} recorded frames`, 'success');
+    } catch (error: any) {
+      console.error('❌ Failed to load flight session:', error);
+      showToast(error.message || 'Failed to load flight session', 'error');
+    }
+  };
+
+  const handleLoadReplayVideo = (file: File) => {
+    setReplay(prev => prev ? { ...prev, videoUrl: URL.createObjectURL(file) } : prev);
+  };
+
+  const exitReplay = () => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setReplayTime(0);
+  };
+
+  // Live recording counter
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setRecordingStats({
+        frames: recorderRef.current.getFrameCount(),
+        elapsed: recorderRef.current.getElapsed()
+      });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Discard an unfinished recording when leaving the monitor
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    return () => {
+      recorder.stop();
+    };
+  }, []);
+
+  // Advance the replay timeline
+  useEffect(() => {
+    if (!replay || !replayPlaying) return;
+    const duration = replay.session.duration;
+
+    const interval = setInterval(() => {
+      setReplayTime(prev => {
+        const next = prev + REPLAY_TICK_MS * replaySpeed;
+        if (next >= duration) {
+          setReplayPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, REPLAY_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [replay, replayPlaying, replaySpeed]);
+
+  // Release the object URL of a replaced or closed replay video
+  const replayVideoUrl = replay?.videoUrl ?? null;
+  useEffect(() => {
+    return () => {
+      if (replayVideoUrl) URL.revokeObjectURL(replayVideoUrl);
+    };
+  }, [replayVideoUrl]);
+
+  const replayFrames = useMemo(() => replay?.session.frames ?? [], [replay]);
+  const replayPositionFrames = useMemo(
+    () => replayFrames.filter(frame => frame.telemetry.position),
+    [replayFrames]
+  );
+  const replayFrameIndex = replay ? findFrameIndex(replayFrames, replayTime) : -1;
+  const replayFrame = replayFrameIndex >= 0 ? replayFrames[replayFrameIndex] : null;
+
+  // Seconds into the recorded video that match the timeline position
+  const replayVideoTime = replayFrame && replayFrame.videoTime !== null
+    ? replayFrame.videoTime + (replayTime - replayFrame.t) / 1000
+    : null;
+
+  // While replaying, the map, telemetry panel and HUD show the recorded frame instead of live data
+  const viewTelemetry: TelemetryData | null = replay
+    ? replayFrame?.telemetry ?? null
+    : telemetry;
+  const viewStatus: DroneStatus | null = replay
+    ? (replayFrame?.status as DroneStatus | undefined) ?? null
+    : status;
+  const viewFlightPath: FlightPath[] = replay
+    ? replayPositionFrames
+        .slice(0, findFrameIndex(replayPositionFrames, replayTime) + 1)
+        .map(frame => ({ ...frame.telemetry.position!, timestamp: frame.t }))
+    : flightPath;
+
+  // ============================================================================
+  // GEOFENCE MONITORING
+  // ============================================================================
+
+  const geofences = selectedMission?.geofences ?? NO_GEOFENCES;
+  const { breaches: geofenceBreaches, breachedFenceIds } = useGeofenceMonitor({
+    geofences,
+    // Fence floors and ceilings are relative to home
+    position: viewTelemetry?.position
+      ? {
+          lat: viewTelemetry.position.lat,
+          lon: viewTelemetry.position.lon,
+          alt: viewTelemetry.position.relative_alt ?? viewTelemetry.position.alt
+        }
+      : null,
+    onBreach: (breach) => showToast(`🚧 Geofence breach: ${breach.message}`, 'error'),
+    onClear: () => showToast('✅ Vehicle back inside geofence limits', 'success')
+  });
+  const outsideInclusion = geofenceBreaches.some(breach => breach.kind === 'outside_inclusion');
+
   // ============================================================================
   // RENDER HELPERS
   // ============================================================================
 
+  // The status endpoint reports 0,0 until the vehicle is connected, so only trust it then
   const dronePosition: [number, number] = getValidPosition(
-    telemetry?.position?.lat,
-    telemetry?.position?.lon,
-    status?.current_position?.lat,
-    status?.current_position?.lon
+    viewTelemetry?.position?.lat,
+    viewTelemetry?.position?.lon,
+    viewStatus?.connected ? viewStatus.current_position?.lat : undefined,
+    viewStatus?.connected ? viewStatus.current_position?.lon : undefined
   );
 
   const homePosition: [number, number] = getValidPosition(
     undefined,
     undefined,
-    status?.home_position?.lat,
-    status?.home_position?.lon
+    status?.connected ? status.home_position?.lat : undefined,
+    status?.connected ? status.home_position?.lon : undefined
   );
 
-  const pathCoordinates: [number, number][] = flightPath
+  const pathCoordinates: [number, number][] = viewFlightPath
     .filter(point => isValidCoordinate(point.lat, point.lon))
     .map(point => [point.lat, point.lon]);
 
@@ -1563,34 +1642,20 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   const [lastTelemetryUpdate, setLastTelemetryUpdate] = useState<number>(Date.now());
   const [updateFrequency, setUpdateFrequency] = useState<number>(0);
   const [telemetryPulse, setTelemetryPulse] = useState<boolean>(false);
+  const [rejectedFrames, setRejectedFrames] = useState<number>(0);
   const updateCountRef = useRef<number>(0);
   const updateTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  const handleTelemetryUpdate = (data: any) => {
+  // Frames arrive validated and canonical, so a 0 coordinate here is a real position
+  const handleTelemetryUpdate = (frame: TelemetryData) => {
     try {
-      // ⭐ DEFENSIVE CHECK: Ensure data exists
-      if (!data) {
-        console.warn('⚠️ Received empty telemetry data');
-        return;
-      }
-      
-      console.log('📡 Raw telemetry data:', data);
-      
-      // Extract position from various possible structures
-      const position = data.position || data.current_position || null;
-      
-      // ⭐ Update telemetry state with fallbacks
-      setTelemetry({
-        timestamp: data.timestamp || new Date().toISOString(),
-        position: position,
-        velocity: data.velocity || null,
-        attitude: data.attitude || null,
-        battery: data.battery || null,
-        gps: data.gps || null,
-        armed: data.armed ?? null,
-        mode: data.mode || null,
-        mission_current: data.mission_current ?? null,
-        mission_count: data.mission_count ?? null
+      setTelemetry(frame);
+
+      recordFrame(frame, {
+        ...(frame.armed !== undefined && { armed: frame.armed }),
+        ...(frame.flight_mode && { flight_mode: frame.flight_mode }),
+        ...(frame.mission_current !== undefined && { mission_current: frame.mission_current }),
+        ...(frame.mission_count !== undefined && { mission_count: frame.mission_count })
       });
       
       // ⭐ Update timestamp and pulse effect
@@ -1601,54 +1666,33 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
       // ⭐ Increment update counter for frequency calculation
       updateCountRef.current += 1;
       
-      // ⭐ Update drone position with comprehensive validation
-      if (position) {
-        const lat = position.lat ?? position.latitude;
-        const lon = position.lon ?? position.longitude;
-        const alt = position.alt ?? position.altitude ?? 0;
-        
-        if (lat !== undefined && lon !== undefined && 
-            !isNaN(lat) && !isNaN(lon) &&
-            lat !== 0 && lon !== 0 &&
-            lat >= -90 && lat <= 90 && 
-            lon >= -180 && lon <= 180) {
-          
-          const newPosition = { lat, lon, alt };
-          setDronePosition(newPosition);
-          
-          // Add to flight path
-          setFlightPath(prev => {
-            const newPath = [...prev, {
-              lat: newPosition.lat,
-              lon: newPosition.lon,
-              timestamp: Date.now()
-            }];
-            return newPath.slice(-500); // Keep last 500 points
-          });
-          
-          console.log('✅ Updated position:', newPosition);
-        } else {
-          console.warn('⚠️ Invalid position coordinates:', { lat, lon, alt });
-        }
-      } else {
-        console.warn('⚠️ Position data missing');
+      if (frame.position) {
+        const { lat, lon, alt } = frame.position;
+
+        // Add to flight path
+        setFlightPath(prev => {
+          const newPath = [...prev, { lat, lon, alt, timestamp: Date.now() }];
+          return newPath.slice(-500); // Keep last 500 points
+        });
       }
       
       // Update mission progress
-      if (data.mission_current !== undefined && data.mission_count !== undefined) {
-        setMissionProgress({
-          current: data.mission_current,
-          total: data.mission_count
-        });
-        console.log('✅ Mission progress:', data.mission_current, '/', data.mission_count);
+      if (frame.mission_current !== undefined && frame.mission_count) {
+        setMissionProgress((frame.mission_current / frame.mission_count) * 100);
       }
       
     } catch (error) {
       console.error('❌ Error handling telemetry update:', error);
-      console.error('Problematic data:', data);
+      console.error('Problematic frame:', frame);
     }
   };
 
+  // Malformed frames are counted and shown instead of being drawn at 0,0
+  const handleInvalidFrame = (error: TelemetryValidationError) => {
+    setRejectedFrames(prev => prev + 1);
+    console.warn('⚠️ Telemetry frame rejected:', error.issues);
+  };
+
   useEffect(() => {
     updateTimerRef.current = setInterval(() => {
       setUpdateFrequency(updateCountRef.current);
@@ -1695,6 +1739,107 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     return `${minutes}m ${secs}s`;
   };
 
+  // ============================================================================
+  // PRE-FLIGHT CHECKLIST
+  // ============================================================================
+
+  const preflightChecklist = useMemo(
+    () => checklistFor(selectedMission?.missionType, selectedMission?.vehicleId),
+    [selectedMission?.missionType, selectedMission?.vehicleId]
+  );
+
+  // Live data only, never a replay. The vehicle reports home as 0,0 until it has one.
+  const preflightInputs = (): PreflightInputs => {
+    const home = status?.connected ? status.home_position : undefined;
+    return {
+      telemetry,
+      telemetryReceivedAt: lastTelemetryUpdate,
+      home: home && isValidCoordinate(home.lat, home.lon) && (home.lat !== 0 || home.lon !== 0)
+        ? { lat: home.lat, lon: home.lon }
+        : null,
+      // The vehicle's own mission count covers uploads made anywhere; the upload reply is the fallback
+      upload: missionOnVehicle
+        ? {
+            sent: missionItemTotal,
+            confirmed: status?.connected && status.mission_count > 0 ? status.mission_count : uploadConfirmed
+          }
+        : null,
+      geofenceBreaches: geofenceBreaches.length
+    };
+  };
+
+  const preflightResults = evaluatePreflight(preflightChecklist, preflightInputs(), preflightSignOffs, preflightNow);
+  // Nothing is sent in simulation mode, so nothing is held back
+  const preflightHold = simulationMode ? null : preflightBlocker(preflightResults);
+  const preflightHoldReason = preflightHold
+    ? `Pre-flight checklist: ${preflightHold.label}${preflightHold.detail ? ` (${preflightHold.detail})` : ''}`
+    : undefined;
+
+  // Re-check once a second so stale telemetry fails the checks that read it
+  useEffect(() => {
+    if (simulationMode || !isConnected || status?.flying) return;
+    const timer = setInterval(() => setPreflightNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [simulationMode, isConnected, status?.flying]);
+
+  // A new mission or vehicle starts a fresh checklist
+  useEffect(() => {
+    setPreflightSignOffs({});
+  }, [currentMissionId, selectedMission?.vehicleId]);
+
+  // Sign-offs cover one flight: they are cleared once the vehicle disarms
+  const wasArmedRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (wasArmedRef.current && !status?.armed) setPreflightSignOffs({});
+    wasArmedRef.current = !!status?.armed;
+  }, [status?.armed]);
+
+  const signOffPreflightItem = (itemId: string) => {
+    if (!currentUser) {
+      showToast('Sign in to sign off pre-flight items', 'error');
+      return;
+    }
+    const actor = { id: currentUser.id, name: currentUser.name, role: currentUser.role };
+    setPreflightSignOffs(prev => ({ ...prev, [itemId]: { actor, at: new Date().toISOString() } }));
+  };
+
+  const revokePreflightItem = (itemId: string) => {
+    setPreflightSignOffs(prev => {
+      const { [itemId]: _revoked, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // The checklist as it stands this moment; the hold on the buttons can be up to a second old
+  const currentPreflightResults = () => evaluatePreflight(preflightChecklist, preflightInputs(), preflightSignOffs);
+
+  // Arming waits until the completed checklist is stored with the mission
+  const savePreflight = async (results: PreflightItemResult[]): Promise<boolean> => {
+    const missionId = Number(currentMissionId);
+    if (!Number.isInteger(missionId)) {
+      showToast(`❌ Mission ${currentMissionId} is not a saved mission, so its pre-flight checklist cannot be stored`, 'error');
+      return false;
+    }
+    if (!currentUser) {
+      showToast('Sign in to complete the pre-flight checklist', 'error');
+      return false;
+    }
+
+    setLoading(prev => ({ ...prev, arm: true }));
+    try {
+      const record = preflightRecord(preflightChecklist, results, currentUser, selectedMission?.vehicleId ?? DEFAULT_VEHICLE_ID);
+      await recordPreflight(missionId, record, { signal: requestSignal() });
+      return true;
+    } catch (error) {
+      if (isCancelled(error)) return false;
+      console.error('Error saving pre-flight checklist:', error);
+      showToast(`❌ Pre-flight checklist not saved: ${(error as Error).message}`, 'error');
+      return false;
+    } finally {
+      setLoading(prev => ({ ...prev, arm: false }));
+    }
+  };
+
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -1748,8 +1893,8 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
                   <div className="h-4 w-px bg-gray-700"></div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs text-gray-400">Status:</span>
-                    <span className={`text-sm font-semibold ${missionUploaded ? 'text-green-400' : 'text-orange-400'}`}>
-                      {missionUploaded ? '✓ Uploaded' : '⚠ Not Uploaded'}
+                    <span className={`text-sm font-semibold ${missionOnVehicle ? 'text-green-400' : 'text-orange-400'}`}>
+                      {missionOnVehicle ? '✓ Uploaded' : '⚠ Not Uploaded'}
                     </span>
                   </div>
                 </div>
@@ -1786,6 +1931,67 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
               )}
             </div>
 
+            {/* Camera Feed Toggle */}
+            <button
+              onClick={() => setShowVideoFeed(!showVideoFeed)}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${
+                showVideoFeed
+                  ? 'bg-blue-600/20 border-blue-500 text-blue-400'
+                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+              }`}
+              title={showVideoFeed ? 'Hide camera feed' : 'Show camera feed'}
+            >
+              <Video size={16} />
+              <span className="text-sm">Camera</span>
+            </button>
+
+            {/* Flight Recording */}
+            <button
+              onClick={handleToggleRecording}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${
+                isRecording
+                  ? 'bg-red-600/20 border-red-500 text-red-400'
+                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+              }`}
+              title={isRecording ? 'Stop recording and save the session' : 'Record telemetry and video to a session file'}
+            >
+              {isRecording ? <Square size={14} /> : <Circle size={14} className="fill-red-500 text-red-500" />}
+              <span className="text-sm">
+                {isRecording
+                  ? `${formatETA(recordingStats.elapsed / 1000)} · ${recordingStats.frames}`
+                  : 'Record'}
+              </span>
+            </button>
+
+            {/* Flight Replay */}
+            <input
+              ref={sessionInputRef}
+              type="file"
+              accept=".json,application/json,video/*"
+              multiple
+              className="hidden"
+              onChange={handleLoadSession}
+            />
+            <div className="flex items-center rounded-lg border border-gray-700 bg-gray-800 overflow-hidden">
+              <button
+                onClick={() => sessionInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 text-gray-400 hover:bg-gray-700 transition-colors"
+                title="Open a recorded session (select the .json file and, optionally, its video)"
+              >
+                <History size={16} />
+                <span className="text-sm">Replay</span>
+              </button>
+              {lastRecording && (
+                <button
+                  onClick={() => startReplay(lastRecording.session, lastRecording.video)}
+                  className="px-3 py-2 text-xs text-purple-400 border-l border-gray-700 hover:bg-gray-700 transition-colors"
+                  title="Replay the session you just recorded"
+                >
+                  Last
+                </button>
+              )}
+            </div>
+
             {/* Connection Status */}
             <div className="flex items-center gap-2 px-3 py-2 bg-gray-800 rounded-lg border border-gray-700">
               <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
@@ -1852,6 +2058,27 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             </div>
           </div>
         )}
+
+        {/* Flight Replay Timeline */}
+        {replay && (
+          <FlightReplayControls
+            session={replay.session}
+            currentTime={replayTime}
+            playing={replayPlaying}
+            speed={replaySpeed}
+            hasVideo={replay.videoUrl !== null}
+            onSeek={setReplayTime}
+            onTogglePlay={() => {
+              if (!replayPlaying && replayTime >= replay.session.duration) {
+                setReplayTime(0);
+              }
+              setReplayPlaying(!replayPlaying);
+            }}
+            onSpeedChange={setReplaySpeed}
+            onLoadVideo={handleLoadReplayVideo}
+            onExit={exitReplay}
+          />
+        )}
       </div>
 
       <div className="flex flex-1 overflow-hidden">
@@ -1865,10 +2092,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
           >
             <MapUpdater center={mapCenter} zoom={mapZoom} />
             
-            <TileLayer
-              url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-              attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-            />
+            <OfflineTileLayer source={IMAGERY_SOURCE} />
             
             {pathCoordinates.length > 1 && (
               <Polyline
@@ -1880,6 +2104,41 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
               />
             )}
 
+            {geofences.map(fence => {
+              const breached = breachedFenceIds.has(fence.id) || (fence.mode === 'inclusion' && outsideInclusion);
+              const color = breached ? GEOFENCE_COLORS.breached : GEOFENCE_COLORS[fence.mode];
+              const pathOptions = {
+                color,
+                weight: breached ? 4 : 2,
+                fillColor: color,
+                fillOpacity: fence.mode === 'exclusion' ? 0.25 : 0.08,
+                dashArray: fence.mode === 'exclusion' ? '6, 6' : undefined
+              };
+              const band = fence.floor === undefined && fence.ceiling === undefined
+                ? 'All altitudes'
+                : `${fence.floor ?? 0} – ${fence.ceiling ?? '∞'} m`;
+              const tooltip = <Tooltip sticky>{fence.name} · {band}</Tooltip>;
+
+              return fence.shape === 'circle' ? (
+                <LeafletCircle
+                  key={fence.id}
+                  center={[fence.center.lat, fence.center.lon]}
+                  radius={fence.radius}
+                  pathOptions={pathOptions}
+                >
+                  {tooltip}
+                </LeafletCircle>
+              ) : (
+                <Polygon
+                  key={fence.id}
+                  positions={fence.vertices.map(v => [v.lat, v.lon] as [number, number])}
+                  pathOptions={pathOptions}
+                >
+                  {tooltip}
+                </Polygon>
+              );
+            })}
+
             {validWaypoints.length > 0 && (
               <>
                 {validWaypoints.map((wp, index) => {
@@ -1933,9 +2192,9 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             <Marker
               position={dronePosition}
               icon={createDroneIcon(
-                status?.armed || false,
-                status?.flying || false,
-                telemetry?.attitude?.yaw || 0
+                viewStatus?.armed || false,
+                viewStatus?.flying || false,
+                viewTelemetry?.attitude?.yaw || 0
               )}
             >
               <Popup>
@@ -1943,19 +2202,19 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
                   <strong>UAV Position</strong><br />
                   Lat: {dronePosition[0].toFixed(6)}<br />
                   Lon: {dronePosition[1].toFixed(6)}<br />
-                  Alt: {(telemetry?.position?.alt || 0).toFixed(1)} m<br />
-                  {telemetry?.attitude && (
+                  Alt: {(viewTelemetry?.position?.alt || 0).toFixed(1)} m<br />
+                  {viewTelemetry?.attitude && (
                     <>
-                      Roll: {telemetry.attitude.roll.toFixed(1)}°<br />
-                      Pitch: {telemetry.attitude.pitch.toFixed(1)}°<br />
-                      Yaw: {telemetry.attitude.yaw.toFixed(1)}°<br />
+                      Roll: {viewTelemetry.attitude.roll.toFixed(1)}°<br />
+                      Pitch: {viewTelemetry.attitude.pitch.toFixed(1)}°<br />
+                      Yaw: {viewTelemetry.attitude.yaw.toFixed(1)}°<br />
                     </>
                   )}
-                  {telemetry?.velocity && (
+                  {viewTelemetry?.velocity && (
                     <>
                       Speed: {Math.sqrt(
-                        telemetry.velocity.vx ** 2 + 
-                        telemetry.velocity.vy ** 2
+                        viewTelemetry.velocity.vx ** 2 + 
+                        viewTelemetry.velocity.vy ** 2
                       ).toFixed(2)} m/s
                     </>
                   )}
@@ -1964,24 +2223,62 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             </Marker>
 
             {/* Velocity Vector */}
-            {telemetry?.velocity && (status?.flying || simulationRunning) && (
+            {viewTelemetry?.velocity && (viewStatus?.flying || (!replay && simulationRunning)) && (
               <VelocityVector
                 position={dronePosition}
-                velocity={telemetry.velocity}
+                velocity={viewTelemetry.velocity}
                 color="#22c55e"
               />
             )}
           </MapContainer>
 
+          {/* Geofence Breach Warning */}
+          {geofenceBreaches.length > 0 && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] px-4 py-2 bg-red-900/90 border border-red-500 rounded-lg shadow-lg animate-pulse">
+              <div className="flex items-center gap-2 text-red-100 text-sm font-semibold">
+                <ShieldAlert size={18} />
+                GEOFENCE BREACH{replay ? ' (REPLAY)' : ''}
+              </div>
+              {geofenceBreaches.map(breach => (
+                <div key={`${breach.fenceId}-${breach.kind}`} className="text-xs text-red-200 mt-1">
+                  {breach.message}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Telemetry Display */}
           <TelemetryDisplay 
-            telemetry={telemetry}
-            status={status}
+            telemetry={viewTelemetry}
+            status={viewStatus}
             wsConnected={wsConnected || simulationMode}
             lastUpdate={lastTelemetryUpdate}     
             updateFrequency={updateFrequency}     
             isPulsing={telemetryPulse}            
           />
+
+          {/* Live Camera Feed */}
+          {showVideoFeed && (
+            <VideoFeed
+              className="absolute bottom-4 left-4 z-[1000]"
+              onMediaElementChange={handleVideoElement}
+              replay={replay && {
+                src: replay.videoUrl,
+                time: replayVideoTime,
+                playing: replayPlaying,
+                rate: replaySpeed
+              }}
+            >
+              {VIDEO_CONFIG.enableOverlay && (
+                <VideoHUD
+                  telemetry={viewTelemetry}
+                  flightMode={viewStatus?.flight_mode}
+                  missionCurrent={viewStatus?.mission_current}
+                  missionCount={viewStatus?.mission_count}
+                />
+              )}
+            </VideoFeed>
+          )}
         </div>
 
         {/* Control Panel */}
@@ -2049,9 +2346,10 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             {/* Upload Mission Button */}
             <button
               onClick={handleUploadMission}
-              disabled={!isConnected || !currentMissionId || loading.upload}
+              disabled={!isConnected || !currentMissionId || loading.upload || !can('execute_missions')}
+              title={can('execute_missions') ? undefined : notPermitted('execute_missions')}
               className={`w-full px-4 py-3 font-semibold rounded-lg transition-colors flex items-center justify-center gap-2 ${
-                missionUploaded 
+                missionOnVehicle 
                   ? 'bg-green-600/20 border-2 border-green-500 text-green-400 cursor-default' 
                   : 'bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white'
               }`}
@@ -2061,7 +2359,7 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
                   Uploading...
                 </>
-              ) : missionUploaded ? (
+              ) : missionOnVehicle ? (
                 <>
                   <span>✓</span>
                   Mission {simulationMode ? 'Loaded' : 'Uploaded to PX4'}
@@ -2075,8 +2373,9 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
             </button>
 
             <button
-              onClick={handleStartMission}
-              disabled={!isConnected || !missionUploaded || loading.start || simulationRunning}
+              onClick={() => handleStartMission()}
+              disabled={!isConnected || !missionOnVehicle || loading.start || simulationRunning || !can('execute_missions')}
+              title={can('execute_missions') ? undefined : notPermitted('execute_missions')}
               className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
             >
               {loading.start || simulationRunning ? (
@@ -2112,9 +2411,22 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
 
             {!simulationMode && (
               <>
+                <PreflightChecklist
+                  checklist={preflightChecklist}
+                  results={preflightResults}
+                  onSignOff={signOffPreflightItem}
+                  onRevoke={revokePreflightItem}
+                  locked={
+                    !can('control_vehicle') ? notPermitted('control_vehicle')
+                      : status?.armed ? 'Signed off for this flight; disarm to change'
+                      : undefined
+                  }
+                />
+
                 <button
-                  onClick={handleArm}
-                  disabled={!isConnected || status?.armed || loading.arm}
+                  onClick={() => handleArm()}
+                  disabled={!isConnected || status?.armed || loading.arm || !can('control_vehicle') || preflightHold !== null}
+                  title={can('control_vehicle') ? preflightHoldReason : notPermitted('control_vehicle')}
                   className="w-full px-4 py-3 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
                 >
                   {loading.arm ? (
@@ -2130,8 +2442,18 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
                   )}
                 </button>
 
+                {/* Only when the pre-arm checks refuse; held back by a safety interlock */}
+                <button
+                  onClick={() => handleArm(true)}
+                  disabled={!isConnected || status?.armed || loading.arm || !can('control_vehicle') || preflightHold !== null}
+                  title={can('control_vehicle') ? preflightHoldReason ?? INTERLOCKS.force_arm.hazard : notPermitted('control_vehicle')}
+                  className="w-full text-xs text-yellow-500 hover:text-yellow-400 disabled:text-gray-600 disabled:cursor-not-allowed underline"
+                >
+                  Force arm (skip pre-arm checks)
+                </button>
+
                 <button
-                  onClick={handleDisarm}
+                  onClick={() => handleDisarm()}
                   disabled={!isConnected || !status?.armed || loading.disarm}
                   className="w-full px-4 py-3 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
                 >
@@ -2150,7 +2472,8 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
 
                 <button
                   onClick={handleTakeoff}
-                  disabled={!isConnected || !status?.armed || status?.flying || loading.takeoff}
+                  disabled={!isConnected || !status?.armed || status?.flying || loading.takeoff || !can('control_vehicle') || preflightHold !== null}
+                  title={can('control_vehicle') ? preflightHoldReason : notPermitted('control_vehicle')}
                   className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
                 >
                   {loading.takeoff ? (
@@ -2223,7 +2546,11 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
               <div className="flex justify-between">
                 <span className="text-gray-400">Telemetry:</span>
                 <span className={(wsConnected || simulationMode) ? 'text-green-400' : 'text-yellow-400'}>
-                  {simulationMode ? '✓ Live Stream (10 Hz)' : wsConnected ? 'WebSocket' : 'HTTP Polling'}
+                  {simulationMode
+                    ? '✓ Live Stream (10 Hz)'
+                    : wsConnected
+                      ? (telemetryService.getProtocol() === 'mavlink' ? 'MAVLink' : 'WebSocket')
+                      : 'HTTP Polling'}
                 </span>
               </div>
               {simulationMode && simulationRunning && (
@@ -2245,8 +2572,8 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
               <div className="h-px bg-gray-700 my-2"></div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Mission Uploaded:</span>
-                <span className={missionUploaded ? 'text-green-400' : 'text-orange-400'}>
-                  {missionUploaded ? 'Yes' : 'No'}
+                <span className={missionOnVehicle ? 'text-green-400' : 'text-orange-400'}>
+                  {missionOnVehicle ? 'Yes' : 'No'}
                 </span>
               </div>
               {simulationRunning && (
@@ -2281,6 +2608,10 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
                 <span className="text-gray-400">Flight Path Points:</span>
                 <span className="text-white">{flightPath.length}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Rejected Frames:</span>
+                <span className={rejectedFrames > 0 ? 'text-yellow-400' : 'text-white'}>{rejectedFrames}</span>
+              </div>
             </div>
           </div>
 
@@ -2379,6 +2710,18 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
           transition: transform 0.1s linear !important;
         }
       `}</style>
+
+      {interlockRequest && (
+        <InterlockDialog
+          interlock={interlockRequest.interlock}
+          context={auditContext()}
+          onConfirm={interlockRequest.onConfirm}
+          onCancel={() => {
+            showToast(`${INTERLOCKS[interlockRequest.interlock].label} cancelled`, 'info');
+            setInterlockRequest(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Play, Pause, SkipBack, X, Film } from 'lucide-react';
+import type { FlightSession } from '@/services/flightRecorder';
+
+interface FlightReplayControlsProps {
+  session: FlightSession;
+  currentTime: number; // milliseconds since the session started
+  playing: boolean;
+  speed: number;
+  hasVideo: boolean;
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onLoadVideo: (file: File) => void;
+  onExit: () => void;
+}
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const FlightReplayControls: React.FC<FlightReplayControlsProps> = ({
+  session,
+  currentTime,
+  playing,
+  speed,
+  hasVideo,
+  onSeek,
+  onTogglePlay,
+  onSpeedChange,
+  onLoadVideo,
+  onExit
+}) => {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const startedAt = session.startedAt ? new Date(session.startedAt) : null;
+
+  return (
+    <div className="mt-4 px-4 py-3 bg-purple-900/20 border border-purple-700/50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-purple-300 font-semibold">Flight Replay</span>
+          <span className="text-xs text-gray-400">
+            {session.missionName || session.missionId || session.id}
+            {startedAt && !isNaN(startedAt.getTime()) && ` · ${startedAt.toLocaleString()}`}
+            {` · ${session.frames.length} frames`}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {session.video && !hasVideo && (
+            <>
+              <input
+                ref={videoInputRef}
+                type="file"
+                accept="video/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onLoadVideo(file);
+                }}
+              />
+              <button
+                onClick={() => videoInputRef.current?.click()}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
+                title={`Load ${session.video.fileName}`}
+              >
+                <Film size={12} />
+                Load Video
+              </button>
+            </>
+          )}
+          <button
+            onClick={onExit}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
+            title="Return to live view"
+          >
+            <X size={12} />
+            Exit Replay
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onSeek(0)}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+          title="Back to start"
+        >
+          <SkipBack size={16} />
+        </button>
+        <button
+          onClick={onTogglePlay}
+          className="p-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded-full transition-colors"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+
+        <span className="text-xs text-gray-300 font-mono w-14 text-right">{formatTimestamp(currentTime)}</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(session.duration, 1)}
+          step={100}
+          value={Math.min(currentTime, session.duration)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-purple-500"
+        />
+        <span className="text-xs text-gray-400 font-mono w-14">{formatTimestamp(session.duration)}</span>
+
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-2 py-0.5 text-[10px] font-semibold rounded transition-colors ${
+                speed === option
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlightReplayControls;
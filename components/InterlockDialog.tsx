@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, ShieldAlert, UserCheck } from 'lucide-react'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { useRequestSignal } from '@/hooks/useRequestSignal'
+import { ApiError, isCancelled } from '@/lib/api'
+import {
+  approvalTimeLeft,
+  interlockRequirements,
+  INTERLOCKS,
+  overrideBlocker,
+  type InterlockApproval,
+  type InterlockOverride,
+} from '@/lib/interlocks'
+import interlockService from '@/services/interlockService'
+import type { AuditContext } from '@/services/auditService'
+import type { InterlockId } from '@/types'
+
+interface InterlockDialogProps {
+  interlock: InterlockId
+  context?: AuditContext // the vehicle and mission, sent with the approval request
+  onConfirm: (override: InterlockOverride) => void
+  onCancel: () => void
+}
+
+const formatTimeLeft = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Holds back a hazardous command until the operator has typed the
+ * confirmation phrase and, where configured, a second authorised person has
+ * approved it with their own credentials. The command itself checks the
+ * override again before it is sent.
+ */
+export default function InterlockDialog({ interlock: id, context, onConfirm, onCancel }: InterlockDialogProps) {
+  const interlock = INTERLOCKS[id]
+  const requirements = interlockRequirements(id)
+  const currentUser = useCurrentUser()
+  const requestSignal = useRequestSignal()
+
+  const [confirmation, setConfirmation] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [approval, setApproval] = useState<InterlockApproval | null>(null)
+  const [approving, setApproving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Count the approval window down
+  useEffect(() => {
+    if (!approval) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [approval])
+
+  const override: InterlockOverride = {
+    interlock: id,
+    confirmation: requirements.typedConfirmation ? confirmation : undefined,
+    approval: approval ?? undefined,
+  }
+  const blocker = overrideBlocker(id, override, currentUser, now)
+  const timeLeft = approval ? approvalTimeLeft(approval, now) : 0
+
+  const handleApprove = async () => {
+    setApproving(true)
+    setError(null)
+    try {
+      setApproval(await interlockService.requestApproval(id, username, password, context, { signal: requestSignal() }))
+      setNow(Date.now())
+      setPassword('')
+    } catch (err: any) {
+      if (isCancelled(err)) return
+      if (err instanceof ApiError && (err.status === 401 || err.status === 403)) {
+        setError("The approver's username or password is wrong")
+      } else {
+        setError(err.message || 'Approval failed')
+      }
+    } finally {
+      setApproving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[10001]">
+      <div className="bg-gray-900 rounded-xl p-6 w-[28rem] shadow-2xl border border-red-600">
+        <div className="flex items-center gap-3 mb-4">
+          <ShieldAlert className="text-red-500 flex-shrink-0" size={28} />
+          <div>
+            <h2 className="text-xl font-bold text-white">{interlock.label}</h2>
+            <p className="text-red-300 text-xs uppercase tracking-wide">Safety interlock</p>
+          </div>
+        </div>
+
+        <p className="text-gray-300 text-sm mb-5">{interlock.hazard}</p>
+
+        <div className="space-y-4">
+          {requirements.typedConfirmation && (
+            <div>
+              <label className="text-gray-300 text-sm mb-2 block">
+                Type <span className="font-mono font-bold text-white">{interlock.phrase}</span> to confirm
+              </label>
+              <input
+                type="text"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-800 text-white font-mono rounded-lg border border-gray-700 focus:outline-none focus:border-red-500"
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          )}
+
+          {requirements.secondApprover && (
+            <div className="bg-gray-800 rounded-lg p-4">
+              <div className="text-gray-300 text-sm mb-3">Second person&apos;s approval</div>
+              {approval && timeLeft > 0 ? (
+                <div className="flex items-center gap-2 text-green-400 text-sm">
+                  <UserCheck size={18} />
+                  <span>
+                    Approved by {approval.approver.name} ({approval.approver.role}), valid for {formatTimeLeft(timeLeft)}
+                  </span>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {approval && <div className="text-yellow-400 text-xs">The approval expired; approve again.</div>}
+                  <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Approver username"
+                    className="w-full px-3 py-2 bg-gray-900 text-white text-sm rounded-lg border border-gray-700 focus:outline-none focus:border-blue-500"
+                    autoComplete="off"
+                  />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Approver password"
+                    className="w-full px-3 py-2 bg-gray-900 text-white text-sm rounded-lg border border-gray-700 focus:outline-none focus:border-blue-500"
+                    autoComplete="new-password"
+                  />
+                  <button
+                    onClick={handleApprove}
+                    disabled={approving || !username.trim() || !password}
+                    className="w-full px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {approving && <Loader2 size={16} className="animate-spin" />}
+                    Approve
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-red-400 text-sm">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(override)}
+            disabled={blocker !== null}
+            title={blocker ?? undefined}
+            className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {interlock.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
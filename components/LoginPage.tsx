@@ -1,19 +1,40 @@
 'use client'
 
-import { useState, FormEvent } from 'react'
+import { useEffect, useState, FormEvent } from 'react'
+import { ApiError, ApiNetworkError, ApiTimeoutError } from '@/lib/api'
+import sessionService from '@/services/sessionService'
 
-interface LoginPageProps {
-  onLogin: () => void
-}
-
-export default function LoginPage({ onLogin }: LoginPageProps) {
+export default function LoginPage() {
   const [username, setUsername] = useState<string>('')
   const [password, setPassword] = useState<string>('')
   const [remember, setRemember] = useState<boolean>(false)
+  const [signingIn, setSigningIn] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Say why the previous session ended, e.g. it expired
+  useEffect(() => {
+    const notice = sessionService.takeNotice()
+    if (notice) setError(notice)
+  }, [])
 
-  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
-    onLogin()
+    setSigningIn(true)
+    setError(null)
+    try {
+      // The session service tells the app once it succeeds
+      await sessionService.signIn(username, password, remember)
+    } catch (err: any) {
+      setPassword('')
+      if (err instanceof ApiError && err.status === 401) {
+        setError('Invalid username or password')
+      } else if (err instanceof ApiNetworkError || err instanceof ApiTimeoutError) {
+        setError('Cannot reach the authentication server')
+      } else {
+        setError(err.message || 'Sign in failed')
+      }
+      setSigningIn(false)
+    }
   }
 
   return (
@@ -30,6 +51,12 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="px-4 py-3 bg-red-900/40 border border-red-700 rounded-lg text-red-300 text-sm">
+                {error}
+              </div>
+            )}
+
             <div>
               <label className="block text-slate-300 text-sm font-medium mb-2">Username</label>
               <input
@@ -37,6 +64,8 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 placeholder="Enter your username"
+                autoComplete="username"
+                required
                 className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
@@ -48,6 +77,8 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 placeholder="••••••••"
+                autoComplete="current-password"
+                required
                 className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
@@ -67,9 +98,10 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
 
             <button
               type="submit"
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-lg transition-colors duration-200 shadow-lg"
+              disabled={signingIn}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-lg transition-colors duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Sign In
+              {signingIn ? 'Signing In...' : 'Sign In'}
             </button>
           </form>
 
@@ -4,6 +4,9 @@ import { useEffect, useRef } from 'react'
 import L from 'leaflet'
 import 'leaflet/dist/leaflet.css'
 import { Waypoint } from '@/types'
+import type { GeoPoint, Geofence, GeofenceGeometry, GeofenceMode, GeofenceShape } from '@/types/types'
+import { IMAGERY_SOURCE, LABELS_SOURCE } from '@/services/tileCache'
+import { createOfflineTileLayer } from './OfflineTileLayer'
 
 // Fix for default marker icons in Leaflet with Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -19,16 +22,104 @@ interface MissionStats {
   batteryUsage: number
 }
 
+// What a drawn shape becomes: a geofence of the given mode, or a survey area
+export type DrawTarget = GeofenceMode | 'survey'
+
+export interface MapDrawMode {
+  shape: GeofenceShape
+  target: DrawTarget
+}
+
 interface MapComponentProps {
   waypoints: Waypoint[]
   missionStats: MissionStats
+  geofences?: Geofence[]
+  surveyArea?: GeoPoint[] | null
+  drawMode?: MapDrawMode | null
+  onShapeDrawn?: (geometry: GeofenceGeometry, target: DrawTarget) => void
+  onDrawCancel?: () => void
+  // Waypoint editing; markers are static unless `editable`
+  editable?: boolean
+  addingWaypoints?: boolean // map clicks add a waypoint
+  selectedWaypointId?: string | null
+  onWaypointAdd?: (point: GeoPoint) => void
+  onWaypointSelect?: (id: string) => void
+  onWaypointDrag?: (id: string, point: GeoPoint | null) => void // null when the drag ends
+  onWaypointMove?: (id: string, point: GeoPoint) => void
+  onWaypointInsert?: (legIndex: number, point: GeoPoint) => void // after waypoints[legIndex]
+  onWaypointDelete?: (id: string) => void
+}
+
+type WaypointHandlers = Pick<
+  MapComponentProps,
+  'onWaypointAdd' | 'onWaypointSelect' | 'onWaypointDrag' | 'onWaypointMove' | 'onWaypointInsert' | 'onWaypointDelete'
+>
+
+const DRAW_COLORS: Record<DrawTarget, string> = {
+  inclusion: '#22c55e',
+  exclusion: '#ef4444',
+  survey: '#f59e0b',
 }
 
-export default function MapComponent({ waypoints, missionStats }: MapComponentProps) {
+const CLOSE_POLYGON_PIXELS = 12 // clicking this close to the first vertex closes the polygon
+
+const ROUTE_STYLE: L.PolylineOptions = {
+  color: '#3b82f6',
+  weight: 3,
+  opacity: 0.8,
+  dashArray: '10, 10',
+  lineCap: 'round',
+  lineJoin: 'round',
+}
+
+const toGeoPoint = (latlng: L.LatLng): GeoPoint => ({ lat: latlng.lat, lon: latlng.lng })
+
+const formatAltitudeBand = (fence: Geofence): string => {
+  if (fence.floor === undefined && fence.ceiling === undefined) return 'All altitudes'
+  return `${fence.floor ?? 0} – ${fence.ceiling ?? '∞'} m`
+}
+
+export default function MapComponent({
+  waypoints,
+  missionStats,
+  geofences = [],
+  surveyArea = null,
+  drawMode = null,
+  onShapeDrawn,
+  onDrawCancel,
+  editable = false,
+  addingWaypoints = false,
+  selectedWaypointId = null,
+  onWaypointAdd,
+  onWaypointSelect,
+  onWaypointDrag,
+  onWaypointMove,
+  onWaypointInsert,
+  onWaypointDelete
+}: MapComponentProps) {
   const mapRef = useRef<L.Map | null>(null)
   const markersRef = useRef<L.Marker[]>([])
-  const polylineRef = useRef<L.Polyline | null>(null)
+  const legsRef = useRef<L.Polyline[]>([])
+  const hasFittedRef = useRef(false)
+  const geofenceLayerRef = useRef<L.LayerGroup | null>(null)
   const mapContainerRef = useRef<HTMLDivElement>(null)
+  const onShapeDrawnRef = useRef(onShapeDrawn)
+  const onDrawCancelRef = useRef(onDrawCancel)
+  const waypointHandlersRef = useRef<WaypointHandlers>({})
+
+  onShapeDrawnRef.current = onShapeDrawn
+  onDrawCancelRef.current = onDrawCancel
+  waypointHandlersRef.current = {
+    onWaypointAdd,
+    onWaypointSelect,
+    onWaypointDrag,
+    onWaypointMove,
+    onWaypointInsert,
+    onWaypointDelete,
+  }
+
+  // Shape drawing takes over map clicks
+  const editing = editable && !drawMode
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return
@@ -41,18 +132,9 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
       attributionControl: true
     })
 
-    // Add satellite tile layer (Esri World Imagery)
-    L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-      attribution: 'Tiles &copy; Esri',
-      maxZoom: 19
-    }).addTo(map)
-
-    // Add labels overlay for better visibility
-    L.tileLayer('https://{s}.basemaps.cartocdn.com/light_only_labels/{z}/{x}/{y}{r}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
-      subdomains: 'abcd',
-      maxZoom: 19
-    }).addTo(map)
+    // Satellite imagery and labels, served from the offline cache when the network is down
+    createOfflineTileLayer(IMAGERY_SOURCE).addTo(map)
+    createOfflineTileLayer(LABELS_SOURCE).addTo(map)
 
     mapRef.current = map
 
@@ -68,17 +150,16 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
     if (!mapRef.current || waypoints.length === 0) return
 
     const map = mapRef.current
+    const handlers = waypointHandlersRef.current
 
-    // Clear existing markers and polylines
+    // Clear existing markers and route legs
     markersRef.current.forEach(marker => marker.remove())
     markersRef.current = []
-    if (polylineRef.current) {
-      polylineRef.current.remove()
-      polylineRef.current = null
-    }
+    legsRef.current.forEach(leg => leg.remove())
+    legsRef.current = []
 
     // Create custom icons for different waypoint types
-    const createCustomIcon = (color: string, label: string) => {
+    const createCustomIcon = (color: string, label: string, selected: boolean) => {
       return L.divIcon({
         className: 'custom-marker',
         html: `
@@ -88,7 +169,7 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
             height: 32px;
             border-radius: 50% 50% 50% 0;
             transform: rotate(-45deg);
-            border: 3px solid white;
+            border: 3px solid ${selected ? '#facc15' : 'white'};
             box-shadow: 0 4px 6px rgba(0,0,0,0.3);
             display: flex;
             align-items: center;
@@ -108,6 +189,17 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
       })
     }
 
+    // Draw each leg separately so a click can tell which one to split
+    const latLngs: L.LatLng[] = waypoints.map(wp => L.latLng(wp.lat, wp.lon))
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const leg = L.polyline([latLngs[i], latLngs[i + 1]], { ...ROUTE_STYLE, bubblingMouseEvents: false }).addTo(map)
+      if (editing) {
+        leg.bindTooltip('Click to insert a waypoint', { sticky: true })
+        leg.on('click', (e: L.LeafletMouseEvent) => handlers.onWaypointInsert?.(i, toGeoPoint(e.latlng)))
+      }
+      legsRef.current.push(leg)
+    }
+
     // Add markers for each waypoint
     waypoints.forEach((waypoint, index) => {
       let markerLabel = 'S'
@@ -115,40 +207,206 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
       else if (waypoint.id === 'end') markerLabel = 'E'
       else markerLabel = String(index)
 
-      const icon = createCustomIcon(waypoint.color, markerLabel)
-      
-      const marker = L.marker([waypoint.lat, waypoint.lon], { icon })
-        .addTo(map)
-        .bindPopup(`
+      const icon = createCustomIcon(waypoint.color, markerLabel, waypoint.id === selectedWaypointId)
+      const marker = L.marker([waypoint.lat, waypoint.lon], { icon, draggable: editing }).addTo(map)
+
+      if (editing) {
+        marker.bindTooltip(
+          waypoint.id === 'start' || waypoint.id === 'end' ? 'Drag to move' : 'Drag to move · right-click to delete',
+          { direction: 'top', offset: [0, -32] }
+        )
+        marker.on('click', () => handlers.onWaypointSelect?.(waypoint.id))
+        marker.on('contextmenu', (e: L.LeafletMouseEvent) => {
+          L.DomEvent.preventDefault(e.originalEvent)
+          handlers.onWaypointDelete?.(waypoint.id)
+        })
+
+        // Stretch the neighbouring legs while dragging; the route is updated on drop
+        marker.on('drag', () => {
+          const position = marker.getLatLng()
+          legsRef.current[index - 1]?.setLatLngs([latLngs[index - 1], position])
+          legsRef.current[index]?.setLatLngs([position, latLngs[index + 1]])
+          handlers.onWaypointDrag?.(waypoint.id, toGeoPoint(position))
+        })
+        marker.on('dragend', () => {
+          handlers.onWaypointDrag?.(waypoint.id, null)
+          handlers.onWaypointMove?.(waypoint.id, toGeoPoint(marker.getLatLng()))
+        })
+      } else {
+        marker.bindPopup(`
           <div style="font-family: sans-serif;">
             <strong style="color: #1e293b; font-size: 14px;">${waypoint.label}</strong><br/>
             <span style="color: #64748b; font-size: 12px;">${waypoint.coords}</span><br/>
             <span style="color: #3b82f6; font-size: 12px;">${waypoint.alt}</span>
           </div>
         `)
+      }
 
       markersRef.current.push(marker)
     })
 
-    // Draw polyline connecting all waypoints
+    // Fit the map to the route when first shown or when it moves out of view,
+    // but not on every edit
     if (waypoints.length > 1) {
-      const latLngs: L.LatLngExpression[] = waypoints.map(wp => [wp.lat, wp.lon])
-      const polyline = L.polyline(latLngs, {
-        color: '#3b82f6',
-        weight: 3,
-        opacity: 0.8,
-        dashArray: '10, 10',
-        lineCap: 'round',
-        lineJoin: 'round'
-      }).addTo(map)
-
-      polylineRef.current = polyline
-
-      // Fit map bounds to show all waypoints
       const bounds = L.latLngBounds(latLngs)
-      map.fitBounds(bounds, { padding: [50, 50] })
+      if (!hasFittedRef.current || !map.getBounds().contains(bounds)) {
+        map.fitBounds(bounds, { padding: [50, 50] })
+        hasFittedRef.current = true
+      }
+    }
+  }, [waypoints, editing, selectedWaypointId])
+
+  // Click-to-add waypoints
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !editing || !addingWaypoints) return
+
+    const handleClick = (e: L.LeafletMouseEvent) => waypointHandlersRef.current.onWaypointAdd?.(toGeoPoint(e.latlng))
+
+    map.getContainer().style.cursor = 'crosshair'
+    map.on('click', handleClick)
+
+    return () => {
+      map.off('click', handleClick)
+      map.getContainer().style.cursor = ''
+    }
+  }, [editing, addingWaypoints])
+
+  // Render stored geofences
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    geofenceLayerRef.current?.remove()
+    const layer = L.layerGroup().addTo(map)
+    geofenceLayerRef.current = layer
+
+    geofences.forEach(fence => {
+      const color = DRAW_COLORS[fence.mode]
+      const style: L.PathOptions = {
+        color,
+        weight: 2,
+        fillColor: color,
+        fillOpacity: fence.mode === 'exclusion' ? 0.25 : 0.08,
+        dashArray: fence.mode === 'exclusion' ? '6, 6' : undefined,
+      }
+      const shape = fence.shape === 'circle'
+        ? L.circle([fence.center.lat, fence.center.lon], { ...style, radius: fence.radius })
+        : L.polygon(fence.vertices.map(v => [v.lat, v.lon] as L.LatLngTuple), style)
+
+      shape
+        .bindTooltip(`${fence.name} · ${formatAltitudeBand(fence)}`, { sticky: true })
+        .addTo(layer)
+    })
+
+    return () => {
+      layer.remove()
+    }
+  }, [geofences])
+
+  // Render the area covered by a survey grid
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !surveyArea) return
+
+    const polygon = L.polygon(surveyArea.map(v => [v.lat, v.lon] as L.LatLngTuple), {
+      color: DRAW_COLORS.survey,
+      weight: 2,
+      fillColor: DRAW_COLORS.survey,
+      fillOpacity: 0.1,
+      dashArray: '2, 6',
+    })
+      .bindTooltip('Survey Area', { sticky: true })
+      .addTo(map)
+
+    return () => {
+      polygon.remove()
+    }
+  }, [surveyArea])
+
+  // Shape drawing: polygons are built click by click and closed on the first
+  // vertex or by double-click; circles take a center click and a radius click
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !drawMode) return
+
+    const color = DRAW_COLORS[drawMode.target]
+    const draft = L.layerGroup().addTo(map)
+    const vertices: L.LatLng[] = []
+    let center: L.LatLng | null = null
+
+    const redraw = (cursor?: L.LatLng) => {
+      draft.clearLayers()
+      if (drawMode.shape === 'circle') {
+        if (!center) return
+        L.circleMarker(center, { radius: 4, color }).addTo(draft)
+        if (cursor) {
+          L.circle(center, { radius: center.distanceTo(cursor), color, weight: 2, dashArray: '4, 4', fillOpacity: 0.1 }).addTo(draft)
+        }
+        return
+      }
+      vertices.forEach(v => L.circleMarker(v, { radius: 4, color }).addTo(draft))
+      const line = cursor ? [...vertices, cursor] : vertices
+      if (line.length > 1) {
+        L.polyline(line, { color, weight: 2, dashArray: '4, 4' }).addTo(draft)
+      }
+    }
+
+    const finishPolygon = () => {
+      if (vertices.length < 3) return
+      onShapeDrawnRef.current?.({ shape: 'polygon', vertices: vertices.map(toGeoPoint) }, drawMode.target)
     }
-  }, [waypoints])
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      if (drawMode.shape === 'circle') {
+        if (!center) {
+          center = e.latlng
+          redraw()
+        } else {
+          onShapeDrawnRef.current?.(
+            { shape: 'circle', center: toGeoPoint(center), radius: center.distanceTo(e.latlng) },
+            drawMode.target
+          )
+        }
+        return
+      }
+
+      const point = map.latLngToContainerPoint(e.latlng)
+      if (vertices.length >= 3 && point.distanceTo(map.latLngToContainerPoint(vertices[0])) <= CLOSE_POLYGON_PIXELS) {
+        finishPolygon()
+        return
+      }
+      // The two clicks of a double-click land on the same spot
+      const last = vertices[vertices.length - 1]
+      if (last && point.distanceTo(map.latLngToContainerPoint(last)) < 3) return
+
+      vertices.push(e.latlng)
+      redraw()
+    }
+
+    const handleMouseMove = (e: L.LeafletMouseEvent) => redraw(e.latlng)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onDrawCancelRef.current?.()
+    }
+
+    map.doubleClickZoom.disable()
+    map.getContainer().style.cursor = 'crosshair'
+    map.on('click', handleClick)
+    map.on('dblclick', finishPolygon)
+    map.on('mousemove', handleMouseMove)
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      map.off('click', handleClick)
+      map.off('dblclick', finishPolygon)
+      map.off('mousemove', handleMouseMove)
+      window.removeEventListener('keydown', handleKeyDown)
+      map.getContainer().style.cursor = ''
+      map.doubleClickZoom.enable()
+      draft.remove()
+    }
+  }, [drawMode])
 
   // Format flight time display
   const formatFlightTime = (minutes: number): string => {
@@ -191,6 +449,24 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
             <div className="w-8 border-t-2 border-dashed border-blue-400"></div>
             <span className="text-slate-300">Flight Path</span>
           </div>
+          {geofences.length > 0 && (
+            <>
+              <div className="flex items-center space-x-2">
+                <div className="w-3 h-3 border-2 border-green-500 bg-green-500/10"></div>
+                <span className="text-slate-300">Inclusion Zone</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-3 h-3 border-2 border-dashed border-red-500 bg-red-500/25"></div>
+                <span className="text-slate-300">Exclusion Zone</span>
+              </div>
+            </>
+          )}
+          {surveyArea && (
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 border-2 border-dotted border-amber-500 bg-amber-500/10"></div>
+              <span className="text-slate-300">Survey Area</span>
+            </div>
+          )}
         </div>
       </div>
 
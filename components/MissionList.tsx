@@ -1,20 +1,75 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Search, Plus, AlertTriangle, Trash2, Edit, Eye, Loader2, RefreshCw, Filter, Play, Pause, CheckCircle, Plane, Map } from 'lucide-react'
+import { Search, Plus, AlertTriangle, Trash2, Edit, Eye, Loader2, RefreshCw, Filter, Play, Pause, CheckCircle, Plane, Map, Download, Send, ShieldCheck, MessageSquare, XCircle, Undo2, Upload, XOctagon, AlertOctagon, LucideIcon } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { usePX4Upload } from '@/hooks/usePX4Upload'
-import { Toaster } from 'react-hot-toast'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { usePermissions } from '@/hooks/usePermissions'
+import { useRequestSignal } from '@/hooks/useRequestSignal'
+import { isCancelled } from '@/lib/api'
+import { Toaster, toast } from 'react-hot-toast'
+import { downloadMissionFile, missionToFile, MISSION_FILE_FORMATS, type MissionFileFormat } from '@/lib/missionFiles'
+import {
+  approvalOf,
+  availableEvents,
+  canDeleteMission,
+  canEditMission,
+  EVENTS_NEEDING_REASON,
+  MISSION_EVENT_LABELS,
+  MISSION_STATE_LABELS,
+  MISSION_STATES,
+  transitionBlocker,
+} from '@/lib/missionLifecycle'
+import { EVENT_PERMISSIONS, notPermitted } from '@/lib/permissions'
+import droneControlService from '@/services/DroneControlService'
+import type { MissionEvent, MissionState } from '@/types'
 import { 
   getMissions, 
   deleteMission, 
-  startMission,
-  pauseMission,
-  completeMission,
+  transitionMission,
+  runMissionAction,
   type ApiMission, 
-  type PaginatedResponse 
+  type MissionAction,
+  type GetMissionsParams 
 } from '@/services/missionService'
 
+const STATUS_COLORS: Record<MissionState, string> = {
+  draft: 'bg-purple-500',
+  planned: 'bg-indigo-500',
+  approved: 'bg-teal-500',
+  rejected: 'bg-rose-500',
+  uploaded: 'bg-cyan-500',
+  in_flight: 'bg-blue-500',
+  paused: 'bg-yellow-500',
+  completed: 'bg-green-500',
+  aborted: 'bg-orange-500',
+  failed: 'bg-red-500',
+}
+
+// Moves the backend carries out before they are recorded; resuming starts the mission again
+const MISSION_ACTIONS: Partial<Record<MissionEvent, MissionAction>> = {
+  start: 'start',
+  resume: 'start',
+  pause: 'pause',
+  complete: 'complete',
+}
+
+const EVENT_BUTTONS: Record<MissionEvent, { icon: LucideIcon; color: string }> = {
+  submit: { icon: Send, color: 'text-indigo-400' },
+  approve: { icon: ShieldCheck, color: 'text-teal-400' },
+  request_changes: { icon: MessageSquare, color: 'text-yellow-400' },
+  reject: { icon: XCircle, color: 'text-rose-400' },
+  revise: { icon: Undo2, color: 'text-slate-300' },
+  upload: { icon: Upload, color: 'text-cyan-400' },
+  start: { icon: Play, color: 'text-green-400' },
+  pause: { icon: Pause, color: 'text-yellow-400' },
+  resume: { icon: Play, color: 'text-green-400' },
+  complete: { icon: CheckCircle, color: 'text-green-400' },
+  abort: { icon: XOctagon, color: 'text-orange-400' },
+  fail: { icon: AlertOctagon, color: 'text-red-400' },
+}
+
 interface MissionListComponentProps {
   onPageChange?: (page: string) => void
   onEditMission?: (mission: ApiMission) => void
@@ -38,23 +93,30 @@ export default function MissionListComponent({
   const [searchQuery, setSearchQuery] = useState<string>('')
   const [totalMissions, setTotalMissions] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
+  const [exportMenuId, setExportMenuId] = useState<number | null>(null)
   const [refreshing, setRefreshing] = useState(false)
   const itemsPerPage = 10
 
   // Use the hook
   const { uploadMissionToPX4, uploading } = usePX4Upload()
+  const requestSignal = useRequestSignal()
+  const currentUser = useCurrentUser()
+  const can = usePermissions()
 
-  // Load missions on component mount and when filters change
+  // Load missions on component mount and when filters change; a newer load
+  // cancels the one still running
   useEffect(() => {
-    loadMissions()
+    const controller = new AbortController()
+    loadMissions(controller.signal)
+    return () => controller.abort()
   }, [filter, searchQuery, currentPage])
 
-  const loadMissions = async () => {
+  const loadMissions = async (signal: AbortSignal = requestSignal()) => {
     try {
       setLoading(true)
       setError(null)
       
-      const params: any = {
+      const params: GetMissionsParams = {
         skip: (currentPage - 1) * itemsPerPage,
         limit: itemsPerPage,
       }
@@ -67,37 +129,17 @@ export default function MissionListComponent({
         params.search = searchQuery.trim()
       }
 
-      const response = await getMissions(params)
-      
-      // Handle different API response formats
-      if (response && typeof response === 'object') {
-        // Check if response has missions array and total count
-        if ('missions' in response && Array.isArray(response.missions)) {
-          setMissions(response.missions)
-          setTotalMissions(response.total || response.missions.length)
-        } 
-        // If response is directly an array
-        else if (Array.isArray(response)) {
-          setMissions(response)
-          setTotalMissions(response.length)
-        }
-        // If response is paginated response
-        else {
-          setMissions([])
-          setTotalMissions(0)
-        }
-      } else {
-        setMissions([])
-        setTotalMissions(0)
-      }
+      const response = await getMissions(params, { signal })
+      setMissions(response.missions)
+      setTotalMissions(response.total)
       
       console.log('Loaded missions:', response) // Debug log
     } catch (err: any) {
+      if (isCancelled(err)) return
       setError(err.message || 'Failed to load missions')
       console.error('Error loading missions:', err)
-    } finally {
-      setLoading(false)
     }
+    setLoading(false)
   }
 
   const handleRefresh = async () => {
@@ -106,63 +148,92 @@ export default function MissionListComponent({
     setRefreshing(false)
   }
 
+  const handleExport = (mission: ApiMission, format: MissionFileFormat) => {
+    setExportMenuId(null)
+    try {
+      downloadMissionFile(missionToFile(mission), format)
+    } catch (err: any) {
+      console.error('Error exporting mission:', err)
+      toast.error(err.message || 'Failed to export mission')
+    }
+  }
+
   const handleDelete = async (id: number, missionName: string) => {
     if (!confirm(`Are you sure you want to delete mission "${missionName}"?`)) {
       return
     }
 
     try {
-      await deleteMission(id)
+      await deleteMission(id, { signal: requestSignal() })
       await loadMissions() // Reload the list
     } catch (err: any) {
+      if (isCancelled(err)) return
       alert('Failed to delete mission: ' + err.message)
     }
   }
 
-  // Handle starting a mission
-  const handleStartMission = async (mission: ApiMission) => {
-    const confirmStart = confirm(
-      `Start mission "${mission.mission_name}"?\n\n` +
-      `Distance: ${mission.total_distance?.toFixed(2) || 'N/A'} km\n` +
-      `Duration: ${mission.flight_time?.toFixed(1) || 'N/A'} min\n` +
-      `Battery: ${mission.battery_usage?.toFixed(1) || 'N/A'}%`
-    )
-
-    if (!confirmStart) return
-
-    try {
-      await startMission(mission.id)
-      alert(`✅ Mission "${mission.mission_name}" has been started!`)
-      await loadMissions()
-    } catch (err: any) {
-      alert('Failed to start mission: ' + err.message)
-      console.error('Error starting mission:', err)
+  // Move a mission through its lifecycle. Upload goes through the PX4 upload,
+  // which records the transition itself; moves with an action behind them are
+  // recorded only once the action succeeds.
+  const handleTransition = async (mission: ApiMission, event: MissionEvent) => {
+    if (event === 'upload') {
+      const uploaded = await uploadMissionToPX4({
+        id: mission.id,
+        mission_name: mission.mission_name,
+        status: mission.status,
+        waypoints: (mission.waypoints || []).map(wp => ({
+          ...wp,
+          lon: wp.lon ?? wp.lng ?? NaN,
+          holdTime: wp.holdTime ?? wp.hold_time,
+          acceptanceRadius: wp.acceptanceRadius ?? wp.acceptance_radius,
+        })),
+        vehicle_id: mission.vehicle_id,
+        geofences: mission.geofences,
+        battery_usage: mission.battery_usage,
+      })
+      if (uploaded) await loadMissions()
+      return
     }
-  }
 
-  // Handle pausing a mission
-  const handlePauseMission = async (mission: ApiMission) => {
-    if (!confirm(`Pause mission "${mission.mission_name}"?`)) return
-
-    try {
-      await pauseMission(mission.id)
-      alert(`⏸️ Mission "${mission.mission_name}" has been paused.`)
-      await loadMissions()
-    } catch (err: any) {
-      alert('Failed to pause mission: ' + err.message)
+    let reason: string | undefined
+    if (EVENTS_NEEDING_REASON.includes(event)) {
+      const answer = prompt(`${MISSION_EVENT_LABELS[event]} mission "${mission.mission_name}"?\n\n${event === 'reject' || event === 'request_changes' ? 'Comments for the planner' : 'Reason'}:`)
+      if (answer === null) return
+      reason = answer
+    } else {
+      const message = event === 'start'
+        ? `Start mission "${mission.mission_name}"?\n\n` +
+          `Distance: ${mission.total_distance?.toFixed(2) || 'N/A'} km\n` +
+          `Duration: ${mission.flight_time?.toFixed(1) || 'N/A'} min\n` +
+          `Battery: ${mission.battery_usage?.toFixed(1) || 'N/A'}%`
+        : `${MISSION_EVENT_LABELS[event]}: "${mission.mission_name}"?`
+      if (!confirm(message)) return
     }
-  }
 
-  // Handle completing a mission
-  const handleCompleteMission = async (mission: ApiMission) => {
-    if (!confirm(`Mark mission "${mission.mission_name}" as completed?`)) return
+    const signal = requestSignal()
+    const action = MISSION_ACTIONS[event]
+    // A mission that has not started has nothing on the vehicle to stop
+    const stopsVehicle = event === 'abort' && mission.status !== 'uploaded'
+    const perform = action
+      ? () => runMissionAction(mission.id, action, { signal })
+      : stopsVehicle
+        ? async () => {
+            const response = await droneControlService.stopMission(String(mission.id), false, {
+              vehicleId: mission.vehicle_id,
+              signal,
+            })
+            if (!response.success) throw new Error(response.message || 'Failed to stop mission')
+          }
+        : undefined
 
     try {
-      await completeMission(mission.id)
-      alert(`✅ Mission "${mission.mission_name}" has been completed!`)
+      const updated = await transitionMission(mission.id, event, { reason, perform, signal })
+      toast.success(`"${mission.mission_name}" is now ${MISSION_STATE_LABELS[updated.status].toLowerCase()}`)
       await loadMissions()
     } catch (err: any) {
-      alert('Failed to complete mission: ' + err.message)
+      if (isCancelled(err)) return
+      toast.error(`Failed to ${MISSION_EVENT_LABELS[event].toLowerCase()} mission: ${err.message}`)
+      console.error(`Error applying ${event} to mission:`, err)
     }
   }
 
@@ -232,23 +303,6 @@ export default function MissionListComponent({
     }
   }
 
-  // Status color mapping
-  const getStatusColor = (status: string): string => {
-    const statusLower = status.toLowerCase()
-    switch (statusLower) {
-      case 'completed': return 'bg-green-500'
-      case 'active':
-      case 'in_progress':
-      case 'in flight': return 'bg-blue-500'
-      case 'pending':
-      case 'draft': return 'bg-purple-500'
-      case 'failed':
-      case 'error': return 'bg-red-500'
-      case 'paused': return 'bg-yellow-500'
-      default: return 'bg-gray-500'
-    }
-  }
-
   // Mission type color mapping with more types
   const getTypeColor = (type: string | null): string => {
     if (!type) return 'bg-gray-600'
@@ -371,13 +425,19 @@ export default function MissionListComponent({
   // Filter tabs
   const filterTabs = [
     { value: 'all', label: 'All' },
-    { value: 'draft', label: 'Draft' },
-    { value: 'pending', label: 'Pending' },
-    { value: 'active', label: 'Active' },
-    { value: 'completed', label: 'Completed' },
-    { value: 'failed', label: 'Failed' }
+    ...MISSION_STATES.map(state => ({ value: state, label: MISSION_STATE_LABELS[state] }))
   ]
 
+  // Status history, oldest first, for the status tooltip
+  const describeHistory = (mission: ApiMission): string =>
+    (mission.status_history || [])
+      .map(entry =>
+        `${formatDate(entry.at)} ${formatTime(entry.at)}: ${MISSION_STATE_LABELS[entry.from]} → ${MISSION_STATE_LABELS[entry.to]}` +
+        (entry.by ? ` by ${entry.by}` : '') +
+        (entry.reason ? ` (${entry.reason})` : '')
+      )
+      .join('\n')
+
   return (
     <div className="flex-1 bg-slate-900 min-h-screen">
       <Toaster position="top-right" />
@@ -423,7 +483,9 @@ export default function MissionListComponent({
             </div>
             <button 
               onClick={handlePlanMission} 
-              className="flex items-center space-x-2 px-6 py-3 bg-white text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors shadow-lg"
+              disabled={!can('create_missions')}
+              title={can('create_missions') ? undefined : notPermitted('create_missions')}
+              className="flex items-center space-x-2 px-6 py-3 bg-white text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Plus size={20} />
               <span>Plan Mission</span>
@@ -444,7 +506,7 @@ export default function MissionListComponent({
         {/* Missions Table */}
         <div className="bg-slate-800 rounded-xl overflow-hidden shadow-xl">
           {/* Filter Tabs */}
-          <div className="flex border-b border-slate-700">
+          <div className="flex border-b border-slate-700 overflow-x-auto">
             {filterTabs.map((tab) => (
               <button
                 key={tab.value}
@@ -452,7 +514,7 @@ export default function MissionListComponent({
                   setFilter(tab.value)
                   setCurrentPage(1) // Reset to first page on filter change
                 }}
-                className={`px-8 py-4 font-medium transition-colors ${
+                className={`px-6 py-4 font-medium whitespace-nowrap transition-colors ${
                   filter === tab.value
                     ? 'bg-blue-600 text-white'
                     : 'text-slate-400 hover:text-white hover:bg-slate-700'
@@ -529,7 +591,7 @@ export default function MissionListComponent({
                             {mission.corridor_label ? (
                               <div className="flex items-center space-x-2">
                                 {/* Color indicator dot */}
-                                <div className={`w-3 h-3 rounded-full ${getCorridorBgColor(mission.corridor_color)} shadow-md`}></div>
+                                <div className={`w-3 h-3 rounded-full ${getCorridorBgColor(mission.corridor_color ?? null)} shadow-md`}></div>
                                 <div>
                                   <div className="text-white font-medium">{mission.corridor_label}</div>
                                   {mission.corridor_value && (
@@ -543,10 +605,20 @@ export default function MissionListComponent({
                           </div>
                         </td>
                         <td className="px-6 py-4">
-                          <div className="flex items-center space-x-2">
-                            <div className={`w-2 h-2 ${getStatusColor(mission.status)} rounded-full animate-pulse`}></div>
-                            <span className="text-white capitalize font-medium">{mission.status}</span>
+                          <div className="flex items-center space-x-2" title={describeHistory(mission) || undefined}>
+                            <div className={`w-2 h-2 ${STATUS_COLORS[mission.status]} rounded-full ${mission.status === 'in_flight' ? 'animate-pulse' : ''}`}></div>
+                            <span className="text-white font-medium">{MISSION_STATE_LABELS[mission.status]}</span>
                           </div>
+                          {mission.status_history?.length ? (
+                            <div className="text-slate-400 text-xs mt-1">
+                              since {getTimeAgo(mission.status_history[mission.status_history.length - 1].at)}
+                            </div>
+                          ) : null}
+                          {approvalOf(mission)?.by && (
+                            <div className="text-teal-400 text-xs mt-1">
+                              Approved by {approvalOf(mission)?.by}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <div className="text-sm space-y-1">
@@ -600,26 +672,72 @@ export default function MissionListComponent({
                               <Eye size={18} />
                             </button>
                             
-                            {/* EDIT BUTTON - Only for non-active missions */}
-                            {mission.status?.toLowerCase() !== 'active' && 
-                             mission.status?.toLowerCase() !== 'in_progress' && (
+                            {/* EXPORT BUTTON - QGC plan, WPL, KML or GPX */}
+                            <div className="relative">
+                              <button
+                                onClick={() => setExportMenuId(exportMenuId === mission.id ? null : mission.id)}
+                                className="p-2 text-slate-300 hover:bg-slate-600 rounded-lg transition-colors"
+                                title="Export Mission"
+                              >
+                                <Download size={18} />
+                              </button>
+                              {exportMenuId === mission.id && (
+                                <div className="absolute right-0 top-full mt-1 w-52 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-20 py-1">
+                                  {(Object.keys(MISSION_FILE_FORMATS) as MissionFileFormat[]).map(format => (
+                                    <button
+                                      key={format}
+                                      onClick={() => handleExport(mission, format)}
+                                      className="w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                                    >
+                                      {MISSION_FILE_FORMATS[format].label}
+                                      <span className="text-slate-500 text-xs ml-1">.{MISSION_FILE_FORMATS[format].extension}</span>
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+
+                            {/* LIFECYCLE ACTIONS - Only those valid for the mission's state */}
+                            {availableEvents(mission.status).map(event => {
+                              const { icon: Icon, color } = EVENT_BUTTONS[event]
+                              const permission = EVENT_PERMISSIONS[event]
+                              const blocker = can(permission)
+                                ? transitionBlocker(mission, event, currentUser)
+                                : notPermitted(permission)
+                              return (
+                                <button
+                                  key={event}
+                                  onClick={() => handleTransition(mission, event)}
+                                  disabled={!!blocker || uploading === mission.id}
+                                  className={`p-2 ${color} hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed`}
+                                  title={blocker ?? MISSION_EVENT_LABELS[event]}
+                                >
+                                  {event === 'upload' && uploading === mission.id
+                                    ? <Loader2 size={18} className="animate-spin" />
+                                    : <Icon size={18} />}
+                                </button>
+                              )
+                            })}
+
+                            {/* EDIT BUTTON - Only while the route can still change */}
+                            {canEditMission(mission.status) && (
                               <button
                                 onClick={() => handleEditMission(mission)}
-                                className="p-2 text-yellow-400 hover:bg-slate-600 rounded-lg transition-colors"
-                                title="Edit Mission"
+                                disabled={!can('edit_missions')}
+                                className="p-2 text-yellow-400 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                title={can('edit_missions') ? 'Edit Mission' : notPermitted('edit_missions')}
                               >
                                 <Edit size={18} />
                               </button>
                             )}
                             
-                            {/* DELETE BUTTON - Only for draft/completed/failed missions */}
-                            {(mission.status?.toLowerCase() === 'draft' || 
-                              mission.status?.toLowerCase() === 'completed' || 
-                              mission.status?.toLowerCase() === 'failed') && (
+                            {/* DELETE BUTTON - Only for missions not on a vehicle */}
+                            {canDeleteMission(mission.status) && (
                               <button
                                 onClick={() => handleDelete(mission.id, mission.mission_name)}
-                                className="p-2 text-red-400 hover:bg-slate-600 rounded-lg transition-colors"
-                                title="Delete Mission"
+                                disabled={!can('delete_missions')}
+                                className="p-2 text-red-400 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                title={can('delete_missions') ? 'Delete Mission' : notPermitted('delete_missions')}
                               >
                                 <Trash2 size={18} />
                               </button>
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, Polygon, Tooltip, Popup, useMap } from 'react-leaflet';
+import { MapContainer, Marker, Polyline, Polygon, Tooltip, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { 
@@ -24,6 +24,12 @@ import {
   Pause
 } from 'lucide-react';
 import { useSearchParams } from 'next/navigation';
+import OfflineTileLayer from '@/components/OfflineTileLayer';
+import { API_CONFIG } from '@/config/missionExecution.config';
+import { authHeaders } from '@/lib/http';
+import telemetryService, { DEFAULT_VEHICLE_ID } from '@/services/telemetryService';
+import { IMAGERY_SOURCE } from '@/services/tileCache';
+import { TelemetryData } from '@/types/types';
 
 // ============================================================================
 // FIX LEAFLET ICONS
@@ -98,39 +104,6 @@ interface SelectedMissionData {
   }>;
 }
 
-interface TelemetryData {
-  timestamp?: string;
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    fix_type: number;
-    hdop: number;
-  };
-  armed?: boolean;
-  mode?: string;
-  mission_current?: number;
-  mission_count?: number;
-}
-
 interface FlightPathPoint {
   lat: number;
   lon: number;
@@ -589,10 +562,7 @@ const MultiDroneAwareness: React.FC = () => {
   const [mapZoom] = useState<number>(9);
   
   // WebSocket ref
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 10;
+  const telemetryUnsubscribeRef = useRef<(() => void) | null>(null);
   
   // Animation ref
   const animationFrameRef = useRef<number | null>(null);
@@ -606,8 +576,7 @@ const MultiDroneAwareness: React.FC = () => {
   const prevPositionRef = useRef<Position | null>(null);
   
   // API Configuration
-  const WS_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'ws://localhost:8002';
-  const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
+  const API_BASE = API_CONFIG.vehicleUrl;
   
   // ============================================================================
   // INITIALIZE ANIMATED DRONE STATES
@@ -878,185 +847,57 @@ const MultiDroneAwareness: React.FC = () => {
       return;
     }
     
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('WebSocket already connected');
-      return;
-    }
-    
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max WebSocket reconnection attempts reached');
+    if (telemetryUnsubscribeRef.current) {
+      console.log('Telemetry already subscribed');
       return;
     }
     
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-      
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        
-        if (selectedMission?.id) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: selectedMission.id
-          }));
-          console.log(`📡 Subscribed to mission: ${selectedMission.id}`);
-        }
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          console.log('📨 WebSocket message received:', message);
-          
-          switch (message.type) {
-            case 'telemetry_update':
-              // ⭐ IMPROVED: Handle both message.data and root-level data
-              const telemetryData = message.data || message;
-              handleTelemetryUpdate(telemetryData);
-              break;
-            case 'connection_info':
-              console.log('🔌 Connection info:', message);
-              break;
-            case 'error':
-              console.error('❌ WebSocket error:', message.message);
-              break;
-            case 'pong':
-              // Silent - heartbeat response
-              break;
-            default:
-              console.log('❓ Unknown message type:', message.type);
-              console.log('Full message:', message);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-          console.error('Raw event data:', event.data);
-        }
-      };
-      
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        console.error('WebSocket state:', ws.readyState);
-        console.error('WebSocket URL:', `${WS_BASE}/ws/telemetry`);
-        setWsConnected(false);
-      };
-      
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-        
-        if (simulationActive && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          
-          console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        }
-      };
-      
-      wsRef.current = ws;
-      
-      const pingInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-      
-      return () => clearInterval(pingInterval);
-      
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      setWsConnected(false);
-    }
+    telemetryUnsubscribeRef.current = telemetryService.subscribe(DEFAULT_VEHICLE_ID, {
+      missionId: String(selectedMission.id),
+      onTelemetry: (frame) => handleTelemetryUpdate(frame),
+      onConnectionChange: (state) => setWsConnected(state === 'open')
+    });
   };
   
   const disconnectWebSocket = () => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (telemetryUnsubscribeRef.current) {
+      telemetryUnsubscribeRef.current();
+      telemetryUnsubscribeRef.current = null;
     }
     
     setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
   };
   
   // ============================================================================
   // TELEMETRY UPDATE HANDLER
   // ============================================================================
-  const handleTelemetryUpdate = (data: any) => {
+  // Frames arrive validated and canonical, so a 0 coordinate here is a real position
+  const handleTelemetryUpdate = (frame: TelemetryData) => {
     try {
-      // ⭐ DEFENSIVE CHECK: Ensure data exists
-      if (!data) {
-        console.warn('⚠️ Received empty telemetry data');
-        return;
-      }
-      
-      console.log('📡 Raw telemetry data:', data);
-      
-      // Extract position from various possible structures
-      const position = data.position || data.current_position || null;
+      setTelemetry(frame);
       
-      // ⭐ IMPROVED: Only update telemetry if we have valid data
-      setTelemetry({
-        timestamp: data.timestamp || new Date().toISOString(),
-        position: position,
-        velocity: data.velocity || null,
-        attitude: data.attitude || null,
-        battery: data.battery || null,
-        gps: data.gps || null,
-        armed: data.armed ?? null,
-        mode: data.mode || null,
-        mission_current: data.mission_current ?? null,
-        mission_count: data.mission_count ?? null
-      });
-      
-      // ⭐ IMPROVED: Update drone position with better null checking
-      if (position && (position.lat || position.latitude) && (position.lon || position.longitude)) {
-        const newPosition = {
-          lat: position.lat ?? position.latitude,
-          lon: position.lon ?? position.longitude,
-          alt: position.alt ?? position.altitude ?? 0
-        };
-        
-        setDronePosition(newPosition);
+      if (frame.position) {
+        const { lat, lon, alt } = frame.position;
+        setDronePosition({ lat, lon, alt });
         
         // Add to flight path
         setFlightPath(prev => {
-          const newPath = [...prev, {
-            lat: newPosition.lat,
-            lon: newPosition.lon,
-            timestamp: Date.now()
-          }];
+          const newPath = [...prev, { lat, lon, timestamp: Date.now() }];
           return newPath.slice(-500);
         });
-        
-        console.log('✅ Updated position:', newPosition);
-      } else {
-        console.warn('⚠️ Position data incomplete:', position);
       }
       
       // Update mission progress
-      if (data.mission_current !== undefined && data.mission_count !== undefined) {
+      if (frame.mission_current !== undefined && frame.mission_count !== undefined) {
         setMissionProgress({
-          current: data.mission_current,
-          total: data.mission_count
+          current: frame.mission_current,
+          total: frame.mission_count
         });
-        console.log('✅ Mission progress:', data.mission_current, '/', data.mission_count);
       }
       
     } catch (error) {
       console.error('❌ Error handling telemetry update:', error);
-      console.error('Problematic data:', data);
+      console.error('Problematic frame:', frame);
     }
   };
   
@@ -1080,7 +921,7 @@ const MultiDroneAwareness: React.FC = () => {
       
       const uploadResponse = await fetch(`${API_BASE}/mission/upload`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ waypoints })
       });
       
@@ -1093,7 +934,8 @@ const MultiDroneAwareness: React.FC = () => {
         
         console.log('🚀 Starting mission...');
         const startResponse = await fetch(`${API_BASE}/mission/start`, {
-          method: 'POST'
+          method: 'POST',
+          headers: authHeaders()
         });
         
         const startData = await startResponse.json();
@@ -1314,10 +1156,7 @@ const MultiDroneAwareness: React.FC = () => {
         <MapCenterUpdater center={mapCenter} zoom={mapZoom} />
         
         {/* Esri Satellite Imagery */}
-        <TileLayer
-          url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-          attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-        />
+        <OfflineTileLayer source={IMAGERY_SOURCE} />
         
         {/* DEMO DRONES CORRIDORS */}
         {showDemoDrones && showCorridors && demoDrones.map((drone) => (
@@ -1651,7 +1490,7 @@ const MultiDroneAwareness: React.FC = () => {
                 <div className="space-y-2 text-xs">
                   <div className="flex justify-between bg-green-50 p-2 rounded">
                     <span className="text-gray-600 font-medium">Status:</span>
-                    <span className="font-semibold text-green-600">{telemetry?.mode || 'UNKNOWN'}</span>
+                    <span className="font-semibold text-green-600">{telemetry?.flight_mode || 'UNKNOWN'}</span>
                   </div>
                   <div className="flex justify-between bg-gray-50 p-2 rounded">
                     <span className="text-gray-600 font-medium">Altitude:</span>
@@ -0,0 +1,33 @@
+'use client'
+
+import { Lock } from 'lucide-react'
+import { PERMISSIONS } from '@/lib/permissions'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import type { PermissionId } from '@/types'
+
+interface NotPermittedProps {
+  permission: PermissionId
+}
+
+/**
+ * Shown in place of a page the signed-in user's role does not permit
+ */
+export default function NotPermitted({ permission }: NotPermittedProps) {
+  const user = useCurrentUser()
+
+  return (
+    <div className="flex-1 bg-slate-900 min-h-screen flex items-center justify-center p-8">
+      <div className="bg-slate-800 rounded-xl p-8 border border-slate-700 shadow-xl max-w-md text-center">
+        <div className="w-16 h-16 bg-slate-700 rounded-full mx-auto mb-4 flex items-center justify-center">
+          <Lock className="text-slate-400" size={32} />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-2">Not permitted</h2>
+        <p className="text-slate-400">
+          {user ? `The ${user.role} role` : 'Your role'} does not have the{' '}
+          <span className="text-white font-medium">{PERMISSIONS[permission].name}</span> permission.
+        </p>
+        <p className="text-slate-500 text-sm mt-4">Ask an administrator if you need access.</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Download, HardDrive, Layers, Trash2, WifiOff } from 'lucide-react'
+import { MAP_TILES_CONFIG } from '@/config/missionExecution.config'
+import { boundsForPoints } from '@/lib/tiles'
+import tileCache, { IMAGERY_SOURCE, LABELS_SOURCE, LocalBasemap, PrefetchProgress } from '@/services/tileCache'
+import type { GeoPoint } from '@/types/types'
+
+interface OfflineMapPanelProps {
+  points: GeoPoint[] // everything the mission covers: waypoints, fences, survey area
+}
+
+export default function OfflineMapPanel({ points }: OfflineMapPanelProps) {
+  const [minZoom, setMinZoom] = useState(MAP_TILES_CONFIG.prefetchMinZoom)
+  const [maxZoom, setMaxZoom] = useState(MAP_TILES_CONFIG.prefetchMaxZoom)
+  const [includeLabels, setIncludeLabels] = useState(true)
+  const [progress, setProgress] = useState<PrefetchProgress | null>(null)
+  const [downloading, setDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [cachedTiles, setCachedTiles] = useState(0)
+  const [online, setOnline] = useState(true)
+  const [basemaps, setBasemaps] = useState<LocalBasemap[]>([])
+  const [activeBasemapId, setActiveBasemapId] = useState<string | null>(null)
+  const [loadingBasemap, setLoadingBasemap] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const basemapInputRef = useRef<HTMLInputElement>(null)
+
+  const bounds = boundsForPoints(points, MAP_TILES_CONFIG.prefetchPadding)
+  const sources = includeLabels ? [IMAGERY_SOURCE, LABELS_SOURCE] : [IMAGERY_SOURCE]
+  const zoomValid = minZoom >= 0 && maxZoom >= minZoom && maxZoom <= 19
+  const tileEstimate = bounds && zoomValid ? tileCache.estimatePrefetch(bounds, minZoom, maxZoom, sources.length) : 0
+  const overLimit = tileEstimate > MAP_TILES_CONFIG.maxPrefetchTiles
+
+  useEffect(() => {
+    const syncBasemaps = () => {
+      setBasemaps(tileCache.getBasemaps())
+      setActiveBasemapId(tileCache.getActiveBasemap()?.id ?? null)
+    }
+    const syncOnline = () => setOnline(tileCache.isOnline())
+
+    syncOnline()
+    syncBasemaps()
+    tileCache.restoreBasemaps()
+    tileCache.getCachedTileCount().then(setCachedTiles)
+
+    const unsubscribe = tileCache.subscribe(syncBasemaps)
+    window.addEventListener('online', syncOnline)
+    window.addEventListener('offline', syncOnline)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', syncOnline)
+      window.removeEventListener('offline', syncOnline)
+      abortRef.current?.abort()
+    }
+  }, [])
+
+  const startDownload = async () => {
+    if (!bounds) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setDownloading(true)
+    setError(null)
+    setProgress(null)
+
+    try {
+      const result = await tileCache.prefetch({
+        bounds,
+        minZoom,
+        maxZoom,
+        sources,
+        signal: controller.signal,
+        onProgress: setProgress,
+      })
+      setProgress(result)
+      if (result.failed > 0) {
+        setError(`${result.failed} tiles failed to download. Run the download again to retry them.`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Tile download failed')
+    } finally {
+      abortRef.current = null
+      setDownloading(false)
+      tileCache.getCachedTileCount().then(setCachedTiles)
+    }
+  }
+
+  const clearCache = async () => {
+    if (!confirm('Delete all downloaded map tiles from this browser?')) return
+    await tileCache.clearCache()
+    setProgress(null)
+    setCachedTiles(0)
+  }
+
+  const loadBasemap = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setLoadingBasemap(true)
+    setError(null)
+    try {
+      await tileCache.addBasemap(file)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open basemap file')
+    } finally {
+      setLoadingBasemap(false)
+    }
+  }
+
+  const completed = progress ? progress.downloaded + progress.cached + progress.failed : 0
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4 shadow-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <HardDrive className="text-cyan-400" size={16} />
+          <span className="text-slate-400 text-xs font-semibold">OFFLINE MAPS</span>
+        </div>
+        {!online && (
+          <span className="flex items-center space-x-1 text-amber-400 text-[10px] font-semibold">
+            <WifiOff size={12} />
+            <span>Offline</span>
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-slate-400 text-[10px]">
+            Min Zoom
+            <input
+              type="number"
+              min={0}
+              max={19}
+              value={minZoom}
+              onChange={(e) => setMinZoom(parseInt(e.target.value) || 0)}
+              className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <label className="text-slate-400 text-[10px]">
+            Max Zoom
+            <input
+              type="number"
+              min={0}
+              max={19}
+              value={maxZoom}
+              onChange={(e) => setMaxZoom(parseInt(e.target.value) || 0)}
+              className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+            />
+          </label>
+        </div>
+
+        <label className="flex items-center space-x-2 text-slate-400 text-[10px]">
+          <input
+            type="checkbox"
+            checked={includeLabels}
+            onChange={(e) => setIncludeLabels(e.target.checked)}
+          />
+          <span>Include place labels</span>
+        </label>
+
+        <div className={`text-[10px] ${overLimit ? 'text-red-400' : 'text-slate-500'}`}>
+          {!bounds
+            ? 'Add waypoints to define the download area.'
+            : !zoomValid
+              ? 'Zoom range must be between 0 and 19.'
+              : `${tileEstimate.toLocaleString()} tiles for the mission area` +
+                (overLimit ? ` (limit ${MAP_TILES_CONFIG.maxPrefetchTiles.toLocaleString()})` : '')}
+        </div>
+
+        {downloading ? (
+          <div className="space-y-2">
+            <div className="w-full h-2 bg-slate-700 rounded overflow-hidden">
+              <div
+                className="h-full bg-cyan-500 transition-all"
+                style={{ width: `${progress ? (completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="flex items-center justify-between text-slate-400 text-[10px]">
+              <span>{completed.toLocaleString()} / {(progress?.total ?? tileEstimate).toLocaleString()}</span>
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-2 py-1 bg-slate-700 text-white rounded font-semibold hover:bg-slate-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={startDownload}
+            disabled={!bounds || !zoomValid || overLimit || !online}
+            className={`w-full flex items-center justify-center space-x-1 px-3 py-2 rounded text-xs font-semibold transition-colors ${
+              bounds && zoomValid && !overLimit && online
+                ? 'bg-cyan-600 text-white hover:bg-cyan-700'
+                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            <Download size={14} />
+            <span>Download Mission Area</span>
+          </button>
+        )}
+
+        {progress && !downloading && (
+          <div className="text-slate-400 text-[10px]">
+            {progress.downloaded.toLocaleString()} downloaded • {progress.cached.toLocaleString()} already cached
+            {progress.failed > 0 && ` • ${progress.failed.toLocaleString()} failed`}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-slate-500 text-[10px]">
+          <span>{cachedTiles.toLocaleString()} tiles stored in this browser</span>
+          {cachedTiles > 0 && !downloading && (
+            <button onClick={clearCache} className="text-red-400 hover:text-red-300">
+              Clear
+            </button>
+          )}
+        </div>
+
+        {/* Local basemaps */}
+        <div className="border-t border-slate-700 pt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400 text-[10px] font-semibold">LOCAL BASEMAPS</span>
+            <button
+              onClick={() => basemapInputRef.current?.click()}
+              disabled={loadingBasemap}
+              className="flex items-center space-x-1 px-2 py-1 bg-slate-700 text-white rounded text-[10px] font-semibold hover:bg-slate-600 transition-colors"
+            >
+              <Layers size={12} />
+              <span>{loadingBasemap ? 'Opening...' : 'Load MBTiles / PMTiles'}</span>
+            </button>
+            <input
+              ref={basemapInputRef}
+              type="file"
+              accept=".mbtiles,.pmtiles"
+              onChange={loadBasemap}
+              className="hidden"
+            />
+          </div>
+
+          {basemaps.length === 0 ? (
+            <div className="text-slate-500 text-[10px]">No local basemaps loaded.</div>
+          ) : (
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 text-slate-300 text-xs">
+                <input
+                  type="radio"
+                  checked={activeBasemapId === null}
+                  onChange={() => tileCache.setActiveBasemap(null)}
+                />
+                <span>Online imagery</span>
+              </label>
+              {basemaps.map(basemap => (
+                <div key={basemap.id} className="flex items-center justify-between">
+                  <label className="flex items-center space-x-2 text-slate-300 text-xs min-w-0">
+                    <input
+                      type="radio"
+                      checked={activeBasemapId === basemap.id}
+                      onChange={() => tileCache.setActiveBasemap(basemap.id)}
+                    />
+                    <span className="truncate" title={basemap.fileName}>{basemap.metadata.name}</span>
+                    <span className="text-slate-500 text-[10px] flex-shrink-0">
+                      {basemap.kind.toUpperCase()} z{basemap.metadata.minZoom}–{basemap.metadata.maxZoom}
+                    </span>
+                  </label>
+                  <button
+                    onClick={() => tileCache.removeBasemap(basemap.id)}
+                    className="text-slate-500 hover:text-red-400 flex-shrink-0"
+                    title="Remove basemap"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <div className="text-red-400 text-[10px]">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect } from 'react'
+import L from 'leaflet'
+import { useMap } from 'react-leaflet'
+import tileCache, { MapTileSource } from '@/services/tileCache'
+
+interface OfflineTileLayerProps {
+  source: MapTileSource
+}
+
+/**
+ * Leaflet tile layer that loads tiles through the offline tile cache, so the
+ * map keeps working from cached tiles or a local basemap without a network
+ */
+export function createOfflineTileLayer(source: MapTileSource): L.TileLayer {
+  let unsubscribe: (() => void) | null = null
+
+  const OfflineLayer = L.TileLayer.extend({
+    createTile(coords: L.Coords, done: L.DoneCallback) {
+      const tile = document.createElement('img')
+      tile.alt = ''
+      tile.setAttribute('role', 'presentation')
+
+      tileCache.loadTile(source, { z: coords.z, x: coords.x, y: coords.y }, L.Browser.retina)
+        .then(blob => {
+          const objectUrl = URL.createObjectURL(blob)
+          tile.onload = () => {
+            URL.revokeObjectURL(objectUrl)
+            done(undefined, tile)
+          }
+          tile.onerror = () => {
+            URL.revokeObjectURL(objectUrl)
+            done(new Error('Tile image could not be decoded'), tile)
+          }
+          tile.src = objectUrl
+        })
+        .catch(error => done(error, tile))
+
+      return tile
+    },
+
+    onAdd(map: L.Map) {
+      // Redraw when a local basemap is loaded or switched
+      unsubscribe = tileCache.subscribe(() => (this as L.TileLayer).redraw())
+      tileCache.restoreBasemaps()
+      return L.TileLayer.prototype.onAdd.call(this, map)
+    },
+
+    onRemove(map: L.Map) {
+      unsubscribe?.()
+      unsubscribe = null
+      return L.TileLayer.prototype.onRemove.call(this, map)
+    },
+  })
+
+  return new (OfflineLayer as unknown as typeof L.TileLayer)(source.url, {
+    attribution: source.attribution,
+    subdomains: source.subdomains || 'abc',
+    maxZoom: source.maxZoom ?? 19,
+  })
+}
+
+/**
+ * react-leaflet counterpart of createOfflineTileLayer for MapContainer views
+ */
+export default function OfflineTileLayer({ source }: OfflineTileLayerProps) {
+  const map = useMap()
+
+  useEffect(() => {
+    const layer = createOfflineTileLayer(source).addTo(map)
+    return () => {
+      layer.remove()
+    }
+  }, [map, source])
+
+  return null
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { CheckCircle2, ClipboardCheck, XCircle } from 'lucide-react'
+import type { PreflightItemResult } from '@/lib/missionSchemas'
+import type { ResolvedChecklist } from '@/lib/preflight'
+
+interface PreflightChecklistProps {
+  checklist: ResolvedChecklist
+  results: PreflightItemResult[] // from evaluatePreflight, in checklist order
+  onSignOff: (itemId: string) => void
+  onRevoke: (itemId: string) => void
+  locked?: string // why manual items cannot be changed right now, e.g. the vehicle is armed
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+/**
+ * The pre-flight checklist for the loaded mission and vehicle. Automatic
+ * items follow telemetry; the operator ticks manual items off, which signs
+ * them in their name.
+ */
+export default function PreflightChecklist({ checklist, results, onSignOff, onRevoke, locked }: PreflightChecklistProps) {
+  const passedCount = results.filter(result => result.passed).length
+  const allPassed = passedCount === results.length
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-white font-semibold flex items-center gap-2">
+          <ClipboardCheck size={18} className={allPassed ? 'text-green-400' : 'text-yellow-400'} />
+          Pre-flight Checklist
+        </h3>
+        <span className={`text-xs font-semibold ${allPassed ? 'text-green-400' : 'text-yellow-400'}`}>
+          {passedCount}/{results.length}
+        </span>
+      </div>
+      <div className="text-gray-500 text-xs mb-3">{checklist.names.join(' · ')}</div>
+
+      <ul className="space-y-2">
+        {results.map(result => (
+          <li key={result.id} className="flex items-start gap-2 text-sm">
+            {result.check ? (
+              result.passed
+                ? <CheckCircle2 size={16} className="text-green-400 flex-shrink-0 mt-0.5" />
+                : <XCircle size={16} className="text-red-400 flex-shrink-0 mt-0.5" />
+            ) : (
+              <input
+                type="checkbox"
+                checked={result.passed}
+                onChange={(e) => (e.target.checked ? onSignOff(result.id) : onRevoke(result.id))}
+                disabled={locked !== undefined}
+                title={locked}
+                className="mt-1 flex-shrink-0 accent-green-500 disabled:cursor-not-allowed"
+              />
+            )}
+            <div className="min-w-0">
+              <div className={result.passed ? 'text-gray-200' : 'text-gray-400'}>{result.label}</div>
+              {result.signed_by && result.signed_at ? (
+                <div className="text-gray-500 text-xs">Signed off by {result.signed_by} at {formatTime(result.signed_at)}</div>
+              ) : result.check && result.detail ? (
+                <div className={`text-xs ${result.passed ? 'text-gray-500' : 'text-red-300'}`}>{result.detail}</div>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
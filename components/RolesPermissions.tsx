@@ -1,69 +1,154 @@
 'use client'
 
-import { Plus, User, CheckCircle, XCircle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { User, CheckCircle, XCircle, Lock } from 'lucide-react'
+import { Toaster, toast } from 'react-hot-toast'
 import { rolesData } from '@/lib/data'
+import { LOCKED_GRANTS, PERMISSION_IDS, PERMISSIONS, type RolePermissions } from '@/lib/permissions'
+import { usePermissions } from '@/hooks/usePermissions'
+import permissionService from '@/services/permissionService'
+import type { PermissionId, UserRole } from '@/types'
 
 export default function RolesPermissions() {
+  const can = usePermissions()
+  const canManage = can('manage_roles')
+
+  const [grants, setGrants] = useState<RolePermissions>(() => permissionService.getRolePermissions())
+  const [editingRole, setEditingRole] = useState<UserRole | null>(null)
+  const [draft, setDraft] = useState<PermissionId[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setGrants(permissionService.getRolePermissions())
+    return permissionService.subscribe(() => setGrants(permissionService.getRolePermissions()))
+  }, [])
+
+  const startEditing = (role: UserRole) => {
+    setEditingRole(role)
+    setDraft(grants[role])
+  }
+
+  const toggle = (permission: PermissionId) => {
+    setDraft(prev => prev.includes(permission) ? prev.filter(id => id !== permission) : [...prev, permission])
+  }
+
+  const handleSave = async () => {
+    if (!editingRole) return
+    setSaving(true)
+    try {
+      await permissionService.setRolePermissions(editingRole, draft)
+      toast.success(`${editingRole} permissions updated`)
+      setEditingRole(null)
+    } catch (err: any) {
+      console.error('Error updating role permissions:', err)
+      toast.error(err.message || 'Failed to update permissions')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   return (
-    <div className="flex-1 bg-slate-900 min-h-screen p-8">
+    <div className="flex-1 bg-slate-900 min-h-screen p-8 overflow-y-auto">
+      <Toaster position="top-right" />
+
       <div className="bg-blue-600 rounded-xl p-6 mb-8 flex items-center justify-between shadow-xl">
         <div>
           <h1 className="text-3xl font-bold text-white mb-2">Roles & Permissions</h1>
-          <p className="text-blue-100">Manage user roles and access control</p>
+          <p className="text-blue-100">
+            {canManage ? 'Manage user roles and access control' : 'What each role is permitted to do'}
+          </p>
         </div>
-        <button className="flex items-center space-x-2 px-6 py-3 bg-white text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors shadow-lg">
-          <Plus size={20} />
-          <span>Add New Role</span>
-        </button>
       </div>
 
       <div className="grid grid-cols-2 gap-6">
-        {rolesData.map((role, index) => (
-          <div key={index} className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl">
-            <div className="flex items-start justify-between mb-6">
-              <div className="flex items-start space-x-4">
-                <div className={`${role.color} w-12 h-12 rounded-full flex items-center justify-center shadow-lg`}>
-                  <User className="text-white" size={24} />
-                </div>
-                <div>
-                  <h3 className="text-xl font-bold text-white mb-1">{role.name}</h3>
-                  <p className="text-slate-400 text-sm">{role.description}</p>
+        {rolesData.map((role) => {
+          const editing = editingRole === role.name
+          const granted = editing ? draft : grants[role.name]
+          return (
+            <div key={role.name} className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl">
+              <div className="flex items-start justify-between mb-6">
+                <div className="flex items-start space-x-4">
+                  <div className={`${role.color} w-12 h-12 rounded-full flex items-center justify-center shadow-lg`}>
+                    <User className="text-white" size={24} />
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-bold text-white mb-1">{role.name}</h3>
+                    <p className="text-slate-400 text-sm">{role.description}</p>
+                  </div>
                 </div>
-              </div>
-              <button className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm">
-                Edit
-              </button>
-            </div>
-
-            <div className="mb-6">
-              <h4 className="text-white font-semibold mb-3 text-sm">Permissions</h4>
-              <div className="space-y-2">
-                {role.permissions.map((permission, pIndex) => (
-                  <div key={pIndex} className="flex items-start space-x-3 p-3 bg-slate-700 rounded-lg">
-                    {permission.allowed ? (
-                      <CheckCircle className="text-green-500 flex-shrink-0 mt-0.5" size={18} />
-                    ) : (
-                      <XCircle className="text-slate-500 flex-shrink-0 mt-0.5" size={18} />
-                    )}
-                    <div>
-                      <div className={`font-medium text-sm ${permission.allowed ? 'text-white' : 'text-slate-500'}`}>
-                        {permission.name}
-                      </div>
-                      <div className={`text-xs ${permission.allowed ? 'text-slate-400' : 'text-slate-600'}`}>
-                        {permission.description}
-                      </div>
-                    </div>
+                {canManage && (editing ? (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setEditingRole(null)}
+                      disabled={saving}
+                      className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={saving}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
                   </div>
+                ) : (
+                  <button
+                    onClick={() => startEditing(role.name)}
+                    disabled={editingRole !== null}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
                 ))}
               </div>
-            </div>
 
-            <div className="text-slate-400 text-sm">
-              Active Users: <span className="text-white font-semibold">{role.activeUsers}</span> • Created: Jan 2025
+              <div className="mb-6">
+                <h4 className="text-white font-semibold mb-3 text-sm">Permissions</h4>
+                <div className="space-y-2">
+                  {PERMISSION_IDS.map((id) => {
+                    const permission = PERMISSIONS[id]
+                    const allowed = granted.includes(id)
+                    const locked = LOCKED_GRANTS[role.name]?.includes(id) ?? false
+                    return (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => toggle(id)}
+                        disabled={!editing || locked}
+                        title={locked ? `${role.name}s always keep this permission` : undefined}
+                        className={`w-full flex items-start space-x-3 p-3 bg-slate-700 rounded-lg text-left ${
+                          editing && !locked ? 'hover:bg-slate-600 cursor-pointer' : 'cursor-default'
+                        }`}
+                      >
+                        {allowed ? (
+                          <CheckCircle className="text-green-500 flex-shrink-0 mt-0.5" size={18} />
+                        ) : (
+                          <XCircle className="text-slate-500 flex-shrink-0 mt-0.5" size={18} />
+                        )}
+                        <div className="flex-1">
+                          <div className={`font-medium text-sm ${allowed ? 'text-white' : 'text-slate-500'}`}>
+                            {permission.name}
+                          </div>
+                          <div className={`text-xs ${allowed ? 'text-slate-400' : 'text-slate-600'}`}>
+                            {permission.description}
+                          </div>
+                        </div>
+                        {editing && locked && <Lock className="text-slate-400 flex-shrink-0 mt-0.5" size={14} />}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div className="text-slate-400 text-sm">
+                Active Users: <span className="text-white font-semibold">{role.activeUsers}</span> • Created: Jan 2025
+              </div>
             </div>
-          </div>
-        ))}
+          )
+        })}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,11 +1,31 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-import { CheckCircle, MapPin, Plus, X, Map as MapIcon, Search, Save, ChevronLeft, ChevronRight, Edit } from 'lucide-react'
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { CheckCircle, MapPin, Plus, X, Map as MapIcon, Search, Save, ChevronLeft, ChevronRight, Edit, Shield, Hexagon, Circle, AlertTriangle, Grid, Upload, Undo2, Redo2, Crosshair } from 'lucide-react'
 import dynamic from 'next/dynamic'
 import Select from 'react-select'
-import { Waypoint } from '@/types'
-import { createMission, updateMission, type ApiMission } from '@/services/missionService'
+import { AltitudeFrame, Waypoint } from '@/types'
+import type { GeoPoint, Geofence, GeofenceGeometry, GeofenceMode } from '@/types/types'
+import { createMission, transitionMission, updateMission, type ApiMission } from '@/services/missionService'
+import { canEditMission, lastTransition, MISSION_EVENT_LABELS, MISSION_STATE_LABELS } from '@/lib/missionLifecycle'
+import { createGeofence, parseGeofences, validateGeofence } from '@/lib/geofence'
+import { hasBlockingIssues, parseWaypointAltitude, validateMission } from '@/lib/missionValidation'
+import { estimateMission } from '@/lib/missionEstimates'
+import { generateSurveyGrid, lineSpacingFromFootprint, parseSurvey, polygonArea } from '@/lib/survey'
+import { ALTITUDE_FRAME_SUFFIX, formatAltitude, parseMissionFile } from '@/lib/missionFiles'
+import { describeAction, describeCommand } from '@/lib/missionItems'
+import { buildTerrainProfile, convertWaypointAltitudes } from '@/lib/terrainProfile'
+import { TERRAIN_CONFIG } from '@/config/missionExecution.config'
+import { vehiclesData } from '@/lib/data'
+import geocoder, { type GeocodeSource } from '@/services/geocoder'
+import terrainService from '@/services/terrainService'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { usePermissions } from '@/hooks/usePermissions'
+import { useUndoableState } from '@/hooks/useUndoableState'
+import type { DrawTarget, MapDrawMode } from './MapComponent'
+import OfflineMapPanel from './OfflineMapPanel'
+import TerrainPanel from './TerrainPanel'
+import WaypointInspector from './WaypointInspector'
 
 // Dynamically import map component to avoid SSR issues
 const MapComponent = dynamic(() => import('./MapComponent'), { 
@@ -33,6 +53,7 @@ interface LocationOption {
   lat: number
   lon: number
   display_name: string
+  source?: GeocodeSource
 }
 
 interface CorridorOption {
@@ -48,6 +69,15 @@ interface MissionStats {
   batteryUsage: number
 }
 
+interface SurveyForm {
+  spacingMode: 'spacing' | 'camera'
+  lineSpacing: number // meters
+  footprintWidth: number // meters across-track
+  sidelap: number // percent
+  heading: number // degrees
+  altitude: number // meters above home
+}
+
 export default function RoutePlanning({ 
   selectedMission,
   editMode = false,
@@ -72,13 +102,29 @@ export default function RoutePlanning({
   const [isSaving, setIsSaving] = useState(false)
   const [saveError, setSaveError] = useState<string | null>(null)
   const [saveSuccess, setSaveSuccess] = useState(false)
-
-  const [waypoints, setWaypoints] = useState<Waypoint[]>([
+  const [submitForApproval, setSubmitForApproval] = useState(false)
+  const [reviewerNote, setReviewerNote] = useState('')
+
+  const currentUser = useCurrentUser()
+  // The commander's comments when the mission was sent back or rejected
+  const lastReview = selectedMission ? lastTransition(selectedMission, ['submit', 'request_changes', 'reject']) : null
+  const reviewFeedback = lastReview && lastReview.event !== 'submit' ? lastReview : null
+
+  // Route edits can be undone; loading a mission starts a fresh history
+  const {
+    value: waypoints,
+    set: setWaypoints,
+    reset: resetWaypoints,
+    undo: undoWaypoints,
+    redo: redoWaypoints,
+    canUndo,
+    canRedo
+  } = useUndoableState<Waypoint[]>([
     { 
       id: 'start', 
       label: 'Start: Mohanlalganj', 
       coords: '26.7465° N, 80.8769° E', 
-      alt: '120m AGL', 
+      alt: formatAltitude(120), 
       color: 'bg-green-500',
       lat: 26.7465,
       lon: 80.8769
@@ -87,7 +133,7 @@ export default function RoutePlanning({
       id: 'stop1', 
       label: 'Stop: Ajgain', 
       coords: '26.6789° N, 80.5234° E', 
-      alt: '100m AGL', 
+      alt: formatAltitude(100), 
       color: 'bg-blue-500',
       lat: 26.6789,
       lon: 80.5234
@@ -96,12 +142,22 @@ export default function RoutePlanning({
       id: 'end', 
       label: 'End: IIT Kanpur', 
       coords: '26.5123° N, 80.2329° E', 
-      alt: '100m AGL', 
+      alt: formatAltitude(100), 
       color: 'bg-red-500',
       lat: 26.5123,
       lon: 80.2329
     }
   ])
+
+  // On-map waypoint editing
+  const [selectedWaypointId, setSelectedWaypointId] = useState<string | null>(null)
+  const [addingWaypoints, setAddingWaypoints] = useState(false)
+  const [dragPreview, setDragPreview] = useState<{ id: string; point: GeoPoint } | null>(null)
+  // Missions on a vehicle or already flown keep their route
+  const can = usePermissions()
+  const canEdit = !selectedMission
+    ? can('create_missions')
+    : editMode && canEditMission(selectedMission.status) && can('edit_missions')
   
   const [searchOptions, setSearchOptions] = useState<LocationOption[]>([])
   const [isSearching, setIsSearching] = useState(false)
@@ -128,6 +184,38 @@ export default function RoutePlanning({
     batteryUsage: 0
   })
   const [sidebarOpen, setSidebarOpen] = useState(true)
+
+  // Geofence states
+  const [geofences, setGeofences] = useState<Geofence[]>([])
+  const [fenceMode, setFenceMode] = useState<GeofenceMode>('inclusion')
+  const [drawMode, setDrawMode] = useState<MapDrawMode | null>(null)
+
+  // Area survey states
+  const [surveyArea, setSurveyArea] = useState<GeoPoint[] | null>(null)
+  const [surveyForm, setSurveyForm] = useState<SurveyForm>({
+    spacingMode: 'spacing',
+    lineSpacing: 30,
+    footprintWidth: 60,
+    sidelap: 70,
+    heading: 0,
+    altitude: 60
+  })
+  const [surveyLines, setSurveyLines] = useState(0)
+  const [surveyError, setSurveyError] = useState<string | null>(null)
+
+  // Mission file import
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // Vehicle assigned to fly the mission; its battery bounds the route
+  const [vehicleId, setVehicleId] = useState<string | null>(null)
+  const assignedVehicle = vehiclesData.find(vehicle => vehicle.id === vehicleId) || null
+
+  // Local elevation data; re-render when files are loaded or removed
+  const [, setTerrainVersion] = useState(0)
+  const [minTerrainClearance, setMinTerrainClearance] = useState<number>(TERRAIN_CONFIG.minClearance)
+
+  useEffect(() => terrainService.subscribe(() => setTerrainVersion(version => version + 1)), [])
   
   // Load mission data when selectedMission changes
   useEffect(() => {
@@ -135,10 +223,11 @@ export default function RoutePlanning({
       console.log('Loading mission:', selectedMission)
       
       // Load waypoints
-      if (selectedMission.waypoints && Array.isArray(selectedMission.waypoints)) {
-        const loadedWaypoints: Waypoint[] = selectedMission.waypoints.map((wp: any, index: number) => {
+      const savedWaypoints = selectedMission.waypoints
+      if (savedWaypoints && savedWaypoints.length > 0) {
+        const loadedWaypoints: Waypoint[] = savedWaypoints.map((wp, index) => {
           let lat = wp.lat
-          let lon = wp.lon
+          let lon = wp.lon ?? wp.lng ?? NaN
           
           // Parse coords string if needed
           if (typeof wp.coords === 'string' && wp.coords.includes('°')) {
@@ -152,21 +241,30 @@ export default function RoutePlanning({
           // Determine color
           let color = 'bg-blue-500'
           if (index === 0) color = 'bg-green-500'
-          else if (index === selectedMission.waypoints.length - 1) color = 'bg-red-500'
+          else if (index === savedWaypoints.length - 1) color = 'bg-red-500'
           else if (wp.color) color = wp.color
           
           return {
             id: wp.id || `wp${index}`,
             label: wp.label || `Waypoint ${index + 1}`,
             coords: wp.coords || `${lat.toFixed(4)}° N, ${lon.toFixed(4)}° E`,
-            alt: wp.alt || '100m AGL',
+            alt: typeof wp.alt === 'string' ? wp.alt : formatAltitude(wp.alt ?? 100, wp.frame),
             color: color,
             lat: lat,
-            lon: lon
+            lon: lon,
+            holdTime: wp.holdTime ?? wp.hold_time,
+            frame: wp.frame,
+            speed: wp.speed,
+            acceptanceRadius: wp.acceptanceRadius ?? wp.acceptance_radius,
+            command: wp.command,
+            loiterTurns: wp.loiterTurns,
+            loiterRadius: wp.loiterRadius,
+            actions: wp.actions
           }
         })
         
-        setWaypoints(loadedWaypoints)
+        resetWaypoints(loadedWaypoints)
+        setSelectedWaypointId(null)
       }
       
       // Load stats
@@ -191,10 +289,29 @@ export default function RoutePlanning({
         }
       }
       
+      // Load geofences
+      setGeofences(parseGeofences(selectedMission.geofences))
+
+      // Load survey area
+      const survey = parseSurvey(selectedMission.survey)
+      setSurveyArea(survey?.area ?? null)
+      if (survey) {
+        setSurveyForm(prev => ({
+          ...prev,
+          spacingMode: 'spacing',
+          lineSpacing: survey.line_spacing,
+          heading: survey.heading,
+          altitude: survey.altitude
+        }))
+      }
+
+      // Load assigned vehicle
+      setVehicleId(selectedMission.vehicle_id || null)
+
       // Load mission name
       setMissionName(selectedMission.mission_name || '')
     }
-  }, [selectedMission])
+  }, [selectedMission, resetWaypoints])
 
   const searchTimeoutRef = useRef<NodeJS.Timeout>()
   const startSearchTimeoutRef = useRef<NodeJS.Timeout>()
@@ -221,39 +338,40 @@ export default function RoutePlanning({
     return degrees * (Math.PI / 180)
   }
 
-  // Calculate total route distance and update mission stats
-  const calculateMissionStats = (waypointsList: Waypoint[]): MissionStats => {
-    let totalDistance = 0
+  // The route as currently shown, including a waypoint being dragged
+  const routeWaypoints = useMemo(() => (
+    dragPreview
+      ? waypoints.map(wp => (wp.id === dragPreview.id ? { ...wp, ...dragPreview.point } : wp))
+      : waypoints
+  ), [waypoints, dragPreview])
 
-    // Calculate distance between consecutive waypoints
-    for (let i = 0; i < waypointsList.length - 1; i++) {
-      const current = waypointsList[i]
-      const next = waypointsList[i + 1]
-      const segmentDistance = calculateDistance(current.lat, current.lon, next.lat, next.lon)
-      totalDistance += segmentDistance
-    }
-
-    // Assumptions for calculations:
-    // Average speed: 150 km/h
-    // Battery consumption: 1% per km (adjustable)
-    const avgSpeed = 150 // km/h
-    const batteryPerKm = 1 // % per km
-
-    const flightTime = (totalDistance / avgSpeed) * 60 // Convert to minutes
-    const batteryUsage = Math.min(totalDistance * batteryPerKm, 100) // Cap at 100%
+  // Update mission stats whenever the route or the assigned vehicle changes
+  useEffect(() => {
+    setMissionStats(estimateMission(routeWaypoints, assignedVehicle?.profile))
+  }, [routeWaypoints, assignedVehicle])
 
-    return {
-      totalDistance: parseFloat(totalDistance.toFixed(2)),
-      flightTime: parseFloat(flightTime.toFixed(1)),
-      batteryUsage: parseFloat(batteryUsage.toFixed(1))
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y, leaving text fields their own undo
+  useEffect(() => {
+    if (!canEdit) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return
+      if (!(e.ctrlKey || e.metaKey)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undoWaypoints()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redoWaypoints()
+      }
     }
-  }
 
-  // Update mission stats whenever waypoints change
-  useEffect(() => {
-    const stats = calculateMissionStats(waypoints)
-    setMissionStats(stats)
-  }, [waypoints])
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [canEdit, undoWaypoints, redoWaypoints])
 
   // Generic function to search locations using Nominatim API
   const searchLocations = async (
@@ -268,17 +386,15 @@ export default function RoutePlanning({
 
     setSearching(true)
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=5&countrycodes=in`
-      )
-      const data = await response.json()
-      
-      const options: LocationOption[] = data.map((item: any) => ({
-        value: item.place_id,
-        label: item.display_name,
-        lat: parseFloat(item.lat),
-        lon: parseFloat(item.lon),
-        display_name: item.display_name
+      const results = await geocoder.search(query)
+
+      const options: LocationOption[] = results.map(result => ({
+        value: result.id,
+        label: result.label,
+        lat: result.lat,
+        lon: result.lon,
+        display_name: result.label,
+        source: result.source
       }))
       
       setOptions(options)
@@ -354,7 +470,7 @@ export default function RoutePlanning({
       id: 'start',
       label: `Start: ${selectedStartLocation.label.split(',')[0]}`,
       coords: `${selectedStartLocation.lat.toFixed(4)}° N, ${selectedStartLocation.lon.toFixed(4)}° E`,
-      alt: '120m AGL',
+      alt: formatAltitude(120),
       color: 'bg-green-500',
       lat: selectedStartLocation.lat,
       lon: selectedStartLocation.lon
@@ -375,7 +491,7 @@ export default function RoutePlanning({
       id: 'end',
       label: `End: ${selectedEndLocation.label.split(',')[0]}`,
       coords: `${selectedEndLocation.lat.toFixed(4)}° N, ${selectedEndLocation.lon.toFixed(4)}° E`,
-      alt: '100m AGL',
+      alt: formatAltitude(100),
       color: 'bg-red-500',
       lat: selectedEndLocation.lat,
       lon: selectedEndLocation.lon
@@ -396,7 +512,7 @@ export default function RoutePlanning({
       id: `stop${Date.now()}`, // Use timestamp for unique ID
       label: `Stop: ${selectedLocation.label.split(',')[0]}`,
       coords: `${selectedLocation.lat.toFixed(4)}° N, ${selectedLocation.lon.toFixed(4)}° E`,
-      alt: '100m AGL',
+      alt: formatAltitude(100),
       color: 'bg-blue-500',
       lat: selectedLocation.lat,
       lon: selectedLocation.lon
@@ -417,8 +533,247 @@ export default function RoutePlanning({
   const removeWaypoint = (id: string) => {
     if (id === 'start' || id === 'end') return // Prevent removing start and end points
     setWaypoints(waypoints.filter(wp => wp.id !== id))
+    if (selectedWaypointId === id) setSelectedWaypointId(null)
+  }
+
+  // Typing into one field of one waypoint is a single undo step; changes
+  // without a field are always their own step
+  const updateWaypoint = (id: string, changes: Partial<Waypoint>, field?: string) => {
+    setWaypoints(
+      current => current.map(wp => (wp.id === id ? { ...wp, ...changes } : wp)),
+      field && `${id}:${field}`
+    )
+  }
+
+  // Empty input clears the hold
+  const updateHoldTime = (id: string, value: string) => {
+    const seconds = parseFloat(value)
+    updateWaypoint(id, { holdTime: Number.isFinite(seconds) && seconds > 0 ? seconds : undefined }, 'holdTime')
+  }
+
+  // Empty or invalid input leaves the altitude unchanged
+  const updateAltitude = (id: string, value: string) => {
+    const meters = parseFloat(value)
+    if (!Number.isFinite(meters)) return
+    const frame = waypoints.find(wp => wp.id === id)?.frame
+    updateWaypoint(id, { alt: formatAltitude(meters, frame) }, 'alt')
+  }
+
+  // Relabels the altitude; use the terrain panel to convert the value
+  const updateAltitudeFrame = (id: string, frame: AltitudeFrame) => {
+    setWaypoints(waypoints.map(wp =>
+      wp.id === id ? { ...wp, alt: formatAltitude(parseWaypointAltitude(wp.alt) ?? 100, frame), frame } : wp
+    ))
+  }
+
+  const createStop = (point: GeoPoint): Waypoint => ({
+    id: `stop${Date.now()}`,
+    label: `Stop: ${point.lat.toFixed(4)}, ${point.lon.toFixed(4)}`,
+    coords: `${point.lat.toFixed(4)}° N, ${point.lon.toFixed(4)}° E`,
+    alt: formatAltitude(100),
+    color: 'bg-blue-500',
+    lat: point.lat,
+    lon: point.lon
+  })
+
+  // Map clicks add a stop just before the end point
+  const addWaypointAt = (point: GeoPoint) => {
+    const stop = createStop(point)
+    setWaypoints([...waypoints.slice(0, -1), stop, ...waypoints.slice(-1)])
+    setSelectedWaypointId(stop.id)
+  }
+
+  // Split a leg, taking the altitude of the waypoint it starts from
+  const insertWaypoint = (legIndex: number, point: GeoPoint) => {
+    const previous = waypoints[legIndex]
+    const stop = { ...createStop(point), alt: previous.alt, frame: previous.frame }
+    setWaypoints([...waypoints.slice(0, legIndex + 1), stop, ...waypoints.slice(legIndex + 1)])
+    setSelectedWaypointId(stop.id)
+  }
+
+  const moveWaypoint = (id: string, point: GeoPoint) => {
+    setWaypoints(waypoints.map(wp =>
+      wp.id === id
+        ? { ...wp, lat: point.lat, lon: point.lon, coords: `${point.lat.toFixed(4)}° N, ${point.lon.toFixed(4)}° E` }
+        : wp
+    ))
+  }
+
+  // Start and end stay in place; stops swap with their neighbours
+  const reorderWaypoint = (id: string, direction: -1 | 1) => {
+    const index = waypoints.findIndex(wp => wp.id === id)
+    const target = index + direction
+    if (index < 1 || target < 1 || target > waypoints.length - 2) return
+
+    const reordered = [...waypoints]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setWaypoints(reordered)
+  }
+
+  // Keep every waypoint at the same height above sea level in another frame
+  const convertAltitudeFrame = (frame: AltitudeFrame) => {
+    const altitudes = convertWaypointAltitudes(waypoints, frame, point => terrainService.elevationAt(point))
+    setWaypoints(waypoints.map((wp, index) => ({ ...wp, alt: formatAltitude(altitudes[index], frame), frame })))
+  }
+
+  // Add a fence or set the survey area once a shape has been drawn on the map
+  const handleShapeDrawn = (geometry: GeofenceGeometry, target: DrawTarget) => {
+    if (target === 'survey') {
+      if (geometry.shape === 'polygon') {
+        setSurveyArea(geometry.vertices)
+        setSurveyError(null)
+      }
+    } else {
+      setGeofences(prev => [...prev, createGeofence(geometry, target, prev)])
+    }
+    setDrawMode(null)
+  }
+
+  const surveySpacing = surveyForm.spacingMode === 'camera'
+    ? lineSpacingFromFootprint(surveyForm.footprintWidth, surveyForm.sidelap)
+    : surveyForm.lineSpacing
+
+  const updateSurveyForm = (changes: Partial<SurveyForm>) => {
+    setSurveyForm(prev => ({ ...prev, ...changes }))
   }
 
+  // Replace the stops between start and end with a lawnmower grid over the area
+  const generateSurvey = () => {
+    if (!surveyArea) return
+
+    try {
+      const grid = generateSurveyGrid(surveyArea, {
+        lineSpacing: surveySpacing,
+        heading: surveyForm.heading,
+        altitude: surveyForm.altitude
+      })
+
+      const surveyWaypoints: Waypoint[] = grid.waypoints.map((point, index) => ({
+        id: `survey${index}`,
+        label: `Survey ${index + 1}`,
+        coords: `${point.lat.toFixed(4)}° N, ${point.lon.toFixed(4)}° E`,
+        alt: formatAltitude(surveyForm.altitude),
+        color: 'bg-blue-500',
+        lat: point.lat,
+        lon: point.lon
+      }))
+
+      setWaypoints([
+        ...waypoints.filter(wp => wp.id === 'start'),
+        ...surveyWaypoints,
+        ...waypoints.filter(wp => wp.id === 'end')
+      ])
+      setSurveyLines(grid.lineCount)
+      setSurveyError(null)
+    } catch (error: any) {
+      setSurveyError(error.message)
+    }
+  }
+
+  // Replace the route with one read from a QGC plan, WPL, KML or GPX file
+  const importMissionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // allow re-importing the same file
+    if (!file) return
+
+    try {
+      const mission = parseMissionFile(await file.text(), file.name)
+      const last = mission.waypoints.length - 1
+
+      setWaypoints(mission.waypoints.map((wp, index): Waypoint => {
+        const name = wp.name ?? `Waypoint ${index + 1}`
+        return {
+          id: index === 0 ? 'start' : index === last ? 'end' : `stop${index}`,
+          label: index === 0 ? `Start: ${name}` : index === last ? `End: ${name}` : name,
+          coords: `${wp.lat.toFixed(4)}° N, ${wp.lon.toFixed(4)}° E`,
+          alt: formatAltitude(wp.alt, wp.frame),
+          color: index === 0 ? 'bg-green-500' : index === last ? 'bg-red-500' : 'bg-blue-500',
+          lat: wp.lat,
+          lon: wp.lon,
+          holdTime: wp.holdTime,
+          frame: wp.frame,
+          speed: wp.speed,
+          acceptanceRadius: wp.acceptanceRadius,
+          command: wp.command,
+          loiterTurns: wp.loiterTurns,
+          loiterRadius: wp.loiterRadius,
+          actions: wp.actions
+        }
+      }))
+      if (mission.geofences.length > 0) {
+        setGeofences(mission.geofences)
+      }
+      if (!missionName.trim()) {
+        setMissionName(mission.name)
+      }
+      setSurveyArea(null)
+      setSurveyLines(0)
+      setImportError(null)
+      console.log(`Imported ${mission.waypoints.length} waypoints from ${file.name}`)
+    } catch (error: any) {
+      console.error('Mission import failed:', error)
+      setImportError(`${file.name}: ${error.message}`)
+    }
+  }
+
+  const clearSurvey = () => {
+    setWaypoints(waypoints.filter(wp => !wp.id.startsWith('survey')))
+    setSurveyArea(null)
+    setSurveyLines(0)
+    setSurveyError(null)
+  }
+
+  const updateGeofence = (id: string, changes: Partial<Pick<Geofence, 'name' | 'floor' | 'ceiling'>>) => {
+    setGeofences(prev => prev.map(fence => (fence.id === id ? { ...fence, ...changes } : fence)))
+  }
+
+  const removeGeofence = (id: string) => {
+    setGeofences(prev => prev.filter(fence => fence.id !== id))
+  }
+
+  // Empty input clears the limit
+  const parseAltitudeLimit = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined
+    const parsed = parseFloat(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  const geofenceIssues = geofences.flatMap(validateGeofence)
+
+  // Ground and flight altitude along the route, once elevation files are loaded
+  const terrainProfile = terrainService.hasData()
+    ? buildTerrainProfile(waypoints, point => terrainService.elevationAt(point))
+    : null
+
+  // Checked on every change so problems show up while planning, not on save
+  const missionIssues = validateMission({
+    waypoints,
+    geofences,
+    vehicle: assignedVehicle,
+    estimatedBatteryUsage: missionStats.batteryUsage,
+    terrain: terrainProfile,
+    minTerrainClearance,
+  })
+  const missionBlocked = hasBlockingIssues(missionIssues)
+
+  const selectedWaypointIndex = waypoints.findIndex(wp => wp.id === selectedWaypointId)
+  const selectedWaypoint = selectedWaypointIndex === -1 ? null : waypoints[selectedWaypointIndex]
+
+  // Area to pre-download map tiles for; circles contribute their bounding box
+  const offlineMapPoints: GeoPoint[] = [
+    ...waypoints.map(wp => ({ lat: wp.lat, lon: wp.lon })),
+    ...geofences.flatMap(fence => {
+      if (fence.shape === 'polygon') return fence.vertices
+      const dLat = fence.radius / 111320
+      const dLon = dLat / Math.cos((fence.center.lat * Math.PI) / 180)
+      return [
+        { lat: fence.center.lat - dLat, lon: fence.center.lon - dLon },
+        { lat: fence.center.lat + dLat, lon: fence.center.lon + dLon },
+      ]
+    }),
+    ...(surveyArea || []),
+  ]
+
   // Get color class for corridor badges
   const getColorClass = (color: string) => {
     const colorMap: Record<string, string> = {
@@ -527,6 +882,21 @@ export default function RoutePlanning({
       return
     }
 
+    if (geofenceIssues.length > 0) {
+      setSaveError(geofenceIssues[0])
+      return
+    }
+
+    if (missionBlocked) {
+      setSaveError('Resolve the mission check errors before saving')
+      return
+    }
+
+    if (selectedMission && !canEditMission(selectedMission.status)) {
+      setSaveError(`${MISSION_STATE_LABELS[selectedMission.status]} missions cannot be changed`)
+      return
+    }
+
     setIsSaving(true)
     setSaveError(null)
 
@@ -553,10 +923,25 @@ export default function RoutePlanning({
           color: wp.color,
           lat: wp.lat,
           lon: wp.lon,
+          holdTime: wp.holdTime,
+          frame: wp.frame,
+          speed: wp.speed,
+          acceptanceRadius: wp.acceptanceRadius,
+          command: wp.command,
+          loiterTurns: wp.loiterTurns,
+          loiterRadius: wp.loiterRadius,
+          actions: wp.actions,
         })),
-        created_by: 'current_user',
+        geofences,
+        survey: surveyArea ? {
+          area: surveyArea,
+          line_spacing: surveySpacing,
+          heading: surveyForm.heading,
+          altitude: surveyForm.altitude,
+        } : null,
+        created_by: (editMode ? selectedMission?.created_by : null) ?? currentUser?.name ?? null,
         notes: '',
-        vehicle_id: null,
+        vehicle_id: vehicleId,
         operator_id: null,
       }
 
@@ -564,6 +949,10 @@ export default function RoutePlanning({
       if (editMode && selectedMission) {
         // Update existing mission
         result = await updateMission(selectedMission.id, missionData)
+        // A changed route needs planning and approval again
+        if (selectedMission.status !== 'draft') {
+          result = await transitionMission(selectedMission.id, 'revise', { reason: 'Route edited' })
+        }
         console.log('Mission updated:', result)
       } else {
         // Create new mission
@@ -571,12 +960,19 @@ export default function RoutePlanning({
         console.log('Mission created:', result)
       }
 
+      // Saved missions stay drafts until the planner submits them
+      if (submitForApproval) {
+        result = await transitionMission(result.id, 'submit', { reason: reviewerNote.trim() || undefined })
+      }
+
       setSaveSuccess(true)
       setShowSaveDialog(false)
       setMissionName('')
+      setReviewerNote('')
       
       setTimeout(() => {
         setSaveSuccess(false)
+        setSubmitForApproval(false)
         if (onMissionSaved) {
           onMissionSaved()
         }
@@ -621,7 +1017,26 @@ export default function RoutePlanning({
         </div>
 
         <div className="flex items-center space-x-3">
-          {(!selectedMission || editMode) && (
+          {canEdit && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".plan,.waypoints,.wpl,.txt,.kml,.gpx"
+                onChange={importMissionFile}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white font-semibold rounded-lg hover:bg-slate-700 transition-colors border border-slate-700"
+                title="Import QGroundControl plan, WPL, KML or GPX"
+              >
+                <Upload size={20} />
+                <span>Import</span>
+              </button>
+            </>
+          )}
+          {canEdit && (
             <button 
               onClick={() => setShowSaveDialog(true)}
               className="flex items-center space-x-2 px-6 py-3 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors shadow-lg"
@@ -633,12 +1048,41 @@ export default function RoutePlanning({
         </div>
       </div>
 
+      {/* Review Feedback - the last decision on a submitted mission */}
+      {reviewFeedback && (
+        <div className={`px-6 py-3 border-b flex items-start space-x-3 ${
+          reviewFeedback.event === 'reject'
+            ? 'bg-rose-900 bg-opacity-30 border-rose-700 text-rose-300'
+            : 'bg-yellow-900 bg-opacity-30 border-yellow-700 text-yellow-300'
+        }`}>
+          <AlertTriangle size={20} className="flex-shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <div className="font-semibold">
+              {reviewFeedback.event === 'reject' ? 'Rejected' : 'Changes requested'}
+              {reviewFeedback.by ? ` by ${reviewFeedback.by}` : ''}
+            </div>
+            {reviewFeedback.reason && <div className="mt-1">{reviewFeedback.reason}</div>}
+          </div>
+        </div>
+      )}
+
+      {/* Import Error */}
+      {importError && (
+        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-red-600 text-white px-6 py-3 rounded-lg shadow-2xl z-50 flex items-center space-x-3">
+          <AlertTriangle size={20} />
+          <span className="font-semibold">{importError}</span>
+          <button onClick={() => setImportError(null)} className="hover:text-red-200">
+            <X size={18} />
+          </button>
+        </div>
+      )}
+
       {/* Success Message - ADDED */}
       {saveSuccess && (
         <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-green-600 text-white px-6 py-3 rounded-lg shadow-2xl z-50 flex items-center space-x-2 animate-bounce">
           <CheckCircle size={20} />
           <span className="font-semibold">
-            {editMode ? 'Mission Updated Successfully!' : 'Mission Saved Successfully!'}
+            {submitForApproval ? 'Mission Submitted for Approval!' : editMode ? 'Mission Updated Successfully!' : 'Mission Saved Successfully!'}
           </span>
         </div>
       )}
@@ -670,9 +1114,45 @@ export default function RoutePlanning({
                   <div>• Distance: {missionStats.totalDistance} km</div>
                   <div>• Duration: {formatFlightTime(missionStats.flightTime)}</div>
                   <div>• Corridor: {selectedCorridor?.label || 'Not selected'}</div>
+                  <div>• Geofences: {geofences.length}</div>
+                  <div>• Vehicle: {assignedVehicle?.name || 'Not assigned'}</div>
                 </div>
               </div>
 
+              <div>
+                <label className="flex items-center text-slate-300 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={submitForApproval}
+                    onChange={(e) => setSubmitForApproval(e.target.checked)}
+                    className="mr-2 w-4 h-4"
+                  />
+                  {MISSION_EVENT_LABELS.submit}
+                </label>
+                {submitForApproval && (
+                  <textarea
+                    value={reviewerNote}
+                    onChange={(e) => setReviewerNote(e.target.value)}
+                    placeholder="Note for the reviewing commander (optional)"
+                    rows={2}
+                    className="w-full mt-2 px-4 py-2 bg-slate-700 text-white text-sm rounded-lg border border-slate-600 focus:outline-none focus:border-blue-500"
+                  />
+                )}
+              </div>
+
+              {missionBlocked && (
+                <div className="bg-red-900 bg-opacity-30 border border-red-500 rounded-lg p-3 text-xs">
+                  <div className="text-red-400 font-semibold mb-1">Mission checks failed:</div>
+                  <ul className="text-red-300 space-y-1 max-h-32 overflow-y-auto">
+                    {missionIssues
+                      .filter(issue => issue.severity === 'error')
+                      .map((issue, index) => (
+                        <li key={index}>• {issue.message}</li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
               {saveError && (
                 <div className="bg-red-900 bg-opacity-30 border border-red-500 text-red-400 px-4 py-2 rounded-lg text-sm">
                   {saveError}
@@ -685,6 +1165,8 @@ export default function RoutePlanning({
                     setShowSaveDialog(false)
                     setMissionName('')
                     setSaveError(null)
+                    setSubmitForApproval(false)
+                    setReviewerNote('')
                   }}
                   disabled={isSaving}
                   className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -693,7 +1175,7 @@ export default function RoutePlanning({
                 </button>
                 <button
                   onClick={saveMission}
-                  disabled={isSaving || !missionName.trim()}
+                  disabled={isSaving || !missionName.trim() || missionBlocked}
                   className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
                   {isSaving ? (
@@ -702,7 +1184,7 @@ export default function RoutePlanning({
                       Saving...
                     </>
                   ) : (
-                    'Save Mission'
+                    submitForApproval ? 'Save & Submit' : 'Save Mission'
                   )}
                 </button>
               </div>
@@ -715,9 +1197,75 @@ export default function RoutePlanning({
       <div className="flex-1 relative overflow-hidden">
         {/* Full Height Map */}
         <div className="absolute inset-0">
-          <MapComponent waypoints={waypoints} missionStats={missionStats} />
+          <MapComponent
+            waypoints={waypoints}
+            missionStats={missionStats}
+            geofences={geofences}
+            surveyArea={surveyArea}
+            drawMode={drawMode}
+            onShapeDrawn={handleShapeDrawn}
+            onDrawCancel={() => setDrawMode(null)}
+            editable={canEdit}
+            addingWaypoints={addingWaypoints}
+            selectedWaypointId={selectedWaypointId}
+            onWaypointAdd={addWaypointAt}
+            onWaypointSelect={setSelectedWaypointId}
+            onWaypointDrag={(id, point) => setDragPreview(point ? { id, point } : null)}
+            onWaypointMove={moveWaypoint}
+            onWaypointInsert={insertWaypoint}
+            onWaypointDelete={removeWaypoint}
+          />
         </div>
 
+        {/* Route editing toolbar and waypoint inspector */}
+        {canEdit && (
+          <div className="absolute top-3 left-16 z-[1000] space-y-2">
+            <div className="flex items-center space-x-1 bg-slate-800 bg-opacity-95 rounded-lg p-1 border border-slate-700 shadow-lg">
+              <button
+                onClick={() => setAddingWaypoints(!addingWaypoints)}
+                className={`flex items-center space-x-1 px-2 py-1 rounded text-xs font-semibold transition-colors ${
+                  addingWaypoints ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+                title="Click the map to add waypoints"
+              >
+                <Crosshair size={14} />
+                <span>{addingWaypoints ? 'Adding Waypoints' : 'Add on Map'}</span>
+              </button>
+              <button
+                onClick={undoWaypoints}
+                disabled={!canUndo}
+                className="p-1 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 size={14} />
+              </button>
+              <button
+                onClick={redoWaypoints}
+                disabled={!canRedo}
+                className="p-1 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 size={14} />
+              </button>
+            </div>
+
+            {selectedWaypoint && (
+              <WaypointInspector
+                waypoint={selectedWaypoint}
+                index={selectedWaypointIndex}
+                count={waypoints.length}
+                issues={missionIssues.filter(issue => issue.waypointIndex === selectedWaypointIndex)}
+                onAltitudeChange={(meters) => updateAltitude(selectedWaypoint.id, String(meters))}
+                onFrameChange={(frame) => updateAltitudeFrame(selectedWaypoint.id, frame)}
+                onChange={(changes, field) => updateWaypoint(selectedWaypoint.id, changes, field)}
+                onReorder={(direction) => reorderWaypoint(selectedWaypoint.id, direction)}
+                onDelete={() => removeWaypoint(selectedWaypoint.id)}
+                onClose={() => setSelectedWaypointId(null)}
+              />
+            )}
+          </div>
+        )}
+
         {/* Collapsible Sidebar */}
         <div 
           className={`absolute top-0 right-0 h-full bg-slate-900 border-l border-slate-800 shadow-2xl transition-all duration-300 ease-in-out z-20 ${
@@ -754,6 +1302,196 @@ export default function RoutePlanning({
               />
             </div>
 
+            {/* Geofences */}
+            <div className="bg-slate-800 rounded-xl p-4 shadow-lg">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <Shield className="text-blue-400" size={16} />
+                  <span className="text-slate-400 text-xs font-semibold">GEOFENCES</span>
+                </div>
+                <span className="bg-blue-600 text-white text-xs font-bold px-2 py-1 rounded">{geofences.length}</span>
+              </div>
+
+              {canEdit && (
+                drawMode && drawMode.target !== 'survey' ? (
+                  <div className="mb-3 space-y-2">
+                    <div className="text-xs text-slate-300 bg-slate-700 rounded-lg p-2">
+                      {drawMode.shape === 'polygon'
+                        ? 'Click the map to add vertices. Click the first vertex or double-click to finish.'
+                        : 'Click the map to place the center, then click again to set the radius.'}
+                      {' '}Press Esc to cancel.
+                    </div>
+                    <button
+                      onClick={() => setDrawMode(null)}
+                      className="w-full px-3 py-2 bg-slate-700 text-white rounded text-xs font-semibold hover:bg-slate-600 transition-colors"
+                    >
+                      Cancel Drawing
+                    </button>
+                  </div>
+                ) : (
+                  <div className="mb-3 space-y-2">
+                    <div className="flex space-x-2">
+                      {(['inclusion', 'exclusion'] as GeofenceMode[]).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setFenceMode(mode)}
+                          className={`flex-1 px-3 py-1.5 rounded text-xs font-semibold transition-colors ${
+                            fenceMode === mode
+                              ? mode === 'inclusion' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                              : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                          }`}
+                        >
+                          {mode === 'inclusion' ? 'Inclusion' : 'Exclusion'}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setDrawMode({ shape: 'polygon', target: fenceMode })}
+                        className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded text-xs font-semibold hover:bg-blue-700 transition-colors"
+                      >
+                        <Hexagon size={14} />
+                        <span>Draw Polygon</span>
+                      </button>
+                      <button
+                        onClick={() => setDrawMode({ shape: 'circle', target: fenceMode })}
+                        className="flex-1 flex items-center justify-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded text-xs font-semibold hover:bg-blue-700 transition-colors"
+                      >
+                        <Circle size={14} />
+                        <span>Draw Circle</span>
+                      </button>
+                    </div>
+                  </div>
+                )
+              )}
+
+              {geofences.length === 0 ? (
+                <div className="text-slate-500 text-xs">No geofences. The vehicle will not be checked against any boundary.</div>
+              ) : (
+                <div className="space-y-2">
+                  {geofences.map(fence => {
+                    const issues = validateGeofence(fence)
+                    const editable = !selectedMission || editMode
+                    return (
+                      <div
+                        key={fence.id}
+                        className={`rounded-lg p-2 border ${fence.mode === 'inclusion' ? 'border-green-600' : 'border-red-600'} bg-slate-900`}
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <input
+                            type="text"
+                            value={fence.name}
+                            onChange={(e) => updateGeofence(fence.id, { name: e.target.value })}
+                            disabled={!editable}
+                            className="flex-1 mr-2 bg-transparent text-white text-sm font-medium focus:outline-none disabled:cursor-default"
+                          />
+                          <span className="text-slate-500 text-[10px] uppercase mr-2">
+                            {fence.shape === 'circle' ? `${Math.round(fence.radius)} m circle` : `${fence.vertices.length}-point polygon`}
+                          </span>
+                          {editable && (
+                            <button
+                              onClick={() => removeGeofence(fence.id)}
+                              className="text-red-400 hover:text-red-300 transition-colors"
+                              title="Remove geofence"
+                            >
+                              <X size={14} />
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex space-x-2">
+                          <label className="flex-1 text-slate-400 text-[10px]">
+                            Floor (m)
+                            <input
+                              type="number"
+                              min={0}
+                              value={fence.floor ?? ''}
+                              onChange={(e) => updateGeofence(fence.id, { floor: parseAltitudeLimit(e.target.value) })}
+                              disabled={!editable}
+                              placeholder="None"
+                              className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                            />
+                          </label>
+                          <label className="flex-1 text-slate-400 text-[10px]">
+                            Ceiling (m)
+                            <input
+                              type="number"
+                              min={0}
+                              value={fence.ceiling ?? ''}
+                              onChange={(e) => updateGeofence(fence.id, { ceiling: parseAltitudeLimit(e.target.value) })}
+                              disabled={!editable}
+                              placeholder="None"
+                              className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                            />
+                          </label>
+                        </div>
+                        {issues.length > 0 && (
+                          <div className="text-red-400 text-[10px] mt-1">{issues[0]}</div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Mission Checks */}
+            <div className={`bg-slate-800 rounded-xl p-4 shadow-lg border ${missionBlocked ? 'border-red-500' : 'border-slate-700'}`}>
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <AlertTriangle className={missionBlocked ? 'text-red-400' : 'text-blue-400'} size={16} />
+                  <span className="text-slate-400 text-xs font-semibold">MISSION CHECKS</span>
+                </div>
+                {missionIssues.length > 0 && (
+                  <span className={`${missionBlocked ? 'bg-red-600' : 'bg-yellow-600'} text-white text-xs font-bold px-2 py-1 rounded`}>
+                    {missionIssues.length}
+                  </span>
+                )}
+              </div>
+
+              <label className="block text-slate-400 text-[10px] mb-3">
+                Assigned Vehicle
+                <select
+                  value={vehicleId ?? ''}
+                  onChange={(e) => setVehicleId(e.target.value || null)}
+                  disabled={!!selectedMission && !editMode}
+                  className="w-full mt-1 px-2 py-1.5 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">Not assigned</option>
+                  {vehiclesData.map(vehicle => (
+                    <option key={vehicle.id} value={vehicle.id}>
+                      {vehicle.name} ({vehicle.id}) • {vehicle.battery}%
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {assignedVehicle && (
+                <div className="text-slate-500 text-[10px] -mt-2 mb-3">
+                  {assignedVehicle.profile.airframe} • Cruise {assignedVehicle.profile.cruiseSpeed} m/s •
+                  Climb {assignedVehicle.profile.climbSpeed} m/s • {assignedVehicle.profile.batteryCapacity} Wh •
+                  Max wind {assignedVehicle.profile.maxWind} m/s
+                </div>
+              )}
+
+              {missionIssues.length === 0 ? (
+                <div className="flex items-center space-x-2 text-green-400 text-xs">
+                  <CheckCircle size={14} />
+                  <span>All checks passed</span>
+                </div>
+              ) : (
+                <ul className="space-y-1.5">
+                  {missionIssues.map((issue, index) => (
+                    <li
+                      key={index}
+                      className={`text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             {/* Start Point */}
             <div className="bg-slate-800 rounded-xl p-4 border border-green-500 shadow-lg">
               <div className="flex items-center justify-between mb-2">
@@ -761,7 +1499,7 @@ export default function RoutePlanning({
                   <MapPin className="text-green-500" size={16} />
                   <span className="text-slate-400 text-xs font-semibold">START POINT</span>
                 </div>
-                {(!selectedMission || editMode) && (
+                {canEdit && (
                 <button 
                   onClick={() => setEditingStart(!editingStart)}
                   className="text-green-400 hover:text-green-300 transition-colors"
@@ -899,7 +1637,7 @@ export default function RoutePlanning({
                   inputValue={searchInput}
                   options={searchOptions}
                   isLoading={isSearching}
-                  placeholder="Type to search locations..."
+                  placeholder="Place name, lat/lon, DMS or MGRS..."
                   noOptionsMessage={() => searchInput.length < 3 ? "Type at least 3 characters" : "No locations found"}
                   loadingMessage={() => "Searching..."}
                   styles={customSelectStyles}
@@ -908,7 +1646,7 @@ export default function RoutePlanning({
                 />
               </div>
 
-              {(!selectedMission || editMode) && (
+              {canEdit && (
                 <button 
                   onClick={addWaypoint}
                   disabled={!selectedLocation}
@@ -924,6 +1662,167 @@ export default function RoutePlanning({
               )}
             </div>
 
+            {/* Area Survey */}
+            <div className="bg-slate-800 rounded-xl p-4 shadow-lg">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <Grid className="text-amber-400" size={16} />
+                  <span className="text-slate-400 text-xs font-semibold">AREA SURVEY</span>
+                </div>
+                {surveyArea && (
+                  <span className="text-slate-500 text-[10px]">{(polygonArea(surveyArea) / 10000).toFixed(1)} ha</span>
+                )}
+              </div>
+
+              {drawMode?.target === 'survey' ? (
+                <div className="space-y-2">
+                  <div className="text-xs text-slate-300 bg-slate-700 rounded-lg p-2">
+                    Click the map to outline the area. Click the first vertex or double-click to finish. Press Esc to cancel.
+                  </div>
+                  <button
+                    onClick={() => setDrawMode(null)}
+                    className="w-full px-3 py-2 bg-slate-700 text-white rounded text-xs font-semibold hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel Drawing
+                  </button>
+                </div>
+              ) : (!selectedMission || editMode) ? (
+                <div className="space-y-3">
+                  <button
+                    onClick={() => setDrawMode({ shape: 'polygon', target: 'survey' })}
+                    className="w-full flex items-center justify-center space-x-1 px-3 py-2 bg-amber-600 text-white rounded text-xs font-semibold hover:bg-amber-700 transition-colors"
+                  >
+                    <Hexagon size={14} />
+                    <span>{surveyArea ? 'Redraw Survey Area' : 'Draw Survey Area'}</span>
+                  </button>
+
+                  <div className="flex space-x-2">
+                    {(['spacing', 'camera'] as SurveyForm['spacingMode'][]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => updateSurveyForm({ spacingMode: mode })}
+                        className={`flex-1 px-3 py-1.5 rounded text-xs font-semibold transition-colors ${
+                          surveyForm.spacingMode === mode ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                        }`}
+                      >
+                        {mode === 'spacing' ? 'Line Spacing' : 'Camera Footprint'}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    {surveyForm.spacingMode === 'spacing' ? (
+                      <label className="col-span-2 text-slate-400 text-[10px]">
+                        Line Spacing (m)
+                        <input
+                          type="number"
+                          min={1}
+                          value={surveyForm.lineSpacing}
+                          onChange={(e) => updateSurveyForm({ lineSpacing: parseFloat(e.target.value) || 0 })}
+                          className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                        />
+                      </label>
+                    ) : (
+                      <>
+                        <label className="text-slate-400 text-[10px]">
+                          Footprint Width (m)
+                          <input
+                            type="number"
+                            min={1}
+                            value={surveyForm.footprintWidth}
+                            onChange={(e) => updateSurveyForm({ footprintWidth: parseFloat(e.target.value) || 0 })}
+                            className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                          />
+                        </label>
+                        <label className="text-slate-400 text-[10px]">
+                          Sidelap (%)
+                          <input
+                            type="number"
+                            min={0}
+                            max={95}
+                            value={surveyForm.sidelap}
+                            onChange={(e) => updateSurveyForm({ sidelap: parseFloat(e.target.value) || 0 })}
+                            className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                          />
+                        </label>
+                      </>
+                    )}
+                    <label className="text-slate-400 text-[10px]">
+                      Heading (°)
+                      <input
+                        type="number"
+                        min={0}
+                        max={359}
+                        value={surveyForm.heading}
+                        onChange={(e) => updateSurveyForm({ heading: parseFloat(e.target.value) || 0 })}
+                        className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                      />
+                    </label>
+                    <label className="text-slate-400 text-[10px]">
+                      Altitude (m above home)
+                      <input
+                        type="number"
+                        min={0}
+                        value={surveyForm.altitude}
+                        onChange={(e) => updateSurveyForm({ altitude: parseFloat(e.target.value) || 0 })}
+                        className="w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                      />
+                    </label>
+                  </div>
+
+                  {surveyForm.spacingMode === 'camera' && (
+                    <div className="text-slate-500 text-[10px]">Line spacing: {surveySpacing.toFixed(1)} m</div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={generateSurvey}
+                      disabled={!surveyArea}
+                      className={`flex-1 px-3 py-2 rounded text-xs font-semibold transition-colors ${
+                        surveyArea
+                          ? 'bg-blue-600 text-white hover:bg-blue-700'
+                          : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+                      }`}
+                    >
+                      Generate Grid
+                    </button>
+                    {surveyArea && (
+                      <button
+                        onClick={clearSurvey}
+                        className="flex-1 px-3 py-2 bg-slate-700 text-white rounded text-xs font-semibold hover:bg-slate-600 transition-colors"
+                      >
+                        Clear Survey
+                      </button>
+                    )}
+                  </div>
+
+                  {surveyLines > 0 && (
+                    <div className="text-slate-400 text-[10px]">
+                      {surveyLines} passes • {waypoints.filter(wp => wp.id.startsWith('survey')).length} waypoints
+                    </div>
+                  )}
+                  {surveyError && (
+                    <div className="text-red-400 text-[10px]">{surveyError}</div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-slate-500 text-xs">
+                  {surveyArea ? `Survey flown at ${surveyForm.altitude} m, ${surveyForm.lineSpacing} m spacing` : 'No survey area.'}
+                </div>
+              )}
+            </div>
+
+            {/* Offline Maps */}
+            <OfflineMapPanel points={offlineMapPoints} />
+
+            {/* Terrain */}
+            <TerrainPanel
+              profile={terrainProfile}
+              minClearance={minTerrainClearance}
+              onMinClearanceChange={setMinTerrainClearance}
+              onConvertFrame={convertAltitudeFrame}
+            />
+
             {/* Route Waypoints */}
             <div className="bg-slate-800 rounded-xl p-4 shadow-lg">
               <div className="flex items-center justify-between mb-4">
@@ -939,6 +1838,8 @@ export default function RoutePlanning({
                     distanceToNext = calculateDistance(waypoint.lat, waypoint.lon, next.lat, next.lon)
                   }
 
+                  const issues = missionIssues.filter(issue => issue.waypointIndex === index)
+
                   return (
                     <div key={waypoint.id}>
                       <div className="flex items-start space-x-3">
@@ -948,9 +1849,60 @@ export default function RoutePlanning({
                         <div className="flex-1">
                           <div className="text-white font-medium text-sm">{waypoint.label}</div>
                           <div className="text-slate-400 text-xs">{waypoint.coords}</div>
-                          <div className="text-blue-400 text-xs">{waypoint.alt}</div>
+                          {(!selectedMission || editMode) ? (
+                            <div className="flex items-center space-x-2 text-slate-400 text-[10px] mt-1">
+                              <span>Alt (m)</span>
+                              <input
+                                type="number"
+                                value={parseWaypointAltitude(waypoint.alt) ?? ''}
+                                onChange={(e) => updateAltitude(waypoint.id, e.target.value)}
+                                className="w-16 px-2 py-0.5 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                              />
+                              <select
+                                value={waypoint.frame ?? 'relative'}
+                                onChange={(e) => updateAltitudeFrame(waypoint.id, e.target.value as AltitudeFrame)}
+                                className="px-1 py-0.5 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                              >
+                                {(Object.keys(ALTITUDE_FRAME_SUFFIX) as AltitudeFrame[]).map(frame => (
+                                  <option key={frame} value={frame}>{ALTITUDE_FRAME_SUFFIX[frame]}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ) : (
+                            <div className="text-blue-400 text-xs">{waypoint.alt}</div>
+                          )}
+                          {(!selectedMission || editMode) ? (
+                            <label className="flex items-center space-x-2 text-slate-400 text-[10px] mt-1">
+                              <span>Hold (s)</span>
+                              <input
+                                type="number"
+                                min={0}
+                                value={waypoint.holdTime ?? ''}
+                                onChange={(e) => updateHoldTime(waypoint.id, e.target.value)}
+                                placeholder="0"
+                                className="w-16 px-2 py-0.5 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+                              />
+                            </label>
+                          ) : waypoint.holdTime ? (
+                            <div className="text-slate-400 text-[10px]">Hold {waypoint.holdTime}s</div>
+                          ) : null}
+                          {(waypoint.command || (waypoint.actions ?? []).length > 0) && (
+                            <div className="text-cyan-400 text-[10px] mt-0.5">
+                              {[describeCommand(waypoint), ...(waypoint.actions ?? []).map(describeAction)]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </div>
+                          )}
+                          {issues.map((issue, issueIndex) => (
+                            <div
+                              key={issueIndex}
+                              className={`text-[10px] mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                            >
+                              {issue.message}
+                            </div>
+                          ))}
                         </div>
-                        {(!selectedMission || editMode) && waypoint.id !== 'start' && waypoint.id !== 'end' && (
+                        {canEdit && waypoint.id !== 'start' && waypoint.id !== 'end' && (
                           <button
                             onClick={() => removeWaypoint(waypoint.id)}
                             className="text-red-400 hover:text-red-300 transition-colors"
@@ -0,0 +1,37 @@
+'use client'
+
+import { ReactNode, useEffect, useState } from 'react'
+import LoginPage from '@/components/LoginPage'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import sessionService from '@/services/sessionService'
+
+interface SessionGateProps {
+  children: ReactNode
+}
+
+/**
+ * Shows its children only to a signed-in user, restoring the session saved
+ * by an earlier visit first. Everyone else gets the login page.
+ */
+export default function SessionGate({ children }: SessionGateProps) {
+  const user = useCurrentUser()
+  const [restoring, setRestoring] = useState(true)
+
+  useEffect(() => {
+    sessionService.restore().finally(() => setRestoring(false))
+  }, [])
+
+  if (restoring) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <LoginPage />
+  }
+
+  return <>{children}</>
+}
@@ -1,7 +1,11 @@
 'use client'
 
-import { Activity, Map as MapIcon, Target, CheckCircle, Clock, Package, User, Settings, BookOpen, LogOut } from 'lucide-react'
+import { Activity, Map as MapIcon, Target, CheckCircle, Clock, Package, User, Settings, BookOpen, LogOut, ShieldCheck, KeyRound, Lock, ScrollText } from 'lucide-react'
 import { MenuItem } from '@/types'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { usePermissions } from '@/hooks/usePermissions'
+import { notPermitted } from '@/lib/permissions'
+import sessionService from '@/services/sessionService'
 
 interface SidebarProps {
   currentPage: string
@@ -9,14 +13,25 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
+  const user = useCurrentUser()
+  const can = usePermissions()
+
+  const handleLogout = () => {
+    if (!confirm('Sign out of the ground station?')) return
+    sessionService.signOut()
+  }
+
   const menuItems: MenuItem[] = [
     { id: 'dashboard', label: 'Dashboard & Analytics', icon: Activity },
-    { id: 'awareness', label: 'Situational Awareness', icon: MapIcon },
-    { id: 'missions', label: 'Missions', icon: Target },
-    { id: 'plan-mission', label: 'Plan Mission', icon: CheckCircle, indent: true },
-    { id: 'flight-monitor', label: 'Mission Monitor', icon: CheckCircle, indent: true },
+    { id: 'awareness', label: 'Situational Awareness', icon: MapIcon, permission: 'view_missions' },
+    { id: 'missions', label: 'Missions', icon: Target, permission: 'view_missions' },
+    { id: 'plan-mission', label: 'Plan Mission', icon: CheckCircle, indent: true, permission: 'create_missions' },
+    { id: 'flight-monitor', label: 'Mission Monitor', icon: CheckCircle, indent: true, permission: 'view_missions' },
+    { id: 'approvals', label: 'Pending Approvals', icon: ShieldCheck, indent: true, permission: 'approve_missions' },
     { id: 'vehicles', label: 'Vehicle Library', icon: Package },
-    { id: 'operators', label: 'Operator Library', icon: User }
+    { id: 'operators', label: 'Operator Library', icon: User },
+    { id: 'roles', label: 'Roles & Permissions', icon: KeyRound },
+    { id: 'audit', label: 'Audit Log', icon: ScrollText, permission: 'view_audit_log' }
   ]
 
   return (
@@ -36,18 +51,22 @@ export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
       <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
         {menuItems.map((item) => {
           const Icon = item.icon
+          const permitted = !item.permission || can(item.permission)
           return (
             <button
               key={item.id}
               onClick={() => onPageChange(item.id)}
+              disabled={!permitted}
+              title={permitted ? undefined : notPermitted(item.permission!)}
               className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-colors ${
                 currentPage === item.id
                   ? 'bg-blue-600 text-white shadow-lg'
                   : 'text-slate-300 hover:bg-slate-800'
-              } ${item.indent ? 'ml-6' : ''}`}
+              } ${item.indent ? 'ml-6' : ''} disabled:text-slate-600 disabled:hover:bg-transparent disabled:cursor-not-allowed`}
             >
               <Icon size={20} />
-              <span className="text-sm font-medium">{item.label}</span>
+              <span className="text-sm font-medium flex-1 text-left">{item.label}</span>
+              {!permitted && <Lock size={14} />}
             </button>
           )
         })}
@@ -81,12 +100,16 @@ export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
           <BookOpen size={20} />
           <span className="text-sm">Guide</span>
         </button>
-        <button className="w-full flex items-center justify-between px-4 py-3 text-red-400 hover:bg-slate-800 rounded-lg transition-colors">
+        <button
+          onClick={handleLogout}
+          className="w-full flex items-center justify-between px-4 py-3 text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+          title={user ? `Signed in as ${user.name} (${user.role})` : undefined}
+        >
           <div className="flex items-center space-x-3">
             <LogOut size={20} />
             <span className="text-sm">Logout</span>
           </div>
-          <span className="text-xs text-slate-500">v1.0</span>
+          <span className="text-xs text-slate-500">{user ? user.name : 'v1.0'}</span>
         </button>
       </div>
     </div>
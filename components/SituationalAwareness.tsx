@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, Polygon, Tooltip, Popup, useMap } from 'react-leaflet';
+import { MapContainer, Marker, Polyline, Polygon, Tooltip, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { 
@@ -15,6 +15,12 @@ import {
   Circle,
   AlertTriangle
 } from 'lucide-react';
+import OfflineTileLayer from '@/components/OfflineTileLayer';
+import { API_CONFIG } from '@/config/missionExecution.config';
+import { authHeaders } from '@/lib/http';
+import telemetryService, { DEFAULT_VEHICLE_ID } from '@/services/telemetryService';
+import { IMAGERY_SOURCE } from '@/services/tileCache';
+import { TelemetryData } from '@/types/types';
 
 // ============================================================================
 // FIX LEAFLET ICONS
@@ -86,39 +92,6 @@ interface SituationalAwarenessProps {
   simulationActive?: boolean;
 }
 
-interface TelemetryData {
-  timestamp?: string;
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    fix_type: number;
-    hdop: number;
-  };
-  armed?: boolean;
-  mode?: string;
-  mission_current?: number;
-  mission_count?: number;
-}
-
 interface FlightPathPoint {
   lat: number;
   lon: number;
@@ -282,14 +255,10 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
   const [missionProgress, setMissionProgress] = useState({ current: 0, total: 0 });
   
   // WebSocket ref
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 10;
+  const telemetryUnsubscribeRef = useRef<(() => void) | null>(null);
   
   // API Configuration
-  const WS_BASE = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8002';
-  const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
+  const API_BASE = API_CONFIG.vehicleUrl;
   
   // ============================================================================
   // WEBSOCKET TELEMETRY CONNECTION
@@ -301,159 +270,53 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
       return;
     }
     
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('WebSocket already connected');
-      return;
-    }
-    
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max WebSocket reconnection attempts reached');
+    if (telemetryUnsubscribeRef.current) {
+      console.log('Telemetry already subscribed');
       return;
     }
     
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-      
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        
-        // Subscribe to mission if available
-        if (selectedMission?.id) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: selectedMission.id
-          }));
-          console.log(`📡 Subscribed to mission: ${selectedMission.id}`);
-        }
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          
-          switch (message.type) {
-            case 'telemetry_update':
-              handleTelemetryUpdate(message.data);
-              break;
-            case 'connection_info':
-              console.log('Connection info:', message);
-              break;
-            case 'error':
-              console.error('WebSocket error:', message.message);
-              break;
-            case 'pong':
-              // Keep-alive response
-              break;
-            default:
-              console.log('Unknown message type:', message);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-      
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        setWsConnected(false);
-      };
-      
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-        
-        // Auto-reconnect if simulation is still active
-        if (simulationActive && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          
-          console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        }
-      };
-      
-      wsRef.current = ws;
-      
-      // Setup ping interval
-      const pingInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-      
-      return () => clearInterval(pingInterval);
-      
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      setWsConnected(false);
-    }
+    telemetryUnsubscribeRef.current = telemetryService.subscribe(DEFAULT_VEHICLE_ID, {
+      missionId: selectedMission.id,
+      onTelemetry: (frame) => handleTelemetryUpdate(frame),
+      onConnectionChange: (state) => setWsConnected(state === 'open')
+    });
   };
   
   const disconnectWebSocket = () => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (telemetryUnsubscribeRef.current) {
+      telemetryUnsubscribeRef.current();
+      telemetryUnsubscribeRef.current = null;
     }
     
     setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
   };
   
   // ============================================================================
   // TELEMETRY UPDATE HANDLER
   // ============================================================================
   
-  const handleTelemetryUpdate = (data: any) => {
+  // Frames arrive validated and canonical, so a 0 coordinate here is a real position
+  const handleTelemetryUpdate = (frame: TelemetryData) => {
     try {
-      // Update telemetry state
-      setTelemetry({
-        timestamp: data.timestamp,
-        position: data.position || data.current_position,
-        velocity: data.velocity,
-        attitude: data.attitude,
-        battery: data.battery,
-        gps: data.gps,
-        armed: data.armed,
-        mode: data.mode,
-        mission_current: data.mission_current,
-        mission_count: data.mission_count
-      });
+      setTelemetry(frame);
       
       // Update drone position
-      if (data.position || data.current_position) {
-        const pos = data.position || data.current_position;
-        setDronePosition({
-          lat: pos.lat || pos.latitude,
-          lon: pos.lon || pos.longitude,
-          alt: pos.alt || pos.altitude
-        });
+      if (frame.position) {
+        const { lat, lon, alt } = frame.position;
+        setDronePosition({ lat, lon, alt });
         
         // Add to flight path
         setFlightPath(prev => {
-          const newPath = [...prev, {
-            lat: pos.lat || pos.latitude,
-            lon: pos.lon || pos.longitude,
-            timestamp: Date.now()
-          }];
+          const newPath = [...prev, { lat, lon, timestamp: Date.now() }];
           return newPath.slice(-500); // Keep last 500 points
         });
       }
       
       // Update mission progress
-      if (data.mission_current !== undefined && data.mission_count !== undefined) {
+      if (frame.mission_current !== undefined && frame.mission_count !== undefined) {
         setMissionProgress({
-          current: data.mission_current,
-          total: data.mission_count
+          current: frame.mission_current,
+          total: frame.mission_count
         });
       }
       
@@ -485,7 +348,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
       // Upload mission
       const uploadResponse = await fetch(`${API_BASE}/mission/upload`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ waypoints })
       });
       
@@ -500,7 +363,8 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
         // Start mission automatically
         console.log('🚀 Starting mission...');
         const startResponse = await fetch(`${API_BASE}/mission/start`, {
-          method: 'POST'
+          method: 'POST',
+          headers: authHeaders()
         });
         
         const startData = await startResponse.json();
@@ -646,10 +510,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
         <MapCenterUpdater center={mapCenter} zoom={mapZoom} />
         
         {/* Esri Satellite Imagery */}
-        <TileLayer
-          url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-          attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-        />
+        <OfflineTileLayer source={IMAGERY_SOURCE} />
         
         {/* Mission Corridor */}
         {selectedMission && showCorridors && missionCorridorPolygon.length > 0 && (
@@ -749,7 +610,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
                 <div className="space-y-1 text-xs">
                   <div className="flex justify-between">
                     <span className="text-gray-600">Status:</span>
-                    <span className="font-semibold">{telemetry?.mode || 'UNKNOWN'}</span>
+                    <span className="font-semibold">{telemetry?.flight_mode || 'UNKNOWN'}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Alt:</span>
@@ -917,7 +778,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
                 <>
                   <div className="flex justify-between mb-1">
                     <span>Mode:</span>
-                    <span className="text-white">{telemetry.mode || 'N/A'}</span>
+                    <span className="text-white">{telemetry.flight_mode || 'N/A'}</span>
                   </div>
                   <div className="flex justify-between mb-1">
                     <span>Waypoint:</span>
@@ -0,0 +1,276 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Mountain, Trash2, Upload } from 'lucide-react'
+import { ALTITUDE_FRAME_SUFFIX } from '@/lib/missionFiles'
+import type { TerrainProfile } from '@/lib/terrainProfile'
+import terrainService, { ElevationDataset } from '@/services/terrainService'
+import type { AltitudeFrame } from '@/types'
+
+interface TerrainPanelProps {
+  profile: TerrainProfile | null // null until elevation data covers the route
+  minClearance: number // meters
+  onMinClearanceChange: (meters: number) => void
+  onConvertFrame: (frame: AltitudeFrame) => void // throws when terrain data is missing
+}
+
+const CHART_WIDTH = 300
+const CHART_HEIGHT = 120
+const CHART_PADDING = 4
+
+const FRAME_LABELS: Record<AltitudeFrame, string> = {
+  relative: 'Relative to home',
+  amsl: 'Above mean sea level',
+  terrain: 'Above ground level',
+}
+
+type ChartPoint = [number, number]
+
+// Runs of consecutive points, broken wherever a value is missing
+function toSegments(points: Array<[number, number | null]>): ChartPoint[][] {
+  const segments: ChartPoint[][] = []
+  let current: ChartPoint[] = []
+  for (const [x, y] of points) {
+    if (y === null) {
+      if (current.length > 0) segments.push(current)
+      current = []
+    } else {
+      current.push([x, y])
+    }
+  }
+  if (current.length > 0) segments.push(current)
+  return segments
+}
+
+const pathOf = (segment: ChartPoint[]) =>
+  segment.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join('')
+
+function ProfileChart({ profile, minClearance }: { profile: TerrainProfile; minClearance: number }) {
+  const heights = profile.samples.flatMap(sample =>
+    [sample.terrain, sample.flight].filter((value): value is number => value !== null)
+  )
+  if (heights.length === 0 || profile.totalDistance === 0) {
+    return <div className="text-slate-500 text-[10px]">No elevation data along the route.</div>
+  }
+
+  const low = Math.min(...heights)
+  const high = Math.max(...heights)
+  const margin = Math.max((high - low) * 0.1, 10)
+  const bottom = low - margin
+  const top = high + margin
+
+  const x = (distance: number) => CHART_PADDING + (distance / profile.totalDistance) * (CHART_WIDTH - CHART_PADDING * 2)
+  const y = (height: number) => CHART_HEIGHT - CHART_PADDING - ((height - bottom) / (top - bottom)) * (CHART_HEIGHT - CHART_PADDING * 2)
+  const floor = CHART_HEIGHT - CHART_PADDING
+
+  const terrainSegments = toSegments(profile.samples.map(s => [x(s.distance), s.terrain === null ? null : y(s.terrain)]))
+  const flightLine = toSegments(profile.samples.map(s => [x(s.distance), s.flight === null ? null : y(s.flight)]))
+    .map(pathOf)
+    .join('')
+  const lowSamples = profile.samples.filter(s =>
+    s.terrain !== null && s.flight !== null && s.flight - s.terrain < minClearance
+  )
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-slate-900 rounded">
+        {/* Ground, filled down to the chart floor */}
+        {terrainSegments.map((segment, i) => (
+          <path
+            key={i}
+            d={`${pathOf(segment)}L${segment[segment.length - 1][0].toFixed(1)},${floor}L${segment[0][0].toFixed(1)},${floor}Z`}
+            className="fill-amber-900/60 stroke-amber-600"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Clearance below the minimum */}
+        {lowSamples.map((s, i) => (
+          <line
+            key={i}
+            x1={x(s.distance)}
+            x2={x(s.distance)}
+            y1={y(s.terrain as number)}
+            y2={y(s.flight as number)}
+            className="stroke-red-500/70"
+            strokeWidth={1.5}
+          />
+        ))}
+
+        <path d={flightLine} fill="none" className="stroke-cyan-400" strokeWidth={1.5} />
+
+        {profile.waypoints.map(wp => wp.altitude !== null && (
+          <circle
+            key={wp.index}
+            cx={x(wp.distance)}
+            cy={y(wp.altitude)}
+            r={3}
+            className={wp.clearance !== null && wp.clearance < minClearance ? 'fill-red-500' : 'fill-cyan-400'}
+          >
+            <title>
+              {`Waypoint ${wp.index + 1}: ${Math.round(wp.altitude)} m AMSL` +
+                (wp.clearance !== null ? `, ${Math.round(wp.clearance)} m above terrain` : '')}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-slate-500 text-[10px] mt-1">
+        <span>{Math.round(bottom)}–{Math.round(top)} m AMSL</span>
+        <span>{(profile.totalDistance / 1000).toFixed(1)} km</span>
+      </div>
+    </div>
+  )
+}
+
+export default function TerrainPanel({ profile, minClearance, onMinClearanceChange, onConvertFrame }: TerrainPanelProps) {
+  const [datasets, setDatasets] = useState<ElevationDataset[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [targetFrame, setTargetFrame] = useState<AltitudeFrame>('relative')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const sync = () => setDatasets(terrainService.getDatasets())
+    sync()
+    terrainService.restore()
+    return terrainService.subscribe(sync)
+  }, [])
+
+  const loadFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ''
+    if (files.length === 0) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      await terrainService.addFiles(files)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open elevation files')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const convert = () => {
+    setError(null)
+    try {
+      onConvertFrame(targetFrame)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not convert altitudes')
+    }
+  }
+
+  const lowWaypoints = profile?.waypoints.filter(wp => wp.clearance !== null && wp.clearance < minClearance) ?? []
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4 shadow-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Mountain className="text-amber-400" size={16} />
+          <span className="text-slate-400 text-xs font-semibold">TERRAIN PROFILE</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="flex items-center space-x-1 px-2 py-1 bg-slate-700 text-white rounded text-[10px] font-semibold hover:bg-slate-600 transition-colors"
+        >
+          <Upload size={12} />
+          <span>{loading ? 'Reading...' : 'Load HGT / GeoTIFF'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".hgt,.tif,.tiff"
+          multiple
+          onChange={loadFiles}
+          className="hidden"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {datasets.length === 0 ? (
+          <div className="text-slate-500 text-[10px]">
+            Load SRTM .hgt or lat/lon GeoTIFF elevation tiles covering the route to check terrain clearance.
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {datasets.map(dataset => (
+              <div key={dataset.id} className="flex items-center justify-between text-xs">
+                <span className="text-slate-300 truncate" title={dataset.fileName}>{dataset.name}</span>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <span className="text-slate-500 text-[10px]">
+                    {dataset.format === 'hgt' ? 'HGT' : 'GeoTIFF'} ~{Math.round(dataset.resolution)} m
+                  </span>
+                  <button
+                    onClick={() => terrainService.remove(dataset.id)}
+                    className="text-slate-500 hover:text-red-400"
+                    title="Remove elevation file"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {profile && <ProfileChart profile={profile} minClearance={minClearance} />}
+
+        {profile && (
+          <div className="text-[10px] space-y-1">
+            {profile.homeElevation !== null && (
+              <div className="text-slate-400">Home ground elevation {Math.round(profile.homeElevation)} m AMSL</div>
+            )}
+            {profile.coverage < 1 && (
+              <div className="text-amber-400">
+                Elevation data covers {Math.floor(profile.coverage * 100)}% of the route
+              </div>
+            )}
+            {lowWaypoints.length > 0 && (
+              <div className="text-red-400">
+                Low clearance at waypoint {lowWaypoints.map(wp => wp.index + 1).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="flex items-center justify-between text-slate-400 text-[10px]">
+          <span>Minimum terrain clearance (m)</span>
+          <input
+            type="number"
+            min={0}
+            value={minClearance}
+            onChange={(e) => onMinClearanceChange(Math.max(parseFloat(e.target.value) || 0, 0))}
+            className="w-20 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+          />
+        </label>
+
+        <div className="border-t border-slate-700 pt-3 space-y-2">
+          <span className="text-slate-400 text-[10px] font-semibold">ALTITUDE FRAME FOR UPLOAD</span>
+          <div className="flex space-x-2">
+            <select
+              value={targetFrame}
+              onChange={(e) => setTargetFrame(e.target.value as AltitudeFrame)}
+              className="flex-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500"
+            >
+              {(Object.keys(FRAME_LABELS) as AltitudeFrame[]).map(frame => (
+                <option key={frame} value={frame}>
+                  {FRAME_LABELS[frame]} ({ALTITUDE_FRAME_SUFFIX[frame]})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={convert}
+              className="px-3 py-1 bg-amber-600 text-white rounded text-xs font-semibold hover:bg-amber-700 transition-colors"
+            >
+              Convert All
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-400 text-[10px] whitespace-pre-line">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Package, Search, Filter, Plus, Battery, Signal, MapPin, Clock, Edit2, Trash2, Eye, AlertTriangle } from 'lucide-react'
+import { Package, Search, Filter, Plus, Battery, Signal, MapPin, Clock, Edit2, Trash2, Eye, AlertTriangle, Gauge, Wind } from 'lucide-react'
 import { vehiclesData } from '@/lib/data'
 import { Vehicle } from '@/types'
 
@@ -134,6 +134,9 @@ export default function VehicleLibrary() {
                   <span className="px-3 py-1 bg-slate-700 text-slate-300 text-xs font-semibold rounded-full">
                     {vehicle.model}
                   </span>
+                  <span className="px-3 py-1 bg-slate-700 text-slate-300 text-xs font-semibold rounded-full">
+                    {vehicle.profile.airframe}
+                  </span>
                 </div>
               </div>
 
@@ -144,7 +147,7 @@ export default function VehicleLibrary() {
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center space-x-2">
                       <Battery size={16} className="text-slate-400" />
-                      <span className="text-sm text-slate-400">Battery</span>
+                      <span className="text-sm text-slate-400">Battery · {vehicle.profile.batteryCapacity} Wh</span>
                     </div>
                     <span className="text-sm font-bold text-white">{vehicle.battery}%</span>
                   </div>
@@ -180,6 +183,25 @@ export default function VehicleLibrary() {
                   <span className="text-sm font-semibold text-white">{vehicle.flightHours}h</span>
                 </div>
 
+                {/* Performance */}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Gauge size={16} className="text-orange-400" />
+                    <span className="text-sm text-slate-400">Cruise / Climb</span>
+                  </div>
+                  <span className="text-sm font-semibold text-white">
+                    {vehicle.profile.cruiseSpeed} / {vehicle.profile.climbSpeed} m/s
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Wind size={16} className="text-cyan-400" />
+                    <span className="text-sm text-slate-400">Max Wind</span>
+                  </div>
+                  <span className="text-sm font-semibold text-white">{vehicle.profile.maxWind} m/s</span>
+                </div>
+
                 {/* Missions Completed */}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
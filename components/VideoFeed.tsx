@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Video, VideoOff, RefreshCw, Maximize2, Minimize2, History } from 'lucide-react';
+import { VIDEO_CONFIG } from '@/config/missionExecution.config';
+import { useVideoStream, resolveVideoProtocol, VideoStreamState } from '@/hooks/useVideoStream';
+
+interface VideoFeedProps {
+  streamUrl?: string;
+  protocol?: string;
+  className?: string;
+  children?: React.ReactNode; // Rendered on top of the picture (e.g. HUD overlay)
+  onMediaElementChange?: (element: HTMLVideoElement | HTMLImageElement | null) => void;
+  replay?: VideoReplay | null; // Plays a recorded video instead of the live stream
+}
+
+export interface VideoReplay {
+  src: string | null;
+  time: number | null; // seconds into the recording, null when outside the recorded span
+  playing: boolean;
+  rate: number;
+}
+
+// Seek the replay video only when it drifts further than this from the timeline
+const REPLAY_SYNC_TOLERANCE = 0.3;
+
+const STATE_LABELS: Record<VideoStreamState, string> = {
+  idle: 'No Signal',
+  connecting: 'Connecting...',
+  playing: 'Live',
+  interrupted: 'Interrupted',
+  reconnecting: 'Reconnecting...',
+  failed: 'Stream Lost',
+};
+
+const STATE_COLORS: Record<VideoStreamState, string> = {
+  idle: 'bg-gray-500',
+  connecting: 'bg-yellow-500 animate-pulse',
+  playing: 'bg-red-500 animate-pulse',
+  interrupted: 'bg-yellow-500',
+  reconnecting: 'bg-orange-500 animate-pulse',
+  failed: 'bg-red-700',
+};
+
+const VideoFeed: React.FC<VideoFeedProps> = ({
+  streamUrl = VIDEO_CONFIG.streamUrl,
+  protocol = VIDEO_CONFIG.protocol,
+  className = '',
+  children,
+  onMediaElementChange,
+  replay = null
+}) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const resolvedProtocol = resolveVideoProtocol(protocol);
+  const isReplay = replay !== null;
+  const imgRef = useRef<HTMLImageElement>(null);
+  const replayVideoRef = useRef<HTMLVideoElement>(null);
+
+  const {
+    videoRef,
+    mjpegSrc,
+    state,
+    error,
+    reconnectAttempts,
+    quality,
+    qualityLevels,
+    setQuality,
+    handleFrameLoad,
+    handleStreamError,
+    reconnect
+  } = useVideoStream({ streamUrl, protocol: resolvedProtocol, autoConnect: !isReplay });
+
+  // Hold the last frame while a WebRTC connection tries to recover
+  const live = state === 'playing' || state === 'interrupted';
+  const showPicture = isReplay || live;
+
+  // Let a recorder follow whichever element is currently showing the live feed
+  useEffect(() => {
+    if (!onMediaElementChange) return;
+    if (isReplay || !live) {
+      onMediaElementChange(null);
+      return;
+    }
+    onMediaElementChange(resolvedProtocol === 'webrtc' ? videoRef.current : imgRef.current);
+  }, [live, isReplay, resolvedProtocol, mjpegSrc, onMediaElementChange, videoRef]);
+
+  // Keep the recorded video on the replay timeline
+  const replaySrc = replay?.src ?? null;
+  const replayTime = replay?.time ?? null;
+  const replayPlaying = replay?.playing ?? false;
+  const replayRate = replay?.rate ?? 1;
+
+  useEffect(() => {
+    const el = replayVideoRef.current;
+    if (!el || !replaySrc) return;
+
+    el.playbackRate = replayRate;
+
+    if (replayTime === null) {
+      el.pause();
+      return;
+    }
+
+    if (Math.abs(el.currentTime - replayTime) > REPLAY_SYNC_TOLERANCE) {
+      el.currentTime = replayTime;
+    }
+
+    if (replayPlaying && el.paused) {
+      el.play().catch(() => undefined);
+    } else if (!replayPlaying && !el.paused) {
+      el.pause();
+    }
+  }, [replaySrc, replayTime, replayPlaying, replayRate]);
+
+  return (
+    <div
+      className={`bg-gray-900/95 backdrop-blur-sm rounded-lg border border-gray-700 shadow-2xl overflow-hidden transition-all duration-200 ${
+        expanded ? 'w-[720px]' : 'w-[400px]'
+      } ${className}`}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <div className="flex items-center gap-2">
+          <Video size={16} className="text-gray-300" />
+          <span className="text-sm font-semibold text-white">Camera Feed</span>
+          {isReplay ? (
+            <span className="flex items-center gap-1 text-xs text-purple-400">
+              <History size={12} />
+              {replaySrc ? 'Replay' : 'Replay (no video)'}
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-gray-400">
+              <span className={`w-2 h-2 rounded-full ${STATE_COLORS[state]}`} />
+              {STATE_LABELS[state]}
+              {state === 'reconnecting' && reconnectAttempts > 0 && (
+                <span className="text-gray-500">
+                  ({reconnectAttempts}/{VIDEO_CONFIG.maxReconnectAttempts})
+                </span>
+              )}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {!isReplay && (
+            <>
+              {qualityLevels.map(level => (
+                <button
+                  key={level.level}
+                  onClick={() => setQuality(level.level)}
+                  className={`px-2 py-0.5 text-[10px] font-semibold rounded transition-colors ${
+                    quality === level.level
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                  title={`Switch to ${level.label} quality`}
+                >
+                  {level.label}
+                </button>
+              ))}
+              <button
+                onClick={reconnect}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+                title="Reconnect stream"
+              >
+                <RefreshCw size={14} className={state === 'reconnecting' ? 'animate-spin' : ''} />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title={expanded ? 'Shrink video' : 'Enlarge video'}
+          >
+            {expanded ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+          </button>
+        </div>
+      </div>
+
+      {/* Picture */}
+      <div className="relative aspect-video bg-black">
+        {isReplay ? (
+          replaySrc && (
+            <video
+              ref={replayVideoRef}
+              src={replaySrc}
+              muted
+              playsInline
+              className={`w-full h-full object-contain ${replayTime === null ? 'invisible' : ''}`}
+            />
+          )
+        ) : resolvedProtocol === 'webrtc' ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            muted
+            playsInline
+            className={`w-full h-full object-contain ${showPicture ? '' : 'invisible'}`}
+          />
+        ) : (
+          mjpegSrc && (
+            // MJPEG is a multipart stream that next/image cannot optimise
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              ref={imgRef}
+              src={mjpegSrc}
+              alt="Drone camera stream"
+              onLoad={handleFrameLoad}
+              onError={handleStreamError}
+              className={`w-full h-full object-contain ${showPicture ? '' : 'invisible'}`}
+            />
+          )
+        )}
+
+        {showPicture && children}
+
+        {!showPicture && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500">
+            {state === 'connecting' || state === 'reconnecting' ? (
+              <div className="w-8 h-8 border-2 border-gray-500 border-t-transparent rounded-full animate-spin mb-2" />
+            ) : (
+              <VideoOff size={32} className="mb-2" />
+            )}
+            <span className="text-xs">
+              {streamUrl ? STATE_LABELS[state] : 'No video stream configured'}
+            </span>
+            {error && streamUrl && (
+              <span className="text-[10px] text-gray-600 mt-1">{error}</span>
+            )}
+            {state === 'failed' && (
+              <button
+                onClick={reconnect}
+                className="mt-3 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded transition-colors"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoFeed;
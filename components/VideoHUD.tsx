@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useId } from 'react';
+import type { TelemetryData } from '@/types/types';
+import { ALERT_CONFIG } from '@/config/missionExecution.config';
+
+interface VideoHUDProps {
+  telemetry: TelemetryData | null;
+  flightMode?: string;
+  missionCurrent?: number;
+  missionCount?: number;
+}
+
+// ============================================================================
+// LAYOUT CONSTANTS (SVG user units, 16:9 viewBox)
+// ============================================================================
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const CX = WIDTH / 2;
+const CY = HEIGHT / 2;
+
+const PITCH_PX_PER_DEG = 4;
+const HEADING_PX_PER_DEG = 5;
+const HEADING_TAPE_HALF_SPAN = 30; // degrees either side of current heading
+const HEADING_TAPE_Y = 28;
+const ROLL_ARC_RADIUS = 120;
+
+const HUD_COLOR = '#22c55e';
+const HUD_WARNING = '#eab308';
+const HUD_CRITICAL = '#ef4444';
+
+const PITCH_LADDER = [-30, -20, -10, 10, 20, 30];
+const ROLL_TICKS = [-60, -45, -30, -20, -10, 0, 10, 20, 30, 45, 60];
+const CARDINALS: Record<number, string> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W' };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const normalizeHeading = (deg: number): number => ((deg % 360) + 360) % 360;
+
+const getGroundSpeed = (telemetry: TelemetryData | null): number => {
+  const velocity = telemetry?.velocity;
+  if (!velocity) return 0;
+  return velocity.ground_speed ?? Math.sqrt(velocity.vx ** 2 + velocity.vy ** 2);
+};
+
+const getGPSFixLabel = (fixType: number): string => {
+  if (fixType >= 6) return 'RTK';
+  if (fixType >= 3) return '3D';
+  if (fixType === 2) return '2D';
+  return 'NO FIX';
+};
+
+const getBatteryColor = (remaining: number): string => {
+  if (remaining <= ALERT_CONFIG.batteryCriticalThreshold) return HUD_CRITICAL;
+  if (remaining <= ALERT_CONFIG.batteryWarningThreshold) return HUD_WARNING;
+  return HUD_COLOR;
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const VideoHUD: React.FC<VideoHUDProps> = ({
+  telemetry,
+  flightMode,
+  missionCurrent,
+  missionCount
+}) => {
+  const clipId = useId();
+
+  const roll = telemetry?.attitude?.roll ?? 0;
+  const pitch = telemetry?.attitude?.pitch ?? 0;
+  const heading = normalizeHeading(telemetry?.heading ?? telemetry?.attitude?.yaw ?? 0);
+  const altitude = telemetry?.position?.alt ?? 0;
+  const groundSpeed = getGroundSpeed(telemetry);
+  const climbRate = -(telemetry?.velocity?.vz ?? 0); // NED: negative vz is climbing
+  const battery = telemetry?.battery?.remaining;
+  const fixType = telemetry?.gps?.fix_type ?? 0;
+  const satellites = telemetry?.gps?.satellites ?? 0;
+  const mode = flightMode || telemetry?.flight_mode;
+
+  // Heading tape ticks every 5° within the visible window
+  const headingTicks: number[] = [];
+  const firstTick = Math.ceil((heading - HEADING_TAPE_HALF_SPAN) / 5) * 5;
+  for (let deg = firstTick; deg <= heading + HEADING_TAPE_HALF_SPAN; deg += 5) {
+    headingTicks.push(deg);
+  }
+
+  const textStyle: React.CSSProperties = {
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+    paintOrder: 'stroke',
+    stroke: 'rgba(0,0,0,0.8)',
+    strokeWidth: 3,
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full pointer-events-none select-none"
+    >
+      <defs>
+        <clipPath id={`${clipId}-horizon`}>
+          <rect x={CX - 150} y={CY - 110} width={300} height={220} />
+        </clipPath>
+        <clipPath id={`${clipId}-heading`}>
+          <rect x={CX - HEADING_TAPE_HALF_SPAN * HEADING_PX_PER_DEG} y={0} width={HEADING_TAPE_HALF_SPAN * HEADING_PX_PER_DEG * 2} height={60} />
+        </clipPath>
+      </defs>
+
+      {/* Attitude horizon and pitch ladder */}
+      <g clipPath={`url(#${clipId}-horizon)`}>
+        <g transform={`rotate(${-roll} ${CX} ${CY}) translate(0 ${pitch * PITCH_PX_PER_DEG})`}>
+          <line x1={CX - 400} y1={CY} x2={CX + 400} y2={CY} stroke={HUD_COLOR} strokeWidth={2} />
+          {PITCH_LADDER.map(deg => {
+            const y = CY - deg * PITCH_PX_PER_DEG;
+            const halfWidth = 40;
+            return (
+              <g key={deg}>
+                <line
+                  x1={CX - halfWidth}
+                  y1={y}
+                  x2={CX + halfWidth}
+                  y2={y}
+                  stroke={HUD_COLOR}
+                  strokeWidth={1.5}
+                  strokeDasharray={deg < 0 ? '6 4' : undefined}
+                />
+                <text x={CX + halfWidth + 6} y={y + 4} fill={HUD_COLOR} fontSize={11} style={textStyle}>
+                  {Math.abs(deg)}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </g>
+
+      {/* Fixed aircraft reference */}
+      <path
+        d={`M ${CX - 50} ${CY} L ${CX - 15} ${CY} L ${CX} ${CY + 10} L ${CX + 15} ${CY} L ${CX + 50} ${CY}`}
+        fill="none"
+        stroke={HUD_WARNING}
+        strokeWidth={3}
+      />
+      <circle cx={CX} cy={CY} r={2.5} fill={HUD_WARNING} />
+
+      {/* Roll scale */}
+      <g>
+        {ROLL_TICKS.map(deg => {
+          const rad = ((deg - 90) * Math.PI) / 180;
+          const inner = ROLL_ARC_RADIUS;
+          const outer = ROLL_ARC_RADIUS + (deg % 30 === 0 ? 12 : 7);
+          return (
+            <line
+              key={deg}
+              x1={CX + inner * Math.cos(rad)}
+              y1={CY + inner * Math.sin(rad)}
+              x2={CX + outer * Math.cos(rad)}
+              y2={CY + outer * Math.sin(rad)}
+              stroke={HUD_COLOR}
+              strokeWidth={1.5}
+            />
+          );
+        })}
+        <path
+          d={`M ${CX} ${CY - ROLL_ARC_RADIUS + 2} l -6 12 l 12 0 z`}
+          fill={HUD_COLOR}
+          transform={`rotate(${-roll} ${CX} ${CY})`}
+        />
+      </g>
+
+      {/* Heading tape */}
+      <g>
+        <g clipPath={`url(#${clipId}-heading)`}>
+          {headingTicks.map(deg => {
+            const x = CX + (deg - heading) * HEADING_PX_PER_DEG;
+            const normalized = normalizeHeading(deg);
+            const major = normalized % 10 === 0;
+            const label = CARDINALS[normalized] ?? (normalized % 30 === 0 ? String(normalized / 10).padStart(2, '0') : null);
+            return (
+              <g key={deg}>
+                <line
+                  x1={x}
+                  y1={HEADING_TAPE_Y}
+                  x2={x}
+                  y2={HEADING_TAPE_Y + (major ? 10 : 5)}
+                  stroke={HUD_COLOR}
+                  strokeWidth={1.5}
+                />
+                {label && (
+                  <text x={x} y={HEADING_TAPE_Y - 4} fill={HUD_COLOR} fontSize={12} textAnchor="middle" style={textStyle}>
+                    {label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+        <path d={`M ${CX} ${HEADING_TAPE_Y + 12} l -5 8 l 10 0 z`} fill={HUD_COLOR} />
+        <rect x={CX - 24} y={HEADING_TAPE_Y + 22} width={48} height={18} fill="rgba(0,0,0,0.6)" stroke={HUD_COLOR} />
+        <text x={CX} y={HEADING_TAPE_Y + 35} fill={HUD_COLOR} fontSize={13} textAnchor="middle" style={textStyle}>
+          {Math.round(heading).toString().padStart(3, '0')}°
+        </text>
+      </g>
+
+      {/* Ground speed (left) */}
+      <g>
+        <rect x={40} y={CY - 16} width={96} height={32} fill="rgba(0,0,0,0.6)" stroke={HUD_COLOR} />
+        <text x={48} y={CY - 22} fill={HUD_COLOR} fontSize={10} style={textStyle}>GS m/s</text>
+        <text x={128} y={CY + 7} fill={HUD_COLOR} fontSize={18} textAnchor="end" style={textStyle}>
+          {groundSpeed.toFixed(1)}
+        </text>
+      </g>
+
+      {/* Altitude (right) */}
+      <g>
+        <rect x={WIDTH - 136} y={CY - 16} width={96} height={32} fill="rgba(0,0,0,0.6)" stroke={HUD_COLOR} />
+        <text x={WIDTH - 128} y={CY - 22} fill={HUD_COLOR} fontSize={10} style={textStyle}>ALT m</text>
+        <text x={WIDTH - 48} y={CY + 7} fill={HUD_COLOR} fontSize={18} textAnchor="end" style={textStyle}>
+          {altitude.toFixed(1)}
+        </text>
+        <text x={WIDTH - 48} y={CY + 32} fill={HUD_COLOR} fontSize={11} textAnchor="end" style={textStyle}>
+          {climbRate >= 0 ? '▲' : '▼'} {Math.abs(climbRate).toFixed(1)}
+        </text>
+      </g>
+
+      {/* Flight mode (top left) */}
+      {mode && (
+        <text x={16} y={24} fill={HUD_COLOR} fontSize={12} style={textStyle}>
+          {mode}
+        </text>
+      )}
+
+      {/* Status strip */}
+      <g fontSize={12} style={textStyle}>
+        <text x={16} y={HEIGHT - 16} fill={battery !== undefined ? getBatteryColor(battery) : HUD_COLOR}>
+          BAT {battery !== undefined ? `${Math.round(battery)}%` : '--'}
+        </text>
+        <text x={CX} y={HEIGHT - 16} fill={fixType >= 3 ? HUD_COLOR : HUD_WARNING} textAnchor="middle">
+          GPS {getGPSFixLabel(fixType)} · {satellites} SAT
+        </text>
+        <text x={WIDTH - 16} y={HEIGHT - 16} fill={HUD_COLOR} textAnchor="end">
+          WP {missionCount ? `${missionCurrent ?? 0}/${missionCount}` : '--'}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+export default VideoHUD;
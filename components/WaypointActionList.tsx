@@ -0,0 +1,105 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { ACTION_LABELS, createAction } from '@/lib/missionItems'
+import type { WaypointAction, WaypointActionType } from '@/types'
+import type { GeoPoint } from '@/types/types'
+
+interface WaypointActionListProps {
+  actions: WaypointAction[]
+  near: GeoPoint // where a new ROI starts
+  inputClass: string
+  // `field` is set while editing a value so typing collapses into one undo step
+  onChange: (actions: WaypointAction[], field?: string) => void
+}
+
+interface NumericField {
+  key: string
+  label: string
+  min?: number
+  max?: number
+  step?: number
+}
+
+const ACTION_FIELDS: Record<WaypointActionType, NumericField[]> = {
+  roi: [
+    { key: 'lat', label: 'Lat', step: 0.0001 },
+    { key: 'lon', label: 'Lon', step: 0.0001 },
+    { key: 'alt', label: 'Alt (m)' },
+  ],
+  roi_clear: [],
+  camera_trigger_distance: [{ key: 'distance', label: 'Every (m)', min: 0 }],
+  camera_trigger_interval: [{ key: 'interval', label: 'Every (s)', min: 0, step: 0.5 }],
+  camera_stop: [],
+  gimbal_pitch: [{ key: 'pitch', label: 'Pitch (°)', min: -90, max: 90 }],
+  delay: [{ key: 'seconds', label: 'Seconds', min: 0 }],
+  return_to_launch: [],
+}
+
+export default function WaypointActionList({ actions, near, inputClass, onChange }: WaypointActionListProps) {
+  const add = (type: WaypointActionType) => onChange([...actions, createAction(type, near)])
+
+  const remove = (index: number) => onChange(actions.filter((_, i) => i !== index))
+
+  // Invalid input leaves the value unchanged
+  const update = (index: number, key: string, input: string) => {
+    const value = parseFloat(input)
+    if (!Number.isFinite(value)) return
+    onChange(
+      actions.map((action, i) => (i === index ? ({ ...action, [key]: value } as WaypointAction) : action)),
+      `actions:${index}:${key}`
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-slate-400 text-[10px] font-semibold">ACTIONS ON ARRIVAL</div>
+
+      {actions.map((action, index) => (
+        <div key={index} className="bg-slate-900/60 rounded p-2">
+          <div className="flex items-center justify-between">
+            <span className="text-white text-[11px]">{index + 1}. {ACTION_LABELS[action.type]}</span>
+            <button
+              onClick={() => remove(index)}
+              className="text-slate-500 hover:text-red-400"
+              title="Remove action"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          {ACTION_FIELDS[action.type].length > 0 && (
+            <div className="grid grid-cols-3 gap-1">
+              {ACTION_FIELDS[action.type].map(field => (
+                <label key={field.key} className="text-slate-400 text-[10px]">
+                  {field.label}
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={(action as unknown as Record<string, number>)[field.key]}
+                    onChange={(e) => update(index, field.key, e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) add(e.target.value as WaypointActionType)
+        }}
+        className={inputClass}
+      >
+        <option value="">Add action...</option>
+        {(Object.keys(ACTION_LABELS) as WaypointActionType[]).map(type => (
+          <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { ChevronLeft, ChevronRight, Trash2, X } from 'lucide-react'
+import { ALTITUDE_FRAME_SUFFIX } from '@/lib/missionFiles'
+import { COMMAND_LABELS } from '@/lib/missionItems'
+import { parseWaypointAltitude } from '@/lib/missionValidation'
+import type { AltitudeFrame, Waypoint, WaypointCommand } from '@/types'
+import type { MissionIssue } from '@/types/types'
+import WaypointActionList from './WaypointActionList'
+
+type EditableFields = 'holdTime' | 'speed' | 'acceptanceRadius' | 'command' | 'loiterTurns' | 'loiterRadius' | 'actions'
+
+interface WaypointInspectorProps {
+  waypoint: Waypoint
+  index: number
+  count: number // waypoints in the route
+  issues: MissionIssue[]
+  onAltitudeChange: (meters: number) => void
+  onFrameChange: (frame: AltitudeFrame) => void
+  // `field` names the value being typed into, so the edits merge into one undo step
+  onChange: (changes: Partial<Pick<Waypoint, EditableFields>>, field?: string) => void
+  onReorder: (direction: -1 | 1) => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+// Empty or non-positive input clears the field back to the autopilot default
+const optionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+const inputClass =
+  'w-full mt-1 px-2 py-1 bg-slate-700 text-white rounded border border-slate-600 text-xs focus:outline-none focus:border-blue-500'
+
+export default function WaypointInspector({
+  waypoint,
+  index,
+  count,
+  issues,
+  onAltitudeChange,
+  onFrameChange,
+  onChange,
+  onReorder,
+  onDelete,
+  onClose,
+}: WaypointInspectorProps) {
+  const isEndpoint = waypoint.id === 'start' || waypoint.id === 'end'
+  // Start and end stay in place; stops move among themselves
+  const canMoveEarlier = !isEndpoint && index > 1
+  const canMoveLater = !isEndpoint && index < count - 2
+  const command = waypoint.command ?? 'waypoint'
+
+  return (
+    <div className="w-64 max-h-[70vh] overflow-y-auto bg-slate-800 bg-opacity-95 rounded-lg p-4 border border-slate-700 shadow-lg">
+      <div className="flex items-start justify-between mb-3">
+        <div className="min-w-0">
+          <div className="text-white font-semibold text-sm truncate">{waypoint.label}</div>
+          <div className="text-slate-400 text-[10px]">{waypoint.coords}</div>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white flex-shrink-0">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-slate-400 text-[10px] col-span-2">
+          On arrival
+          <select
+            value={command}
+            onChange={(e) => {
+              const next = e.target.value as WaypointCommand
+              onChange({ command: next === 'waypoint' ? undefined : next })
+            }}
+            className={inputClass}
+          >
+            {(Object.keys(COMMAND_LABELS) as WaypointCommand[]).map(option => (
+              <option key={option} value={option}>{COMMAND_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-slate-400 text-[10px]">
+          Altitude (m)
+          <input
+            type="number"
+            value={parseWaypointAltitude(waypoint.alt) ?? ''}
+            onChange={(e) => {
+              const meters = parseFloat(e.target.value)
+              if (Number.isFinite(meters)) onAltitudeChange(meters)
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-slate-400 text-[10px]">
+          Frame
+          <select
+            value={waypoint.frame ?? 'relative'}
+            onChange={(e) => onFrameChange(e.target.value as AltitudeFrame)}
+            className={inputClass}
+          >
+            {(Object.keys(ALTITUDE_FRAME_SUFFIX) as AltitudeFrame[]).map(frame => (
+              <option key={frame} value={frame}>{ALTITUDE_FRAME_SUFFIX[frame]}</option>
+            ))}
+          </select>
+        </label>
+        {(command === 'waypoint' || command === 'loiter_time') && (
+          <label className="text-slate-400 text-[10px]">
+            {command === 'loiter_time' ? 'Loiter (s)' : 'Hold (s)'}
+            <input
+              type="number"
+              min={0}
+              value={waypoint.holdTime ?? ''}
+              placeholder="0"
+              onChange={(e) => onChange({ holdTime: optionalNumber(e.target.value) }, 'holdTime')}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {command === 'loiter_turns' && (
+          <label className="text-slate-400 text-[10px]">
+            Turns
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={waypoint.loiterTurns ?? ''}
+              placeholder="1"
+              onChange={(e) => onChange({ loiterTurns: optionalNumber(e.target.value) }, 'loiterTurns')}
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="text-slate-400 text-[10px]">
+          Speed (m/s)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={waypoint.speed ?? ''}
+            placeholder="Cruise"
+            onChange={(e) => onChange({ speed: optionalNumber(e.target.value) }, 'speed')}
+            className={inputClass}
+          />
+        </label>
+        {command === 'waypoint' && (
+          <label className="text-slate-400 text-[10px] col-span-2">
+            Acceptance radius (m)
+            <input
+              type="number"
+              min={0}
+              value={waypoint.acceptanceRadius ?? ''}
+              placeholder="Autopilot default"
+              onChange={(e) => onChange({ acceptanceRadius: optionalNumber(e.target.value) }, 'acceptanceRadius')}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {(command === 'loiter_time' || command === 'loiter_turns') && (
+          <label className="text-slate-400 text-[10px] col-span-2">
+            Loiter radius (m)
+            <input
+              type="number"
+              min={0}
+              value={waypoint.loiterRadius ?? ''}
+              placeholder="Autopilot default"
+              onChange={(e) => onChange({ loiterRadius: optionalNumber(e.target.value) }, 'loiterRadius')}
+              className={inputClass}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="mt-3 pt-3 border-t border-slate-700">
+        <WaypointActionList
+          actions={waypoint.actions ?? []}
+          near={waypoint}
+          inputClass={inputClass}
+          onChange={(actions, field) => onChange({ actions: actions.length > 0 ? actions : undefined }, field)}
+        />
+      </div>
+
+      {issues.map((issue, issueIndex) => (
+        <div
+          key={issueIndex}
+          className={`text-[10px] mt-2 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+        >
+          {issue.message}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-700">
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onReorder(-1)}
+            disabled={!canMoveEarlier}
+            className="p-1 rounded bg-slate-700 text-white hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Move earlier in the route"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="text-slate-400 text-[10px]">#{index + 1} of {count}</span>
+          <button
+            onClick={() => onReorder(1)}
+            disabled={!canMoveLater}
+            className="p-1 rounded bg-slate-700 text-white hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Move later in the route"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+        {!isEndpoint && (
+          <button
+            onClick={onDelete}
+            className="flex items-center space-x-1 text-red-400 hover:text-red-300 text-xs"
+          >
+            <Trash2 size={12} />
+            <span>Delete</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,13 +2,38 @@ export const MISSION_EXECUTION_CONFIG = {
   // API Configuration
   api: {
     baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000',
-    timeout: 30000, // 30 seconds
-    retryAttempts: 3,
+    vehicleUrl: process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000', // vehicle control bridge: commands, status and mission uploads
+    timeout: 30000, // 30 seconds per attempt
+    retryAttempts: 3, // extra attempts for idempotent requests (GET, PUT, DELETE)
+    retryBaseDelay: 500, // milliseconds before the first retry, doubled for each one after
+    retryMaxDelay: 5000,
+    pollTimeout: 5000, // milliseconds for status and telemetry polls, which are never retried
+  },
+
+  // Authentication Configuration
+  auth: {
+    loginPath: '/api/auth/login',
+    refreshPath: '/api/auth/refresh',
+    logoutPath: '/api/auth/logout',
+    storageKey: 'skyroutex.session',
+    refreshMargin: 60000, // milliseconds before the access token expires to refresh it
+    socketTokenParam: 'access_token', // browsers cannot set headers on a WebSocket, so the token goes in the URL
+    socketUnauthorizedCode: 4401, // close code the telemetry server uses for a rejected token
+  },
+
+  // Audit Log Configuration
+  audit: {
+    path: '/api/audit',
+    pendingKey: 'skyroutex.audit.pending', // entries the backend has not accepted yet
+    maxPending: 1000, // oldest are dropped beyond this, with a warning
+    pageSize: 100,
+    exportLimit: 10000, // most entries one export fetches
   },
 
   // WebSocket Configuration
   websocket: {
     url: process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:7000/ws/telemetry',
+    protocol: process.env.NEXT_PUBLIC_TELEMETRY_PROTOCOL || 'json', // 'json' | 'mavlink' (raw MAVLink v2 over a binary WebSocket)
     reconnectInterval: 5000, // 5 seconds
     maxReconnectAttempts: 10,
     pingInterval: 20000, // 20 seconds
@@ -18,8 +43,18 @@ export const MISSION_EXECUTION_CONFIG = {
   video: {
     // Add your video stream URL here
     streamUrl: process.env.NEXT_PUBLIC_VIDEO_URL || '',
+    protocol: process.env.NEXT_PUBLIC_VIDEO_PROTOCOL || 'mjpeg', // 'mjpeg' | 'webrtc' (WHEP)
     defaultQuality: 1, // 1=HD, 2=SD, 3=Low
+    qualityLevels: [
+      { level: 1, label: 'HD', param: 'hd' },
+      { level: 2, label: 'SD', param: 'sd' },
+      { level: 3, label: 'Low', param: 'low' },
+    ],
     enableOverlay: true,
+    reconnectInterval: 3000, // 3 seconds
+    maxReconnectAttempts: 10,
+    stallTimeout: 10000, // reconnect an MJPEG stream that has shown no new frame for this long (ms)
+    disconnectGrace: 5000, // how long a WebRTC connection may stay disconnected before reconnecting (ms)
   },
 
   // Telemetry Update Configuration
@@ -43,7 +78,9 @@ export const MISSION_EXECUTION_CONFIG = {
     defaultTakeoffAltitude: 10, // meters
     minTakeoffAltitude: 5,
     maxTakeoffAltitude: 120,
+    batteryReserve: 20, // percentage that must remain on landing
     commandTimeout: 30000, // 30 seconds
+    vehicleConnection: process.env.NEXT_PUBLIC_VEHICLE_CONNECTION || 'udp:127.0.0.1:14540', // PyMAVLink format (no //) for mission uploads
   },
 
   // Geofence Configuration
@@ -52,6 +89,68 @@ export const MISSION_EXECUTION_CONFIG = {
     violationCheckInterval: 1000, // milliseconds
   },
 
+  // Safety Interlock Configuration: what each hazardous command needs before it is sent
+  interlocks: {
+    approvalPath: '/api/interlocks/approvals', // checks a second person's credentials and records their approval
+    approvalWindow: 120000, // milliseconds a second person's approval stays valid
+    commands: {
+      force_arm: { typedConfirmation: true, secondApprover: true },
+      force_start: { typedConfirmation: true, secondApprover: true },
+      disarm_in_flight: { typedConfirmation: true, secondApprover: false }, // there may be no time to find someone
+      geofence_override: { typedConfirmation: true, secondApprover: true },
+    },
+  },
+
+  // Pre-flight Checklist Configuration: thresholds a checklist in lib/data.ts can tighten
+  preflight: {
+    minGpsFixType: 3, // 3D fix
+    minSatellites: 8,
+    minBattery: 90, // percent; a full pack sags a little on the ground
+    telemetryMaxAge: 5000, // milliseconds; older telemetry fails the GPS, battery and geofence checks
+  },
+
+  // Geocoding Configuration
+  geocoding: {
+    gazetteerUrl: process.env.NEXT_PUBLIC_GAZETTEER_URL || '/data/gazetteer.json', // bundled offline place names
+    onlineUrl: process.env.NEXT_PUBLIC_GEOCODER_URL ?? 'https://nominatim.openstreetmap.org', // empty string disables
+    countryCodes: 'in',
+    maxResults: 5,
+    onlineTimeout: 4000, // milliseconds
+    onlineRetryDelay: 60000, // wait after a failed online lookup before trying again
+  },
+
+  // Map Tile Configuration
+  mapTiles: {
+    imagery: {
+      id: 'esri-imagery',
+      url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+      attribution: 'Tiles &copy; Esri',
+      subdomains: '',
+      maxZoom: 19,
+    },
+    labels: {
+      id: 'carto-labels',
+      url: 'https://{s}.basemaps.cartocdn.com/light_only_labels/{z}/{x}/{y}{r}.png',
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
+      subdomains: 'abcd',
+      maxZoom: 19,
+    },
+    cacheName: 'skyroutex-map-tiles',
+    networkTimeout: 8000, // milliseconds before an online tile request falls back to the cache
+    prefetchMinZoom: 10,
+    prefetchMaxZoom: 16,
+    prefetchPadding: 500, // meters added around the mission bounding box
+    prefetchConcurrency: 4,
+    maxPrefetchTiles: 20000,
+  },
+
+  // Terrain Configuration
+  terrain: {
+    minClearance: 30, // meters above ground a waypoint or leg must keep
+    profileSampleSpacing: 30, // meters between terrain samples along the route
+    maxProfileSamples: 500,
+  },
+
   // UI Configuration
   ui: {
     theme: 'dark',
@@ -63,21 +162,35 @@ export const MISSION_EXECUTION_CONFIG = {
 
 // Export individual configs for easier imports
 export const API_CONFIG = MISSION_EXECUTION_CONFIG.api
+export const AUTH_CONFIG = MISSION_EXECUTION_CONFIG.auth
+export const AUDIT_CONFIG = MISSION_EXECUTION_CONFIG.audit
 export const WEBSOCKET_CONFIG = MISSION_EXECUTION_CONFIG.websocket
 export const VIDEO_CONFIG = MISSION_EXECUTION_CONFIG.video
 export const TELEMETRY_CONFIG = MISSION_EXECUTION_CONFIG.telemetry
 export const ALERT_CONFIG = MISSION_EXECUTION_CONFIG.alerts
 export const MISSION_CONTROL_CONFIG = MISSION_EXECUTION_CONFIG.missionControl
 export const GEOFENCE_CONFIG = MISSION_EXECUTION_CONFIG.geofence
+export const INTERLOCK_CONFIG = MISSION_EXECUTION_CONFIG.interlocks
+export const PREFLIGHT_CONFIG = MISSION_EXECUTION_CONFIG.preflight
+export const GEOCODING_CONFIG = MISSION_EXECUTION_CONFIG.geocoding
+export const MAP_TILES_CONFIG = MISSION_EXECUTION_CONFIG.mapTiles
+export const TERRAIN_CONFIG = MISSION_EXECUTION_CONFIG.terrain
 export const UI_CONFIG = MISSION_EXECUTION_CONFIG.ui
 
 // Type definitions
 export type MissionExecutionConfig = typeof MISSION_EXECUTION_CONFIG
 export type ApiConfig = typeof API_CONFIG
+export type AuthConfig = typeof AUTH_CONFIG
+export type AuditConfig = typeof AUDIT_CONFIG
 export type WebSocketConfig = typeof WEBSOCKET_CONFIG
 export type VideoConfig = typeof VIDEO_CONFIG
 export type TelemetryConfig = typeof TELEMETRY_CONFIG
 export type AlertConfig = typeof ALERT_CONFIG
 export type MissionControlConfig = typeof MISSION_CONTROL_CONFIG
 export type GeofenceConfig = typeof GEOFENCE_CONFIG
+export type InterlockConfig = typeof INTERLOCK_CONFIG
+export type PreflightConfig = typeof PREFLIGHT_CONFIG
+export type GeocodingConfig = typeof GEOCODING_CONFIG
+export type MapTilesConfig = typeof MAP_TILES_CONFIG
+export type TerrainConfig = typeof TERRAIN_CONFIG
 export type UIConfig = typeof UI_CONFIG
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * useCurrentUser Hook
+ * The signed-in user, kept current as people sign in and out
+ */
+
+import { useEffect, useState } from 'react';
+import sessionService, { SessionUser } from '@/services/sessionService';
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useCurrentUser = (): SessionUser | null => {
+  const [user, setUser] = useState<SessionUser | null>(() => sessionService.getUser());
+
+  useEffect(() => {
+    setUser(sessionService.getUser());
+    return sessionService.subscribe(setUser);
+  }, []);
+
+  return user;
+};
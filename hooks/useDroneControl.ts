@@ -490,7 +490,7 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
         updateState({ 
           telemetry: data,
           armed: data.armed,
-          mode: data.mode
+          mode: data.flight_mode
         });
         
         if (onTelemetryUpdate) {
@@ -549,12 +549,12 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
   const canTakeoff = state.connected && state.armed && !state.takingOff;
   const canUploadMission = state.connected && !state.uploadingMission;
   const canStartMission = state.connected && state.missionUploaded && !state.missionRunning;
-  const batteryPercentage = state.telemetry?.battery_remaining ?? 0;
+  const batteryPercentage = state.telemetry?.battery?.remaining ?? 0;
   
   const gpsQuality = (() => {
     if (!state.telemetry) return 'none';
-    const fix = state.telemetry.gps_fix;
-    const sats = state.telemetry.satellites_visible;
+    const fix = state.telemetry.gps?.fix_type ?? 0;
+    const sats = state.telemetry.gps?.satellites ?? 0;
     
     if (fix < 2) return 'none';
     if (fix === 2) return 'poor';
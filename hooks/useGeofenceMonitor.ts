@@ -0,0 +1,99 @@
+/**
+ * useGeofenceMonitor Hook
+ * Periodically checks the vehicle position against the mission's geofences
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { GEOFENCE_CONFIG } from '@/config/missionExecution.config';
+import { checkGeofences, GeofencePosition } from '@/lib/geofence';
+import type { Geofence, GeofenceBreach } from '@/types/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface UseGeofenceMonitorProps {
+  geofences: Geofence[];
+  position: GeofencePosition | null;
+  enabled?: boolean;
+  onBreach?: (breach: GeofenceBreach) => void; // called once when a breach starts
+  onClear?: () => void; // called when the last breach clears
+}
+
+interface UseGeofenceMonitorReturn {
+  breaches: GeofenceBreach[];
+  breachedFenceIds: Set<string>;
+  lastCheck: number;
+}
+
+const breachKey = (breach: GeofenceBreach) => `${breach.fenceId ?? 'inclusion'}:${breach.kind}`;
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useGeofenceMonitor = ({
+  geofences,
+  position,
+  enabled = GEOFENCE_CONFIG.enableWarnings,
+  onBreach,
+  onClear
+}: UseGeofenceMonitorProps): UseGeofenceMonitorReturn => {
+  const [breaches, setBreaches] = useState<GeofenceBreach[]>([]);
+  const [lastCheck, setLastCheck] = useState<number>(0);
+
+  // Position changes every telemetry frame; the interval reads it from a ref
+  const positionRef = useRef<GeofencePosition | null>(position);
+  const activeKeysRef = useRef<Set<string>>(new Set());
+  const onBreachRef = useRef(onBreach);
+  const onClearRef = useRef(onClear);
+
+  positionRef.current = position;
+  onBreachRef.current = onBreach;
+  onClearRef.current = onClear;
+
+  useEffect(() => {
+    if (!enabled || geofences.length === 0) {
+      activeKeysRef.current = new Set();
+      setBreaches([]);
+      return;
+    }
+
+    const check = () => {
+      const current = positionRef.current;
+      if (!current) return;
+
+      const found = checkGeofences(geofences, current);
+      const keys = new Set(found.map(breachKey));
+
+      found
+        .filter(breach => !activeKeysRef.current.has(breachKey(breach)))
+        .forEach(breach => {
+          console.warn(`🚧 Geofence breach: ${breach.message}`);
+          onBreachRef.current?.(breach);
+        });
+
+      if (keys.size === 0 && activeKeysRef.current.size > 0) {
+        console.log('✅ Geofence breach cleared');
+        onClearRef.current?.();
+      }
+
+      activeKeysRef.current = keys;
+      setBreaches(found);
+      setLastCheck(Date.now());
+    };
+
+    check();
+    const interval = setInterval(check, GEOFENCE_CONFIG.violationCheckInterval);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [geofences, enabled]);
+
+  return {
+    breaches,
+    breachedFenceIds: new Set(breaches.flatMap(breach => (breach.fenceId ? [breach.fenceId] : []))),
+    lastCheck
+  };
+};
@@ -1,71 +1,88 @@
 import { useState } from 'react'
 import { toast } from 'react-hot-toast'
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000'
+import { useRequestSignal } from '@/hooks/useRequestSignal'
+import { isCancelled } from '@/lib/api'
+import { parseGeofences } from '@/lib/geofence'
+import type { MissionItemWaypoint } from '@/lib/missionItems'
+import { transitionBlocker } from '@/lib/missionLifecycle'
+import { validateMission } from '@/lib/missionValidation'
+import { buildTerrainProfile } from '@/lib/terrainProfile'
+import { vehiclesData } from '@/lib/data'
+import droneControlService from '@/services/DroneControlService'
+import { transitionMission } from '@/services/missionService'
+import terrainService from '@/services/terrainService'
+import type { MissionState } from '@/types'
 
 interface Mission {
   id: number
   mission_name: string
-  waypoints: Array<{
-    lat: number
-    lon: number
-    alt?: number
-  }>
+  status: MissionState
+  waypoints: MissionItemWaypoint[]
   vehicle_id?: string
+  geofences?: unknown
+  battery_usage?: number
 }
 
 export const usePX4Upload = () => {
   const [uploading, setUploading] = useState<number | null>(null)
+  const requestSignal = useRequestSignal()
 
   const uploadMissionToPX4 = async (mission: Mission) => {
-    setUploading(mission.id)
-    const uploadToast = toast.loading(`Uploading ${mission.mission_name}...`)
-
-    try {
-      // Format waypoints for PX4 - ensure all values are numbers
-      const waypoints = mission.waypoints.map(wp => ({
-        latitude: Number(wp.lat),
-        longitude: Number(wp.lon),
-        altitude: Number(wp.alt || 10)
-      }))
+    const blocker = transitionBlocker(mission, 'upload')
+    if (blocker) {
+      toast.error(`${mission.mission_name} cannot be uploaded: ${blocker}`)
+      return false
+    }
 
-      console.log('Formatted waypoints:', waypoints)
+    await terrainService.restore()
+    const errors = validateMission({
+      waypoints: mission.waypoints,
+      geofences: parseGeofences(mission.geofences),
+      vehicle: vehiclesData.find(vehicle => vehicle.id === mission.vehicle_id),
+      estimatedBatteryUsage: mission.battery_usage,
+      terrain: terrainService.hasData()
+        ? buildTerrainProfile(mission.waypoints, point => terrainService.elevationAt(point))
+        : null
+    }).filter(issue => issue.severity === 'error')
 
-      // Upload to PX4
-      const response = await fetch(
-        `${API_BASE_URL}/api/v1/missions/upload-to-px4/${mission.id}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            mission_id: mission.id.toString(),
-            vehicle_id: mission.vehicle_id || 'UAV-001',
-            waypoints: waypoints,
-            connection_string: 'udp:127.0.0.1:14540'  // PyMAVLink format (no //)
-          })
-        }
+    if (errors.length > 0) {
+      console.error('Mission failed pre-upload checks:', errors)
+      toast.error(
+        `${mission.mission_name} failed mission checks: ${errors.map(issue => issue.message).join('; ')}`
       )
+      return false
+    }
 
-      const result = await response.json()
+    setUploading(mission.id)
+    const uploadToast = toast.loading(`Uploading ${mission.mission_name}...`)
 
-      if (response.ok && result.success) {
+    try {
+      // Upload to PX4; sent once, a retried upload could interleave with the first
+      const signal = requestSignal()
+      const result = await droneControlService.uploadMission(String(mission.id), mission.waypoints, {
+        vehicleId: mission.vehicle_id,
+        signal
+      })
+
+      if (result.success) {
         toast.success(
           `✅ Mission uploaded! ${result.data?.waypoint_count} waypoints`,
           { id: uploadToast }
         )
         
-        // Update mission status to active
-        await fetch(`${API_BASE_URL}/api/missions/${mission.id}/status`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ status: 'active' })
-        })
+        // Record the upload in the mission lifecycle; the vehicle has the mission either way
+        await transitionMission(mission.id, 'upload', { signal })
+          .catch(error => console.warn('Could not record the upload in the mission status:', error))
         
         return true
       } else {
-        throw new Error(result.detail || result.message || 'Upload failed')
+        throw new Error(result.message || 'Upload failed')
       }
     } catch (error: any) {
+      if (isCancelled(error)) {
+        toast.dismiss(uploadToast)
+        return false
+      }
       toast.error(
         error.message || 'Upload failed. Ensure PX4 Gazebo SITL is running.',
         { id: uploadToast }
@@ -0,0 +1,29 @@
+/**
+ * usePermissions Hook
+ * Whether the signed-in user may do something, kept current as people sign in
+ * and out and as administrators change role permissions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import permissionService from '@/services/permissionService';
+import type { PermissionId } from '@/types';
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const usePermissions = (): ((permission: PermissionId) => boolean) => {
+  const user = useCurrentUser();
+  const [grants, setGrants] = useState(() => permissionService.getRolePermissions());
+
+  useEffect(() => {
+    setGrants(permissionService.getRolePermissions());
+    return permissionService.subscribe(() => setGrants(permissionService.getRolePermissions()));
+  }, []);
+
+  return useCallback(
+    (permission: PermissionId) => !!user && grants[user.role].includes(permission),
+    [user, grants]
+  );
+};
@@ -0,0 +1,29 @@
+/**
+ * useRequestSignal Hook
+ * AbortSignal for the requests a component makes. It aborts when the component
+ * unmounts, so calls still in flight end with ApiCancelledError instead of
+ * holding a spinner or updating a screen that is gone.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useRequestSignal = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Strict mode unmounts and mounts again in development, so start fresh
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
@@ -0,0 +1,100 @@
+/**
+ * useUndoableState Hook
+ * State with an undo/redo history. Consecutive changes that share a merge key
+ * (typing into one field, say) collapse into a single undo step.
+ */
+
+import { useCallback, useState } from 'react';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Updater<T> = T | ((current: T) => T);
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  mergeKey: string | null;
+}
+
+interface UseUndoableStateReturn<T> {
+  value: T;
+  set: (next: Updater<T>, mergeKey?: string) => void;
+  reset: (value: T) => void; // replace the value and forget the history
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const MAX_HISTORY = 100;
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useUndoableState = <T>(initial: T | (() => T)): UseUndoableStateReturn<T> => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: initial instanceof Function ? initial() : initial,
+    future: [],
+    mergeKey: null
+  }));
+
+  const set = useCallback((next: Updater<T>, mergeKey?: string) => {
+    setHistory(current => {
+      const value = next instanceof Function ? next(current.present) : next;
+      if (Object.is(value, current.present)) return current;
+
+      if (mergeKey && mergeKey === current.mergeKey) {
+        return { ...current, present: value, future: [] };
+      }
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+        mergeKey: mergeKey ?? null
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], mergeKey: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        mergeKey: null
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        mergeKey: null
+      };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,376 @@
+/**
+ * useVideoStream Hook
+ * Drone camera stream playback (MJPEG over HTTP and WebRTC/WHEP) with
+ * quality selection and automatic reconnection
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { VIDEO_CONFIG } from '@/config/missionExecution.config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VideoProtocol = 'mjpeg' | 'webrtc';
+
+// 'interrupted': WebRTC lost the connection and may yet recover it; the last frame stays up
+export type VideoStreamState = 'idle' | 'connecting' | 'playing' | 'interrupted' | 'reconnecting' | 'failed';
+
+export interface VideoQualityLevel {
+  level: number;
+  label: string;
+  param: string;
+}
+
+interface UseVideoStreamProps {
+  streamUrl: string;
+  protocol?: VideoProtocol;
+  initialQuality?: number;
+  autoConnect?: boolean;
+}
+
+interface UseVideoStreamReturn {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  mjpegSrc: string | null;
+  state: VideoStreamState;
+  error: string | null;
+  reconnectAttempts: number;
+  quality: number;
+  qualityLevels: VideoQualityLevel[];
+  setQuality: (level: number) => void;
+  handleFrameLoad: () => void;
+  handleStreamError: () => void;
+  reconnect: () => void;
+  disconnect: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const MAX_RECONNECT_DELAY = 30000;
+const ICE_GATHERING_TIMEOUT = 2000;
+
+export const resolveVideoProtocol = (protocol?: string): VideoProtocol => {
+  return protocol === 'webrtc' || protocol === 'whep' ? 'webrtc' : 'mjpeg';
+};
+
+const getQualityLevel = (level: number): VideoQualityLevel => {
+  return (
+    VIDEO_CONFIG.qualityLevels.find(q => q.level === level) ??
+    VIDEO_CONFIG.qualityLevels[0]
+  );
+};
+
+// Append the quality selector (and a cache-buster for MJPEG reloads) to the stream URL
+const buildStreamUrl = (streamUrl: string, quality: number, cacheBust?: number): string => {
+  const separator = streamUrl.includes('?') ? '&' : '?';
+  let url = `${streamUrl}${separator}quality=${getQualityLevel(quality).param}`;
+  if (cacheBust !== undefined) {
+    url += `&_t=${cacheBust}`;
+  }
+  return url;
+};
+
+// Resolve once ICE gathering completes so the WHEP offer carries all candidates
+const waitForIceGathering = (pc: RTCPeerConnection): Promise<void> => {
+  if (pc.iceGatheringState === 'complete') {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT);
+
+    function done() {
+      clearTimeout(timeout);
+      pc.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    }
+
+    function onChange() {
+      if (pc.iceGatheringState === 'complete') {
+        done();
+      }
+    }
+
+    pc.addEventListener('icegatheringstatechange', onChange);
+  });
+};
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useVideoStream = ({
+  streamUrl,
+  protocol = 'mjpeg',
+  initialQuality = VIDEO_CONFIG.defaultQuality,
+  autoConnect = true
+}: UseVideoStreamProps): UseVideoStreamReturn => {
+
+  const [state, setState] = useState<VideoStreamState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [mjpegSrc, setMjpegSrc] = useState<string | null>(null);
+  const [quality, setQualityState] = useState<number>(getQualityLevel(initialQuality).level);
+  const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const whepResourceRef = useRef<string | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const stallTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const disconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptsRef = useRef<number>(0);
+  const activeRef = useRef<boolean>(false);
+  const qualityRef = useRef<number>(quality);
+  const startStreamRef = useRef<() => void>(() => undefined);
+  const generationRef = useRef<number>(0);
+
+  const clearStallWatchdog = useCallback(() => {
+    if (stallTimeoutRef.current) {
+      clearTimeout(stallTimeoutRef.current);
+      stallTimeoutRef.current = null;
+    }
+  }, []);
+
+  const clearDisconnectGrace = useCallback(() => {
+    if (disconnectTimeoutRef.current) {
+      clearTimeout(disconnectTimeoutRef.current);
+      disconnectTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Tear down the current stream without touching reconnect bookkeeping
+  const teardown = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    clearStallWatchdog();
+    clearDisconnectGrace();
+
+    const pc = peerConnectionRef.current;
+    if (pc) {
+      pc.ontrack = null;
+      pc.onconnectionstatechange = null;
+      pc.close();
+      peerConnectionRef.current = null;
+    }
+
+    if (whepResourceRef.current) {
+      // Release the WHEP session on the server; failures here are harmless
+      fetch(whepResourceRef.current, { method: 'DELETE' }).catch(() => undefined);
+      whepResourceRef.current = null;
+    }
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+
+    setMjpegSrc(null);
+  }, [clearStallWatchdog, clearDisconnectGrace]);
+
+  const scheduleReconnect = useCallback((reason: string) => {
+    if (!activeRef.current) return;
+
+    teardown();
+    setError(reason);
+
+    if (reconnectAttemptsRef.current >= VIDEO_CONFIG.maxReconnectAttempts) {
+      console.log('❌ Max video reconnection attempts reached');
+      setState('failed');
+      return;
+    }
+
+    reconnectAttemptsRef.current += 1;
+    setReconnectAttempts(reconnectAttemptsRef.current);
+    setState('reconnecting');
+
+    const delay = Math.min(
+      VIDEO_CONFIG.reconnectInterval * Math.pow(2, reconnectAttemptsRef.current - 1),
+      MAX_RECONNECT_DELAY
+    );
+    console.log(`🔄 Video reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${VIDEO_CONFIG.maxReconnectAttempts})`);
+
+    reconnectTimeoutRef.current = setTimeout(() => {
+      startStreamRef.current();
+    }, delay);
+  }, [teardown]);
+
+  // A stalled MJPEG stream often never errors, so reconnect when frames stop arriving
+  const armStallWatchdog = useCallback(() => {
+    clearStallWatchdog();
+    stallTimeoutRef.current = setTimeout(() => {
+      stallTimeoutRef.current = null;
+      scheduleReconnect('Video stream stalled');
+    }, VIDEO_CONFIG.stallTimeout);
+  }, [clearStallWatchdog, scheduleReconnect]);
+
+  const startWhep = useCallback(async (url: string) => {
+    const pc = new RTCPeerConnection();
+    peerConnectionRef.current = pc;
+
+    pc.addTransceiver('video', { direction: 'recvonly' });
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+
+    pc.ontrack = (event) => {
+      if (videoRef.current && event.streams[0]) {
+        videoRef.current.srcObject = event.streams[0];
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      switch (pc.connectionState) {
+        case 'connected':
+          clearDisconnectGrace();
+          reconnectAttemptsRef.current = 0;
+          setReconnectAttempts(0);
+          setError(null);
+          setState('playing');
+          break;
+        case 'disconnected':
+          // Often transient: ICE recovers by itself or the state moves on to 'failed'
+          if (peerConnectionRef.current === pc && !disconnectTimeoutRef.current) {
+            setState('interrupted');
+            disconnectTimeoutRef.current = setTimeout(() => {
+              disconnectTimeoutRef.current = null;
+              if (peerConnectionRef.current === pc) {
+                scheduleReconnect('WebRTC connection lost');
+              }
+            }, VIDEO_CONFIG.disconnectGrace);
+          }
+          break;
+        case 'failed':
+        case 'closed':
+          if (peerConnectionRef.current === pc) {
+            scheduleReconnect(`WebRTC connection ${pc.connectionState}`);
+          }
+          break;
+      }
+    };
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    await waitForIceGathering(pc);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: pc.localDescription?.sdp ?? offer.sdp,
+    });
+
+    if (!response.ok) {
+      throw new Error(`WHEP negotiation failed (HTTP ${response.status})`);
+    }
+
+    const location = response.headers.get('Location');
+    const resource = location ? new URL(location, url).toString() : null;
+
+    // The stream may have been torn down while negotiating
+    if (peerConnectionRef.current !== pc) {
+      if (resource) fetch(resource, { method: 'DELETE' }).catch(() => undefined);
+      return;
+    }
+
+    whepResourceRef.current = resource;
+    await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+  }, [clearDisconnectGrace, scheduleReconnect]);
+
+  const startStream = useCallback(() => {
+    if (!streamUrl) {
+      setState('idle');
+      setError('No video stream configured');
+      return;
+    }
+
+    teardown();
+    activeRef.current = true;
+    setState(reconnectAttemptsRef.current > 0 ? 'reconnecting' : 'connecting');
+
+    const level = qualityRef.current;
+    console.log(`📹 Connecting to ${protocol.toUpperCase()} video stream (${getQualityLevel(level).label})`);
+
+    if (protocol === 'webrtc') {
+      const generation = ++generationRef.current;
+      startWhep(buildStreamUrl(streamUrl, level)).catch((err: any) => {
+        console.error('❌ Video stream error:', err);
+        if (generation === generationRef.current) {
+          scheduleReconnect(err?.message || 'WebRTC negotiation failed');
+        }
+      });
+    } else {
+      setMjpegSrc(buildStreamUrl(streamUrl, level, Date.now()));
+      armStallWatchdog();
+    }
+  }, [streamUrl, protocol, teardown, startWhep, scheduleReconnect, armStallWatchdog]);
+
+  startStreamRef.current = startStream;
+
+  // MJPEG <img> callbacks; every frame of the stream fires a load
+  const handleFrameLoad = useCallback(() => {
+    armStallWatchdog();
+    if (reconnectAttemptsRef.current !== 0) {
+      reconnectAttemptsRef.current = 0;
+      setReconnectAttempts(0);
+    }
+    setError(null);
+    setState('playing');
+  }, [armStallWatchdog]);
+
+  const handleStreamError = useCallback(() => {
+    scheduleReconnect('Video stream dropped');
+  }, [scheduleReconnect]);
+
+  const reconnect = useCallback(() => {
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempts(0);
+    setError(null);
+    startStream();
+  }, [startStream]);
+
+  const disconnect = useCallback(() => {
+    activeRef.current = false;
+    teardown();
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempts(0);
+    setState('idle');
+  }, [teardown]);
+
+  const setQuality = useCallback((level: number) => {
+    const next = getQualityLevel(level).level;
+    if (next === qualityRef.current) return;
+
+    qualityRef.current = next;
+    setQualityState(next);
+
+    if (activeRef.current) {
+      reconnect();
+    }
+  }, [reconnect]);
+
+  // Connect on mount and whenever the source changes
+  useEffect(() => {
+    if (autoConnect) {
+      startStream();
+    }
+    return () => {
+      activeRef.current = false;
+      teardown();
+    };
+  }, [autoConnect, startStream, teardown]);
+
+  return {
+    videoRef,
+    mjpegSrc,
+    state,
+    error,
+    reconnectAttempts,
+    quality,
+    qualityLevels: VIDEO_CONFIG.qualityLevels,
+    setQuality,
+    handleFrameLoad,
+    handleStreamError,
+    reconnect,
+    disconnect
+  };
+};
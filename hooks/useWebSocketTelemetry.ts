@@ -1,9 +1,15 @@
 /**
  * useWebSocketTelemetry Hook
- * Real-time WebSocket telemetry for drone position updates
+ * Real-time telemetry for drone position updates over the shared telemetry client
  */
 
 import { useState, useEffect, useRef } from 'react';
+import telemetryService, { DEFAULT_VEHICLE_ID, TelemetryConnectionState } from '@/services/telemetryService';
+import type { FlightRecorder } from '@/services/flightRecorder';
+import { ALERT_CONFIG } from '@/config/missionExecution.config';
+import type { TelemetryData, VehicleStatusText } from '@/types/types';
+
+export type { TelemetryData };
 
 // ============================================================================
 // TYPES
@@ -15,34 +21,6 @@ export interface Position {
   alt: number;
 }
 
-export interface TelemetryData {
-  timestamp?: number;
-  position?: Position;
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-    ground_speed?: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    num_satellites?: number;
-    fix_type: number;
-    hdop?: number;
-  };
-  flight_mode?: string;
-}
-
 export interface DroneStatus {
   connected: boolean;
   armed: boolean;
@@ -63,9 +41,10 @@ export interface FlightPathPoint {
 }
 
 interface UseWebSocketTelemetryProps {
-  wsUrl: string;
+  vehicleId?: string;
   missionId?: string;
   autoConnect?: boolean;
+  recorder?: FlightRecorder | null; // Receives every frame, unaffected by the flight path cap
 }
 
 interface UseWebSocketTelemetryReturn {
@@ -74,8 +53,11 @@ interface UseWebSocketTelemetryReturn {
   dronePosition: Position | null;
   flightPath: FlightPathPoint[];
   wsConnected: boolean;
+  connectionState: TelemetryConnectionState;
   lastUpdate: number;
   updateFrequency: number;
+  invalidFrames: number;
+  statusTexts: VehicleStatusText[]; // newest first
   connect: () => void;
   disconnect: () => void;
 }
@@ -85,29 +67,37 @@ interface UseWebSocketTelemetryReturn {
 // ============================================================================
 
 export const useWebSocketTelemetry = ({
-  wsUrl,
+  vehicleId = DEFAULT_VEHICLE_ID,
   missionId,
-  autoConnect = true
+  autoConnect = true,
+  recorder = null
 }: UseWebSocketTelemetryProps): UseWebSocketTelemetryReturn => {
   
   const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
   const [status, setStatus] = useState<DroneStatus | null>(null);
   const [dronePosition, setDronePosition] = useState<Position | null>(null);
   const [flightPath, setFlightPath] = useState<FlightPathPoint[]>([]);
-  const [wsConnected, setWsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<TelemetryConnectionState>('idle');
   const [lastUpdate, setLastUpdate] = useState<number>(0);
   const [updateFrequency, setUpdateFrequency] = useState<number>(0);
+  const [invalidFrames, setInvalidFrames] = useState<number>(0);
+  const [statusTexts, setStatusTexts] = useState<VehicleStatusText[]>([]);
 
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const handleTelemetryUpdateRef = useRef<(frame: TelemetryData) => void>(() => undefined);
   const updateCountRef = useRef<number>(0);
   const frequencyWindowRef = useRef<number>(Date.now());
+  const statusRef = useRef<DroneStatus | null>(null);
+  const recorderRef = useRef<FlightRecorder | null>(recorder);
 
-  const maxReconnectAttempts = 10;
+  recorderRef.current = recorder;
 
-  // Handle telemetry updates
-  const handleTelemetryUpdate = (data: any) => {
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  // Handle telemetry updates (frames arrive already validated and canonical)
+  const handleTelemetryUpdate = (frame: TelemetryData) => {
     const now = Date.now();
     
     try {
@@ -124,15 +114,10 @@ export const useWebSocketTelemetry = ({
 
       setLastUpdate(now);
 
-      // Extract position
-      const positionData = data.position || data.current_position;
-      
-      if (positionData) {
-        const newPosition: Position = {
-          lat: positionData.lat || positionData.latitude || 0,
-          lon: positionData.lon || positionData.lng || positionData.longitude || 0,
-          alt: positionData.alt || positionData.altitude || positionData.relative_alt || 0
-        };
+      const position = frame.position;
+
+      if (position) {
+        const newPosition: Position = { lat: position.lat, lon: position.lon, alt: position.alt };
 
         setDronePosition(newPosition);
 
@@ -142,37 +127,31 @@ export const useWebSocketTelemetry = ({
         });
       }
 
-      // Update telemetry
-      setTelemetry({
-        timestamp: data.timestamp || now,
-        position: positionData ? {
-          lat: positionData.lat || positionData.latitude || 0,
-          lon: positionData.lon || positionData.lng || positionData.longitude || 0,
-          alt: positionData.alt || positionData.altitude || positionData.relative_alt || 0
-        } : undefined,
-        velocity: data.velocity,
-        attitude: data.attitude,
-        battery: data.battery,
-        gps: data.gps,
-        flight_mode: data.flight_mode || data.mode
+      setTelemetry(frame);
+
+      recorderRef.current?.record(frame, {
+        ...statusRef.current,
+        ...(frame.armed !== undefined && { armed: frame.armed }),
+        ...(frame.flying !== undefined && { flying: frame.flying }),
+        ...(frame.flight_mode && { flight_mode: frame.flight_mode }),
+        ...(frame.mission_current !== undefined && { mission_current: frame.mission_current }),
+        ...(frame.mission_count !== undefined && { mission_count: frame.mission_count })
       });
 
       // Update status
-      if (data.armed !== undefined || data.flying !== undefined) {
+      if (frame.armed !== undefined || frame.flying !== undefined) {
         setStatus(prev => ({
           connected: true,
-          armed: data.armed ?? prev?.armed ?? false,
-          flying: data.flying ?? prev?.flying ?? false,
-          current_position: positionData ? {
-            lat: positionData.lat || positionData.latitude || 0,
-            lon: positionData.lon || positionData.lng || positionData.longitude || 0,
-            alt: positionData.alt || positionData.altitude || 0
-          } : prev?.current_position ?? { lat: 0, lon: 0, alt: 0 },
-          battery_level: data.battery?.remaining ?? data.battery_level ?? prev?.battery_level ?? 0,
-          flight_mode: data.flight_mode || data.mode || prev?.flight_mode || 'UNKNOWN',
-          mission_active: data.mission_active ?? prev?.mission_active ?? false,
-          mission_current: data.mission_current ?? data.current_waypoint ?? prev?.mission_current ?? 0,
-          mission_count: data.mission_count ?? data.total_waypoints ?? prev?.mission_count ?? 0
+          armed: frame.armed ?? prev?.armed ?? false,
+          flying: frame.flying ?? prev?.flying ?? false,
+          current_position: position
+            ? { lat: position.lat, lon: position.lon, alt: position.alt }
+            : prev?.current_position ?? { lat: 0, lon: 0, alt: 0 },
+          battery_level: frame.battery?.remaining ?? prev?.battery_level ?? 0,
+          flight_mode: frame.flight_mode || prev?.flight_mode || 'UNKNOWN',
+          mission_active: prev?.mission_active ?? false,
+          mission_current: frame.mission_current ?? prev?.mission_current ?? 0,
+          mission_count: frame.mission_count ?? prev?.mission_count ?? 0
         }));
       }
     } catch (error) {
@@ -180,123 +159,35 @@ export const useWebSocketTelemetry = ({
     }
   };
 
-  // Connect to WebSocket
-  const connect = () => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('⚠️ WebSocket already connected');
-      return;
-    }
+  handleTelemetryUpdateRef.current = handleTelemetryUpdate;
 
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max reconnection attempts reached');
+  // Subscribe to the shared telemetry connection
+  const connect = () => {
+    if (unsubscribeRef.current) {
+      console.log('⚠️ Telemetry already subscribed');
       return;
     }
 
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${wsUrl}`);
-      const ws = new WebSocket(wsUrl);
-
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-
-        if (missionId) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: missionId
-          }));
-          console.log(`📡 Subscribed to mission: ${missionId}`);
-        }
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-
-          switch (message.type) {
-            case 'telemetry_update':
-            case 'telemetry':
-              handleTelemetryUpdate(message.data || message);
-              break;
-            case 'status_update':
-              if (message.data) {
-                setStatus(prev => ({ ...prev, ...message.data } as DroneStatus));
-              }
-              break;
-            case 'error':
-              console.error('❌ WebSocket error:', message.message);
-              break;
-            case 'pong':
-              break;
-            default:
-              if (message.position || message.current_position) {
-                handleTelemetryUpdate(message);
-              }
-              break;
-          }
-        } catch (error) {
-          console.error('❌ Error parsing message:', error);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        setWsConnected(false);
-      };
-
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-
-        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          console.log(`🔄 Reconnecting in ${delay}ms`);
-
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, delay);
-        }
-      };
-
-      wsRef.current = ws;
-
-      const pingInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-
-      ws.addEventListener('close', () => {
-        clearInterval(pingInterval);
-      });
-
-    } catch (error) {
-      console.error('❌ Failed to create WebSocket:', error);
-      setWsConnected(false);
-    }
+    unsubscribeRef.current = telemetryService.subscribe(vehicleId, {
+      missionId,
+      onTelemetry: (data) => handleTelemetryUpdateRef.current(data),
+      onStatus: (data) => setStatus(prev => ({ ...prev, ...data } as DroneStatus)),
+      onConnectionChange: setConnectionState,
+      onInvalidFrame: () => setInvalidFrames(prev => prev + 1),
+      onStatusText: (message) => setStatusTexts(prev => [message, ...prev].slice(0, ALERT_CONFIG.maxAlerts))
+    });
   };
 
-  // Disconnect
+  // Unsubscribe (the connection closes once no view needs it)
   const disconnect = () => {
-    console.log('🔌 Disconnecting WebSocket...');
-
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (unsubscribeRef.current) {
+      unsubscribeRef.current();
+      unsubscribeRef.current = null;
     }
-
-    setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
+    setConnectionState('idle');
   };
 
-  // Auto-connect on mount
+  // Subscribe on mount and whenever the vehicle or mission changes
   useEffect(() => {
     if (autoConnect) {
       connect();
@@ -304,26 +195,19 @@ export const useWebSocketTelemetry = ({
     return () => {
       disconnect();
     };
-  }, [wsUrl, autoConnect]);
-
-  // Update subscription
-  useEffect(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && missionId) {
-      wsRef.current.send(JSON.stringify({
-        action: 'subscribe',
-        mission_id: missionId
-      }));
-    }
-  }, [missionId]);
+  }, [vehicleId, missionId, autoConnect]);
 
   return {
     telemetry,
     status,
     dronePosition,
     flightPath,
-    wsConnected,
+    wsConnected: connectionState === 'open',
+    connectionState,
     lastUpdate,
     updateFrequency,
+    invalidFrames,
+    statusTexts,
     connect,
     disconnect
   };
@@ -9,4 +9,126 @@ export const API_ENDPOINTS = {
   missionStats: '/api/missions/stats/summary',
   missionsByStatus: '/api/missions/stats/by-status',
   missionsByCorridor: '/api/missions/stats/by-corridor',
-}
\ No newline at end of file
+}
+// ============================================================================
+// Errors
+// ============================================================================
+
+// One entry of a FastAPI 422 validation error
+export interface FastApiValidationIssue {
+  loc: (string | number)[]
+  msg: string
+  type: string
+}
+
+export type FastApiDetail = string | FastApiValidationIssue[]
+
+const isValidationIssue = (value: any): value is FastApiValidationIssue =>
+  value && Array.isArray(value.loc) && typeof value.msg === 'string'
+
+/**
+ * Readable text for a FastAPI `detail`, e.g. 'body.mission_name: field required'
+ */
+export function formatApiDetail(detail: FastApiDetail): string {
+  if (typeof detail === 'string') return detail
+  return detail.map(issue => `${issue.loc.join('.')}: ${issue.msg}`).join('; ')
+}
+
+/**
+ * The backend answered with an error status. `detail` is FastAPI's error
+ * body when there was one.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly detail: FastApiDetail | null
+  readonly url: string
+
+  constructor(status: number, detail: FastApiDetail | null, url: string, fallbackMessage: string) {
+    super(detail ? formatApiDetail(detail) : `${fallbackMessage} (HTTP ${status})`)
+    this.name = 'ApiError'
+    this.status = status
+    this.detail = detail
+    this.url = url
+  }
+
+  /**
+   * Build from an error response, reading FastAPI's `{ detail }` body if present
+   */
+  static async fromResponse(response: Response, url: string, fallbackMessage: string): Promise<ApiError> {
+    const body = await response.json().catch(() => null)
+    return ApiError.fromBody(response.status, body, url, fallbackMessage)
+  }
+
+  /**
+   * Build from an error status and its already parsed body
+   */
+  static fromBody(status: number, body: any, url: string, fallbackMessage: string): ApiError {
+    const detail = body?.detail
+    const parsed: FastApiDetail | null =
+      typeof detail === 'string' ? detail
+        : Array.isArray(detail) && detail.every(isValidationIssue) ? detail
+          : null
+    return new ApiError(status, parsed, url, fallbackMessage)
+  }
+}
+
+/**
+ * The backend answered successfully but the body does not match the schema
+ * this client was built against
+ */
+export class ApiContractError extends Error {
+  readonly url: string
+  readonly path: string // where in the body the mismatch is
+
+  constructor(url: string, path: string, message: string) {
+    super(`Unexpected response from ${url}: ${message}`)
+    this.name = 'ApiContractError'
+    this.url = url
+    this.path = path
+  }
+}
+
+/**
+ * No complete answer within the timeout. The backend may still have acted on
+ * the request.
+ */
+export class ApiTimeoutError extends Error {
+  readonly url: string
+  readonly timeout: number // milliseconds
+
+  constructor(url: string, timeout: number) {
+    super(`No response from ${url} after ${timeout < 1000 ? `${timeout} ms` : `${Math.round(timeout / 1000)} s`}`)
+    this.name = 'ApiTimeoutError'
+    this.url = url
+    this.timeout = timeout
+  }
+}
+
+/**
+ * The request did not reach the backend: offline, connection refused, CORS
+ */
+export class ApiNetworkError extends Error {
+  readonly url: string
+
+  constructor(url: string, cause: unknown) {
+    super(`Could not reach ${url}${cause instanceof Error ? `: ${cause.message}` : ''}`)
+    this.name = 'ApiNetworkError'
+    this.url = url
+  }
+}
+
+/**
+ * The caller cancelled the request, e.g. because its component unmounted.
+ * Not a failure to report to the user.
+ */
+export class ApiCancelledError extends Error {
+  readonly url: string
+
+  constructor(url: string) {
+    super(`Request to ${url} was cancelled`)
+    this.name = 'ApiCancelledError'
+    this.url = url
+  }
+}
+
+export const isCancelled = (error: unknown): error is ApiCancelledError => error instanceof ApiCancelledError
@@ -0,0 +1,84 @@
+// Audit log vocabulary and export. Entries are recorded by
+// services/auditService.ts; this names what they mean and writes them out
+// for investigators as CSV or JSON.
+
+import type { AuditEntry } from '@/lib/auditSchemas'
+import type { AuditAction, AuditResult } from '@/types'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  arm: 'Arm',
+  disarm: 'Disarm',
+  takeoff: 'Takeoff',
+  land: 'Land',
+  rtl: 'Return to Launch',
+  mission_upload: 'Upload Mission',
+  mission_start: 'Start Mission',
+  mission_pause: 'Pause Mission',
+  mission_stop: 'Stop Mission',
+  mission_create: 'Create Mission',
+  mission_update: 'Update Mission',
+  mission_delete: 'Delete Mission',
+  mission_transition: 'Mission Status Change',
+  interlock_override: 'Safety Override',
+  preflight_checklist: 'Pre-flight Checklist',
+}
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]
+
+export const AUDIT_RESULT_LABELS: Record<AuditResult, string> = {
+  success: 'Succeeded',
+  failure: 'Failed',
+  denied: 'Denied',
+}
+
+export const AUDIT_RESULTS = Object.keys(AUDIT_RESULT_LABELS) as AuditResult[]
+
+export type AuditExportFormat = 'csv' | 'json'
+
+const CSV_COLUMNS: Array<[string, (entry: AuditEntry) => string]> = [
+  ['timestamp', entry => entry.timestamp],
+  ['user_id', entry => entry.user_id ?? ''],
+  ['user_name', entry => entry.user_name],
+  ['role', entry => entry.role ?? ''],
+  ['action', entry => entry.action],
+  ['vehicle_id', entry => entry.vehicle_id ?? ''],
+  ['mission_id', entry => entry.mission_id ?? ''],
+  ['parameters', entry => JSON.stringify(entry.parameters)],
+  ['result', entry => entry.result],
+  ['error', entry => entry.error ?? ''],
+  ['id', entry => entry.id],
+]
+
+// Quoted when needed; a leading =, +, - or @ is escaped so spreadsheets do not run it as a formula
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * One row per entry, in the order given, with a header row
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',')
+  const rows = entries.map(entry => CSV_COLUMNS.map(([, read]) => csvField(read(entry))).join(','))
+  return [header, ...rows].join('\r\n')
+}
+
+/**
+ * Save audit entries to disk
+ */
+export function downloadAuditLog(entries: AuditEntry[], format: AuditExportFormat): void {
+  const blob = format === 'csv'
+    ? new Blob([auditEntriesToCsv(entries)], { type: 'text/csv' })
+    : new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' })
+  const fileName = `audit-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,33 @@
+// Audit API contract: the entries the client records and the pages the
+// backend returns when the log is searched. The backend stamps entries it
+// receives with its own time as well and never changes or deletes them.
+
+import { AUDIT_ACTIONS, AUDIT_RESULTS } from '@/lib/audit'
+import { USER_ROLES } from '@/lib/missionLifecycle'
+import { array, datetime, enumOf, Infer, integer, maybe, nullable, object, record, string, unknown } from '@/lib/schema'
+
+export const auditEntrySchema = object({
+  id: string(), // made by the client, so an entry sent twice is stored once
+  timestamp: datetime(), // when it happened, by the client's clock
+  user_id: nullable(string()),
+  user_name: string(),
+  role: nullable(enumOf(USER_ROLES)),
+  action: enumOf(AUDIT_ACTIONS),
+  vehicle_id: nullable(string()),
+  mission_id: nullable(string()),
+  parameters: record(unknown()), // what was asked for, e.g. the takeoff altitude
+  result: enumOf(AUDIT_RESULTS),
+  error: maybe(string()),
+})
+
+export const auditBatchSchema = object({
+  entries: array(auditEntrySchema),
+})
+
+export const auditPageSchema = object({
+  entries: array(auditEntrySchema), // newest first
+  total: integer(), // matching entries across all pages
+})
+
+export type AuditEntry = Infer<typeof auditEntrySchema>
+export type AuditPage = Infer<typeof auditPageSchema>
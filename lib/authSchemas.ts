@@ -0,0 +1,51 @@
+// Auth API contract: the token responses of the login and refresh endpoints,
+// the permissions granted to each role, and second-person approvals of
+// safety overrides. The backend issues JWT bearer
+// tokens, either its own or ones from an OIDC provider it fronts; the client
+// only reads their expiry.
+
+import { USER_ROLES } from '@/lib/missionLifecycle'
+import { array, datetime, enumOf, Infer, maybe, number, object, record, string } from '@/lib/schema'
+
+export const authUserSchema = object({
+  id: string(),
+  name: string(),
+  email: maybe(string()),
+  role: enumOf(USER_ROLES),
+})
+
+const tokenFields = {
+  access_token: string(),
+  refresh_token: maybe(string()), // without one the session ends when the access token expires
+  token_type: maybe(string()), // 'bearer'
+  expires_in: maybe(number({ min: 0 })), // seconds; read from the token's exp claim when missing
+}
+
+export const loginResponseSchema = object({
+  ...tokenFields,
+  user: authUserSchema,
+})
+
+// The user is only sent back when their details changed
+export const refreshResponseSchema = object({
+  ...tokenFields,
+  user: maybe(authUserSchema),
+})
+
+// Permission ids by role name. Ids this client does not know are ignored.
+export const rolePermissionsSchema = object({
+  roles: record(array(string())),
+})
+
+// The backend checked the approver's password; it records the approval itself
+export const interlockApprovalSchema = object({
+  approval_id: string(),
+  approver: authUserSchema,
+  approved_at: datetime(),
+})
+
+export type AuthUser = Infer<typeof authUserSchema>
+export type LoginResponse = Infer<typeof loginResponseSchema>
+export type RefreshResponse = Infer<typeof refreshResponseSchema>
+export type RolePermissionsResponse = Infer<typeof rolePermissionsSchema>
+export type InterlockApprovalResponse = Infer<typeof interlockApprovalSchema>
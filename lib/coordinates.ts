@@ -0,0 +1,228 @@
+// Coordinate parsing for typed-in positions: decimal degrees, degrees/minutes/
+// seconds and MGRS grid references
+
+import type { GeoPoint } from '@/types/types'
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'mgrs'
+
+export interface ParsedCoordinate extends GeoPoint {
+  format: CoordinateFormat
+}
+
+// WGS84 ellipsoid and UTM constants
+const WGS84_A = 6378137
+const WGS84_E2 = 0.00669437999014
+const UTM_K0 = 0.9996
+const UTM_FALSE_EASTING = 500000
+const UTM_FALSE_NORTHING_SOUTH = 10000000
+
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWX' // 8° latitude bands from 80°S
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ']
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV'
+const MGRS_ROW_CYCLE = 2000000 // meters before row letters repeat
+
+const isValidLatLon = (lat: number, lon: number) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+
+// ============================================================================
+// Decimal and DMS
+// ============================================================================
+
+interface DmsComponent {
+  values: number[]
+  hemisphere?: string
+}
+
+const toDegrees = ({ values, hemisphere }: DmsComponent): number | null => {
+  const [degrees, minutes = 0, seconds = 0] = values
+  if (values.length > 3 || minutes >= 60 || seconds >= 60 || minutes < 0 || seconds < 0) return null
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600
+  const negative = degrees < 0 || Object.is(degrees, -0) || hemisphere === 'S' || hemisphere === 'W'
+  return negative ? -magnitude : magnitude
+}
+
+/**
+ * Split input into two components. Hemisphere letters may lead or trail each
+ * component; without them the numbers are split evenly between lat and lon.
+ */
+function splitComponents(input: string): DmsComponent[] | null {
+  const tokens = input.toUpperCase().match(/[NSEW]|[-+]?\d+(?:\.\d+)?/g)
+  if (!tokens) return null
+
+  const hasHemispheres = tokens.some(token => /^[NSEW]$/.test(token))
+  if (!hasHemispheres) {
+    const numbers = tokens.map(Number)
+    if (numbers.length % 2 !== 0) return null
+    const half = numbers.length / 2
+    return [{ values: numbers.slice(0, half) }, { values: numbers.slice(half) }]
+  }
+
+  // Decide whether letters lead or trail from the first token
+  const leading = /^[NSEW]$/.test(tokens[0])
+  const components: DmsComponent[] = []
+  let current: DmsComponent = { values: [] }
+
+  tokens.forEach(token => {
+    if (/^[NSEW]$/.test(token)) {
+      if (leading) {
+        if (current.values.length > 0 || current.hemisphere) components.push(current)
+        current = { values: [], hemisphere: token }
+      } else {
+        current.hemisphere = token
+        components.push(current)
+        current = { values: [] }
+      }
+    } else {
+      current.values.push(Number(token))
+    }
+  })
+  if (current.values.length > 0) components.push(current)
+
+  return components.length === 2 && components.every(c => c.values.length > 0 && c.hemisphere)
+    ? components
+    : null
+}
+
+function parseDegrees(input: string): ParsedCoordinate | null {
+  // Only symbols are separators; d/m/s letters would clash with S for south
+  const normalized = input.replace(/[°º′’'″”"]/g, ' ').replace(/:/g, ' ')
+  const components = splitComponents(normalized)
+  if (!components) return null
+
+  // Longitude given first, e.g. "80.95E 26.85N"
+  if (components[0].hemisphere === 'E' || components[0].hemisphere === 'W') components.reverse()
+  if (components[0].hemisphere && !'NS'.includes(components[0].hemisphere)) return null
+  if (components[1].hemisphere && !'EW'.includes(components[1].hemisphere)) return null
+
+  const lat = toDegrees(components[0])
+  const lon = toDegrees(components[1])
+  if (lat === null || lon === null || !isValidLatLon(lat, lon)) return null
+
+  const decimal = components.every(c => c.values.length === 1)
+  return { lat, lon, format: decimal ? 'decimal' : 'dms' }
+}
+
+// ============================================================================
+// MGRS
+// ============================================================================
+
+// Meridian arc length from the equator to a latitude, in meters
+function meridianArc(lat: number): number {
+  const e4 = WGS84_E2 * WGS84_E2
+  const e6 = e4 * WGS84_E2
+  return WGS84_A * (
+    (1 - WGS84_E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * lat -
+    ((3 * WGS84_E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * lat) +
+    ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * lat) -
+    ((35 * e6) / 3072) * Math.sin(6 * lat)
+  )
+}
+
+/**
+ * Convert a UTM position to latitude/longitude (Snyder's inverse series)
+ */
+export function utmToLatLon(zone: number, southern: boolean, easting: number, northing: number): GeoPoint {
+  const e4 = WGS84_E2 * WGS84_E2
+  const e6 = e4 * WGS84_E2
+  const ePrime2 = WGS84_E2 / (1 - WGS84_E2)
+  const e1 = (1 - Math.sqrt(1 - WGS84_E2)) / (1 + Math.sqrt(1 - WGS84_E2))
+
+  const x = easting - UTM_FALSE_EASTING
+  const y = southern ? northing - UTM_FALSE_NORTHING_SOUTH : northing
+
+  const mu = y / UTM_K0 / (WGS84_A * (1 - WGS84_E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256))
+  const phi1 = mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu)
+
+  const sinPhi1 = Math.sin(phi1)
+  const cosPhi1 = Math.cos(phi1)
+  const c1 = ePrime2 * cosPhi1 ** 2
+  const t1 = Math.tan(phi1) ** 2
+  const n1 = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinPhi1 ** 2)
+  const r1 = (WGS84_A * (1 - WGS84_E2)) / (1 - WGS84_E2 * sinPhi1 ** 2) ** 1.5
+  const d = x / (n1 * UTM_K0)
+
+  const lat = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+    d ** 2 / 2 -
+    ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ePrime2) * d ** 4) / 24 +
+    ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ePrime2 - 3 * c1 ** 2) * d ** 6) / 720
+  )
+  const lon = (
+    d -
+    ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+    ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ePrime2 + 24 * t1 ** 2) * d ** 5) / 120
+  ) / cosPhi1
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3
+  return {
+    lat: (lat * 180) / Math.PI,
+    lon: centralMeridian + (lon * 180) / Math.PI,
+  }
+}
+
+/**
+ * Parse an MGRS reference such as "44R MN 12345 67890". Returns the center of
+ * the referenced square, so low-precision references land mid-square.
+ */
+export function parseMgrs(input: string): GeoPoint | null {
+  const match = input.toUpperCase().replace(/\s+/g, '').match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/)
+  if (!match) return null
+
+  const [, zoneText, band, column, row, digits] = match
+  const zone = Number(zoneText)
+  if (zone < 1 || zone > 60 || digits.length % 2 !== 0 || digits.length > 10) return null
+
+  // Column letters cycle through three sets; row letters are offset in even zones
+  const set = (zone - 1) % 3
+  const columnIndex = MGRS_COLUMN_SETS[set].indexOf(column)
+  if (columnIndex === -1) return null
+
+  const rowOffset = zone % 2 === 0 ? 5 : 0
+  const rowIndex = (MGRS_ROWS.indexOf(row) - rowOffset + MGRS_ROWS.length) % MGRS_ROWS.length
+
+  const precision = digits.length / 2
+  const resolution = precision > 0 ? 10 ** (5 - precision) : 100000
+  const half = resolution > 1 ? resolution / 2 : 0
+  const easting = (columnIndex + 1) * 100000 + Number(digits.slice(0, precision) || 0) * resolution + half
+  let northing = rowIndex * 100000 + Number(digits.slice(precision) || 0) * resolution + half
+
+  // Row letters repeat every 2000 km; pick the cycle that falls in the band
+  const southern = band < 'N'
+  const bandLat = -80 + MGRS_BANDS.indexOf(band) * 8
+  const bandNorthing = UTM_K0 * meridianArc((bandLat * Math.PI) / 180) + (southern ? UTM_FALSE_NORTHING_SOUTH : 0)
+  while (northing < bandNorthing - 100000) northing += MGRS_ROW_CYCLE
+
+  const point = utmToLatLon(zone, southern, easting, northing)
+  return isValidLatLon(point.lat, point.lon) ? point : null
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Parse typed coordinates in decimal, DMS or MGRS form; null when the input
+ * is not a coordinate
+ */
+export function parseCoordinates(input: string): ParsedCoordinate | null {
+  const text = input.trim()
+  if (!text) return null
+
+  const mgrs = parseMgrs(text)
+  if (mgrs) return { ...mgrs, format: 'mgrs' }
+
+  if (!/\d/.test(text) || /[A-DF-MO-RT-VX-Z]/i.test(text.replace(/[NSEW]/gi, ''))) return null
+  return parseDegrees(text)
+}
+
+/**
+ * Short display form for a parsed coordinate
+ */
+export function formatCoordinate(point: GeoPoint): string {
+  const lat = `${Math.abs(point.lat).toFixed(5)}° ${point.lat >= 0 ? 'N' : 'S'}`
+  const lon = `${Math.abs(point.lon).toFixed(5)}° ${point.lon >= 0 ? 'E' : 'W'}`
+  return `${lat}, ${lon}`
+}
@@ -1,5 +1,5 @@
 import { Target, Package, Sprout, AlertTriangle, Eye, Map as MapIcon, Truck, Activity } from 'lucide-react'
-import { Mission, MissionType, Role, Vehicle, Operator } from '@/types'
+import { Mission, MissionType, Role, Vehicle, Operator, PreflightChecklist } from '@/types'
 
 export const missionsData: Mission[] = [
   {
@@ -9,7 +9,7 @@ export const missionsData: Mission[] = [
     type: 'Surveillance',
     vehicle: 'UAV-X1-Alpha',
     operator: 'J. Smith',
-    status: 'In Flight',
+    status: 'in_flight',
     progress: 65,
     date: 'Nov 5, 2025',
     time: '14:30 UTC',
@@ -23,7 +23,7 @@ export const missionsData: Mission[] = [
     type: 'Logistics',
     vehicle: 'UAV-C2-Beta',
     operator: 'M. Chen',
-    status: 'Completed',
+    status: 'completed',
     progress: 100,
     date: 'Nov 5, 2025',
     time: '11:45 UTC',
@@ -37,7 +37,7 @@ export const missionsData: Mission[] = [
     type: 'Agriculture',
     vehicle: 'UAV-A3-Gamma',
     operator: 'S. Patel',
-    status: 'Pending',
+    status: 'planned',
     progress: 15,
     date: 'Nov 4, 2025',
     time: '09:00 UTC',
@@ -51,7 +51,7 @@ export const missionsData: Mission[] = [
     type: 'Emergency',
     vehicle: 'UAV-R1-Delta',
     operator: 'A. Johnson',
-    status: 'Low Battery',
+    status: 'in_flight',
     progress: 40,
     date: 'Nov 3, 2025',
     time: '16:20 UTC',
@@ -65,7 +65,7 @@ export const missionsData: Mission[] = [
     type: 'Inspection',
     vehicle: 'UAV-I2-Epsilon',
     operator: 'R. Kumar',
-    status: 'Failed',
+    status: 'failed',
     progress: 25,
     date: 'Nov 2, 2025',
     time: '08:15 UTC',
@@ -91,26 +91,14 @@ export const rolesData: Role[] = [
     description: 'Field mission execution role',
     color: 'bg-green-500',
     activeUsers: 24,
-    permissions: [
-      { name: 'View Missions', description: 'Read-only access to mission data', allowed: true },
-      { name: 'Execute Missions', description: 'Start, pause, and complete assigned missions', allowed: true },
-      { name: 'Create Missions', description: 'Not allowed for this role', allowed: false },
-      { name: 'Modify Missions', description: 'Not allowed for this role', allowed: false },
-      { name: 'Manage Users', description: 'Not allowed for this role', allowed: false }
-    ]
+    permissions: ['view_missions', 'execute_missions', 'control_vehicle']
   },
   {
     name: 'Planner',
     description: 'Mission planning and design role',
     color: 'bg-blue-500',
     activeUsers: 12,
-    permissions: [
-      { name: 'View Missions', description: 'Full read access to all missions', allowed: true },
-      { name: 'Create Missions', description: 'Design and plan new missions', allowed: true },
-      { name: 'Modify Missions', description: 'Edit existing mission parameters', allowed: true },
-      { name: 'Delete Missions', description: 'Not allowed for this role', allowed: false },
-      { name: 'Manage Users', description: 'Not allowed for this role', allowed: false }
-    ]
+    permissions: ['view_missions', 'create_missions', 'edit_missions']
   },
   {
     name: 'Commander',
@@ -118,11 +106,15 @@ export const rolesData: Role[] = [
     color: 'bg-yellow-500',
     activeUsers: 5,
     permissions: [
-      { name: 'View Missions', description: 'Comprehensive mission oversight', allowed: true },
-      { name: 'Create Missions', description: 'Full mission creation capabilities', allowed: true },
-      { name: 'Modify Missions', description: 'Modify any mission parameters', allowed: true },
-      { name: 'Delete Missions', description: 'Remove missions from system', allowed: true },
-      { name: 'Manage Users', description: 'Assign roles and manage operators', allowed: true }
+      'view_missions',
+      'create_missions',
+      'edit_missions',
+      'delete_missions',
+      'approve_missions',
+      'execute_missions',
+      'control_vehicle',
+      'force_start',
+      'manage_users'
     ]
   },
   {
@@ -131,11 +123,17 @@ export const rolesData: Role[] = [
     color: 'bg-red-500',
     activeUsers: 2,
     permissions: [
-      { name: 'All Permissions', description: 'Unrestricted access to all system functions', allowed: true },
-      { name: 'System Configuration', description: 'Configure system-wide settings', allowed: true },
-      { name: 'Security Management', description: 'Manage encryption and security policies', allowed: true },
-      { name: 'Audit Logs', description: 'View and manage comprehensive audit trails', allowed: true },
-      { name: 'Role Management', description: 'Create, modify, and delete user roles', allowed: true }
+      'view_missions',
+      'create_missions',
+      'edit_missions',
+      'delete_missions',
+      'approve_missions',
+      'execute_missions',
+      'control_vehicle',
+      'force_start',
+      'manage_users',
+      'manage_roles',
+      'view_audit_log'
     ]
   }
 ]
@@ -152,7 +150,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Northern Sector',
     flightHours: 342,
     lastMission: '2h ago',
-    missions: 127
+    missions: 127,
+    profile: {
+      airframe: 'Fixed-Wing',
+      cruiseSpeed: 25,
+      climbSpeed: 4,
+      batteryCapacity: 600,
+      consumptionPerKm: 6,
+      consumptionPerHoverMinute: 3.5,
+      maxWind: 15
+    }
   },
   {
     id: 'UAV-C2-Beta',
@@ -164,7 +171,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 218,
     lastMission: '5h ago',
-    missions: 89
+    missions: 89,
+    profile: {
+      airframe: 'Multirotor',
+      cruiseSpeed: 12,
+      climbSpeed: 3,
+      batteryCapacity: 1200,
+      consumptionPerKm: 30,
+      consumptionPerHoverMinute: 25,
+      maxWind: 10
+    }
   },
   {
     id: 'UAV-A3-Gamma',
@@ -176,7 +192,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 156,
     lastMission: '1d ago',
-    missions: 62
+    missions: 62,
+    profile: {
+      airframe: 'Multirotor',
+      cruiseSpeed: 8,
+      climbSpeed: 2.5,
+      batteryCapacity: 700,
+      consumptionPerKm: 20,
+      consumptionPerHoverMinute: 14,
+      maxWind: 8
+    }
   },
   {
     id: 'UAV-R1-Delta',
@@ -188,7 +213,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Maintenance Bay',
     flightHours: 298,
     lastMission: '2d ago',
-    missions: 104
+    missions: 104,
+    profile: {
+      airframe: 'VTOL',
+      cruiseSpeed: 22,
+      climbSpeed: 3.5,
+      batteryCapacity: 900,
+      consumptionPerKm: 10,
+      consumptionPerHoverMinute: 30,
+      maxWind: 12
+    }
   },
   {
     id: 'UAV-I2-Epsilon',
@@ -200,7 +234,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Hangar',
     flightHours: 445,
     lastMission: '3d ago',
-    missions: 178
+    missions: 178,
+    profile: {
+      airframe: 'Multirotor',
+      cruiseSpeed: 10,
+      climbSpeed: 3,
+      batteryCapacity: 130,
+      consumptionPerKm: 4,
+      consumptionPerHoverMinute: 4.5,
+      maxWind: 10
+    }
   },
   {
     id: 'UAV-M1-Zeta',
@@ -212,7 +255,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 267,
     lastMission: '1h ago',
-    missions: 95
+    missions: 95,
+    profile: {
+      airframe: 'Fixed-Wing',
+      cruiseSpeed: 18,
+      climbSpeed: 3,
+      batteryCapacity: 250,
+      consumptionPerKm: 3.5,
+      consumptionPerHoverMinute: 2,
+      maxWind: 12
+    }
   },
   {
     id: 'UAV-D1-Theta',
@@ -224,7 +276,16 @@ export const vehiclesData: Vehicle[] = [
     location: 'East Route',
     flightHours: 189,
     lastMission: '30min ago',
-    missions: 142
+    missions: 142,
+    profile: {
+      airframe: 'VTOL',
+      cruiseSpeed: 20,
+      climbSpeed: 3,
+      batteryCapacity: 500,
+      consumptionPerKm: 8,
+      consumptionPerHoverMinute: 18,
+      maxWind: 11
+    }
   },
   {
     id: 'UAV-E1-Kappa',
@@ -236,7 +297,87 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 312,
     lastMission: '4h ago',
-    missions: 118
+    missions: 118,
+    profile: {
+      airframe: 'Fixed-Wing',
+      cruiseSpeed: 20,
+      climbSpeed: 3,
+      batteryCapacity: 300,
+      consumptionPerKm: 4,
+      consumptionPerHoverMinute: 2.5,
+      maxWind: 13
+    }
+  }
+]
+
+// Pre-flight checklists; every one that applies to a mission and its vehicle is worked through
+export const preflightChecklistsData: PreflightChecklist[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    items: [
+      { id: 'gps_fix', label: 'GPS fix', check: 'gps_fix' },
+      { id: 'battery', label: 'Battery charged', check: 'battery' },
+      { id: 'home_position', label: 'Home position set', check: 'home_position' },
+      { id: 'mission_uploaded', label: 'Mission uploaded and verified', check: 'mission_uploaded' },
+      { id: 'geofence_clear', label: 'Inside every geofence', check: 'geofence_clear' },
+      { id: 'airframe', label: 'Airframe, propellers and payload inspected' },
+      { id: 'launch_area', label: 'Launch area and airspace clear' },
+      { id: 'failsafes', label: 'Radio link and failsafe settings checked' }
+    ]
+  },
+  {
+    id: 'fixed_wing',
+    name: 'Fixed-wing',
+    airframes: ['Fixed-Wing', 'VTOL'],
+    items: [
+      { id: 'control_surfaces', label: 'Control surfaces move freely and in the right direction' },
+      { id: 'pitot', label: 'Pitot cover removed and airspeed reading sane' }
+    ]
+  },
+  {
+    id: 'vtol',
+    name: 'VTOL',
+    airframes: ['VTOL'],
+    items: [
+      { id: 'transition', label: 'Transition airspeed and back-transition settings checked' }
+    ]
+  },
+  {
+    id: 'payload_drop',
+    name: 'Payload delivery',
+    missionTypes: ['Logistics', 'Delivery'],
+    thresholds: { minBattery: 95 },
+    items: [
+      { id: 'payload_secured', label: 'Payload secured and within weight limit' },
+      { id: 'release', label: 'Release mechanism tested' },
+      { id: 'drop_zone', label: 'Drop zone confirmed clear with the recipient' }
+    ]
+  },
+  {
+    id: 'spraying',
+    name: 'Spraying',
+    missionTypes: ['Agriculture'],
+    items: [
+      { id: 'spray_system', label: 'Tank filled, pump primed and nozzles clear' }
+    ]
+  },
+  {
+    id: 'emergency',
+    name: 'Emergency response',
+    missionTypes: ['Emergency'],
+    items: [
+      { id: 'responders', label: 'Ground responders told of the flight area and frequency' }
+    ]
+  },
+  {
+    id: 'survey',
+    name: 'Survey',
+    missionTypes: ['Mapping', 'Inspection'],
+    thresholds: { minSatellites: 10 },
+    items: [
+      { id: 'camera', label: 'Camera settings, storage and lens checked' }
+    ]
   }
 ]
 
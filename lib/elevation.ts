@@ -0,0 +1,163 @@
+// Local digital elevation models: SRTM HGT and GeoTIFF rasters sampled with
+// bilinear interpolation, meters above mean sea level
+
+import { parseGeoTiff } from '@/lib/geotiff'
+import type { TileBounds } from '@/lib/tiles'
+import type { GeoPoint } from '@/types/types'
+
+const HGT_VOID = -32768
+const METERS_PER_DEGREE = 111320
+
+/**
+ * Elevation raster in geographic coordinates. `west`/`north` are the outer
+ * corner of the top-left pixel; void samples are NaN.
+ */
+export interface ElevationGrid {
+  width: number
+  height: number
+  elevations: Float32Array
+  west: number
+  north: number
+  xRes: number // degrees per pixel
+  yRes: number
+}
+
+export interface ElevationTile {
+  name: string
+  format: 'hgt' | 'geotiff'
+  bounds: TileBounds
+  resolution: number // approximate meters per pixel
+  grid: ElevationGrid
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+export function gridBounds(grid: ElevationGrid): TileBounds {
+  return {
+    south: grid.north - grid.height * grid.yRes,
+    west: grid.west,
+    north: grid.north,
+    east: grid.west + grid.width * grid.xRes,
+  }
+}
+
+/**
+ * Interpolated elevation at a point, or null outside the grid or over voids
+ */
+export function sampleGrid(grid: ElevationGrid, point: GeoPoint): number | null {
+  const bounds = gridBounds(grid)
+  if (point.lat < bounds.south || point.lat > bounds.north || point.lon < bounds.west || point.lon > bounds.east) {
+    return null
+  }
+
+  // Pixel coordinates relative to sample centers
+  const col = Math.min(Math.max((point.lon - grid.west) / grid.xRes - 0.5, 0), grid.width - 1)
+  const row = Math.min(Math.max((grid.north - point.lat) / grid.yRes - 0.5, 0), grid.height - 1)
+  const col0 = Math.floor(col)
+  const row0 = Math.floor(row)
+  const col1 = Math.min(col0 + 1, grid.width - 1)
+  const row1 = Math.min(row0 + 1, grid.height - 1)
+  const dx = col - col0
+  const dy = row - row0
+
+  const corners: Array<[number, number]> = [
+    [grid.elevations[row0 * grid.width + col0], (1 - dx) * (1 - dy)],
+    [grid.elevations[row0 * grid.width + col1], dx * (1 - dy)],
+    [grid.elevations[row1 * grid.width + col0], (1 - dx) * dy],
+    [grid.elevations[row1 * grid.width + col1], dx * dy],
+  ]
+
+  // Voids are left out and the remaining weights renormalized
+  let sum = 0
+  let weight = 0
+  for (const [value, w] of corners) {
+    if (Number.isNaN(value)) continue
+    sum += value * w
+    weight += w
+  }
+  if (weight > 0) return sum / weight
+  const nearest = corners.find(([value]) => !Number.isNaN(value))
+  return nearest ? nearest[0] : null
+}
+
+/**
+ * Elevation from the finest tile covering the point
+ */
+export function sampleElevation(tiles: ElevationTile[], point: GeoPoint): number | null {
+  let best: number | null = null
+  let bestResolution = Infinity
+  for (const tile of tiles) {
+    if (tile.resolution >= bestResolution) continue
+    const value = sampleGrid(tile.grid, point)
+    if (value !== null) {
+      best = value
+      bestResolution = tile.resolution
+    }
+  }
+  return best
+}
+
+// ============================================================================
+// File formats
+// ============================================================================
+
+/**
+ * Parse an SRTM .hgt tile. The south-west corner comes from the file name
+ * (e.g. N26E080.hgt); samples are big-endian 16-bit meters on a 1 or 3
+ * arc-second grid whose edge rows and columns lie on whole degrees.
+ */
+export function parseHgt(buffer: ArrayBuffer, fileName: string): ElevationGrid {
+  const match = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(fileName)
+  if (!match) throw new Error(`${fileName} is not named like an SRTM tile (e.g. N26E080.hgt)`)
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1)
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1)
+
+  const size = Math.sqrt(buffer.byteLength / 2)
+  if (size !== 1201 && size !== 3601) {
+    throw new Error(`${fileName} is not a 1 or 3 arc-second HGT tile (unexpected size ${buffer.byteLength} bytes)`)
+  }
+
+  const view = new DataView(buffer)
+  const elevations = new Float32Array(size * size)
+  for (let i = 0; i < elevations.length; i++) {
+    const value = view.getInt16(i * 2, false)
+    elevations[i] = value === HGT_VOID ? NaN : value
+  }
+
+  // Edge samples sit on the degree lines, so pixels extend half a step past them
+  const res = 1 / (size - 1)
+  return { width: size, height: size, elevations, west: west - res / 2, north: south + 1 + res / 2, xRes: res, yRes: res }
+}
+
+/**
+ * Open an elevation file, choosing the format from its extension and magic bytes
+ */
+export async function openElevationFile(file: Blob, fileName: string): Promise<ElevationTile> {
+  const buffer = await file.arrayBuffer()
+  const magic = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength))
+  const isTiff = (magic[0] === 0x49 && magic[1] === 0x49) || (magic[0] === 0x4d && magic[1] === 0x4d)
+
+  let grid: ElevationGrid
+  let format: ElevationTile['format']
+  if (/\.hgt$/i.test(fileName)) {
+    grid = parseHgt(buffer, fileName)
+    format = 'hgt'
+  } else if (isTiff) {
+    grid = await parseGeoTiff(buffer, fileName)
+    format = 'geotiff'
+  } else {
+    throw new Error(`${fileName} is not an SRTM HGT or GeoTIFF elevation file`)
+  }
+
+  const bounds = gridBounds(grid)
+  const midLat = ((bounds.north + bounds.south) / 2) * Math.PI / 180
+  return {
+    name: fileName.replace(/\.(hgt|tiff?)$/i, ''),
+    format,
+    bounds,
+    resolution: Math.max(grid.xRes * Math.cos(midLat), grid.yRes) * METERS_PER_DEGREE,
+    grid,
+  }
+}
@@ -0,0 +1,195 @@
+// Geofence geometry: containment tests, breach detection and validation for
+// the inclusion/exclusion fences stored with a mission
+
+import {
+  GeoPoint,
+  Geofence,
+  GeofenceBreach,
+  GeofenceGeometry,
+  GeofenceMode,
+} from '@/types/types'
+
+const EARTH_RADIUS = 6371e3 // meters
+
+export interface GeofencePosition extends GeoPoint {
+  alt?: number // meters above home; altitude limits are skipped when unknown
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceBetween(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h))
+}
+
+// Ray casting; fences are small enough that lat/lon can be treated as planar
+function isInsidePolygon(point: GeoPoint, vertices: GeoPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i]
+    const b = vertices[j]
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * Whether a point lies within a fence's horizontal boundary
+ */
+export function isInsideGeofence(fence: GeofenceGeometry, point: GeoPoint): boolean {
+  if (fence.shape === 'circle') {
+    return distanceBetween(fence.center, point) <= fence.radius
+  }
+  return isInsidePolygon(point, fence.vertices)
+}
+
+function altitudeViolation(fence: Geofence, alt: number | undefined): 'below_floor' | 'above_ceiling' | null {
+  if (alt === undefined) return null
+  if (fence.floor !== undefined && alt < fence.floor) return 'below_floor'
+  if (fence.ceiling !== undefined && alt > fence.ceiling) return 'above_ceiling'
+  return null
+}
+
+/**
+ * Check a position against every fence. The vehicle must be inside at least
+ * one inclusion fence (when any exist) and within its altitude band, and must
+ * not be inside any exclusion fence's volume.
+ */
+export function checkGeofences(fences: Geofence[], position: GeofencePosition): GeofenceBreach[] {
+  const breaches: GeofenceBreach[] = []
+  const inclusions = fences.filter(fence => fence.mode === 'inclusion')
+
+  if (inclusions.length > 0) {
+    const containing = inclusions.filter(fence => isInsideGeofence(fence, position))
+
+    if (containing.length === 0) {
+      const name = inclusions.length === 1 ? inclusions[0].name : 'Permitted area'
+      breaches.push({
+        fenceId: inclusions.length === 1 ? inclusions[0].id : null,
+        fenceName: name,
+        kind: 'outside_inclusion',
+        message: `Outside ${name}`,
+      })
+    } else if (containing.every(fence => altitudeViolation(fence, position.alt) !== null)) {
+      const fence = containing[0]
+      const kind = altitudeViolation(fence, position.alt)!
+      breaches.push({
+        fenceId: fence.id,
+        fenceName: fence.name,
+        kind,
+        message: kind === 'below_floor'
+          ? `Below ${fence.name} floor (${fence.floor} m)`
+          : `Above ${fence.name} ceiling (${fence.ceiling} m)`,
+      })
+    }
+  }
+
+  fences
+    .filter(fence => fence.mode === 'exclusion')
+    .forEach(fence => {
+      if (!isInsideGeofence(fence, position)) return
+      // Outside the exclusion's altitude band the airspace is usable
+      if (altitudeViolation(fence, position.alt) !== null) return
+      breaches.push({
+        fenceId: fence.id,
+        fenceName: fence.name,
+        kind: 'inside_exclusion',
+        message: `Inside exclusion zone ${fence.name}`,
+      })
+    })
+
+  return breaches
+}
+
+const isValidPoint = (point: any): point is GeoPoint =>
+  point !== null &&
+  typeof point === 'object' &&
+  Number.isFinite(point.lat) &&
+  Number.isFinite(point.lon) &&
+  point.lat >= -90 && point.lat <= 90 &&
+  point.lon >= -180 && point.lon <= 180
+
+/**
+ * Problems that make a fence unusable; empty when the fence is valid
+ */
+export function validateGeofence(fence: Geofence): string[] {
+  const issues: string[] = []
+
+  if (fence.shape === 'polygon') {
+    if (fence.vertices.length < 3) issues.push(`${fence.name} needs at least 3 vertices`)
+    if (!fence.vertices.every(isValidPoint)) issues.push(`${fence.name} has invalid vertex coordinates`)
+  } else {
+    if (!isValidPoint(fence.center)) issues.push(`${fence.name} has an invalid center`)
+    if (!(fence.radius > 0)) issues.push(`${fence.name} radius must be greater than 0`)
+  }
+
+  if (fence.floor !== undefined && fence.floor < 0) {
+    issues.push(`${fence.name} floor cannot be negative`)
+  }
+  if (fence.floor !== undefined && fence.ceiling !== undefined && fence.floor >= fence.ceiling) {
+    issues.push(`${fence.name} floor must be below its ceiling`)
+  }
+
+  return issues
+}
+
+/**
+ * Create a named fence from drawn geometry
+ */
+export function createGeofence(geometry: GeofenceGeometry, mode: GeofenceMode, existing: Geofence[]): Geofence {
+  const count = existing.filter(fence => fence.mode === mode).length + 1
+  return {
+    ...geometry,
+    id: `fence-${Date.now()}`,
+    name: `${mode === 'inclusion' ? 'Inclusion' : 'Exclusion'} Zone ${count}`,
+    mode,
+  }
+}
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+/**
+ * Read fences from a stored mission, dropping any that are malformed
+ */
+export function parseGeofences(raw: unknown): Geofence[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((item: any, index: number): Geofence[] => {
+    if (!item || typeof item !== 'object') return []
+
+    const base = {
+      id: String(item.id ?? `fence-${index}`),
+      name: String(item.name ?? `Zone ${index + 1}`),
+      mode: item.mode === 'exclusion' ? 'exclusion' as const : 'inclusion' as const,
+      floor: optionalNumber(item.floor),
+      ceiling: optionalNumber(item.ceiling),
+    }
+
+    let fence: Geofence
+    if (item.shape === 'circle') {
+      fence = { ...base, shape: 'circle', center: item.center, radius: Number(item.radius) }
+    } else if (item.shape === 'polygon' && Array.isArray(item.vertices)) {
+      fence = { ...base, shape: 'polygon', vertices: item.vertices }
+    } else {
+      console.warn('Skipping geofence with unknown shape:', item)
+      return []
+    }
+
+    const issues = validateGeofence(fence)
+    if (issues.length > 0) {
+      console.warn('Skipping invalid geofence:', issues)
+      return []
+    }
+    return [fence]
+  })
+}
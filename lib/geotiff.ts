@@ -0,0 +1,357 @@
+// Minimal GeoTIFF reader for single-band elevation rasters in geographic
+// (lat/lon) coordinates: strips or tiles, uncompressed, LZW or Deflate
+
+import type { ElevationGrid } from '@/lib/elevation'
+
+// TIFF tags
+const TAG_IMAGE_WIDTH = 256
+const TAG_IMAGE_LENGTH = 257
+const TAG_BITS_PER_SAMPLE = 258
+const TAG_COMPRESSION = 259
+const TAG_STRIP_OFFSETS = 273
+const TAG_SAMPLES_PER_PIXEL = 277
+const TAG_ROWS_PER_STRIP = 278
+const TAG_STRIP_BYTE_COUNTS = 279
+const TAG_PREDICTOR = 317
+const TAG_TILE_WIDTH = 322
+const TAG_TILE_LENGTH = 323
+const TAG_TILE_OFFSETS = 324
+const TAG_TILE_BYTE_COUNTS = 325
+const TAG_SAMPLE_FORMAT = 339
+const TAG_MODEL_PIXEL_SCALE = 33550
+const TAG_MODEL_TIEPOINT = 33922
+const TAG_MODEL_TRANSFORMATION = 34264
+const TAG_GEO_KEY_DIRECTORY = 34735
+const TAG_GDAL_NODATA = 42113
+
+// GeoKeys
+const GEOKEY_MODEL_TYPE = 1024
+const GEOKEY_RASTER_TYPE = 1025
+const MODEL_TYPE_PROJECTED = 1
+const RASTER_PIXEL_IS_POINT = 2
+
+const COMPRESSION_NONE = 1
+const COMPRESSION_LZW = 5
+const COMPRESSION_DEFLATE = 8
+const COMPRESSION_DEFLATE_OLD = 32946
+
+const SAMPLE_FORMAT_UINT = 1
+const SAMPLE_FORMAT_INT = 2
+const SAMPLE_FORMAT_FLOAT = 3
+
+// Byte size of each TIFF field type
+const FIELD_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+}
+
+type TagValue = number[] | string
+
+class TiffReader {
+  readonly view: DataView
+  readonly littleEndian: boolean
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const order = String.fromCharCode(bytes[0], bytes[1])
+    if (order !== 'II' && order !== 'MM') throw new Error('Not a TIFF file')
+    this.littleEndian = order === 'II'
+
+    const magic = this.view.getUint16(2, this.littleEndian)
+    if (magic === 43) throw new Error('BigTIFF files are not supported')
+    if (magic !== 42) throw new Error('Not a TIFF file')
+  }
+
+  private readValue(type: number, offset: number): number {
+    const le = this.littleEndian
+    switch (type) {
+      case 1: case 7: return this.view.getUint8(offset)
+      case 6: return this.view.getInt8(offset)
+      case 3: return this.view.getUint16(offset, le)
+      case 8: return this.view.getInt16(offset, le)
+      case 4: return this.view.getUint32(offset, le)
+      case 9: return this.view.getInt32(offset, le)
+      case 5: return this.view.getUint32(offset, le) / this.view.getUint32(offset + 4, le)
+      case 10: return this.view.getInt32(offset, le) / this.view.getInt32(offset + 4, le)
+      case 11: return this.view.getFloat32(offset, le)
+      case 12: return this.view.getFloat64(offset, le)
+      default: throw new Error(`Unsupported TIFF field type ${type}`)
+    }
+  }
+
+  /**
+   * Tags of the first image directory
+   */
+  readTags(): Map<number, TagValue> {
+    const le = this.littleEndian
+    const ifdOffset = this.view.getUint32(4, le)
+    const count = this.view.getUint16(ifdOffset, le)
+    const tags = new Map<number, TagValue>()
+
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12
+      const tag = this.view.getUint16(entry, le)
+      const type = this.view.getUint16(entry + 2, le)
+      const valueCount = this.view.getUint32(entry + 4, le)
+      const size = FIELD_TYPE_SIZES[type]
+      if (!size) continue
+
+      const valueOffset = size * valueCount <= 4 ? entry + 8 : this.view.getUint32(entry + 8, le)
+      if (type === 2) {
+        const text = new TextDecoder().decode(this.bytes.subarray(valueOffset, valueOffset + valueCount))
+        tags.set(tag, text.replace(/\0+$/, ''))
+      } else {
+        tags.set(tag, Array.from({ length: valueCount }, (_, n) => this.readValue(type, valueOffset + n * size)))
+      }
+    }
+    return tags
+  }
+}
+
+/**
+ * TIFF-flavored LZW: MSB-first codes, 9 to 12 bits, widening one code early
+ */
+export function decodeLzw(input: Uint8Array, outputLength: number): Uint8Array {
+  const CLEAR = 256
+  const EOI = 257
+  const prefix = new Int32Array(4096)
+  const suffix = new Uint8Array(4096)
+  const first = new Uint8Array(4096)
+  const length = new Uint16Array(4096)
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1
+    suffix[i] = i
+    first[i] = i
+    length[i] = 1
+  }
+
+  const output = new Uint8Array(outputLength)
+  let position = 0
+  let bitPosition = 0
+  let width = 9
+  let next = 258
+  let previous = -1
+
+  const readCode = () => {
+    const byte = bitPosition >>> 3
+    const chunk = ((input[byte] ?? 0) << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0)
+    const code = (chunk >>> (24 - (bitPosition & 7) - width)) & ((1 << width) - 1)
+    bitPosition += width
+    return code
+  }
+
+  const write = (code: number) => {
+    const end = position + length[code]
+    for (let i = end - 1, c = code; i >= position; i--, c = prefix[c]) {
+      if (i < outputLength) output[i] = suffix[c]
+    }
+    position = end
+  }
+
+  const addEntry = (base: number, byte: number) => {
+    if (next >= 4096) return
+    prefix[next] = base
+    suffix[next] = byte
+    first[next] = first[base]
+    length[next] = length[base] + 1
+    next++
+    if (next >= (1 << width) - 1 && width < 12) width++
+  }
+
+  while (bitPosition + width <= input.length * 8 && position < outputLength) {
+    const code = readCode()
+    if (code === EOI) break
+    if (code === CLEAR) {
+      width = 9
+      next = 258
+      previous = -1
+      continue
+    }
+
+    if (previous === -1) {
+      write(code)
+    } else if (code < next) {
+      write(code)
+      addEntry(previous, first[code])
+    } else {
+      // Code not yet in the table: previous string plus its own first byte
+      addEntry(previous, first[previous])
+      write(code)
+    }
+    previous = code
+  }
+
+  return output
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const firstValue = (tags: Map<number, TagValue>, tag: number, fallback?: number): number => {
+  const value = tags.get(tag)
+  if (Array.isArray(value) && value.length > 0) return value[0]
+  if (fallback === undefined) throw new Error(`GeoTIFF is missing required tag ${tag}`)
+  return fallback
+}
+
+const numberList = (tags: Map<number, TagValue>, tag: number): number[] => {
+  const value = tags.get(tag)
+  return Array.isArray(value) ? value : []
+}
+
+function readGeoKeys(tags: Map<number, TagValue>): Map<number, number> {
+  const directory = numberList(tags, TAG_GEO_KEY_DIRECTORY)
+  const keys = new Map<number, number>()
+  // Header of four shorts, then (key, location, count, value) per key
+  for (let i = 4; i + 3 < directory.length; i += 4) {
+    if (directory[i + 1] === 0) keys.set(directory[i], directory[i + 3])
+  }
+  return keys
+}
+
+/**
+ * Read a single-band elevation GeoTIFF in geographic coordinates
+ */
+export async function parseGeoTiff(buffer: ArrayBuffer, fileName: string): Promise<ElevationGrid> {
+  const tiff = new TiffReader(new Uint8Array(buffer))
+  const tags = tiff.readTags()
+
+  const width = firstValue(tags, TAG_IMAGE_WIDTH)
+  const height = firstValue(tags, TAG_IMAGE_LENGTH)
+  const bitsPerSample = firstValue(tags, TAG_BITS_PER_SAMPLE, 1)
+  const samplesPerPixel = firstValue(tags, TAG_SAMPLES_PER_PIXEL, 1)
+  const sampleFormat = firstValue(tags, TAG_SAMPLE_FORMAT, SAMPLE_FORMAT_UINT)
+  const compression = firstValue(tags, TAG_COMPRESSION, COMPRESSION_NONE)
+  const predictor = firstValue(tags, TAG_PREDICTOR, 1)
+
+  if (samplesPerPixel !== 1) throw new Error(`${fileName} has ${samplesPerPixel} bands; elevation files need exactly one`)
+  if (![8, 16, 32, 64].includes(bitsPerSample)) throw new Error(`${fileName} uses unsupported ${bitsPerSample}-bit samples`)
+  if (![COMPRESSION_NONE, COMPRESSION_LZW, COMPRESSION_DEFLATE, COMPRESSION_DEFLATE_OLD].includes(compression)) {
+    throw new Error(`${fileName} uses unsupported TIFF compression ${compression} (use none, LZW or Deflate)`)
+  }
+  if (predictor !== 1 && !(predictor === 2 && sampleFormat !== SAMPLE_FORMAT_FLOAT)) {
+    throw new Error(`${fileName} uses an unsupported TIFF predictor`)
+  }
+
+  // Georeferencing
+  const geoKeys = readGeoKeys(tags)
+  if (geoKeys.get(GEOKEY_MODEL_TYPE) === MODEL_TYPE_PROJECTED) {
+    throw new Error(`${fileName} is in a projected coordinate system; reproject it to EPSG:4326 (lat/lon) first`)
+  }
+
+  let xRes: number
+  let yRes: number
+  let west: number
+  let north: number
+  const scale = numberList(tags, TAG_MODEL_PIXEL_SCALE)
+  const tiepoint = numberList(tags, TAG_MODEL_TIEPOINT)
+  const transform = numberList(tags, TAG_MODEL_TRANSFORMATION)
+
+  if (scale.length >= 2 && tiepoint.length >= 6) {
+    ;[xRes, yRes] = scale
+    west = tiepoint[3] - tiepoint[0] * xRes
+    north = tiepoint[4] + tiepoint[1] * yRes
+  } else if (transform.length >= 8 && transform[1] === 0 && transform[4] === 0) {
+    xRes = transform[0]
+    yRes = -transform[5]
+    west = transform[3]
+    north = transform[7]
+  } else {
+    throw new Error(`${fileName} has no supported georeferencing (needs a pixel scale and tiepoint)`)
+  }
+  if (!(xRes > 0) || !(yRes > 0)) throw new Error(`${fileName} has an invalid pixel size`)
+
+  const noDataTag = tags.get(TAG_GDAL_NODATA)
+  const noData = typeof noDataTag === 'string' && noDataTag.trim() !== '' ? Number(noDataTag) : null
+
+  // Sample decoding
+  const bytesPerSample = bitsPerSample / 8
+  const readSample = (view: DataView, offset: number): number => {
+    const le = tiff.littleEndian
+    if (sampleFormat === SAMPLE_FORMAT_FLOAT) {
+      return bytesPerSample === 4 ? view.getFloat32(offset, le) : view.getFloat64(offset, le)
+    }
+    const signed = sampleFormat === SAMPLE_FORMAT_INT
+    switch (bytesPerSample) {
+      case 1: return signed ? view.getInt8(offset) : view.getUint8(offset)
+      case 2: return signed ? view.getInt16(offset, le) : view.getUint16(offset, le)
+      case 4: return signed ? view.getInt32(offset, le) : view.getUint32(offset, le)
+      default: throw new Error(`${fileName} uses unsupported 64-bit integer samples`)
+    }
+  }
+  // Horizontal differencing wraps at the sample width
+  const wrap = (value: number) => {
+    const range = 2 ** bitsPerSample
+    let wrapped = ((value % range) + range) % range
+    if (sampleFormat === SAMPLE_FORMAT_INT && wrapped >= range / 2) wrapped -= range
+    return wrapped
+  }
+
+  const decodeBlock = async (offset: number, byteCount: number, expectedBytes: number): Promise<DataView> => {
+    const raw = tiff.bytes.subarray(offset, offset + byteCount)
+    let data: Uint8Array
+    if (compression === COMPRESSION_LZW) data = decodeLzw(raw, expectedBytes)
+    else if (compression === COMPRESSION_NONE) data = raw
+    else data = await inflate(raw)
+    return new DataView(data.buffer, data.byteOffset, data.byteLength)
+  }
+
+  const elevations = new Float32Array(width * height).fill(NaN)
+
+  // Copy a decoded block of blockWidth x blockHeight samples into the raster
+  const placeBlock = (view: DataView, blockWidth: number, blockHeight: number, left: number, top: number) => {
+    for (let row = 0; row < blockHeight; row++) {
+      let previous = 0
+      for (let col = 0; col < blockWidth; col++) {
+        const offset = (row * blockWidth + col) * bytesPerSample
+        if (offset + bytesPerSample > view.byteLength) return
+        let value = readSample(view, offset)
+        if (predictor === 2) {
+          value = col === 0 ? value : wrap(previous + value)
+          previous = value
+        }
+
+        const x = left + col
+        const y = top + row
+        if (x >= width || y >= height) continue
+        elevations[y * width + x] = value === noData ? NaN : value
+      }
+    }
+  }
+
+  const tileWidth = tags.has(TAG_TILE_WIDTH) ? firstValue(tags, TAG_TILE_WIDTH) : 0
+  if (tileWidth > 0) {
+    const tileHeight = firstValue(tags, TAG_TILE_LENGTH)
+    const offsets = numberList(tags, TAG_TILE_OFFSETS)
+    const counts = numberList(tags, TAG_TILE_BYTE_COUNTS)
+    const across = Math.ceil(width / tileWidth)
+
+    for (let i = 0; i < offsets.length; i++) {
+      const view = await decodeBlock(offsets[i], counts[i], tileWidth * tileHeight * bytesPerSample)
+      placeBlock(view, tileWidth, tileHeight, (i % across) * tileWidth, Math.floor(i / across) * tileHeight)
+    }
+  } else {
+    const rowsPerStrip = Math.min(firstValue(tags, TAG_ROWS_PER_STRIP, height), height)
+    const offsets = numberList(tags, TAG_STRIP_OFFSETS)
+    const counts = numberList(tags, TAG_STRIP_BYTE_COUNTS)
+
+    for (let i = 0; i < offsets.length; i++) {
+      const rows = Math.min(rowsPerStrip, height - i * rowsPerStrip)
+      const view = await decodeBlock(offsets[i], counts[i], width * rows * bytesPerSample)
+      placeBlock(view, width, rows, 0, i * rowsPerStrip)
+    }
+  }
+
+  // PixelIsPoint rasters are anchored at pixel centers; shift to the corner
+  const pixelIsPoint = geoKeys.get(GEOKEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT
+  return {
+    width,
+    height,
+    elevations,
+    west: pixelIsPoint ? west - xRes / 2 : west,
+    north: pixelIsPoint ? north + yRes / 2 : north,
+    xRes,
+    yRes,
+  }
+}
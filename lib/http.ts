@@ -0,0 +1,190 @@
+// Shared HTTP layer for the backend clients. Every request has a timeout, can
+// be cancelled through an AbortSignal and fails with one of the typed errors
+// from lib/api.ts. Idempotent requests are retried with backoff; commands such
+// as arm, takeoff or start are sent exactly once. Requests carry the signed-in
+// user's access token and are sent once more after a refresh when it is refused.
+
+import { API_CONFIG } from '@/config/missionExecution.config'
+import {
+  ApiCancelledError,
+  ApiContractError,
+  ApiError,
+  ApiNetworkError,
+  ApiTimeoutError,
+} from '@/lib/api'
+import { Schema, SchemaError } from '@/lib/schema'
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * Options every service method accepts, so callers can cancel what they start
+ */
+export interface CallOptions {
+  signal?: AbortSignal // abort to cancel, e.g. when the component unmounts
+}
+
+export interface HttpRequestOptions<T> extends CallOptions {
+  method?: HttpMethod // default GET
+  body?: unknown // sent as JSON
+  // Checks the response body; null for endpoints without one. Left out, the
+  // parsed JSON is returned unchecked.
+  response?: Schema<T> | null
+  errorMessage: string // used when an error response has no detail
+  timeout?: number // milliseconds per attempt, default API_CONFIG.timeout
+  retries?: number // default API_CONFIG.retryAttempts for idempotent methods, 0 otherwise
+  auth?: boolean // send the access token, default true; false for the auth endpoints themselves
+}
+
+/**
+ * Where requests get their access token. The session service registers
+ * itself; without a provider requests go out unauthenticated.
+ */
+export interface AuthProvider {
+  getAccessToken(): string | null
+  refresh(): Promise<boolean> // after a 401: true when there is a new token to try
+}
+
+let authProvider: AuthProvider | null = null
+
+export function setAuthProvider(provider: AuthProvider | null): void {
+  authProvider = provider
+}
+
+/**
+ * Authorization header for the current access token, for requests that do
+ * not go through httpRequest
+ */
+export function authHeaders(): Record<string, string> {
+  const token = authProvider?.getAccessToken()
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+// Sending these twice leaves the backend as sending them once would
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE']
+
+// Statuses that say "try again later" rather than "this request is wrong"
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504]
+
+export const isIdempotent = (method: HttpMethod) => IDEMPOTENT_METHODS.includes(method)
+
+const isRetryable = (error: unknown) =>
+  error instanceof ApiTimeoutError ||
+  error instanceof ApiNetworkError ||
+  (error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status))
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, capped, with
+ * jitter so clients that failed together do not retry together
+ */
+export const backoffDelay = (attempt: number) =>
+  Math.min(API_CONFIG.retryMaxDelay, API_CONFIG.retryBaseDelay * 2 ** attempt) * (0.5 + Math.random() / 2)
+
+function wait(ms: number, url: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiCancelledError(url))
+      return
+    }
+    const cancel = () => {
+      clearTimeout(timer)
+      reject(new ApiCancelledError(url))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', cancel, { once: true })
+  })
+}
+
+// One attempt. The timeout covers reading the body too, so a backend that
+// sends headers and then stalls still fails.
+async function send<T>(url: string, options: HttpRequestOptions<T>, timeout: number): Promise<T> {
+  if (options.signal?.aborted) throw new ApiCancelledError(url)
+
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+  const cancel = () => controller.abort()
+  options.signal?.addEventListener('abort', cancel)
+
+  const headers: Record<string, string> = options.auth === false ? {} : authHeaders()
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json'
+
+  let status: number
+  let text: string
+  try {
+    const response = await fetch(url, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: controller.signal,
+    })
+    status = response.status
+    text = await response.text()
+  } catch (error) {
+    if (timedOut) throw new ApiTimeoutError(url, timeout)
+    if (options.signal?.aborted) throw new ApiCancelledError(url)
+    throw new ApiNetworkError(url, error)
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', cancel)
+  }
+
+  let body: unknown
+  let isJson = true
+  try {
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    isJson = false
+  }
+
+  if (status < 200 || status >= 300) throw ApiError.fromBody(status, isJson ? body : null, url, options.errorMessage)
+  if (options.response === null) return undefined as T
+  if (!isJson) throw new ApiContractError(url, 'response', 'body is not JSON')
+  if (!options.response) return body as T
+
+  try {
+    return options.response.parse(body, 'response')
+  } catch (error) {
+    if (error instanceof SchemaError) throw new ApiContractError(url, error.path, error.message)
+    throw error
+  }
+}
+
+/**
+ * Send a JSON request and return its checked response body. Throws ApiError
+ * for error statuses, ApiTimeoutError, ApiNetworkError, ApiContractError for
+ * unexpected bodies, and ApiCancelledError once `signal` aborts.
+ */
+export async function httpRequest<T>(url: string, options: HttpRequestOptions<T>): Promise<T> {
+  const method = options.method ?? 'GET'
+  const timeout = options.timeout ?? API_CONFIG.timeout
+  const retries = options.retries ?? (isIdempotent(method) ? API_CONFIG.retryAttempts : 0)
+  let refreshed = false
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send(url, options, timeout)
+    } catch (error) {
+      // The backend refused the token, so nothing was done: safe to send again
+      // with a new one, even for commands
+      if (
+        error instanceof ApiError && error.status === 401 &&
+        options.auth !== false && !refreshed && authProvider
+      ) {
+        refreshed = true
+        if (await authProvider.refresh()) {
+          attempt--
+          continue
+        }
+      }
+      if (attempt >= retries || !isRetryable(error)) throw error
+      console.warn(`${method} ${url} failed (${(error as Error).message}), retrying`)
+      await wait(backoffDelay(attempt), url, options.signal)
+    }
+  }
+}
@@ -0,0 +1,45 @@
+// Small promise wrapper around a single IndexedDB object store, used to keep
+// large local files (basemaps, elevation data) across sessions
+
+export interface IdbStore<T> {
+  getAll(): Promise<T[]>
+  put(value: T): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Access an object store keyed by `id`, in a database of its own
+ */
+export function createIdbStore<T extends { id: string }>(dbName: string, storeName: string): IdbStore<T> {
+  const open = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<R> => {
+    const db = await open()
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    } finally {
+      db.close()
+    }
+  }
+
+  return {
+    getAll: () => run<T[]>('readonly', store => store.getAll()),
+    put: async value => {
+      await run('readwrite', store => store.put(value))
+    },
+    delete: async key => {
+      await run('readwrite', store => store.delete(key))
+    },
+  }
+}
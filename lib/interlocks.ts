@@ -0,0 +1,114 @@
+// Safety interlocks: hazardous commands that take more than a click. Each can
+// ask the operator to type a confirmation phrase and a second authorised
+// person to approve within INTERLOCK_CONFIG.approvalWindow, as configured in
+// INTERLOCK_CONFIG.commands. services/interlockService.ts gets approvals and
+// logs every override.
+
+import { INTERLOCK_CONFIG } from '@/config/missionExecution.config'
+import type { TransitionActor } from '@/lib/missionLifecycle'
+import type { InterlockId, PermissionId } from '@/types'
+
+export interface Interlock {
+  id: InterlockId
+  label: string
+  hazard: string // what can go wrong, shown before confirming
+  phrase: string // typed to confirm
+  permission: PermissionId // needed both to give the command and to approve it
+}
+
+export const INTERLOCKS: Record<InterlockId, Interlock> = {
+  force_arm: {
+    id: 'force_arm',
+    label: 'Force Arm',
+    hazard: 'Arms the motors even though the pre-arm checks failed. The vehicle may not be fit to fly.',
+    phrase: 'FORCE ARM',
+    permission: 'control_vehicle',
+  },
+  force_start: {
+    id: 'force_start',
+    label: 'Force Start',
+    hazard: 'Stops the mission the vehicle is flying and starts this one from wherever the vehicle is now.',
+    phrase: 'FORCE START',
+    permission: 'force_start',
+  },
+  disarm_in_flight: {
+    id: 'disarm_in_flight',
+    label: 'Disarm in Flight',
+    hazard: 'Cuts the motors while the vehicle is airborne. It will fall.',
+    phrase: 'DISARM',
+    permission: 'control_vehicle',
+  },
+  // Only starting a mission can be overridden. Arming while breached is held by
+  // the pre-flight checklist's geofence_clear item, which no override passes.
+  geofence_override: {
+    id: 'geofence_override',
+    label: 'Geofence Override',
+    hazard: 'The vehicle is breaching a geofence. Starting the mission may fly it where it is not allowed.',
+    phrase: 'OVERRIDE',
+    permission: 'execute_missions',
+  },
+}
+
+export interface InterlockRequirements {
+  typedConfirmation: boolean
+  secondApprover: boolean
+}
+
+export const interlockRequirements = (id: InterlockId): InterlockRequirements => INTERLOCK_CONFIG.commands[id]
+
+// A second person's approval, as the backend confirmed it
+export interface InterlockApproval {
+  id: string
+  approver: TransitionActor
+  receivedAt: number // epoch milliseconds; the approval window runs from here
+}
+
+// How the operator got past an interlock; sent along with the command
+export interface InterlockOverride {
+  interlock: InterlockId
+  confirmation?: string // the phrase as typed
+  approval?: InterlockApproval
+}
+
+export class InterlockError extends Error {
+  readonly interlock: InterlockId
+
+  constructor(interlock: InterlockId, message: string) {
+    super(message)
+    this.name = 'InterlockError'
+    this.interlock = interlock
+  }
+}
+
+/**
+ * Milliseconds until an approval can no longer be used; 0 or less once expired
+ */
+export const approvalTimeLeft = (approval: InterlockApproval, now = Date.now()) =>
+  approval.receivedAt + INTERLOCK_CONFIG.approvalWindow - now
+
+/**
+ * Why `override` does not get `requester` past interlock `id`, or null when
+ * it does. Whether the approver's role permits it is checked by the service.
+ */
+export function overrideBlocker(
+  id: InterlockId,
+  override: InterlockOverride | undefined,
+  requester: TransitionActor | null,
+  now = Date.now()
+): string | null {
+  const interlock = INTERLOCKS[id]
+  const requirements = interlockRequirements(id)
+
+  if (!override || override.interlock !== id) return `${interlock.label} has to be confirmed first`
+  if (requirements.typedConfirmation && override.confirmation?.trim().toUpperCase() !== interlock.phrase) {
+    return `Type ${interlock.phrase} to confirm ${interlock.label.toLowerCase()}`
+  }
+  if (requirements.secondApprover) {
+    const approval = override.approval
+    if (!approval) return `${interlock.label} needs a second person's approval`
+    if (approvalTimeLeft(approval, now) <= 0) return 'The second approval has expired; ask for it again'
+    if (!requester) return `${interlock.label} has to be requested by a signed-in user`
+    if (approval.approver.id === requester.id) return `${interlock.label} has to be approved by someone else`
+  }
+  return null
+}
@@ -0,0 +1,484 @@
+// MAVLink v2 decoder: parses raw frames from a binary WebSocket bridge
+// (e.g. mavlink-router) and merges the messages into canonical TelemetryData
+
+import {
+  TelemetryData,
+  TelemetryValidationError,
+  VehicleStatusText,
+} from '@/types/types'
+
+// ============================================================================
+// Framing
+// ============================================================================
+
+const MAVLINK_V2_MAGIC = 0xfd
+const MAVLINK_V1_MAGIC = 0xfe
+const HEADER_LENGTH = 10 // magic through msgid
+const CHECKSUM_LENGTH = 2
+const SIGNATURE_LENGTH = 13
+const INCOMPAT_FLAG_SIGNED = 0x01
+const MAX_BUFFER = 64 * 1024
+
+export const MAVLINK_MSG = {
+  HEARTBEAT: 0,
+  SYS_STATUS: 1,
+  GPS_RAW_INT: 24,
+  ATTITUDE: 30,
+  GLOBAL_POSITION_INT: 33,
+  MISSION_CURRENT: 42,
+  VFR_HUD: 74,
+  STATUSTEXT: 253,
+} as const
+
+// CRC_EXTRA seeds and full payload lengths (including extensions we read)
+const MESSAGE_SPECS: Record<number, { crcExtra: number; length: number }> = {
+  [MAVLINK_MSG.HEARTBEAT]: { crcExtra: 50, length: 9 },
+  [MAVLINK_MSG.SYS_STATUS]: { crcExtra: 124, length: 31 },
+  [MAVLINK_MSG.GPS_RAW_INT]: { crcExtra: 24, length: 30 },
+  [MAVLINK_MSG.ATTITUDE]: { crcExtra: 39, length: 28 },
+  [MAVLINK_MSG.GLOBAL_POSITION_INT]: { crcExtra: 104, length: 28 },
+  [MAVLINK_MSG.MISSION_CURRENT]: { crcExtra: 28, length: 4 },
+  [MAVLINK_MSG.VFR_HUD]: { crcExtra: 20, length: 20 },
+  [MAVLINK_MSG.STATUSTEXT]: { crcExtra: 83, length: 54 },
+}
+
+export interface MavlinkFrame {
+  sequence: number
+  systemId: number
+  componentId: number
+  messageId: number
+  payload: DataView // zero-padded to the message's full length
+}
+
+/**
+ * CRC-16/MCRF4XX (X.25) as used by MAVLink
+ */
+function crcAccumulate(byte: number, crc: number): number {
+  let tmp = byte ^ (crc & 0xff)
+  tmp = (tmp ^ (tmp << 4)) & 0xff
+  return ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xffff
+}
+
+function frameChecksum(bytes: Uint8Array, start: number, end: number, crcExtra: number): number {
+  let crc = 0xffff
+  for (let i = start; i < end; i++) {
+    crc = crcAccumulate(bytes[i], crc)
+  }
+  return crcAccumulate(crcExtra, crc)
+}
+
+/**
+ * Stream parser: bridges may split or coalesce frames across WebSocket
+ * messages, so bytes are buffered until a whole frame is available.
+ * Frames for messages we don't decode are skipped without CRC checking.
+ */
+export class MavlinkParser {
+  private buffer: Uint8Array = new Uint8Array(0)
+
+  push(chunk: ArrayBuffer | Uint8Array): { frames: MavlinkFrame[]; errors: string[] } {
+    const incoming = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk)
+    const merged = new Uint8Array(this.buffer.length + incoming.length)
+    merged.set(this.buffer)
+    merged.set(incoming, this.buffer.length)
+
+    const frames: MavlinkFrame[] = []
+    const errors: string[] = []
+    let offset = 0
+
+    while (offset < merged.length) {
+      const magic = merged[offset]
+      if (magic !== MAVLINK_V2_MAGIC) {
+        if (magic === MAVLINK_V1_MAGIC && merged.length - offset >= 2) {
+          // v1 frames are not decoded; skip the whole frame to stay in sync
+          const v1Length = 6 + merged[offset + 1] + CHECKSUM_LENGTH
+          if (merged.length - offset < v1Length) break
+          offset += v1Length
+          continue
+        }
+        if (magic === MAVLINK_V1_MAGIC) break
+        offset += 1
+        continue
+      }
+
+      if (merged.length - offset < HEADER_LENGTH) break
+
+      const payloadLength = merged[offset + 1]
+      const incompatFlags = merged[offset + 2]
+      const signed = (incompatFlags & INCOMPAT_FLAG_SIGNED) !== 0
+      const frameLength = HEADER_LENGTH + payloadLength + CHECKSUM_LENGTH + (signed ? SIGNATURE_LENGTH : 0)
+      if (merged.length - offset < frameLength) break
+
+      const messageId = merged[offset + 7] | (merged[offset + 8] << 8) | (merged[offset + 9] << 16)
+      const spec = MESSAGE_SPECS[messageId]
+
+      if (spec) {
+        const payloadEnd = offset + HEADER_LENGTH + payloadLength
+        const expected = frameChecksum(merged, offset + 1, payloadEnd, spec.crcExtra)
+        const received = merged[payloadEnd] | (merged[payloadEnd + 1] << 8)
+
+        if (expected !== received) {
+          // Likely a false magic byte inside another frame: resync from the next byte
+          errors.push(`CRC mismatch on message ${messageId}`)
+          offset += 1
+          continue
+        }
+
+        // MAVLink 2 truncates trailing zero bytes; restore them before decoding
+        const payload = new Uint8Array(Math.max(spec.length, payloadLength))
+        payload.set(merged.subarray(offset + HEADER_LENGTH, payloadEnd))
+
+        frames.push({
+          sequence: merged[offset + 4],
+          systemId: merged[offset + 5],
+          componentId: merged[offset + 6],
+          messageId,
+          payload: new DataView(payload.buffer),
+        })
+      }
+
+      offset += frameLength
+    }
+
+    this.buffer = merged.slice(offset)
+    if (this.buffer.length > MAX_BUFFER) {
+      errors.push('Discarded undecodable MAVLink stream data')
+      this.buffer = new Uint8Array(0)
+    }
+
+    return { frames, errors }
+  }
+
+  reset(): void {
+    this.buffer = new Uint8Array(0)
+  }
+}
+
+// ============================================================================
+// Message decoding
+// ============================================================================
+
+const MAV_AUTOPILOT_ARDUPILOTMEGA = 3
+const MAV_AUTOPILOT_INVALID = 8
+const MAV_AUTOPILOT_PX4 = 12
+const MAV_MODE_FLAG_SAFETY_ARMED = 0x80
+const MAV_MODE_FLAG_CUSTOM_MODE_ENABLED = 0x01
+const MAV_STATE_ACTIVE = 4
+const MAV_TYPE_FIXED_WING = 1
+
+const UINT16_UNKNOWN = 0xffff
+const STATUSTEXT_LENGTH = 50
+const MIN_FRAME_INTERVAL = 100 // ms; autopilots stream ATTITUDE at up to 50Hz
+
+const RAD_TO_DEG = 180 / Math.PI
+
+const PX4_MAIN_MODES: Record<number, string> = {
+  1: 'MANUAL',
+  2: 'ALTCTL',
+  3: 'POSCTL',
+  5: 'ACRO',
+  6: 'OFFBOARD',
+  7: 'STABILIZED',
+  8: 'RATTITUDE',
+}
+
+const PX4_AUTO_MODES: Record<number, string> = {
+  1: 'READY',
+  2: 'TAKEOFF',
+  3: 'HOLD',
+  4: 'MISSION',
+  5: 'RTL',
+  6: 'LAND',
+  8: 'FOLLOW_TARGET',
+  9: 'PRECLAND',
+}
+
+const ARDUCOPTER_MODES: Record<number, string> = {
+  0: 'STABILIZE',
+  1: 'ACRO',
+  2: 'ALT_HOLD',
+  3: 'AUTO',
+  4: 'GUIDED',
+  5: 'LOITER',
+  6: 'RTL',
+  7: 'CIRCLE',
+  9: 'LAND',
+  16: 'POSHOLD',
+  17: 'BRAKE',
+  21: 'SMART_RTL',
+}
+
+const ARDUPLANE_MODES: Record<number, string> = {
+  0: 'MANUAL',
+  1: 'CIRCLE',
+  2: 'STABILIZE',
+  5: 'FBWA',
+  6: 'FBWB',
+  7: 'CRUISE',
+  10: 'AUTO',
+  11: 'RTL',
+  12: 'LOITER',
+  15: 'GUIDED',
+}
+
+/**
+ * Human-readable flight mode from a HEARTBEAT's custom_mode
+ */
+export function decodeFlightMode(autopilot: number, vehicleType: number, baseMode: number, customMode: number): string {
+  if (!(baseMode & MAV_MODE_FLAG_CUSTOM_MODE_ENABLED)) return 'UNKNOWN'
+
+  if (autopilot === MAV_AUTOPILOT_PX4) {
+    const mainMode = (customMode >> 16) & 0xff
+    const subMode = (customMode >> 24) & 0xff
+    if (mainMode === 4) return PX4_AUTO_MODES[subMode] ?? 'AUTO'
+    return PX4_MAIN_MODES[mainMode] ?? `MODE_${customMode}`
+  }
+
+  if (autopilot === MAV_AUTOPILOT_ARDUPILOTMEGA) {
+    const modes = vehicleType === MAV_TYPE_FIXED_WING ? ARDUPLANE_MODES : ARDUCOPTER_MODES
+    return modes[customMode] ?? `MODE_${customMode}`
+  }
+
+  return `MODE_${customMode}`
+}
+
+// ============================================================================
+// Telemetry decoder
+// ============================================================================
+
+export interface MavlinkDecodeResult {
+  telemetry: TelemetryData[]
+  statusTexts: VehicleStatusText[]
+  errors: TelemetryValidationError[]
+}
+
+/**
+ * Tracks one vehicle's state across messages. Each MAVLink message only
+ * carries part of the picture, so frames are snapshots of the merged state,
+ * emitted at most every MIN_FRAME_INTERVAL.
+ * Follows the first autopilot heard unless a system id is given.
+ */
+export class MavlinkTelemetryDecoder {
+  private parser = new MavlinkParser()
+  private state: TelemetryData | null = null
+  private statusTextChunks: Map<number, string[]> = new Map()
+  private lastEmit = 0
+  private pending = false
+
+  constructor(private systemId?: number) {}
+
+  decode(chunk: ArrayBuffer | Uint8Array): MavlinkDecodeResult {
+    return this.decodeParsed(this.parser.push(chunk), chunk)
+  }
+
+  /**
+   * Decode frames already split out by a MavlinkParser. A bridge carrying
+   * several vehicles parses each chunk once and hands every vehicle's
+   * decoder its own frames; `chunk` is kept on any errors for inspection.
+   */
+  decodeParsed(
+    { frames, errors }: { frames: MavlinkFrame[]; errors: string[] },
+    chunk?: ArrayBuffer | Uint8Array
+  ): MavlinkDecodeResult {
+    const result: MavlinkDecodeResult = { telemetry: [], statusTexts: [], errors: [] }
+
+    errors.forEach(issue => {
+      result.errors.push(new TelemetryValidationError(`Malformed MAVLink frame: ${issue}`, [issue], chunk))
+    })
+
+    frames.forEach(frame => {
+      if (!this.accepts(frame)) return
+
+      if (frame.messageId === MAVLINK_MSG.STATUSTEXT) {
+        const statusText = this.readStatusText(frame)
+        if (statusText) result.statusTexts.push(statusText)
+        return
+      }
+
+      if (this.apply(frame)) this.pending = true
+
+      // Heartbeats carry arm/mode changes, so they are never held back
+      const now = Date.now()
+      if (this.pending && (frame.messageId === MAVLINK_MSG.HEARTBEAT || now - this.lastEmit >= MIN_FRAME_INTERVAL)) {
+        result.telemetry.push(this.snapshot())
+        this.lastEmit = now
+        this.pending = false
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * The MAVLink system followed; undefined until the first autopilot heartbeat
+   * when none was given
+   */
+  get followedSystemId(): number | undefined {
+    return this.systemId
+  }
+
+  reset(): void {
+    this.parser.reset()
+    this.state = null
+    this.statusTextChunks.clear()
+    this.lastEmit = 0
+    this.pending = false
+  }
+
+  // Ignore GCS and companion heartbeats; lock onto the first autopilot
+  private accepts(frame: MavlinkFrame): boolean {
+    if (this.systemId === undefined) {
+      if (frame.messageId !== MAVLINK_MSG.HEARTBEAT) return false
+      const autopilot = frame.payload.getUint8(5)
+      if (autopilot === MAV_AUTOPILOT_INVALID) return false
+      this.systemId = frame.systemId
+      console.log(`🛩️ MAVLink vehicle detected (system ${frame.systemId})`)
+    }
+
+    if (frame.systemId !== this.systemId) return false
+
+    // Other components (gimbal, camera) share the system id but not the autopilot's state
+    if (frame.messageId === MAVLINK_MSG.HEARTBEAT) {
+      return frame.payload.getUint8(5) !== MAV_AUTOPILOT_INVALID
+    }
+    return true
+  }
+
+  private current(): TelemetryData {
+    if (!this.state) {
+      this.state = { timestamp: Date.now(), source: 'mavlink', vehicle_id: String(this.systemId) }
+    }
+    return this.state
+  }
+
+  private snapshot(): TelemetryData {
+    const state = this.current()
+    state.timestamp = Date.now()
+    return {
+      ...state,
+      position: state.position && { ...state.position },
+      velocity: state.velocity && { ...state.velocity },
+      attitude: state.attitude && { ...state.attitude },
+      battery: state.battery && { ...state.battery },
+      gps: state.gps && { ...state.gps },
+    }
+  }
+
+  // Merge a message into the vehicle state; returns whether anything changed
+  private apply(frame: MavlinkFrame): boolean {
+    const view = frame.payload
+    const state = this.current()
+
+    switch (frame.messageId) {
+      case MAVLINK_MSG.HEARTBEAT: {
+        const customMode = view.getUint32(0, true)
+        const vehicleType = view.getUint8(4)
+        const autopilot = view.getUint8(5)
+        const baseMode = view.getUint8(6)
+        const systemStatus = view.getUint8(7)
+        state.armed = (baseMode & MAV_MODE_FLAG_SAFETY_ARMED) !== 0
+        state.flying = state.armed && systemStatus === MAV_STATE_ACTIVE
+        state.flight_mode = decodeFlightMode(autopilot, vehicleType, baseMode, customMode)
+        return true
+      }
+
+      case MAVLINK_MSG.GLOBAL_POSITION_INT: {
+        const lat = view.getInt32(4, true) / 1e7
+        const lon = view.getInt32(8, true) / 1e7
+        const vx = view.getInt16(20, true) / 100
+        const vy = view.getInt16(22, true) / 100
+        const hdg = view.getUint16(26, true)
+        state.position = {
+          lat,
+          lon,
+          alt: view.getInt32(12, true) / 1000,
+          relative_alt: view.getInt32(16, true) / 1000,
+        }
+        state.velocity = { vx, vy, vz: view.getInt16(24, true) / 100, ground_speed: Math.sqrt(vx ** 2 + vy ** 2) }
+        if (hdg !== UINT16_UNKNOWN) state.heading = hdg / 100
+        return true
+      }
+
+      case MAVLINK_MSG.ATTITUDE: {
+        state.attitude = {
+          roll: view.getFloat32(4, true) * RAD_TO_DEG,
+          pitch: view.getFloat32(8, true) * RAD_TO_DEG,
+          yaw: view.getFloat32(12, true) * RAD_TO_DEG,
+        }
+        if (state.heading === undefined) {
+          state.heading = ((state.attitude.yaw % 360) + 360) % 360
+        }
+        return true
+      }
+
+      case MAVLINK_MSG.VFR_HUD: {
+        state.heading = view.getInt16(16, true)
+        if (state.velocity) {
+          state.velocity.ground_speed = view.getFloat32(4, true)
+        }
+        return true
+      }
+
+      case MAVLINK_MSG.SYS_STATUS: {
+        const voltage = view.getUint16(14, true)
+        const current = view.getInt16(16, true)
+        const remaining = view.getInt8(30)
+        if (remaining < 0) return false // -1: autopilot has no estimate
+
+        state.battery = { remaining }
+        if (voltage !== UINT16_UNKNOWN) state.battery.voltage = voltage / 1000
+        if (current !== -1) state.battery.current = current / 100
+        return true
+      }
+
+      case MAVLINK_MSG.GPS_RAW_INT: {
+        const eph = view.getUint16(20, true)
+        const satellites = view.getUint8(29)
+        state.gps = {
+          fix_type: view.getUint8(28),
+          satellites: satellites === 0xff ? 0 : satellites,
+        }
+        if (eph !== UINT16_UNKNOWN) state.gps.hdop = eph / 100
+        return true
+      }
+
+      case MAVLINK_MSG.MISSION_CURRENT: {
+        const total = view.getUint16(2, true) // extension; 0 when the autopilot omits it
+        state.mission_current = view.getUint16(0, true)
+        if (total !== 0 && total !== UINT16_UNKNOWN) state.mission_count = total
+        return true
+      }
+
+      default:
+        return false
+    }
+  }
+
+  // Long messages arrive in 50-character chunks sharing an id; a short chunk ends the message
+  private readStatusText(frame: MavlinkFrame): VehicleStatusText | null {
+    const view = frame.payload
+    const severity = view.getUint8(0)
+    const bytes = new Uint8Array(view.buffer, 1, STATUSTEXT_LENGTH)
+    const terminator = bytes.indexOf(0)
+    const text = new TextDecoder().decode(terminator === -1 ? bytes : bytes.subarray(0, terminator))
+    const id = view.getUint16(51, true)
+
+    let fullText = text
+    if (id !== 0) {
+      const chunks = this.statusTextChunks.get(id) ?? []
+      chunks[view.getUint8(53)] = text
+      if (terminator === -1) {
+        this.statusTextChunks.set(id, chunks)
+        return null
+      }
+      this.statusTextChunks.delete(id)
+      fullText = chunks.join('')
+    }
+
+    return {
+      timestamp: Date.now(),
+      severity,
+      text: fullText,
+      vehicle_id: String(frame.systemId),
+    }
+  }
+}
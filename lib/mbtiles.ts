@@ -0,0 +1,166 @@
+// MBTiles raster basemaps: tiles stored in SQLite with TMS row numbering,
+// either in a plain `tiles` table or deduplicated across `map` and `images`
+
+import {
+  parseIndexColumns,
+  parseTableColumns,
+  SqliteReader,
+  SqliteSchemaEntry,
+  SqlValue,
+  TableColumns,
+} from '@/lib/sqlite'
+import {
+  flipY,
+  parseTileImageFormat,
+  TILE_MIME_TYPES,
+  TileArchive,
+  TileBounds,
+  TileCoord,
+  tileKey,
+} from '@/lib/tiles'
+
+const MAX_SCANNED_TILES = 50000 // tables without an index are read into memory
+
+interface TableLookup {
+  table: SqliteSchemaEntry
+  columns: TableColumns
+  index: { rootPage: number; columns: string[] } | null
+}
+
+const columnValue = (row: { rowid: number; values: SqlValue[] }, columns: TableColumns, name: string): SqlValue => {
+  const position = columns.names.indexOf(name)
+  if (position === -1) return null
+  return position === columns.rowidAlias ? row.rowid : row.values[position] ?? null
+}
+
+// A table and the unique index that can find rows by `keyColumns`
+function describeTable(schema: SqliteSchemaEntry[], name: string, keyColumns: string[]): TableLookup | null {
+  const table = schema.find(entry => entry.type === 'table' && entry.name.toLowerCase() === name)
+  if (!table?.sql) return null
+  const columns = parseTableColumns(table.sql)
+
+  const matchesKey = (indexColumns: string[]) =>
+    keyColumns.every(column => indexColumns.includes(column)) && indexColumns.length === keyColumns.length
+
+  const indexes = schema.filter(entry => entry.type === 'index' && entry.tableName.toLowerCase() === name)
+  const explicit = indexes
+    .filter(entry => entry.sql)
+    .map(entry => ({ rootPage: entry.rootPage, columns: parseIndexColumns(entry.sql as string) }))
+    .find(index => matchesKey(index.columns))
+
+  // Inline UNIQUE constraints get an autoindex with no SQL of its own
+  const constraint = columns.uniqueKeys.find(matchesKey)
+  const autoindex = constraint && indexes.find(entry => !entry.sql && entry.name.startsWith('sqlite_autoindex_'))
+
+  return {
+    table,
+    columns,
+    index: explicit || (autoindex && constraint ? { rootPage: autoindex.rootPage, columns: constraint } : null),
+  }
+}
+
+async function findByKey(
+  db: SqliteReader,
+  lookup: TableLookup,
+  key: Record<string, SqlValue>
+): Promise<{ rowid: number; values: SqlValue[] } | null> {
+  if (!lookup.index) return null
+  const entry = await db.findIndexEntry(lookup.index.rootPage, lookup.index.columns.map(column => key[column]))
+  if (!entry) return null
+  return db.findRow(lookup.table.rootPage, Number(entry[entry.length - 1]))
+}
+
+async function readMetadata(db: SqliteReader, schema: SqliteSchemaEntry[]): Promise<Record<string, string>> {
+  const table = schema.find(entry => entry.type === 'table' && entry.name.toLowerCase() === 'metadata')
+  if (!table?.sql) return {}
+
+  const columns = parseTableColumns(table.sql)
+  const metadata: Record<string, string> = {}
+  for await (const row of db.scanTable(table.rootPage)) {
+    const name = columnValue(row, columns, 'name')
+    const value = columnValue(row, columns, 'value')
+    if (typeof name === 'string' && value !== null) metadata[name] = String(value)
+  }
+  return metadata
+}
+
+function parseBounds(value: string | undefined): TileBounds | null {
+  const parts = (value || '').split(',').map(Number)
+  if (parts.length !== 4 || !parts.every(Number.isFinite)) return null
+  const [west, south, east, north] = parts
+  return { south, west, north, east }
+}
+
+const toBlob = (data: SqlValue, mimeType: string): Blob | null =>
+  data instanceof Uint8Array && data.length > 0 ? new Blob([data.slice()], { type: mimeType }) : null
+
+/**
+ * Open an MBTiles file. Throws when the file is not MBTiles or holds vector tiles.
+ */
+export async function openMbtiles(file: Blob, fileName: string): Promise<TileArchive> {
+  const db = await SqliteReader.open(file)
+  const schema = await db.readSchema()
+  const metadata = await readMetadata(db, schema)
+
+  const format = parseTileImageFormat(metadata.format || 'png')
+  if (!format) {
+    throw new Error(`${fileName} holds ${metadata.format} tiles; only raster (PNG, JPEG, WebP) basemaps are supported`)
+  }
+  const mimeType = TILE_MIME_TYPES[format]
+  const keyColumns = ['zoom_level', 'tile_column', 'tile_row']
+
+  const tiles = describeTable(schema, 'tiles', keyColumns)
+  const map = describeTable(schema, 'map', keyColumns)
+  const images = describeTable(schema, 'images', ['tile_id'])
+
+  let getTile: (tile: TileCoord) => Promise<Blob | null>
+
+  if (tiles?.index) {
+    getTile = async tile => {
+      const row = await findByKey(db, tiles, { zoom_level: tile.z, tile_column: tile.x, tile_row: flipY(tile) })
+      return row ? toBlob(columnValue(row, tiles.columns, 'tile_data'), mimeType) : null
+    }
+  } else if (map?.index && images?.index) {
+    getTile = async tile => {
+      const row = await findByKey(db, map, { zoom_level: tile.z, tile_column: tile.x, tile_row: flipY(tile) })
+      if (!row) return null
+      const image = await findByKey(db, images, { tile_id: columnValue(row, map.columns, 'tile_id') })
+      return image ? toBlob(columnValue(image, images.columns, 'tile_data'), mimeType) : null
+    }
+  } else if (tiles) {
+    // No usable index; small files are indexed in memory instead
+    const rowids = new Map<string, number>()
+    for await (const row of db.scanTable(tiles.table.rootPage)) {
+      if (rowids.size >= MAX_SCANNED_TILES) {
+        throw new Error(`${fileName} has no tile index and more than ${MAX_SCANNED_TILES} tiles`)
+      }
+      const z = Number(columnValue(row, tiles.columns, 'zoom_level'))
+      const x = Number(columnValue(row, tiles.columns, 'tile_column'))
+      const y = Number(columnValue(row, tiles.columns, 'tile_row'))
+      rowids.set(tileKey({ z, x, y: flipY({ z, x, y }) }), row.rowid)
+    }
+    getTile = async tile => {
+      const rowid = rowids.get(tileKey(tile))
+      const row = rowid === undefined ? null : await db.findRow(tiles.table.rootPage, rowid)
+      return row ? toBlob(columnValue(row, tiles.columns, 'tile_data'), mimeType) : null
+    }
+  } else {
+    throw new Error(`${fileName} is not an MBTiles file (no tiles table)`)
+  }
+
+  const minZoom = Number(metadata.minzoom)
+  const maxZoom = Number(metadata.maxzoom)
+
+  return {
+    kind: 'mbtiles',
+    metadata: {
+      name: metadata.name || fileName,
+      format,
+      minZoom: Number.isFinite(minZoom) ? minZoom : 0,
+      maxZoom: Number.isFinite(maxZoom) ? maxZoom : 22,
+      bounds: parseBounds(metadata.bounds),
+      attribution: metadata.attribution,
+    },
+    getTile,
+  }
+}
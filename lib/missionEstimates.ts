@@ -0,0 +1,95 @@
+// Mission flight-time and battery estimates from a vehicle performance profile
+
+import { distanceBetween } from '@/lib/geofence'
+import { DEFAULT_LOITER_RADIUS, MissionItemWaypoint } from '@/lib/missionItems'
+import { parseWaypointAltitude } from '@/lib/missionValidation'
+import type { VehicleProfile } from '@/types'
+
+export type EstimateWaypoint = MissionItemWaypoint
+
+export interface MissionEstimate {
+  totalDistance: number // km
+  flightTime: number // minutes
+  batteryUsage: number // percent of a full battery
+}
+
+// Generic small quadcopter, used until a vehicle is assigned
+export const DEFAULT_VEHICLE_PROFILE: VehicleProfile = {
+  airframe: 'Multirotor',
+  cruiseSpeed: 10,
+  climbSpeed: 3,
+  batteryCapacity: 200,
+  consumptionPerKm: 6,
+  consumptionPerHoverMinute: 6,
+  maxWind: 10,
+}
+
+/**
+ * Estimate distance, flight time and battery use for a route. Horizontal legs
+ * are flown at cruise speed, or at the speed set by the last waypoint that
+ * changed it; loiter turns are flown the same way. Altitude changes (including
+ * the climb from and descent to the ground), holds and waits are charged at
+ * the hover rate. A return to launch adds the flight back to the first
+ * waypoint and ends the route.
+ */
+export function estimateMission(
+  waypoints: EstimateWaypoint[],
+  profile: VehicleProfile = DEFAULT_VEHICLE_PROFILE
+): MissionEstimate {
+  if (waypoints.length === 0) {
+    return { totalDistance: 0, flightTime: 0, batteryUsage: 0 }
+  }
+
+  let horizontal = 0 // meters
+  let loiter = 0 // meters flown circling, not part of the route distance
+  let cruiseMinutes = 0
+  let speed = profile.cruiseSpeed
+  let vertical = 0 // meters
+  let holdSeconds = 0
+  let previousAlt = 0
+
+  for (const [index, wp] of waypoints.entries()) {
+    if (index > 0) {
+      const leg = distanceBetween(waypoints[index - 1], wp)
+      horizontal += leg
+      cruiseMinutes += leg / speed / 60
+    }
+
+    const alt = parseWaypointAltitude(wp.alt) ?? previousAlt
+    vertical += Math.abs(alt - previousAlt)
+    previousAlt = alt
+
+    if (wp.command === 'loiter_turns') {
+      const circles = Math.max(wp.loiterTurns ?? 1, 0) * 2 * Math.PI * (wp.loiterRadius ?? DEFAULT_LOITER_RADIUS)
+      loiter += circles
+      cruiseMinutes += circles / speed / 60
+    } else if (wp.command !== 'land') {
+      holdSeconds += Math.max(wp.holdTime ?? 0, 0)
+    }
+    if (wp.speed !== undefined && wp.speed > 0) speed = wp.speed
+
+    const actions = wp.actions ?? []
+    holdSeconds += actions.reduce((sum, action) => sum + (action.type === 'delay' ? Math.max(action.seconds, 0) : 0), 0)
+    if (wp.command === 'land') break
+    if (actions.some(action => action.type === 'return_to_launch')) {
+      const home = distanceBetween(wp, waypoints[0])
+      horizontal += home
+      cruiseMinutes += home / speed / 60
+      break
+    }
+  }
+  vertical += previousAlt // descend to land
+
+  const verticalMinutes = vertical / profile.climbSpeed / 60
+  const hoverMinutes = verticalMinutes + holdSeconds / 60
+
+  const energy =
+    ((horizontal + loiter) / 1000) * profile.consumptionPerKm +
+    hoverMinutes * profile.consumptionPerHoverMinute
+
+  return {
+    totalDistance: parseFloat((horizontal / 1000).toFixed(2)),
+    flightTime: parseFloat((cruiseMinutes + hoverMinutes).toFixed(1)),
+    batteryUsage: parseFloat(((energy / profile.batteryCapacity) * 100).toFixed(1)),
+  }
+}
@@ -0,0 +1,526 @@
+// Mission file import/export: QGroundControl .plan, MAVLink QGC WPL 110,
+// KML and GPX
+
+import { parseGeofences } from '@/lib/geofence'
+import {
+  buildMissionItems,
+  commandHasPosition,
+  MAV_CMD,
+  MAV_FRAME_TO_ALTITUDE_FRAME,
+  missionItemFromParams,
+  missionItemParams,
+  parseMissionItems,
+  WaypointBehaviour,
+} from '@/lib/missionItems'
+import { parseWaypointAltitude } from '@/lib/missionValidation'
+import type { AltitudeFrame } from '@/types'
+import type { Geofence, MissionItem } from '@/types/types'
+
+export type MissionFileFormat = 'plan' | 'wpl' | 'kml' | 'gpx'
+
+// Commands and actions survive .plan and WPL; KML and GPX keep only the hold
+export interface MissionFileWaypoint extends WaypointBehaviour {
+  lat: number
+  lon: number
+  alt: number // meters in `frame`
+  frame: AltitudeFrame
+  name?: string
+}
+
+export interface MissionFile {
+  name: string
+  waypoints: MissionFileWaypoint[]
+  geofences: Geofence[] // only .plan files carry fences
+}
+
+export const MISSION_FILE_FORMATS: Record<MissionFileFormat, { label: string; extension: string; mimeType: string }> = {
+  plan: { label: 'QGroundControl Plan', extension: 'plan', mimeType: 'application/json' },
+  wpl: { label: 'MAVLink Waypoints (WPL)', extension: 'waypoints', mimeType: 'text/plain' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+}
+
+export const ALTITUDE_FRAME_SUFFIX: Record<AltitudeFrame, string> = {
+  relative: 'REL',
+  amsl: 'AMSL',
+  terrain: 'AGL',
+}
+
+/**
+ * Planner label for an altitude, e.g. '120m REL'
+ */
+export function formatAltitude(alt: number, frame: AltitudeFrame = 'relative'): string {
+  return `${formatNumber(alt, 1)}m ${ALTITUDE_FRAME_SUFFIX[frame]}`
+}
+
+// Used when a file has no usable altitude, e.g. clamped-to-ground KML
+const DEFAULT_ALTITUDE = 100
+
+const WPL_HEADER = 'QGC WPL 110'
+const GPX_CREATOR = 'SkyRouteX Mission Planner'
+
+// QGroundControl's AltitudeMode field in .plan SimpleItems
+const ALTITUDE_FRAME_TO_QGC_MODE: Record<AltitudeFrame, number> = {
+  relative: 1,
+  amsl: 2,
+  terrain: 4,
+}
+
+const KML_ALTITUDE_MODE: Record<AltitudeFrame, string> = {
+  relative: 'relativeToGround',
+  amsl: 'absolute',
+  terrain: 'relativeToGround',
+}
+
+const isValidPosition = (lat: number, lon: number) =>
+  Number.isFinite(lat) && Number.isFinite(lon) &&
+  lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180 &&
+  !(lat === 0 && lon === 0)
+
+const formatNumber = (value: number, digits: number) => String(Number(value.toFixed(digits)))
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '')
+
+const isFrame = (value: unknown): value is AltitudeFrame =>
+  value === 'relative' || value === 'amsl' || value === 'terrain'
+
+/**
+ * Work out a file's format from its extension, falling back to its content
+ */
+export function detectMissionFileFormat(fileName: string, text: string): MissionFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'plan') return 'plan'
+  if (extension === 'waypoints' || extension === 'wpl') return 'wpl'
+  if (extension === 'kml') return 'kml'
+  if (extension === 'gpx') return 'gpx'
+
+  const head = text.trimStart().slice(0, 500)
+  if (head.startsWith('QGC WPL')) return 'wpl'
+  if (head.startsWith('{')) return 'plan'
+  if (/<kml[\s>]/.test(head)) return 'kml'
+  if (/<gpx[\s>]/.test(head)) return 'gpx'
+  return null
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+// Mission items in order, with waypoints missing a usable position dropped
+function itemsToWaypoints(items: Omit<MissionItem, 'seq'>[]): MissionFileWaypoint[] {
+  return parseMissionItems(items)
+    .filter(wp => isValidPosition(wp.lat, wp.lon))
+    .map(wp => ({ ...wp, alt: wp.alt ?? DEFAULT_ALTITUDE }))
+}
+
+function flattenPlanItems(items: any[]): Omit<MissionItem, 'seq'>[] {
+  return items.flatMap((item: any) => {
+    if (!item || typeof item !== 'object') return []
+
+    // Surveys and corridor scans keep their generated items nested
+    if (item.type === 'ComplexItem') {
+      const nested = item.TransectStyleComplexItem?.Items ?? item.Items
+      return Array.isArray(nested) ? flattenPlanItems(nested) : []
+    }
+
+    if (!Array.isArray(item.params)) return []
+    return [missionItemFromParams(Number(item.command), Number(item.frame), item.params)]
+  })
+}
+
+function parsePlanGeofences(geoFence: any): Geofence[] {
+  if (!geoFence || typeof geoFence !== 'object') return []
+
+  const polygons = (Array.isArray(geoFence.polygons) ? geoFence.polygons : []).map((fence: any, index: number) => ({
+    id: `fence-import-p${index}`,
+    name: `${fence.inclusion === false ? 'Exclusion' : 'Inclusion'} Zone ${index + 1}`,
+    mode: fence.inclusion === false ? 'exclusion' : 'inclusion',
+    shape: 'polygon',
+    vertices: (Array.isArray(fence.polygon) ? fence.polygon : []).map((p: any) => ({ lat: Number(p[0]), lon: Number(p[1]) })),
+  }))
+
+  const circles = (Array.isArray(geoFence.circles) ? geoFence.circles : []).map((fence: any, index: number) => ({
+    id: `fence-import-c${index}`,
+    name: `${fence.inclusion === false ? 'Exclusion' : 'Inclusion'} Circle ${index + 1}`,
+    mode: fence.inclusion === false ? 'exclusion' : 'inclusion',
+    shape: 'circle',
+    center: { lat: Number(fence.circle?.center?.[0]), lon: Number(fence.circle?.center?.[1]) },
+    radius: Number(fence.circle?.radius),
+  }))
+
+  return parseGeofences([...polygons, ...circles])
+}
+
+function parsePlan(text: string, name: string): MissionFile {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Plan file is not valid JSON')
+  }
+
+  if (data?.fileType !== 'Plan' || !Array.isArray(data.mission?.items)) {
+    throw new Error('Not a QGroundControl plan file')
+  }
+
+  return {
+    name,
+    waypoints: itemsToWaypoints(flattenPlanItems(data.mission.items)),
+    geofences: parsePlanGeofences(data.geoFence),
+  }
+}
+
+function parseWpl(text: string, name: string): MissionFile {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  if (!lines[0]?.startsWith('QGC WPL')) {
+    throw new Error('Not a QGC WPL waypoint file')
+  }
+
+  const items = lines.slice(1).flatMap(line => {
+    const columns = line.split(/\s+/)
+    if (columns.length < 12) return []
+
+    // Row 0 is the home position, not part of the route
+    if (Number(columns[0]) === 0) return []
+
+    const values = columns.map(Number)
+    const params = values.slice(4, 11)
+    // WPL cannot write an unset yaw, so toWpl writes 0; read it back as unset, not as "face north"
+    if (commandHasPosition(values[3]) && params[3] === 0) params[3] = NaN
+    return [missionItemFromParams(values[3], values[2], params)]
+  })
+
+  return { name, waypoints: itemsToWaypoints(items), geofences: [] }
+}
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${label} file is not valid XML`)
+  }
+  return doc
+}
+
+const elements = (parent: Document | Element, tag: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', tag))
+
+const childText = (parent: Element, tag: string): string | undefined =>
+  elements(parent, tag)[0]?.textContent?.trim() || undefined
+
+// Names are nested at several levels, so only look at the element's own children
+const ownName = (parent: Element | undefined): string | undefined =>
+  parent && (Array.from(parent.children).find(el => el.localName === 'name')?.textContent?.trim() || undefined)
+
+// KML stores coordinates as "lon,lat[,alt]" tuples separated by whitespace
+function parseKmlCoordinates(text: string, altitudeMode: string | undefined): MissionFileWaypoint[] {
+  const clamped = !altitudeMode || altitudeMode === 'clampToGround' || altitudeMode === 'clampToSeaFloor'
+  const frame: AltitudeFrame = altitudeMode === 'absolute' ? 'amsl' : 'relative'
+
+  return text.trim().split(/\s+/).flatMap((tuple): MissionFileWaypoint[] => {
+    const [lon, lat, alt] = tuple.split(',').map(Number)
+    if (!isValidPosition(lat, lon)) return []
+    return [{
+      lat,
+      lon,
+      alt: !clamped && Number.isFinite(alt) ? alt : DEFAULT_ALTITUDE,
+      frame: clamped ? 'relative' : frame,
+    }]
+  })
+}
+
+function parseKml(text: string, fallbackName: string): MissionFile {
+  const doc = parseXml(text, 'KML')
+  const name = ownName(elements(doc, 'Document')[0]) ?? fallbackName
+
+  // Prefer individually placed points, which carry names and hold times
+  const points = elements(doc, 'Placemark').flatMap((placemark): MissionFileWaypoint[] => {
+    const point = elements(placemark, 'Point')[0]
+    const coordinates = point && childText(point, 'coordinates')
+    if (!coordinates) return []
+
+    const [waypoint] = parseKmlCoordinates(coordinates, childText(point, 'altitudeMode'))
+    if (!waypoint) return []
+
+    const data = new Map(
+      elements(placemark, 'Data').map(el => [el.getAttribute('name'), childText(el, 'value')])
+    )
+    const hold = Number(data.get('holdTime'))
+    const frame = data.get('frame')
+
+    return [{
+      ...waypoint,
+      frame: isFrame(frame) ? frame : waypoint.frame,
+      holdTime: hold > 0 ? hold : undefined,
+      name: ownName(placemark),
+    }]
+  })
+  if (points.length > 0) return { name, waypoints: points, geofences: [] }
+
+  const line = elements(doc, 'LineString')[0]
+  const coordinates = line && childText(line, 'coordinates')
+  if (!coordinates) throw new Error('KML file has no points or line to import')
+
+  return {
+    name,
+    waypoints: parseKmlCoordinates(coordinates, childText(line, 'altitudeMode')),
+    geofences: [],
+  }
+}
+
+function parseGpx(text: string, fallbackName: string): MissionFile {
+  const doc = parseXml(text, 'GPX')
+
+  // Routes are planned paths; fall back to waypoints, then recorded tracks
+  const points = ['rtept', 'wpt', 'trkpt']
+    .map(tag => elements(doc, tag))
+    .find(list => list.length > 0) ?? []
+
+  const waypoints = points.flatMap((point): MissionFileWaypoint[] => {
+    const lat = Number(point.getAttribute('lat'))
+    const lon = Number(point.getAttribute('lon'))
+    if (!isValidPosition(lat, lon)) return []
+
+    // GPX elevation is above sea level unless our extension says otherwise
+    const ele = Number(childText(point, 'ele'))
+    const frame = childText(point, 'frame')
+    const hold = Number(childText(point, 'holdTime'))
+    const hasEle = childText(point, 'ele') !== undefined && Number.isFinite(ele)
+
+    return [{
+      lat,
+      lon,
+      alt: hasEle ? ele : DEFAULT_ALTITUDE,
+      frame: isFrame(frame) ? frame : hasEle ? 'amsl' : 'relative',
+      holdTime: hold > 0 ? hold : undefined,
+      name: ownName(point),
+    }]
+  })
+
+  const route = elements(doc, 'rte')[0] ?? elements(doc, 'trk')[0]
+  return {
+    name: ownName(route) ?? fallbackName,
+    waypoints,
+    geofences: [],
+  }
+}
+
+/**
+ * Parse a mission file in any supported format
+ */
+export function parseMissionFile(text: string, fileName: string): MissionFile {
+  const format = detectMissionFileFormat(fileName, text)
+  const name = baseName(fileName)
+
+  let mission: MissionFile
+  switch (format) {
+    case 'plan': mission = parsePlan(text, name); break
+    case 'wpl': mission = parseWpl(text, name); break
+    case 'kml': mission = parseKml(text, name); break
+    case 'gpx': mission = parseGpx(text, name); break
+    default: throw new Error('Unrecognised mission file format')
+  }
+
+  if (mission.waypoints.length < 2) {
+    throw new Error('Mission file must contain at least 2 waypoints')
+  }
+  return mission
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Convert a saved mission into the file model
+ */
+export function missionToFile(mission: { mission_name?: string; waypoints?: any[]; geofences?: unknown }): MissionFile {
+  const waypoints = (mission.waypoints || []).flatMap((wp: any): MissionFileWaypoint[] => {
+    const lat = Number(wp.lat)
+    const lon = Number(wp.lon ?? wp.lng)
+    if (!isValidPosition(lat, lon)) return []
+    // Older saved missions use snake_case hold and acceptance fields
+    const holdTime = Number(wp.holdTime ?? wp.hold_time)
+    return [{
+      lat,
+      lon,
+      alt: parseWaypointAltitude(wp.alt) ?? DEFAULT_ALTITUDE,
+      frame: isFrame(wp.frame) ? wp.frame : 'relative',
+      holdTime: holdTime > 0 ? holdTime : undefined,
+      command: wp.command,
+      loiterTurns: wp.loiterTurns,
+      loiterRadius: wp.loiterRadius,
+      speed: wp.speed,
+      acceptanceRadius: wp.acceptanceRadius ?? wp.acceptance_radius,
+      actions: Array.isArray(wp.actions) ? wp.actions : undefined,
+      name: typeof wp.label === 'string' ? wp.label.replace(/^(Start|End|Stop): /, '') : undefined,
+    }]
+  })
+
+  return {
+    name: mission.mission_name || 'Mission',
+    waypoints,
+    geofences: parseGeofences(mission.geofences),
+  }
+}
+
+function toPlan(mission: MissionFile): string {
+  const home = mission.waypoints[0]
+  const items = buildMissionItems(mission.waypoints).map(item => ({
+    // QGC only gives altitude fields to items with a position
+    ...(commandHasPosition(item.command) ? {
+      AMSLAltAboveTerrain: null,
+      Altitude: item.z,
+      AltitudeMode: ALTITUDE_FRAME_TO_QGC_MODE[MAV_FRAME_TO_ALTITUDE_FRAME[item.frame] ?? 'relative'],
+    } : {}),
+    autoContinue: item.autocontinue,
+    command: item.command,
+    doJumpId: item.seq + 1,
+    frame: item.frame,
+    // NaN is "unset" in MAVLink and null in .plan files
+    params: missionItemParams(item).map(value => (Number.isNaN(value) ? null : value)),
+    type: 'SimpleItem',
+  }))
+
+  const polygons = mission.geofences.flatMap(fence => fence.shape === 'polygon'
+    ? [{ inclusion: fence.mode === 'inclusion', polygon: fence.vertices.map(v => [v.lat, v.lon]), version: 1 }]
+    : [])
+  const circles = mission.geofences.flatMap(fence => fence.shape === 'circle'
+    ? [{ inclusion: fence.mode === 'inclusion', circle: { center: [fence.center.lat, fence.center.lon], radius: fence.radius }, version: 1 }]
+    : [])
+
+  return JSON.stringify({
+    fileType: 'Plan',
+    groundStation: 'QGroundControl',
+    version: 1,
+    mission: {
+      version: 2,
+      firmwareType: 12, // PX4
+      vehicleType: 2, // quadrotor
+      cruiseSpeed: 15,
+      hoverSpeed: 5,
+      plannedHomePosition: home ? [home.lat, home.lon, 0] : [0, 0, 0],
+      items,
+    },
+    geoFence: { version: 2, polygons, circles },
+    rallyPoints: { version: 2, points: [] },
+  }, null, 2)
+}
+
+function toWpl(mission: MissionFile): string {
+  const home = mission.waypoints[0]
+  const row = (values: (number | string)[]) => values.join('\t')
+  // WPL has no way to write an unset param. Other tools read an unset yaw
+  // (param4) written as 0 as "face north"; parseWpl reads it back as unset.
+  const value = (param: number, digits: number) => formatNumber(Number.isNaN(param) ? 0 : param, digits)
+
+  const rows = [
+    WPL_HEADER,
+    // Home: index 0, current, absolute frame
+    row([0, 1, 0, MAV_CMD.NAV_WAYPOINT, 0, 0, 0, 0, formatNumber(home.lat, 8), formatNumber(home.lon, 8), 0, 1]),
+    ...buildMissionItems(mission.waypoints).map(item => row([
+      item.seq + 1,
+      0,
+      item.frame,
+      item.command,
+      value(item.param1, 4),
+      value(item.param2, 4),
+      value(item.param3, 4),
+      value(item.param4, 4),
+      value(item.x, 8),
+      value(item.y, 8),
+      value(item.z, 2),
+      item.autocontinue ? 1 : 0,
+    ])),
+  ]
+  return rows.join('\n') + '\n'
+}
+
+function toKml(mission: MissionFile): string {
+  const coordinate = (wp: MissionFileWaypoint) =>
+    `${formatNumber(wp.lon, 8)},${formatNumber(wp.lat, 8)},${formatNumber(wp.alt, 2)}`
+
+  const placemarks = mission.waypoints.map((wp, index) => `    <Placemark>
+      <name>${escapeXml(wp.name ?? `Waypoint ${index + 1}`)}</name>
+      <ExtendedData>
+        <Data name="frame"><value>${wp.frame}</value></Data>
+        <Data name="holdTime"><value>${wp.holdTime ?? 0}</value></Data>
+      </ExtendedData>
+      <Point>
+        <altitudeMode>${KML_ALTITUDE_MODE[wp.frame]}</altitudeMode>
+        <coordinates>${coordinate(wp)}</coordinates>
+      </Point>
+    </Placemark>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(mission.name)}</name>
+    <Placemark>
+      <name>Route</name>
+      <LineString>
+        <altitudeMode>${KML_ALTITUDE_MODE[mission.waypoints[0]?.frame ?? 'relative']}</altitudeMode>
+        <coordinates>${mission.waypoints.map(coordinate).join(' ')}</coordinates>
+      </LineString>
+    </Placemark>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`
+}
+
+function toGpx(mission: MissionFile): string {
+  const points = mission.waypoints.map((wp, index) => `    <rtept lat="${formatNumber(wp.lat, 8)}" lon="${formatNumber(wp.lon, 8)}">
+      <ele>${formatNumber(wp.alt, 2)}</ele>
+      <name>${escapeXml(wp.name ?? `Waypoint ${index + 1}`)}</name>
+      <extensions>
+        <frame>${wp.frame}</frame>
+        <holdTime>${wp.holdTime ?? 0}</holdTime>
+      </extensions>
+    </rtept>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">
+  <rte>
+    <name>${escapeXml(mission.name)}</name>
+${points.join('\n')}
+  </rte>
+</gpx>
+`
+}
+
+/**
+ * Serialize a mission in the given format
+ */
+export function serializeMissionFile(mission: MissionFile, format: MissionFileFormat): string {
+  if (mission.waypoints.length === 0) {
+    throw new Error('Mission has no waypoints to export')
+  }
+
+  switch (format) {
+    case 'plan': return toPlan(mission)
+    case 'wpl': return toWpl(mission)
+    case 'kml': return toKml(mission)
+    case 'gpx': return toGpx(mission)
+  }
+}
+
+/**
+ * Save a mission to disk in the given format
+ */
+export function downloadMissionFile(mission: MissionFile, format: MissionFileFormat): void {
+  const { extension, mimeType } = MISSION_FILE_FORMATS[format]
+  const blob = new Blob([serializeMissionFile(mission, format)], { type: mimeType })
+  const fileName = `${mission.name.replace(/[^\w-]+/g, '_')}.${extension}`
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,364 @@
+// Mission item model: expands planner waypoints, with their arrival command
+// and actions, into the MAVLink mission items the autopilot flies, and reads
+// mission items from files back into waypoints
+
+import { parseWaypointAltitude, ValidationWaypoint } from '@/lib/missionValidation'
+import type { AltitudeFrame, WaypointAction, WaypointActionType, WaypointCommand } from '@/types'
+import type { GeoPoint, MissionItem } from '@/types/types'
+
+export interface WaypointBehaviour {
+  command?: WaypointCommand // plain waypoint when absent
+  holdTime?: number // seconds to hover, or to loiter for loiter_time
+  loiterTurns?: number
+  loiterRadius?: number // meters; autopilot default when absent
+  speed?: number // m/s from this waypoint on
+  acceptanceRadius?: number // meters; autopilot default when absent
+  actions?: WaypointAction[]
+}
+
+export interface MissionItemWaypoint extends ValidationWaypoint, WaypointBehaviour {}
+
+// A waypoint read back from mission items
+export interface ParsedMissionWaypoint extends WaypointBehaviour {
+  lat: number
+  lon: number
+  alt?: number // meters in `frame`; absent when the item had none
+  frame: AltitudeFrame
+}
+
+// MAVLink MAV_CMD values used in missions
+export const MAV_CMD = {
+  NAV_WAYPOINT: 16,
+  NAV_LOITER_UNLIM: 17,
+  NAV_LOITER_TURNS: 18,
+  NAV_LOITER_TIME: 19,
+  NAV_RETURN_TO_LAUNCH: 20,
+  NAV_LAND: 21,
+  NAV_TAKEOFF: 22,
+  NAV_DELAY: 93,
+  DO_CHANGE_SPEED: 178,
+  DO_SET_ROI_LOCATION: 195,
+  DO_SET_ROI_NONE: 197,
+  DO_MOUNT_CONTROL: 205,
+  DO_SET_CAM_TRIGG_DIST: 206,
+  DO_GIMBAL_MANAGER_PITCHYAW: 1000,
+  IMAGE_START_CAPTURE: 2000,
+  IMAGE_STOP_CAPTURE: 2001,
+} as const
+
+// MAV_FRAME values, including the *_INT variants
+export const MAV_FRAME_TO_ALTITUDE_FRAME: Record<number, AltitudeFrame> = {
+  0: 'amsl',
+  3: 'relative',
+  5: 'amsl',
+  6: 'relative',
+  10: 'terrain',
+  11: 'terrain',
+}
+
+export const ALTITUDE_FRAME_TO_MAV_FRAME: Record<AltitudeFrame, number> = {
+  amsl: 0,
+  relative: 3,
+  terrain: 10,
+}
+
+// MAV_FRAME_MISSION, for commands without a position
+const MAV_FRAME_MISSION = 2
+
+// Navigation commands that fly to a position and so start a waypoint
+const NAV_POSITION_COMMANDS = new Set<number>([
+  MAV_CMD.NAV_WAYPOINT,
+  MAV_CMD.NAV_LOITER_UNLIM,
+  MAV_CMD.NAV_LOITER_TURNS,
+  MAV_CMD.NAV_LOITER_TIME,
+  MAV_CMD.NAV_LAND,
+  MAV_CMD.NAV_TAKEOFF,
+])
+
+// MAV_MOUNT_MODE_MAVLINK_TARGETING: take the angles from the command
+const MOUNT_MODE_MAVLINK_TARGETING = 2
+
+// PX4's NAV_LOITER_RAD default, used when a loiter has no radius of its own
+export const DEFAULT_LOITER_RADIUS = 80
+
+export const COMMAND_LABELS: Record<WaypointCommand, string> = {
+  waypoint: 'Fly through',
+  loiter_time: 'Loiter (time)',
+  loiter_turns: 'Loiter (turns)',
+  land: 'Land',
+}
+
+export const ACTION_LABELS: Record<WaypointActionType, string> = {
+  roi: 'Point at location (ROI)',
+  roi_clear: 'Clear ROI',
+  camera_trigger_distance: 'Photos by distance',
+  camera_trigger_interval: 'Photos by time',
+  camera_stop: 'Stop photos',
+  gimbal_pitch: 'Gimbal pitch',
+  delay: 'Wait',
+  return_to_launch: 'Return to launch',
+}
+
+/**
+ * Whether a command carries a position in x/y/z
+ */
+export function commandHasPosition(command: number): boolean {
+  return NAV_POSITION_COMMANDS.has(command) || command === MAV_CMD.DO_SET_ROI_LOCATION
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Whether a value read from storage or the API is a well-formed action
+ */
+export function isWaypointAction(value: unknown): value is WaypointAction {
+  if (typeof value !== 'object' || value === null) return false
+  const action = value as Record<string, unknown>
+  switch (action.type) {
+    case 'roi': return isFiniteNumber(action.lat) && isFiniteNumber(action.lon) && isFiniteNumber(action.alt)
+    case 'camera_trigger_distance': return isFiniteNumber(action.distance)
+    case 'camera_trigger_interval': return isFiniteNumber(action.interval)
+    case 'gimbal_pitch': return isFiniteNumber(action.pitch)
+    case 'delay': return isFiniteNumber(action.seconds)
+    case 'roi_clear':
+    case 'camera_stop':
+    case 'return_to_launch':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * A new action with sensible defaults. ROIs start at `near`, usually the
+ * waypoint the action is added to.
+ */
+export function createAction(type: WaypointActionType, near: GeoPoint): WaypointAction {
+  switch (type) {
+    case 'roi': return { type, lat: near.lat, lon: near.lon, alt: 0 }
+    case 'camera_trigger_distance': return { type, distance: 20 }
+    case 'camera_trigger_interval': return { type, interval: 2 }
+    case 'gimbal_pitch': return { type, pitch: -90 }
+    case 'delay': return { type, seconds: 10 }
+    default: return { type }
+  }
+}
+
+/**
+ * One-line summary of an action, e.g. 'Photo every 20 m'
+ */
+export function describeAction(action: WaypointAction): string {
+  switch (action.type) {
+    case 'roi': return `ROI ${action.lat.toFixed(4)}, ${action.lon.toFixed(4)}`
+    case 'roi_clear': return 'Clear ROI'
+    case 'camera_trigger_distance': return `Photo every ${action.distance} m`
+    case 'camera_trigger_interval': return `Photo every ${action.interval} s`
+    case 'camera_stop': return 'Stop photos'
+    case 'gimbal_pitch': return `Gimbal ${action.pitch}°`
+    case 'delay': return `Wait ${action.seconds} s`
+    case 'return_to_launch': return 'Return to launch'
+  }
+}
+
+/**
+ * Summary of a waypoint's arrival command, or null for a plain waypoint
+ */
+export function describeCommand(wp: WaypointBehaviour): string | null {
+  const turns = wp.loiterTurns ?? 1
+  switch (wp.command) {
+    case 'loiter_time': return `Loiter ${wp.holdTime ?? 0} s`
+    case 'loiter_turns': return `Loiter ${turns} turn${turns === 1 ? '' : 's'}`
+    case 'land': return 'Land'
+    default: return null
+  }
+}
+
+/**
+ * Whether the vehicle stops flying the route at this waypoint, by landing or
+ * returning to launch
+ */
+export function endsMission(wp: WaypointBehaviour): boolean {
+  return wp.command === 'land' || (wp.actions ?? []).some(action => action.type === 'return_to_launch')
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+type UnsequencedItem = Omit<MissionItem, 'seq'>
+
+const item = (command: number, frame: number, params: number[] = []): UnsequencedItem => {
+  const [param1 = 0, param2 = 0, param3 = 0, param4 = 0, x = 0, y = 0, z = 0] = params
+  return { command, frame, param1, param2, param3, param4, x, y, z, autocontinue: true }
+}
+
+function navItem(wp: MissionItemWaypoint, alt: number): UnsequencedItem {
+  const frame = ALTITUDE_FRAME_TO_MAV_FRAME[wp.frame ?? 'relative']
+  const position = [wp.lat, wp.lon, alt]
+
+  switch (wp.command) {
+    case 'loiter_time':
+      return item(MAV_CMD.NAV_LOITER_TIME, frame, [wp.holdTime ?? 0, 0, wp.loiterRadius ?? 0, 0, ...position])
+    case 'loiter_turns':
+      return item(MAV_CMD.NAV_LOITER_TURNS, frame, [wp.loiterTurns ?? 1, 0, wp.loiterRadius ?? 0, 0, ...position])
+    case 'land':
+      return item(MAV_CMD.NAV_LAND, frame, [0, 0, 0, NaN, ...position])
+    default:
+      // NaN yaw keeps the current heading
+      return item(MAV_CMD.NAV_WAYPOINT, frame, [wp.holdTime ?? 0, wp.acceptanceRadius ?? 0, 0, NaN, ...position])
+  }
+}
+
+function actionItems(action: WaypointAction): UnsequencedItem[] {
+  switch (action.type) {
+    case 'roi':
+      return [item(MAV_CMD.DO_SET_ROI_LOCATION, ALTITUDE_FRAME_TO_MAV_FRAME.relative, [0, 0, 0, 0, action.lat, action.lon, action.alt])]
+    case 'roi_clear':
+      return [item(MAV_CMD.DO_SET_ROI_NONE, MAV_FRAME_MISSION)]
+    case 'camera_trigger_distance':
+      // Trigger once straight away, then every `distance` meters
+      return [item(MAV_CMD.DO_SET_CAM_TRIGG_DIST, MAV_FRAME_MISSION, [action.distance, 0, 1])]
+    case 'camera_trigger_interval':
+      // All cameras, unlimited images
+      return [item(MAV_CMD.IMAGE_START_CAPTURE, MAV_FRAME_MISSION, [0, action.interval, 0])]
+    case 'camera_stop':
+      // Stops whichever trigger mode is running
+      return [
+        item(MAV_CMD.DO_SET_CAM_TRIGG_DIST, MAV_FRAME_MISSION, [0, 0, 0]),
+        item(MAV_CMD.IMAGE_STOP_CAPTURE, MAV_FRAME_MISSION, [0]),
+      ]
+    case 'gimbal_pitch':
+      return [item(MAV_CMD.DO_MOUNT_CONTROL, MAV_FRAME_MISSION, [action.pitch, 0, 0, 0, 0, 0, MOUNT_MODE_MAVLINK_TARGETING])]
+    case 'delay':
+      // -1 hour/minute/second: wait for param1 seconds rather than a time of day
+      return [item(MAV_CMD.NAV_DELAY, MAV_FRAME_MISSION, [action.seconds, -1, -1, -1])]
+    case 'return_to_launch':
+      return [item(MAV_CMD.NAV_RETURN_TO_LAUNCH, MAV_FRAME_MISSION)]
+  }
+}
+
+/**
+ * Expand waypoints into MAVLink mission items: each waypoint's navigation
+ * command, then a speed change if it sets one, then its actions in order.
+ * Throws if a waypoint has no altitude.
+ */
+export function buildMissionItems(waypoints: MissionItemWaypoint[]): MissionItem[] {
+  const items = waypoints.flatMap((wp, index): UnsequencedItem[] => {
+    const alt = parseWaypointAltitude(wp.alt)
+    if (alt === undefined) throw new Error(`Waypoint ${index + 1} has no altitude`)
+
+    const speed = wp.speed !== undefined && wp.speed > 0
+      // Ground speed, throttle unchanged
+      ? [item(MAV_CMD.DO_CHANGE_SPEED, MAV_FRAME_MISSION, [1, wp.speed, -1])]
+      : []
+
+    return [navItem(wp, alt), ...speed, ...(wp.actions ?? []).flatMap(actionItems)]
+  })
+
+  return items.map((entry, seq) => ({ seq, ...entry }))
+}
+
+// ============================================================================
+// Parse
+// ============================================================================
+
+/**
+ * Mission item from a command, frame and the seven params as written in
+ * .plan and WPL files. Missing or null params read as NaN.
+ */
+export function missionItemFromParams(command: number, frame: number, params: unknown[]): UnsequencedItem {
+  const values = Array.from({ length: 7 }, (_, i) =>
+    params[i] === null || params[i] === undefined ? NaN : Number(params[i])
+  )
+  return item(command, frame, values)
+}
+
+/**
+ * The seven params of an item in .plan/WPL order: param1-4, x, y, z
+ */
+export function missionItemParams(entry: UnsequencedItem): number[] {
+  return [entry.param1, entry.param2, entry.param3, entry.param4, entry.x, entry.y, entry.z]
+}
+
+const positive = (value: number): number | undefined =>
+  Number.isFinite(value) && value > 0 ? value : undefined
+
+function itemToWaypoint(entry: UnsequencedItem): ParsedMissionWaypoint {
+  const base = {
+    lat: entry.x,
+    lon: entry.y,
+    alt: Number.isFinite(entry.z) ? entry.z : undefined,
+    frame: MAV_FRAME_TO_ALTITUDE_FRAME[entry.frame] ?? 'relative',
+  }
+
+  switch (entry.command) {
+    case MAV_CMD.NAV_WAYPOINT:
+      return { ...base, holdTime: positive(entry.param1), acceptanceRadius: positive(entry.param2) }
+    case MAV_CMD.NAV_LOITER_TIME:
+      return { ...base, command: 'loiter_time', holdTime: positive(entry.param1), loiterRadius: positive(Math.abs(entry.param3)) }
+    case MAV_CMD.NAV_LOITER_TURNS:
+      return { ...base, command: 'loiter_turns', loiterTurns: positive(entry.param1) ?? 1, loiterRadius: positive(Math.abs(entry.param3)) }
+    case MAV_CMD.NAV_LAND:
+      return { ...base, command: 'land' }
+    default:
+      // Takeoff and unlimited loiters are flown through as plain waypoints
+      return base
+  }
+}
+
+function itemToAction(entry: UnsequencedItem): WaypointAction | null {
+  switch (entry.command) {
+    case MAV_CMD.DO_SET_ROI_LOCATION:
+      return { type: 'roi', lat: entry.x, lon: entry.y, alt: Number.isFinite(entry.z) ? entry.z : 0 }
+    case MAV_CMD.DO_SET_ROI_NONE:
+      return { type: 'roi_clear' }
+    case MAV_CMD.DO_SET_CAM_TRIGG_DIST:
+      return entry.param1 > 0 ? { type: 'camera_trigger_distance', distance: entry.param1 } : { type: 'camera_stop' }
+    case MAV_CMD.IMAGE_START_CAPTURE:
+      return entry.param2 > 0 ? { type: 'camera_trigger_interval', interval: entry.param2 } : null
+    case MAV_CMD.IMAGE_STOP_CAPTURE:
+      return { type: 'camera_stop' }
+    case MAV_CMD.DO_MOUNT_CONTROL:
+    case MAV_CMD.DO_GIMBAL_MANAGER_PITCHYAW:
+      return Number.isFinite(entry.param1) ? { type: 'gimbal_pitch', pitch: entry.param1 } : null
+    case MAV_CMD.NAV_DELAY:
+      return entry.param1 > 0 ? { type: 'delay', seconds: entry.param1 } : null
+    case MAV_CMD.NAV_RETURN_TO_LAUNCH:
+      return { type: 'return_to_launch' }
+    default:
+      return null
+  }
+}
+
+/**
+ * Read mission items back into waypoints. Positional navigation commands
+ * start a waypoint; the commands after one become its speed and actions.
+ * Items before the first waypoint and unsupported commands are skipped.
+ */
+export function parseMissionItems(items: UnsequencedItem[]): ParsedMissionWaypoint[] {
+  const waypoints: ParsedMissionWaypoint[] = []
+
+  for (const entry of items) {
+    if (NAV_POSITION_COMMANDS.has(entry.command)) {
+      waypoints.push(itemToWaypoint(entry))
+      continue
+    }
+
+    const current = waypoints[waypoints.length - 1]
+    if (!current) continue
+
+    if (entry.command === MAV_CMD.DO_CHANGE_SPEED) {
+      current.speed = positive(entry.param2) ?? current.speed
+      continue
+    }
+
+    const action = itemToAction(entry)
+    if (!action) continue
+    const actions = current.actions ?? []
+    // A stop is written as both trigger commands; keep one
+    if (action.type === 'camera_stop' && actions[actions.length - 1]?.type === 'camera_stop') continue
+    current.actions = [...actions, action]
+  }
+
+  return waypoints
+}
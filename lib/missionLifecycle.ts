@@ -0,0 +1,260 @@
+// Mission lifecycle: the states a mission moves through, the events that move
+// it, and what each move has to satisfy. Status changes go through
+// applyTransition so every change is checked and lands in the mission's
+// history. A planner submits a mission; only a commander other than the
+// submitter can approve it, and it cannot be uploaded or flown before that.
+
+import type { MissionEvent, MissionState, MissionTransition, UserRole } from '@/types'
+
+export const MISSION_STATES: MissionState[] = [
+  'draft',
+  'planned',
+  'approved',
+  'rejected',
+  'uploaded',
+  'in_flight',
+  'paused',
+  'completed',
+  'aborted',
+  'failed',
+]
+
+export const MISSION_EVENTS: MissionEvent[] = [
+  'submit',
+  'approve',
+  'request_changes',
+  'reject',
+  'revise',
+  'upload',
+  'start',
+  'pause',
+  'resume',
+  'complete',
+  'abort',
+  'fail',
+]
+
+export const MISSION_STATE_LABELS: Record<MissionState, string> = {
+  draft: 'Draft',
+  planned: 'Pending Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  uploaded: 'Uploaded',
+  in_flight: 'In Flight',
+  paused: 'Paused',
+  completed: 'Completed',
+  aborted: 'Aborted',
+  failed: 'Failed',
+}
+
+export const MISSION_EVENT_LABELS: Record<MissionEvent, string> = {
+  submit: 'Submit for approval',
+  approve: 'Approve',
+  request_changes: 'Request changes',
+  reject: 'Reject',
+  revise: 'Back to draft',
+  upload: 'Upload',
+  start: 'Start',
+  pause: 'Pause',
+  resume: 'Resume',
+  complete: 'Complete',
+  abort: 'Abort',
+  fail: 'Mark failed',
+}
+
+// For each event, the states it may start from and the state it leads to
+export const MISSION_TRANSITIONS: Record<MissionEvent, { from: MissionState[]; to: MissionState }> = {
+  submit: { from: ['draft'], to: 'planned' },
+  approve: { from: ['planned'], to: 'approved' },
+  request_changes: { from: ['planned'], to: 'draft' },
+  reject: { from: ['planned'], to: 'rejected' },
+  revise: { from: ['planned', 'approved', 'rejected', 'uploaded', 'aborted', 'failed'], to: 'draft' },
+  upload: { from: ['approved', 'uploaded'], to: 'uploaded' }, // uploading again replaces the vehicle's copy
+  start: { from: ['uploaded'], to: 'in_flight' },
+  pause: { from: ['in_flight'], to: 'paused' },
+  resume: { from: ['paused'], to: 'in_flight' },
+  complete: { from: ['in_flight', 'paused'], to: 'completed' },
+  abort: { from: ['uploaded', 'in_flight', 'paused'], to: 'aborted' },
+  fail: { from: ['uploaded', 'in_flight', 'paused'], to: 'failed' },
+}
+
+export const TERMINAL_STATES: MissionState[] = ['completed', 'aborted', 'failed']
+
+// The route can change; a planned or approved mission goes back to draft
+const EDITABLE_STATES: MissionState[] = ['draft', 'planned', 'approved']
+
+// Nothing is on a vehicle
+const DELETABLE_STATES: MissionState[] = ['draft', 'planned', 'approved', 'rejected', ...TERMINAL_STATES]
+
+export const USER_ROLES: UserRole[] = ['Operator', 'Planner', 'Commander', 'Administrator']
+
+// Roles that decide on submitted missions
+export const APPROVER_ROLES: UserRole[] = ['Commander', 'Administrator']
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATES: Record<string, MissionState> = {
+  pending: 'planned',
+  active: 'in_flight',
+  in_progress: 'in_flight',
+  'in flight': 'in_flight',
+  'in-flight': 'in_flight',
+  'low battery': 'in_flight',
+  stopped: 'aborted',
+  cancelled: 'aborted',
+  error: 'failed',
+}
+
+/**
+ * Read a stored status, including legacy ones like 'active'. Null when it
+ * is not a status at all.
+ */
+export function toMissionState(status: string): MissionState | null {
+  const key = status.trim().toLowerCase()
+  if ((MISSION_STATES as string[]).includes(key)) return key as MissionState
+  return LEGACY_STATES[key] ?? null
+}
+
+export const isTerminal = (state: MissionState) => TERMINAL_STATES.includes(state)
+export const canEditMission = (state: MissionState) => EDITABLE_STATES.includes(state)
+export const canDeleteMission = (state: MissionState) => DELETABLE_STATES.includes(state)
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+// What the guards look at; ApiMission satisfies it
+export interface LifecycleMission {
+  status: MissionState
+  waypoints?: unknown[] | null
+  status_history?: MissionTransition[] | null
+}
+
+// Who is making a change
+export interface TransitionActor {
+  id: string
+  name: string
+  role: UserRole
+}
+
+export interface TransitionDetails {
+  actor?: TransitionActor | null
+  reason?: string // required for rejections, change requests, aborts and failures
+}
+
+export class MissionTransitionError extends Error {
+  readonly event: MissionEvent
+  readonly from: MissionState
+
+  constructor(event: MissionEvent, from: MissionState, message: string) {
+    super(message)
+    this.name = 'MissionTransitionError'
+    this.event = event
+    this.from = from
+  }
+}
+
+const needsRoute = (mission: LifecycleMission) =>
+  (mission.waypoints?.length ?? 0) === 0 ? 'The mission has no waypoints' : null
+
+/**
+ * The most recent history entry for one of `events`, or null
+ */
+export function lastTransition(mission: LifecycleMission, events: MissionEvent[]): MissionTransition | null {
+  const history = mission.status_history ?? []
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (events.includes(history[i].event)) return history[i]
+  }
+  return null
+}
+
+/**
+ * The approval the mission is flying under, or null when it has not been
+ * approved since it was last submitted or sent back to draft
+ */
+export function approvalOf(mission: LifecycleMission): MissionTransition | null {
+  const approval = lastTransition(mission, ['submit', 'approve', 'request_changes', 'reject', 'revise'])
+  return approval?.event === 'approve' ? approval : null
+}
+
+// Decisions are a commander's, and never on their own submission
+const needsApprover = (mission: LifecycleMission, actor?: TransitionActor | null) => {
+  if (!actor) return 'Sign in as a commander to decide on missions'
+  if (!APPROVER_ROLES.includes(actor.role)) return `Only a ${APPROVER_ROLES.join(' or ').toLowerCase()} can decide on missions`
+  const submission = lastTransition(mission, ['submit'])
+  if (submission?.by_id && submission.by_id === actor.id) return 'A mission cannot be reviewed by the person who submitted it'
+  return null
+}
+
+// Checks beyond the current state; each returns why the move is not possible
+const GUARDS: Partial<Record<MissionEvent, (mission: LifecycleMission, actor?: TransitionActor | null) => string | null>> = {
+  submit: needsRoute,
+  approve: (mission, actor) => needsRoute(mission) ?? needsApprover(mission, actor),
+  request_changes: needsApprover,
+  reject: needsApprover,
+  upload: needsRoute,
+}
+
+// Explained in the history: a reviewer's comments, or why a flight ended early
+export const EVENTS_NEEDING_REASON: MissionEvent[] = ['request_changes', 'reject', 'abort', 'fail']
+
+/**
+ * Events that can start from the mission's state. Guards may still block
+ * them; see transitionBlocker.
+ */
+export function availableEvents(state: MissionState): MissionEvent[] {
+  return MISSION_EVENTS.filter(event => MISSION_TRANSITIONS[event].from.includes(state))
+}
+
+/**
+ * Why `actor` cannot apply `event` to the mission now, or null when they
+ * can. A missing reason is checked by applyTransition.
+ */
+export function transitionBlocker(
+  mission: LifecycleMission,
+  event: MissionEvent,
+  actor?: TransitionActor | null
+): string | null {
+  if (!MISSION_TRANSITIONS[event].from.includes(mission.status)) {
+    return `Cannot ${MISSION_EVENT_LABELS[event].toLowerCase()} a mission that is ${MISSION_STATE_LABELS[mission.status].toLowerCase()}`
+  }
+  return GUARDS[event]?.(mission, actor) ?? null
+}
+
+/**
+ * Check a move and describe it for the mission's history. Throws
+ * MissionTransitionError when the move is not allowed.
+ */
+export function applyTransition(
+  mission: LifecycleMission,
+  event: MissionEvent,
+  details: TransitionDetails = {},
+  at: Date = new Date()
+): MissionTransition {
+  const blocker = transitionBlocker(mission, event, details.actor) ??
+    (EVENTS_NEEDING_REASON.includes(event) && !details.reason?.trim()
+      ? `${MISSION_EVENT_LABELS[event]} needs a reason`
+      : null)
+  if (blocker) throw new MissionTransitionError(event, mission.status, blocker)
+
+  return {
+    event,
+    from: mission.status,
+    to: MISSION_TRANSITIONS[event].to,
+    at: at.toISOString(),
+    ...(details.actor ? { by: details.actor.name, by_id: details.actor.id, role: details.actor.role } : {}),
+    ...(details.reason?.trim() ? { reason: details.reason.trim() } : {}),
+  }
+}
+
+/**
+ * Mission counts per lifecycle state from counts keyed by stored status,
+ * folding legacy statuses into their state
+ */
+export function countByState(byStatus: Record<string, number>): Record<MissionState, number> {
+  const counts = Object.fromEntries(MISSION_STATES.map(state => [state, 0])) as Record<MissionState, number>
+  Object.entries(byStatus).forEach(([status, count]) => {
+    const state = toMissionState(status)
+    if (state) counts[state] += count
+  })
+  return counts
+}
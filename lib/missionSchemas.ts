@@ -0,0 +1,200 @@
+// Mission API contract: request and response schemas for the FastAPI
+// missions endpoints. Types are inferred from the schemas so the checks made
+// at runtime and the types used at compile time cannot drift apart.
+
+import { MISSION_EVENTS, MISSION_STATES, toMissionState, USER_ROLES } from '@/lib/missionLifecycle'
+import { isWaypointAction } from '@/lib/missionItems'
+import { PREFLIGHT_CHECKS } from '@/lib/preflight'
+import {
+  array,
+  boolean,
+  custom,
+  datetime,
+  enumOf,
+  Infer,
+  integer,
+  maybe,
+  nullable,
+  number,
+  object,
+  optional,
+  partial,
+  record,
+  SchemaError,
+  string,
+  transform,
+  union,
+  unknown,
+} from '@/lib/schema'
+
+const ALTITUDE_FRAMES = ['relative', 'amsl', 'terrain'] as const
+const WAYPOINT_COMMANDS = ['waypoint', 'loiter_time', 'loiter_turns', 'land'] as const
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+// Waypoints are stored as the planner saved them; older missions use lng and
+// snake_case hold/acceptance fields
+export const apiWaypointSchema = object({
+  id: maybe(string()),
+  label: maybe(string()),
+  name: maybe(string()), // imported waypoints
+  coords: maybe(string()),
+  alt: maybe(union(number(), string())), // meters, or a planner label like '100m REL'
+  color: maybe(string()),
+  lat: number({ min: -90, max: 90 }),
+  lon: maybe(number({ min: -180, max: 180 })),
+  lng: maybe(number({ min: -180, max: 180 })),
+  holdTime: maybe(number({ min: 0 })),
+  hold_time: maybe(number({ min: 0 })),
+  frame: maybe(enumOf(ALTITUDE_FRAMES)),
+  speed: maybe(number({ min: 0 })),
+  acceptanceRadius: maybe(number({ min: 0 })),
+  acceptance_radius: maybe(number({ min: 0 })),
+  command: maybe(enumOf(WAYPOINT_COMMANDS)),
+  loiterTurns: maybe(number({ min: 0 })),
+  loiterRadius: maybe(number({ min: 0 })),
+  actions: maybe(array(custom('waypoint action', isWaypointAction, { type: 'roi_clear' }))),
+})
+
+export const corridorSchema = object({
+  value: string(),
+  label: string(),
+  color: string(),
+  description: optional(string()),
+})
+
+export const missionStatsSchema = object({
+  total_distance: number({ min: 0 }), // km
+  flight_time: number({ min: 0 }), // minutes
+  battery_usage: number({ min: 0 }), // percent
+})
+
+// Lifecycle state; statuses stored before the lifecycle, like 'active', are read as their state
+export const missionStateSchema = transform(
+  union(enumOf(MISSION_STATES), string()),
+  (value, path) => {
+    const state = toMissionState(value)
+    if (!state) throw new SchemaError(path, 'mission state', value)
+    return state
+  },
+  'mission state'
+)
+
+export const missionTransitionSchema = object({
+  event: enumOf(MISSION_EVENTS),
+  from: enumOf(MISSION_STATES),
+  to: enumOf(MISSION_STATES),
+  at: datetime(),
+  by: maybe(string()), // display name
+  by_id: maybe(string()),
+  role: maybe(enumOf(USER_ROLES)),
+  reason: maybe(string()),
+})
+
+// One item of a completed pre-flight checklist
+export const preflightItemResultSchema = object({
+  id: string(),
+  label: string(),
+  check: maybe(enumOf(PREFLIGHT_CHECKS)), // manual when absent
+  passed: boolean(),
+  detail: maybe(string()), // what telemetry showed, or why the item failed
+  signed_by: maybe(string()), // display name of who signed a manual item off
+  signed_by_id: maybe(string()),
+  signed_at: maybe(datetime()),
+})
+
+// A pre-flight checklist as it stood when the vehicle was cleared to arm
+export const preflightRecordSchema = object({
+  checklists: array(string()), // ids of the checklists worked through
+  vehicle_id: maybe(string()),
+  completed_at: datetime(),
+  completed_by: string(), // display name
+  completed_by_id: maybe(string()),
+  role: maybe(enumOf(USER_ROLES)),
+  items: array(preflightItemResultSchema),
+})
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+// A mission as the backend returns it; corridor and stats are flattened
+export const apiMissionSchema = object({
+  id: integer(),
+  mission_name: string(),
+  mission_type: maybe(string()),
+  status: missionStateSchema,
+  status_history: maybe(array(missionTransitionSchema)), // oldest first
+  corridor_value: maybe(string()),
+  corridor_label: maybe(string()),
+  corridor_color: maybe(string()),
+  corridor_description: maybe(string()),
+  total_distance: maybe(number({ min: 0 })),
+  flight_time: maybe(number({ min: 0 })),
+  battery_usage: maybe(number({ min: 0 })),
+  waypoints: maybe(array(apiWaypointSchema)),
+  geofences: maybe(unknown()), // read with parseGeofences
+  survey: maybe(unknown()), // read with parseSurvey
+  preflight_checklist: maybe(preflightRecordSchema), // the last one completed
+  vehicle_id: maybe(string()),
+  operator_id: maybe(string()),
+  created_by: maybe(string()),
+  notes: maybe(string()),
+  created_at: datetime(),
+  updated_at: maybe(datetime()),
+})
+
+export const missionListSchema = object({
+  missions: array(apiMissionSchema),
+  total: integer(), // matching missions across all pages
+  skip: maybe(integer()),
+  limit: maybe(integer()),
+})
+
+export const missionCountsSchema = object({
+  total: integer(),
+  by_status: record(integer()),
+})
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+const missionRequestFields = {
+  mission_name: string(),
+  mission_type: string(),
+  corridor: nullable(corridorSchema),
+  mission_stats: nullable(missionStatsSchema),
+  waypoints: array(apiWaypointSchema),
+  geofences: optional(unknown()),
+  survey: optional(unknown()),
+  created_by: optional(nullable(string())),
+  notes: optional(string()),
+  vehicle_id: optional(nullable(string())), // null unassigns
+  operator_id: optional(nullable(string())),
+}
+
+export const missionCreateSchema = object(missionRequestFields)
+
+// Only the fields present are changed. The status is not among them: it
+// changes through missionStatusUpdateSchema.
+export const missionUpdateSchema = object(partial(missionRequestFields))
+
+// A checked lifecycle transition; the backend sets `status` and appends
+// `transition` to the mission's status_history
+export const missionStatusUpdateSchema = object({
+  status: enumOf(MISSION_STATES),
+  transition: missionTransitionSchema,
+})
+
+export type ApiWaypoint = Infer<typeof apiWaypointSchema>
+export type ApiMission = Infer<typeof apiMissionSchema>
+export type PaginatedResponse = Infer<typeof missionListSchema>
+export type MissionCounts = Infer<typeof missionCountsSchema>
+export type MissionCreateRequest = Infer<typeof missionCreateSchema>
+export type MissionUpdateRequest = Infer<typeof missionUpdateSchema>
+export type MissionStatusUpdate = Infer<typeof missionStatusUpdateSchema>
+export type PreflightItemResult = Infer<typeof preflightItemResultSchema>
+export type PreflightRecord = Infer<typeof preflightRecordSchema>
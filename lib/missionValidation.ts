@@ -0,0 +1,356 @@
+// Mission validation: checks a route against waypoint limits, altitude limits,
+// waypoint commands and actions, the mission's geofences, terrain clearance
+// and the assigned vehicle's battery before it is saved or uploaded to the
+// autopilot
+
+import { MISSION_CONTROL_CONFIG, TERRAIN_CONFIG } from '@/config/missionExecution.config'
+import { checkGeofences, distanceBetween } from '@/lib/geofence'
+import type { TerrainProfile } from '@/lib/terrainProfile'
+import type { AltitudeFrame, WaypointAction, WaypointCommand } from '@/types'
+import {
+  Geofence,
+  GeofenceBreachKind,
+  MAX_MISSION_WAYPOINTS,
+  MissionIssue,
+  MissionIssueCode,
+} from '@/types/types'
+
+const LEG_SAMPLE_SPACING = 25 // meters between checks along a leg
+const MAX_LEG_SAMPLES = 400
+
+export interface ValidationWaypoint {
+  lat: number
+  lon: number
+  alt?: number | string | null // meters in `frame`; planner values look like '100m REL'
+  frame?: AltitudeFrame // relative to home when absent
+  command?: WaypointCommand
+  loiterTurns?: number
+  actions?: WaypointAction[]
+}
+
+export interface ValidationVehicle {
+  id: string
+  name: string
+  battery: number // percent currently available
+}
+
+export interface MissionValidationInput {
+  waypoints: ValidationWaypoint[]
+  geofences?: Geofence[]
+  vehicle?: ValidationVehicle | null
+  estimatedBatteryUsage?: number // percent of a full battery
+  terrain?: TerrainProfile | null // clearance is only checked when elevation data is loaded
+  minTerrainClearance?: number // meters
+}
+
+const LEG_ISSUE_CODES: Record<GeofenceBreachKind, MissionIssueCode> = {
+  outside_inclusion: 'leg_leaves_corridor',
+  inside_exclusion: 'leg_enters_exclusion',
+  below_floor: 'leg_outside_altitude_band',
+  above_ceiling: 'leg_outside_altitude_band',
+}
+
+/**
+ * Read a waypoint altitude in meters, accepting numbers and planner strings
+ */
+export function parseWaypointAltitude(alt: ValidationWaypoint['alt']): number | undefined {
+  if (alt === null || alt === undefined || alt === '') return undefined
+  const value = typeof alt === 'number' ? alt : parseFloat(alt)
+  return Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Waypoint altitude in meters above home. AMSL altitudes need the home
+ * elevation from a terrain profile and are undefined without it.
+ */
+export function relativeAltitude(wp: ValidationWaypoint, homeElevation: number | null = null): number | undefined {
+  const alt = parseWaypointAltitude(wp.alt)
+  if (alt === undefined || wp.frame !== 'amsl') return alt
+  return homeElevation === null ? undefined : alt - homeElevation
+}
+
+const hasValidCoordinates = (wp: ValidationWaypoint) =>
+  Number.isFinite(wp.lat) &&
+  Number.isFinite(wp.lon) &&
+  wp.lat >= -90 && wp.lat <= 90 &&
+  wp.lon >= -180 && wp.lon <= 180
+
+function checkWaypointCount(waypoints: ValidationWaypoint[]): MissionIssue[] {
+  if (waypoints.length < 2) {
+    return [{
+      code: 'too_few_waypoints',
+      severity: 'error',
+      message: 'Mission needs at least 2 waypoints',
+    }]
+  }
+  if (waypoints.length > MAX_MISSION_WAYPOINTS) {
+    return [{
+      code: 'too_many_waypoints',
+      severity: 'error',
+      message: `Mission has ${waypoints.length} waypoints; the autopilot accepts at most ${MAX_MISSION_WAYPOINTS}`,
+    }]
+  }
+  return []
+}
+
+function checkWaypoint(wp: ValidationWaypoint, index: number, homeElevation: number | null): MissionIssue[] {
+  const label = `Waypoint ${index + 1}`
+
+  if (!hasValidCoordinates(wp)) {
+    return [{
+      code: 'invalid_coordinates',
+      severity: 'error',
+      message: `${label} has invalid coordinates`,
+      waypointIndex: index,
+    }]
+  }
+
+  const { minTakeoffAltitude, maxTakeoffAltitude } = MISSION_CONTROL_CONFIG
+
+  if (parseWaypointAltitude(wp.alt) === undefined) {
+    return [{
+      code: 'missing_altitude',
+      severity: 'error',
+      message: `${label} has no altitude`,
+      waypointIndex: index,
+    }]
+  }
+
+  // AMSL waypoints are only held to the band once home elevation is known
+  const alt = relativeAltitude(wp, homeElevation)
+  if (alt === undefined) return []
+  if (alt < minTakeoffAltitude) {
+    return [{
+      code: 'altitude_below_min',
+      severity: 'error',
+      message: `${label} altitude ${alt} m is below the ${minTakeoffAltitude} m minimum`,
+      waypointIndex: index,
+    }]
+  }
+  if (alt > maxTakeoffAltitude) {
+    return [{
+      code: 'altitude_above_max',
+      severity: 'error',
+      message: `${label} altitude ${alt} m is above the ${maxTakeoffAltitude} m maximum`,
+      waypointIndex: index,
+    }]
+  }
+  return []
+}
+
+// Reason an action cannot be flown, or null if it is fine
+function invalidActionReason(action: WaypointAction): string | null {
+  switch (action.type) {
+    case 'roi':
+      return hasValidCoordinates({ lat: action.lat, lon: action.lon }) ? null : 'ROI has invalid coordinates'
+    case 'camera_trigger_distance':
+      return action.distance > 0 ? null : 'photo distance must be more than 0 m'
+    case 'camera_trigger_interval':
+      return action.interval > 0 ? null : 'photo interval must be more than 0 s'
+    case 'gimbal_pitch':
+      return action.pitch >= -90 && action.pitch <= 90 ? null : 'gimbal pitch must be between -90° and 90°'
+    case 'delay':
+      return action.seconds > 0 ? null : 'wait must be more than 0 s'
+    default:
+      return null
+  }
+}
+
+function checkCommands(waypoints: ValidationWaypoint[]): MissionIssue[] {
+  const issues: MissionIssue[] = []
+
+  waypoints.forEach((wp, index) => {
+    const label = `Waypoint ${index + 1}`
+    if (wp.command === 'loiter_turns' && wp.loiterTurns !== undefined && !(wp.loiterTurns > 0)) {
+      issues.push({
+        code: 'invalid_action',
+        severity: 'error',
+        message: `${label}: loiter turns must be more than 0`,
+        waypointIndex: index,
+      })
+    }
+    for (const action of wp.actions ?? []) {
+      const reason = invalidActionReason(action)
+      if (reason) {
+        issues.push({ code: 'invalid_action', severity: 'error', message: `${label}: ${reason}`, waypointIndex: index })
+      }
+    }
+
+    // The autopilot never flies anything after a landing or return to launch
+    const remaining = waypoints.length - index - 1
+    const ending = wp.command === 'land' ? 'lands'
+      : wp.actions?.some(action => action.type === 'return_to_launch') ? 'returns to launch'
+        : null
+    if (ending && remaining > 0) {
+      issues.push({
+        code: 'mission_continues_after_end',
+        severity: 'error',
+        message: `${label} ${ending}, so the ${remaining} waypoint${remaining === 1 ? '' : 's'} after it would never be flown`,
+        waypointIndex: index,
+      })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Walk a leg in short steps, interpolating altitude, and report the first
+ * breach of each kind. Both ends are sampled so waypoints themselves are checked.
+ */
+function checkLeg(
+  from: ValidationWaypoint,
+  to: ValidationWaypoint,
+  index: number,
+  geofences: Geofence[]
+): MissionIssue[] {
+  const fromAlt = parseWaypointAltitude(from.alt)
+  const toAlt = parseWaypointAltitude(to.alt)
+  const length = distanceBetween(from, to)
+  const steps = Math.min(Math.max(Math.ceil(length / LEG_SAMPLE_SPACING), 1), MAX_LEG_SAMPLES)
+
+  const found = new Map<MissionIssueCode, MissionIssue>()
+
+  for (let step = 0; step <= steps; step++) {
+    const f = step / steps
+    const position = {
+      lat: from.lat + (to.lat - from.lat) * f,
+      lon: from.lon + (to.lon - from.lon) * f,
+      alt: fromAlt !== undefined && toAlt !== undefined ? fromAlt + (toAlt - fromAlt) * f : undefined,
+    }
+
+    checkGeofences(geofences, position).forEach(breach => {
+      const code = LEG_ISSUE_CODES[breach.kind]
+      if (found.has(code)) return
+      found.set(code, {
+        code,
+        severity: 'error',
+        message: `Leg ${index + 1} → ${index + 2}: ${breach.message}`,
+        waypointIndex: index,
+      })
+    })
+  }
+
+  return Array.from(found.values())
+}
+
+function checkCorridor(waypoints: ValidationWaypoint[], geofences: Geofence[]): MissionIssue[] {
+  const issues: MissionIssue[] = []
+
+  if (!geofences.some(fence => fence.mode === 'inclusion')) {
+    issues.push({
+      code: 'no_corridor',
+      severity: 'warning',
+      message: 'No inclusion zone defined; route is not checked against a corridor',
+    })
+  }
+  if (geofences.length === 0) return issues
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    issues.push(...checkLeg(waypoints[i], waypoints[i + 1], i, geofences))
+  }
+  return issues
+}
+
+function checkTerrain(profile: TerrainProfile, minClearance: number): MissionIssue[] {
+  const issues: MissionIssue[] = []
+
+  profile.waypoints.forEach(wp => {
+    if (wp.clearance === null || wp.clearance >= minClearance) return
+    issues.push({
+      code: 'terrain_clearance_low',
+      severity: 'error',
+      message: `Waypoint ${wp.index + 1} is ${Math.round(wp.clearance)} m above terrain; minimum clearance is ${minClearance} m`,
+      waypointIndex: wp.index,
+    })
+  })
+
+  // Legs are only reported when the ground rises between their waypoints
+  profile.legs.forEach(leg => {
+    const lowest = leg.minClearance
+    if (lowest === null || lowest >= minClearance) return
+    const ends = [profile.waypoints[leg.index], profile.waypoints[leg.index + 1]]
+    if (ends.some(end => end.clearance !== null && end.clearance <= lowest)) return
+    issues.push({
+      code: 'terrain_clearance_low',
+      severity: 'error',
+      message: `Leg ${leg.index + 1} → ${leg.index + 2} passes ${Math.round(lowest)} m above terrain ` +
+        `at ${((leg.minClearanceDistance ?? 0) / 1000).toFixed(1)} km; minimum clearance is ${minClearance} m`,
+      waypointIndex: leg.index,
+    })
+  })
+
+  if (profile.coverage < 1) {
+    issues.push({
+      code: 'terrain_not_covered',
+      severity: 'warning',
+      message: `Elevation data covers ${Math.floor(profile.coverage * 100)}% of the route; ` +
+        'terrain clearance is not checked elsewhere',
+    })
+  }
+  return issues
+}
+
+function checkBattery(vehicle: ValidationVehicle | null | undefined, usage: number | undefined): MissionIssue[] {
+  if (!vehicle) {
+    return [{
+      code: 'no_vehicle',
+      severity: 'warning',
+      message: 'No vehicle assigned; battery budget is not checked',
+    }]
+  }
+  if (usage === undefined || !Number.isFinite(usage)) return []
+
+  const reserve = MISSION_CONTROL_CONFIG.batteryReserve
+  const budget = vehicle.battery - reserve
+  if (usage <= budget) return []
+
+  return [{
+    code: 'battery_over_budget',
+    severity: 'error',
+    message: `Estimated battery use ${usage.toFixed(1)}% exceeds ${vehicle.name}'s ` +
+      `${Math.max(budget, 0).toFixed(0)}% budget (${vehicle.battery}% charge, ${reserve}% reserve)`,
+  }]
+}
+
+/**
+ * Check a mission and return every issue found, errors first
+ */
+export function validateMission(input: MissionValidationInput): MissionIssue[] {
+  const {
+    waypoints,
+    geofences = [],
+    vehicle,
+    estimatedBatteryUsage,
+    terrain,
+    minTerrainClearance = TERRAIN_CONFIG.minClearance,
+  } = input
+  const homeElevation = terrain?.homeElevation ?? null
+
+  const waypointIssues = waypoints.flatMap((wp, index) => checkWaypoint(wp, index, homeElevation))
+  const hasInvalidCoordinates = waypointIssues.some(issue => issue.code === 'invalid_coordinates')
+  // Fence altitude limits are relative to home
+  const relativeWaypoints = waypoints.map(wp => ({ ...wp, alt: relativeAltitude(wp, homeElevation) }))
+
+  const issues = [
+    ...checkWaypointCount(waypoints),
+    ...waypointIssues,
+    ...checkCommands(waypoints),
+    // Leg sampling needs every waypoint to have usable coordinates
+    ...(hasInvalidCoordinates ? [] : checkCorridor(relativeWaypoints, geofences)),
+    ...(terrain && !hasInvalidCoordinates ? checkTerrain(terrain, minTerrainClearance) : []),
+    ...checkBattery(vehicle, estimatedBatteryUsage),
+  ]
+
+  return [
+    ...issues.filter(issue => issue.severity === 'error'),
+    ...issues.filter(issue => issue.severity === 'warning'),
+  ]
+}
+
+/**
+ * Whether any issue should stop the mission from being saved or uploaded
+ */
+export function hasBlockingIssues(issues: MissionIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error')
+}
@@ -0,0 +1,77 @@
+// Role-based permissions: what each permission allows, what every role is
+// granted by default, and which permission each page and mission event needs.
+// The grants in force come from services/permissionService.ts; the backend
+// enforces the same rules, this keeps the UI from offering what it would refuse.
+
+import { rolesData } from '@/lib/data'
+import type { MissionEvent, Permission, PermissionId, UserRole } from '@/types'
+
+export const PERMISSIONS: Record<PermissionId, Permission> = {
+  view_missions: { id: 'view_missions', name: 'View Missions', description: 'See missions, their routes and status' },
+  create_missions: { id: 'create_missions', name: 'Create Missions', description: 'Plan new missions' },
+  edit_missions: { id: 'edit_missions', name: 'Modify Missions', description: 'Edit routes and submit missions for approval' },
+  delete_missions: { id: 'delete_missions', name: 'Delete Missions', description: 'Remove missions that are not on a vehicle' },
+  approve_missions: { id: 'approve_missions', name: 'Approve Missions', description: 'Approve, reject or send back submitted missions' },
+  execute_missions: { id: 'execute_missions', name: 'Execute Missions', description: 'Upload, start, pause, complete and abort missions' },
+  control_vehicle: { id: 'control_vehicle', name: 'Vehicle Control', description: 'Arm vehicles and command takeoff' },
+  force_start: { id: 'force_start', name: 'Force Start', description: 'Stop an active mission to start another' },
+  manage_users: { id: 'manage_users', name: 'Manage Users', description: 'Assign roles and manage operators' },
+  manage_roles: { id: 'manage_roles', name: 'Role Management', description: 'Change what each role is permitted to do' },
+  view_audit_log: { id: 'view_audit_log', name: 'Audit Logs', description: 'Search and export the record of commands and mission changes' },
+}
+
+export const PERMISSION_IDS = Object.keys(PERMISSIONS) as PermissionId[]
+
+// Always kept, so there is someone who can give permissions back
+export const LOCKED_GRANTS: Partial<Record<UserRole, PermissionId[]>> = {
+  Administrator: ['manage_roles'],
+}
+
+export type RolePermissions = Record<UserRole, PermissionId[]>
+
+export const DEFAULT_ROLE_PERMISSIONS = Object.fromEntries(
+  rolesData.map(role => [role.name, role.permissions])
+) as RolePermissions
+
+// Pages that need more than being signed in
+export const PAGE_PERMISSIONS: Partial<Record<string, PermissionId>> = {
+  awareness: 'view_missions',
+  missions: 'view_missions',
+  'plan-mission': 'view_missions', // viewing a route; changing it is checked in the page
+  'mission-types': 'create_missions',
+  'flight-monitor': 'view_missions',
+  approvals: 'approve_missions',
+  audit: 'view_audit_log',
+}
+
+// Lifecycle moves by the permission they need
+export const EVENT_PERMISSIONS: Record<MissionEvent, PermissionId> = {
+  submit: 'edit_missions',
+  approve: 'approve_missions',
+  request_changes: 'approve_missions',
+  reject: 'approve_missions',
+  revise: 'edit_missions',
+  upload: 'execute_missions',
+  start: 'execute_missions',
+  pause: 'execute_missions',
+  resume: 'execute_missions',
+  complete: 'execute_missions',
+  abort: 'execute_missions',
+  fail: 'execute_missions',
+}
+
+export class PermissionDeniedError extends Error {
+  readonly permission: PermissionId
+
+  constructor(permission: PermissionId) {
+    super(`Not permitted: ${PERMISSIONS[permission].name}`)
+    this.name = 'PermissionDeniedError'
+    this.permission = permission
+  }
+}
+
+/**
+ * Tooltip for a control the user may not use
+ */
+export const notPermitted = (permission: PermissionId) =>
+  `Not permitted: your role does not have ${PERMISSIONS[permission].name}`
@@ -0,0 +1,247 @@
+// PMTiles v3 raster basemaps: a single-file archive addressed by Hilbert tile
+// IDs through (optionally compressed) directories, read with byte-range slices
+
+import {
+  parseTileImageFormat,
+  TILE_MIME_TYPES,
+  TileArchive,
+  TileCoord,
+} from '@/lib/tiles'
+
+const HEADER_LENGTH = 127
+const MAX_DIRECTORY_DEPTH = 4
+const DIRECTORY_CACHE_SIZE = 64
+
+// Compression codes from the PMTiles header
+const COMPRESSION_NONE = 1
+const COMPRESSION_GZIP = 2
+
+const PMTILES_TILE_TYPES: Record<number, string> = {
+  1: 'mvt',
+  2: 'png',
+  3: 'jpg',
+  4: 'webp',
+  5: 'avif',
+}
+
+interface PmtilesHeader {
+  rootDirectoryOffset: number
+  rootDirectoryLength: number
+  metadataOffset: number
+  metadataLength: number
+  leafDirectoryOffset: number
+  tileDataOffset: number
+  internalCompression: number
+  tileCompression: number
+  tileType: number
+  minZoom: number
+  maxZoom: number
+  minLon: number
+  minLat: number
+  maxLon: number
+  maxLat: number
+}
+
+interface DirectoryEntry {
+  tileId: number
+  offset: number
+  length: number
+  runLength: number // 0 marks a pointer to a leaf directory
+}
+
+// 64-bit little-endian offsets; archives stay well below 2^53 bytes
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+
+function parseHeader(bytes: Uint8Array): PmtilesHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return {
+    rootDirectoryOffset: readUint64(view, 8),
+    rootDirectoryLength: readUint64(view, 16),
+    metadataOffset: readUint64(view, 24),
+    metadataLength: readUint64(view, 32),
+    leafDirectoryOffset: readUint64(view, 40),
+    tileDataOffset: readUint64(view, 56),
+    internalCompression: bytes[97],
+    tileCompression: bytes[98],
+    tileType: bytes[99],
+    minZoom: bytes[100],
+    maxZoom: bytes[101],
+    minLon: view.getInt32(102, true) / 1e7,
+    minLat: view.getInt32(106, true) / 1e7,
+    maxLon: view.getInt32(110, true) / 1e7,
+    maxLat: view.getInt32(114, true) / 1e7,
+  }
+}
+
+// Unsigned LEB128 varint
+function readVarint(bytes: Uint8Array, cursor: { pos: number }): number {
+  let value = 0
+  let shift = 1
+  for (;;) {
+    const byte = bytes[cursor.pos++]
+    if (byte === undefined) throw new Error('PMTiles directory ended early')
+    value += (byte & 0x7f) * shift
+    if ((byte & 0x80) === 0) return value
+    shift *= 128
+  }
+}
+
+/**
+ * Directory layout: entry count, then tile ID deltas, run lengths, lengths and
+ * offsets as separate varint columns. An offset of 0 means "directly after the
+ * previous entry".
+ */
+export function parseDirectory(bytes: Uint8Array): DirectoryEntry[] {
+  const cursor = { pos: 0 }
+  const count = readVarint(bytes, cursor)
+  const entries: DirectoryEntry[] = []
+
+  let tileId = 0
+  for (let i = 0; i < count; i++) {
+    tileId += readVarint(bytes, cursor)
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 })
+  }
+  entries.forEach(entry => { entry.runLength = readVarint(bytes, cursor) })
+  entries.forEach(entry => { entry.length = readVarint(bytes, cursor) })
+  entries.forEach((entry, i) => {
+    const value = readVarint(bytes, cursor)
+    entry.offset = value === 0 && i > 0
+      ? entries[i - 1].offset + entries[i - 1].length
+      : value - 1
+  })
+  return entries
+}
+
+/**
+ * Hilbert-curve tile ID: tiles of all lower zooms come first, then the
+ * position along the curve within the zoom level
+ */
+export function tileIdFromCoord({ z, x, y }: TileCoord): number {
+  let id = (4 ** z - 1) / 3
+  let px = x
+  let py = y
+  for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+    const rx = (px & s) > 0 ? 1 : 0
+    const ry = (py & s) > 0 ? 1 : 0
+    id += s * s * ((3 * rx) ^ ry)
+    if (ry === 0) {
+      if (rx === 1) {
+        px = s - 1 - px
+        py = s - 1 - py
+      }
+      const swap = px
+      px = py
+      py = swap
+    }
+  }
+  return id
+}
+
+// Entry covering the tile ID: the last entry starting at or before it
+function findEntry(entries: DirectoryEntry[], tileId: number): DirectoryEntry | null {
+  let low = 0
+  let high = entries.length - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (entries[mid].tileId <= tileId) low = mid + 1
+    else high = mid - 1
+  }
+  const entry = entries[high]
+  if (!entry) return null
+  if (entry.runLength === 0) return entry // leaf directory pointer
+  return tileId - entry.tileId < entry.runLength ? entry : null
+}
+
+async function decompress(bytes: Uint8Array, compression: number): Promise<Uint8Array> {
+  if (compression === COMPRESSION_NONE || compression === 0) return bytes
+  if (compression !== COMPRESSION_GZIP) {
+    throw new Error('PMTiles archive uses an unsupported compression (only gzip is supported)')
+  }
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('gzip'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Open a PMTiles v3 file. Throws when the file is not PMTiles or holds vector tiles.
+ */
+export async function openPmtiles(file: Blob, fileName: string): Promise<TileArchive> {
+  const readRange = async (offset: number, length: number) =>
+    new Uint8Array(await file.slice(offset, offset + length).arrayBuffer())
+
+  const headerBytes = await readRange(0, HEADER_LENGTH)
+  if (new TextDecoder().decode(headerBytes.subarray(0, 7)) !== 'PMTiles') {
+    throw new Error(`${fileName} is not a PMTiles file`)
+  }
+  if (headerBytes[7] !== 3) {
+    throw new Error(`${fileName} is PMTiles version ${headerBytes[7]}; only version 3 is supported`)
+  }
+
+  const header = parseHeader(headerBytes)
+  const tileTypeName = PMTILES_TILE_TYPES[header.tileType]
+  const format = parseTileImageFormat(tileTypeName)
+  if (!format) {
+    throw new Error(`${fileName} holds ${tileTypeName || 'unknown'} tiles; only raster (PNG, JPEG, WebP) basemaps are supported`)
+  }
+
+  const readDirectory = async (offset: number, length: number) =>
+    parseDirectory(await decompress(await readRange(offset, length), header.internalCompression))
+
+  const rootDirectory = await readDirectory(header.rootDirectoryOffset, header.rootDirectoryLength)
+
+  let metadata: Record<string, any> = {}
+  if (header.metadataLength > 0) {
+    try {
+      const raw = await decompress(await readRange(header.metadataOffset, header.metadataLength), header.internalCompression)
+      metadata = JSON.parse(new TextDecoder().decode(raw))
+    } catch (error) {
+      console.warn(`Ignoring unreadable PMTiles metadata in ${fileName}:`, error)
+    }
+  }
+
+  // Leaf directories are shared by neighboring tiles; keep recent ones
+  const leafCache = new Map<number, Promise<DirectoryEntry[]>>()
+  const readLeaf = (entry: DirectoryEntry) => {
+    const offset = header.leafDirectoryOffset + entry.offset
+    let leaf = leafCache.get(offset)
+    if (!leaf) {
+      leaf = readDirectory(offset, entry.length)
+      leafCache.set(offset, leaf)
+      if (leafCache.size > DIRECTORY_CACHE_SIZE) leafCache.delete(leafCache.keys().next().value as number)
+    }
+    return leaf
+  }
+
+  const mimeType = TILE_MIME_TYPES[format]
+
+  const getTile = async (tile: TileCoord): Promise<Blob | null> => {
+    if (tile.z < header.minZoom || tile.z > header.maxZoom) return null
+    const tileId = tileIdFromCoord(tile)
+
+    let directory = rootDirectory
+    for (let depth = 0; depth < MAX_DIRECTORY_DEPTH; depth++) {
+      const entry = findEntry(directory, tileId)
+      if (!entry) return null
+      if (entry.runLength > 0) {
+        const data = await readRange(header.tileDataOffset + entry.offset, entry.length)
+        const image = await decompress(data, header.tileCompression)
+        return new Blob([image.slice()], { type: mimeType })
+      }
+      directory = await readLeaf(entry)
+    }
+    throw new Error(`${fileName} has directories nested deeper than ${MAX_DIRECTORY_DEPTH} levels`)
+  }
+
+  return {
+    kind: 'pmtiles',
+    metadata: {
+      name: typeof metadata.name === 'string' ? metadata.name : fileName,
+      format,
+      minZoom: header.minZoom,
+      maxZoom: header.maxZoom,
+      bounds: { south: header.minLat, west: header.minLon, north: header.maxLat, east: header.maxLon },
+      attribution: typeof metadata.attribution === 'string' ? metadata.attribution : undefined,
+    },
+    getTile,
+  }
+}
@@ -0,0 +1,179 @@
+// Pre-flight checklists: what has to be true before a vehicle may arm. Every
+// checklist in preflightChecklistsData that applies to the mission and its
+// vehicle is worked through; automatic items are checked against live
+// telemetry, the rest are signed off by the operator. The completed checklist
+// is stored with the mission by missionService.recordPreflight.
+
+import { PREFLIGHT_CONFIG } from '@/config/missionExecution.config'
+import { preflightChecklistsData, vehiclesData } from '@/lib/data'
+import type { TransitionActor } from '@/lib/missionLifecycle'
+import type { PreflightItemResult, PreflightRecord } from '@/lib/missionSchemas'
+import type { PreflightCheck, PreflightChecklist, PreflightItem, PreflightThresholds, Vehicle } from '@/types'
+import type { TelemetryData } from '@/types/types'
+
+export const PREFLIGHT_CHECKS: PreflightCheck[] = ['gps_fix', 'battery', 'home_position', 'mission_uploaded', 'geofence_clear']
+
+// The checklists that apply to one mission and vehicle, combined
+export interface ResolvedChecklist {
+  ids: string[]
+  names: string[]
+  items: PreflightItem[] // in checklist order; an item in more than one checklist is kept once
+  thresholds: PreflightThresholds
+}
+
+// What the automatic checks are made from
+export interface PreflightInputs {
+  telemetry: TelemetryData | null
+  telemetryReceivedAt: number // epoch milliseconds; the frame's own timestamp is on the vehicle's clock
+  home: { lat: number; lon: number } | null // as the vehicle reports it; null until it has one
+  upload: { sent: number; confirmed: number | null } | null // mission items the mission holds and how many the vehicle reports holding; null until it is uploaded
+  geofenceBreaches: number
+}
+
+// An operator's sign-off of a manual item
+export interface PreflightSignOff {
+  actor: TransitionActor
+  at: string // ISO 8601
+}
+
+// Checks that go stale with the telemetry they read
+const TELEMETRY_CHECKS: PreflightCheck[] = ['gps_fix', 'battery', 'geofence_clear']
+
+const FIX_LABELS: Record<number, string> = { 2: '2D', 3: '3D', 4: 'DGPS', 5: 'RTK float', 6: 'RTK fixed' }
+
+const fixLabel = (fixType: number) => FIX_LABELS[fixType] ?? (fixType > 6 ? `type ${fixType}` : 'no fix')
+
+const applies = (checklist: PreflightChecklist, missionType: string | null | undefined, vehicle: Vehicle | undefined, vehicleId: string | null | undefined) =>
+  (!checklist.missionTypes || (!!missionType && checklist.missionTypes.includes(missionType))) &&
+  (!checklist.airframes || (!!vehicle && checklist.airframes.includes(vehicle.profile.airframe))) &&
+  (!checklist.vehicleIds || (!!vehicleId && checklist.vehicleIds.includes(vehicleId)))
+
+/**
+ * Combine the checklists that apply to a mission of `missionType` flown by
+ * vehicle `vehicleId`. Thresholds are the strictest any of them asks for,
+ * and never looser than PREFLIGHT_CONFIG.
+ */
+export function checklistFor(
+  missionType: string | null | undefined,
+  vehicleId: string | null | undefined,
+  checklists: PreflightChecklist[] = preflightChecklistsData,
+  vehicles: Vehicle[] = vehiclesData
+): ResolvedChecklist {
+  const vehicle = vehicles.find(candidate => candidate.id === vehicleId)
+  const applicable = checklists.filter(checklist => applies(checklist, missionType, vehicle, vehicleId))
+
+  const items: PreflightItem[] = []
+  const seen = new Set<string>()
+  const thresholds: PreflightThresholds = {
+    minGpsFixType: PREFLIGHT_CONFIG.minGpsFixType,
+    minSatellites: PREFLIGHT_CONFIG.minSatellites,
+    minBattery: PREFLIGHT_CONFIG.minBattery,
+  }
+  for (const checklist of applicable) {
+    for (const item of checklist.items) {
+      if (seen.has(item.id)) continue
+      seen.add(item.id)
+      items.push(item)
+    }
+    const tighter = checklist.thresholds ?? {}
+    thresholds.minGpsFixType = Math.max(thresholds.minGpsFixType, tighter.minGpsFixType ?? 0)
+    thresholds.minSatellites = Math.max(thresholds.minSatellites, tighter.minSatellites ?? 0)
+    thresholds.minBattery = Math.max(thresholds.minBattery, tighter.minBattery ?? 0)
+  }
+  return {
+    ids: applicable.map(checklist => checklist.id),
+    names: applicable.map(checklist => checklist.name),
+    items,
+    thresholds,
+  }
+}
+
+// Whether one automatic check passes, and what it saw
+function runCheck(check: PreflightCheck, inputs: PreflightInputs, thresholds: PreflightThresholds): { passed: boolean; detail: string } {
+  const { telemetry } = inputs
+  switch (check) {
+    case 'gps_fix': {
+      if (!telemetry?.gps) return { passed: false, detail: 'No GPS data' }
+      const { fix_type, satellites } = telemetry.gps
+      const detail = `${fixLabel(fix_type)}, ${satellites} satellites`
+      if (fix_type < thresholds.minGpsFixType) return { passed: false, detail: `${detail}; needs ${fixLabel(thresholds.minGpsFixType)} or better` }
+      if (satellites < thresholds.minSatellites) return { passed: false, detail: `${detail}; needs ${thresholds.minSatellites}` }
+      return { passed: true, detail }
+    }
+    case 'battery': {
+      if (!telemetry?.battery) return { passed: false, detail: 'No battery data' }
+      const remaining = Math.round(telemetry.battery.remaining)
+      return remaining >= thresholds.minBattery
+        ? { passed: true, detail: `${remaining}%` }
+        : { passed: false, detail: `${remaining}%; needs ${thresholds.minBattery}%` }
+    }
+    case 'home_position':
+      return inputs.home
+        ? { passed: true, detail: `${inputs.home.lat.toFixed(6)}, ${inputs.home.lon.toFixed(6)}` }
+        : { passed: false, detail: 'The vehicle has not set a home position' }
+    case 'mission_uploaded': {
+      const { upload } = inputs
+      if (!upload) return { passed: false, detail: 'Not uploaded' }
+      if (upload.confirmed === null) return { passed: false, detail: 'The vehicle did not confirm the upload' }
+      return upload.confirmed === upload.sent
+        ? { passed: true, detail: `${upload.confirmed} mission items on the vehicle` }
+        : { passed: false, detail: `The vehicle took ${upload.confirmed} of ${upload.sent} mission items` }
+    }
+    case 'geofence_clear':
+      return inputs.geofenceBreaches === 0
+        ? { passed: true, detail: 'No violations' }
+        : { passed: false, detail: `Breaching ${inputs.geofenceBreaches} geofence${inputs.geofenceBreaches === 1 ? '' : 's'}` }
+  }
+}
+
+/**
+ * Work through `checklist` now. Checks that read telemetry fail while it is
+ * missing or older than PREFLIGHT_CONFIG.telemetryMaxAge; manual items pass
+ * once they have been signed off.
+ */
+export function evaluatePreflight(
+  checklist: ResolvedChecklist,
+  inputs: PreflightInputs,
+  signOffs: Record<string, PreflightSignOff>,
+  now = Date.now()
+): PreflightItemResult[] {
+  const stale = !inputs.telemetry || now - inputs.telemetryReceivedAt > PREFLIGHT_CONFIG.telemetryMaxAge
+  return checklist.items.map(item => {
+    if (item.check) {
+      const result = stale && TELEMETRY_CHECKS.includes(item.check)
+        ? { passed: false, detail: 'No recent telemetry' }
+        : runCheck(item.check, inputs, checklist.thresholds)
+      return { id: item.id, label: item.label, check: item.check, ...result }
+    }
+    const signOff = signOffs[item.id]
+    return signOff
+      ? { id: item.id, label: item.label, passed: true, signed_by: signOff.actor.name, signed_by_id: signOff.actor.id, signed_at: signOff.at }
+      : { id: item.id, label: item.label, passed: false, detail: 'Not signed off' }
+  })
+}
+
+/**
+ * The first item holding the vehicle on the ground, or null when every item passes
+ */
+export const preflightBlocker = (results: PreflightItemResult[]): PreflightItemResult | null =>
+  results.find(result => !result.passed) ?? null
+
+/**
+ * The completed checklist, as stored with the mission
+ */
+export function preflightRecord(
+  checklist: ResolvedChecklist,
+  results: PreflightItemResult[],
+  completedBy: TransitionActor,
+  vehicleId?: string | null
+): PreflightRecord {
+  return {
+    checklists: checklist.ids,
+    vehicle_id: vehicleId ?? undefined,
+    completed_at: new Date().toISOString(),
+    completed_by: completedBy.name,
+    completed_by_id: completedBy.id,
+    role: completedBy.role,
+    items: results,
+  }
+}
@@ -0,0 +1,275 @@
+// Minimal runtime schemas: one definition gives a TypeScript type (Infer), a
+// parser that rejects data of the wrong shape with the path to the problem,
+// and a deterministic mock value for tests and offline development
+
+export interface Schema<T> {
+  readonly expected: string // e.g. 'string', used in error messages
+  parse(value: unknown, path?: string): T
+  mock(seed: number, path: string): T
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Fields = Record<string, Schema<unknown>>
+type OptionalKeys<F extends Fields> = { [K in keyof F]: F[K] extends OptionalSchema<unknown> ? K : never }[keyof F]
+type RequiredKeys<F extends Fields> = Exclude<keyof F, OptionalKeys<F>>
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+export type ObjectOutput<F extends Fields> = Simplify<
+  { [K in RequiredKeys<F>]: Infer<F[K]> } & { [K in OptionalKeys<F>]?: Infer<F[K]> }
+>
+
+export class SchemaError extends Error {
+  readonly path: string
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(value)}`)
+    this.name = 'SchemaError'
+    this.path = path
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return typeof value
+}
+
+// Last key of a path, e.g. 'mission_name' from 'response.missions[0].mission_name'
+const keyOf = (path: string) => path.replace(/\[\d+\]$/, '').split('.').pop() || 'value'
+
+function schema<T>(expected: string, parse: (value: unknown, path: string) => T, mock: Schema<T>['mock']): Schema<T> {
+  return { expected, parse: (value, path = 'value') => parse(value, path), mock }
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+export const string = (): Schema<string> => schema(
+  'string',
+  (value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'string', value)
+    return value
+  },
+  (seed, path) => `${keyOf(path)} ${seed}`
+)
+
+/**
+ * ISO 8601 date-time string, e.g. '2024-05-01T10:00:00Z'
+ */
+export const datetime = (): Schema<string> => schema(
+  'date-time string',
+  (value, path) => {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      throw new SchemaError(path, 'date-time string', value)
+    }
+    return value
+  },
+  seed => new Date(Date.UTC(2024, 0, 1 + seed, 9)).toISOString()
+)
+
+/**
+ * Finite number, optionally limited to [min, max]
+ */
+export const number = ({ min, max }: { min?: number; max?: number } = {}): Schema<number> => {
+  const expected = min !== undefined && max !== undefined ? `number from ${min} to ${max}`
+    : min !== undefined ? `number >= ${min}`
+      : max !== undefined ? `number <= ${max}`
+        : 'number'
+  return schema(
+    expected,
+    (value, path) => {
+      if (typeof value !== 'number' || !Number.isFinite(value) ||
+        (min !== undefined && value < min) || (max !== undefined && value > max)) {
+        throw new SchemaError(path, expected, value)
+      }
+      return value
+    },
+    seed => {
+      const low = min ?? 0
+      const span = (max ?? low + 100) - low
+      return low + ((seed * 7.3) % span)
+    }
+  )
+}
+
+export const integer = (): Schema<number> => schema(
+  'integer',
+  (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) throw new SchemaError(path, 'integer', value)
+    return value
+  },
+  seed => seed
+)
+
+export const boolean = (): Schema<boolean> => schema(
+  'boolean',
+  (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value)
+    return value
+  },
+  seed => seed % 2 === 0
+)
+
+/**
+ * One of a fixed set of strings
+ */
+export const enumOf = <T extends string>(values: readonly T[]): Schema<T> => {
+  const expected = values.map(v => `"${v}"`).join(' | ')
+  return schema(
+    expected,
+    (value, path) => {
+      if (!values.includes(value as T)) throw new SchemaError(path, expected, value)
+      return value as T
+    },
+    seed => values[seed % values.length]
+  )
+}
+
+/**
+ * Any value, left for the caller to interpret
+ */
+export const unknown = (): Schema<unknown> => schema('any value', value => value, () => null)
+
+/**
+ * Values checked by a type guard, for shapes defined elsewhere
+ */
+export const custom = <T>(expected: string, guard: (value: unknown) => value is T, example: T): Schema<T> => schema(
+  expected,
+  (value, path) => {
+    if (!guard(value)) throw new SchemaError(path, expected, value)
+    return value
+  },
+  () => example
+)
+
+// ============================================================================
+// Combinators
+// ============================================================================
+
+/**
+ * Parse with `inner`, then convert the result, e.g. to read legacy spellings.
+ * `convert` throws SchemaError for values it cannot read.
+ */
+export const transform = <T, U>(
+  inner: Schema<T>,
+  convert: (value: T, path: string) => U,
+  expected: string = inner.expected
+): Schema<U> => schema(
+  expected,
+  (value, path) => convert(inner.parse(value, path), path),
+  (seed, path) => convert(inner.mock(seed, path), path)
+)
+
+/**
+ * Missing (undefined) is allowed; as an object field the key becomes optional
+ */
+export const optional = <T>(inner: Schema<T>): OptionalSchema<T> => ({
+  expected: `${inner.expected} or nothing`,
+  optional: true,
+  parse: (value, path = 'value') => (value === undefined ? undefined : inner.parse(value, path)),
+  mock: (seed, path) => inner.mock(seed, path),
+})
+
+/**
+ * Missing or null, both read as missing. FastAPI sends unset Optional fields
+ * as null; use this for response fields where null carries no meaning.
+ */
+export const maybe = <T>(inner: Schema<T>): OptionalSchema<T> => ({
+  expected: `${inner.expected} or nothing`,
+  optional: true,
+  parse: (value, path = 'value') => (value === undefined || value === null ? undefined : inner.parse(value, path)),
+  mock: (seed, path) => inner.mock(seed, path),
+})
+
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> => schema(
+  `${inner.expected} or null`,
+  (value, path) => (value === null ? null : inner.parse(value, path)),
+  (seed, path) => inner.mock(seed, path)
+)
+
+export const union = <T extends Schema<unknown>[]>(...options: T): Schema<Infer<T[number]>> => {
+  const expected = options.map(option => option.expected).join(' or ')
+  return schema(
+    expected,
+    (value, path) => {
+      for (const option of options) {
+        try {
+          return option.parse(value, path) as Infer<T[number]>
+        } catch (error) {
+          if (!(error instanceof SchemaError)) throw error
+        }
+      }
+      throw new SchemaError(path, expected, value)
+    },
+    (seed, path) => options[0].mock(seed, path) as Infer<T[number]>
+  )
+}
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => schema(
+  `array of ${item.expected}`,
+  (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, `array of ${item.expected}`, value)
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`))
+  },
+  // Two entries, so list handling gets exercised
+  (seed, path) => [item.mock(seed, `${path}[0]`), item.mock(seed + 1, `${path}[1]`)]
+)
+
+/**
+ * String-keyed map with values of one schema
+ */
+export const record = <T>(values: Schema<T>): Schema<Record<string, T>> => schema(
+  `object of ${values.expected}`,
+  (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, `object of ${values.expected}`, value)
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, values.parse(entry, `${path}.${key}`)]))
+  },
+  () => ({})
+)
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Object with the given fields. Keys not listed are kept as they are, so the
+ * backend can add fields without breaking older clients.
+ */
+export const object = <F extends Fields>(fields: F): Schema<ObjectOutput<F>> => schema(
+  'object',
+  (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, 'object', value)
+    const result: Record<string, unknown> = { ...value }
+    for (const [key, field] of Object.entries(fields)) {
+      const parsed = field.parse(value[key], `${path}.${key}`)
+      if (parsed === undefined) delete result[key]
+      else result[key] = parsed
+    }
+    return result as ObjectOutput<F>
+  },
+  (seed, path) => Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [key, field.mock(seed, `${path}.${key}`)])
+  ) as ObjectOutput<F>
+)
+
+/**
+ * Object fields with every one made optional, e.g. for PATCH-style updates
+ */
+export const partial = <F extends Fields>(fields: F): { [K in keyof F]: OptionalSchema<Infer<F[K]>> } =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [key, optional(field)])
+  ) as { [K in keyof F]: OptionalSchema<Infer<F[K]>> }
+
+/**
+ * Deterministic example value for a schema; the same seed gives the same value
+ */
+export function generateMock<T>(target: Schema<T>, seed = 1): T {
+  return target.mock(seed, 'mock')
+}
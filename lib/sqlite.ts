@@ -0,0 +1,405 @@
+// Minimal read-only SQLite reader: enough of the file format to look up rows
+// in rowid tables and their indexes straight from a Blob, reading pages on
+// demand so multi-gigabyte files never have to fit in memory
+
+const SQLITE_MAGIC = 'SQLite format 3\u0000'
+const PAGE_CACHE_SIZE = 256
+
+const PAGE_INTERIOR_INDEX = 2
+const PAGE_INTERIOR_TABLE = 5
+const PAGE_LEAF_INDEX = 10
+const PAGE_LEAF_TABLE = 13
+
+export type SqlValue = number | string | Uint8Array | null
+
+export interface SqliteSchemaEntry {
+  type: string // 'table' | 'index' | 'view' | 'trigger'
+  name: string
+  tableName: string
+  rootPage: number
+  sql: string | null
+}
+
+export interface SqliteRow {
+  rowid: number
+  values: SqlValue[]
+}
+
+interface BTreePage {
+  type: number
+  data: DataView
+  bytes: Uint8Array
+  cellOffsets: number[]
+  rightPointer: number
+}
+
+const textDecoder = new TextDecoder('utf-8')
+
+// SQLite varints are big-endian, 7 bits per byte, with a full 8-bit ninth byte
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i]
+    value = value * 128 + (byte & 0x7f)
+    if ((byte & 0x80) === 0) return [value, i + 1]
+  }
+  return [value * 256 + bytes[offset + 8], 9]
+}
+
+function readSignedInt(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i]
+  // Two's complement for negative values
+  return bytes[offset] & 0x80 ? value - 2 ** (length * 8) : value
+}
+
+/**
+ * Decode a record (header of serial types followed by the values)
+ */
+export function decodeRecord(payload: Uint8Array): SqlValue[] {
+  const [headerSize, headerVarintLength] = readVarint(payload, 0)
+  const types: number[] = []
+  let cursor = headerVarintLength
+  while (cursor < headerSize) {
+    const [type, length] = readVarint(payload, cursor)
+    types.push(type)
+    cursor += length
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+  let offset = headerSize
+  return types.map(type => {
+    switch (type) {
+      case 0: return null
+      case 1: offset += 1; return readSignedInt(payload, offset - 1, 1)
+      case 2: offset += 2; return readSignedInt(payload, offset - 2, 2)
+      case 3: offset += 3; return readSignedInt(payload, offset - 3, 3)
+      case 4: offset += 4; return readSignedInt(payload, offset - 4, 4)
+      case 5: offset += 6; return readSignedInt(payload, offset - 6, 6)
+      case 6: offset += 8; return readSignedInt(payload, offset - 8, 8)
+      case 7: offset += 8; return view.getFloat64(offset - 8)
+      case 8: return 0
+      case 9: return 1
+      default: {
+        if (type < 12) throw new Error(`Unsupported SQLite serial type ${type}`)
+        const length = type % 2 === 0 ? (type - 12) / 2 : (type - 13) / 2
+        const value = payload.subarray(offset, offset + length)
+        offset += length
+        return type % 2 === 0 ? value : textDecoder.decode(value)
+      }
+    }
+  })
+}
+
+const typeRank = (value: SqlValue) =>
+  value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3
+
+/**
+ * Compare two values with SQLite's default ordering and BINARY collation
+ */
+export function compareValues(a: SqlValue, b: SqlValue): number {
+  const rank = typeRank(a) - typeRank(b)
+  if (rank !== 0) return rank
+  if (a === null || b === null) return 0
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0
+
+  const x = a as Uint8Array
+  const y = b as Uint8Array
+  for (let i = 0; i < Math.min(x.length, y.length); i++) {
+    if (x[i] !== y[i]) return x[i] - y[i]
+  }
+  return x.length - y.length
+}
+
+// Compare a search key against the leading columns of an index record
+const compareKey = (key: SqlValue[], record: SqlValue[]) => {
+  for (let i = 0; i < key.length; i++) {
+    const order = compareValues(key[i], record[i])
+    if (order !== 0) return order
+  }
+  return 0
+}
+
+export class SqliteReader {
+  private pageCache: Map<number, Uint8Array> = new Map()
+
+  private constructor(
+    private readonly file: Blob,
+    readonly pageSize: number,
+    private readonly usableSize: number
+  ) {}
+
+  /**
+   * Open a database file; throws when it is not a UTF-8 SQLite 3 database
+   */
+  static async open(file: Blob): Promise<SqliteReader> {
+    const header = new Uint8Array(await file.slice(0, 100).arrayBuffer())
+    if (header.length < 100 || textDecoder.decode(header.subarray(0, 16)) !== SQLITE_MAGIC) {
+      throw new Error('Not a SQLite database')
+    }
+
+    const view = new DataView(header.buffer)
+    const rawPageSize = view.getUint16(16)
+    const pageSize = rawPageSize === 1 ? 65536 : rawPageSize
+    const reserved = header[20]
+    const encoding = view.getUint32(56)
+    if (encoding !== 0 && encoding !== 1) {
+      throw new Error('Only UTF-8 SQLite databases are supported')
+    }
+
+    return new SqliteReader(file, pageSize, pageSize - reserved)
+  }
+
+  private async readPage(pageNumber: number): Promise<Uint8Array> {
+    const cached = this.pageCache.get(pageNumber)
+    if (cached) {
+      // Refresh its position so the cache evicts least recently used pages
+      this.pageCache.delete(pageNumber)
+      this.pageCache.set(pageNumber, cached)
+      return cached
+    }
+
+    const start = (pageNumber - 1) * this.pageSize
+    const bytes = new Uint8Array(await this.file.slice(start, start + this.pageSize).arrayBuffer())
+    if (bytes.length < this.pageSize) throw new Error(`SQLite page ${pageNumber} is past the end of the file`)
+
+    this.pageCache.set(pageNumber, bytes)
+    if (this.pageCache.size > PAGE_CACHE_SIZE) {
+      this.pageCache.delete(this.pageCache.keys().next().value as number)
+    }
+    return bytes
+  }
+
+  private async readBTreePage(pageNumber: number): Promise<BTreePage> {
+    const bytes = await this.readPage(pageNumber)
+    const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const headerStart = pageNumber === 1 ? 100 : 0 // page 1 carries the file header
+
+    const type = bytes[headerStart]
+    if (![PAGE_INTERIOR_INDEX, PAGE_INTERIOR_TABLE, PAGE_LEAF_INDEX, PAGE_LEAF_TABLE].includes(type)) {
+      throw new Error(`SQLite page ${pageNumber} is not a b-tree page`)
+    }
+
+    const interior = type === PAGE_INTERIOR_INDEX || type === PAGE_INTERIOR_TABLE
+    const cellCount = data.getUint16(headerStart + 3)
+    const pointerStart = headerStart + (interior ? 12 : 8)
+    const cellOffsets = Array.from({ length: cellCount }, (_, i) => data.getUint16(pointerStart + i * 2))
+
+    return {
+      type,
+      data,
+      bytes,
+      cellOffsets,
+      rightPointer: interior ? data.getUint32(headerStart + 8) : 0,
+    }
+  }
+
+  /**
+   * Read a cell payload, following overflow pages when it does not fit
+   */
+  private async readPayload(page: BTreePage, offset: number, size: number, isTable: boolean): Promise<Uint8Array> {
+    const usable = this.usableSize
+    const maxLocal = isTable ? usable - 35 : Math.floor(((usable - 12) * 64) / 255) - 23
+    if (size <= maxLocal) return page.bytes.subarray(offset, offset + size)
+
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23
+    const k = minLocal + ((size - minLocal) % (usable - 4))
+    const local = k <= maxLocal ? k : minLocal
+
+    const payload = new Uint8Array(size)
+    payload.set(page.bytes.subarray(offset, offset + local))
+    let written = local
+    let overflowPage = page.data.getUint32(offset + local)
+
+    while (written < size && overflowPage !== 0) {
+      const overflow = await this.readPage(overflowPage)
+      const chunk = Math.min(size - written, usable - 4)
+      payload.set(overflow.subarray(4, 4 + chunk), written)
+      written += chunk
+      overflowPage = new DataView(overflow.buffer, overflow.byteOffset).getUint32(0)
+    }
+    if (written < size) throw new Error('SQLite overflow chain ended early')
+    return payload
+  }
+
+  // Table leaf cell: payload size, rowid, payload
+  private async readTableLeafCell(page: BTreePage, cellOffset: number): Promise<SqliteRow> {
+    const [size, sizeLength] = readVarint(page.bytes, cellOffset)
+    const [rowid, rowidLength] = readVarint(page.bytes, cellOffset + sizeLength)
+    const payload = await this.readPayload(page, cellOffset + sizeLength + rowidLength, size, true)
+    return { rowid, values: decodeRecord(payload) }
+  }
+
+  // Index cell (leaf or interior, after the child pointer): payload size, payload
+  private async readIndexCell(page: BTreePage, cellOffset: number): Promise<SqlValue[]> {
+    const [size, sizeLength] = readVarint(page.bytes, cellOffset)
+    return decodeRecord(await this.readPayload(page, cellOffset + sizeLength, size, false))
+  }
+
+  /**
+   * Iterate every row of a rowid table in rowid order
+   */
+  async *scanTable(rootPage: number): AsyncGenerator<SqliteRow> {
+    const page = await this.readBTreePage(rootPage)
+
+    if (page.type === PAGE_LEAF_TABLE) {
+      for (const cellOffset of page.cellOffsets) {
+        yield await this.readTableLeafCell(page, cellOffset)
+      }
+      return
+    }
+    if (page.type !== PAGE_INTERIOR_TABLE) throw new Error(`SQLite page ${rootPage} is not a table page`)
+
+    for (const cellOffset of page.cellOffsets) {
+      yield* this.scanTable(page.data.getUint32(cellOffset))
+    }
+    yield* this.scanTable(page.rightPointer)
+  }
+
+  /**
+   * Look up a single row of a rowid table
+   */
+  async findRow(rootPage: number, rowid: number): Promise<SqliteRow | null> {
+    let page = await this.readBTreePage(rootPage)
+
+    while (page.type === PAGE_INTERIOR_TABLE) {
+      // Each cell's key is the largest rowid in its left subtree
+      let child = page.rightPointer
+      for (const cellOffset of page.cellOffsets) {
+        const [key] = readVarint(page.bytes, cellOffset + 4)
+        if (rowid <= key) {
+          child = page.data.getUint32(cellOffset)
+          break
+        }
+      }
+      page = await this.readBTreePage(child)
+    }
+    if (page.type !== PAGE_LEAF_TABLE) throw new Error(`SQLite page ${rootPage} is not a table page`)
+
+    for (const cellOffset of page.cellOffsets) {
+      const [, sizeLength] = readVarint(page.bytes, cellOffset)
+      const [key] = readVarint(page.bytes, cellOffset + sizeLength)
+      if (key === rowid) return this.readTableLeafCell(page, cellOffset)
+      if (key > rowid) break
+    }
+    return null
+  }
+
+  /**
+   * Find an index entry whose leading columns equal `key`; meant for unique
+   * indexes. The entry's last value is the rowid of the indexed row.
+   */
+  async findIndexEntry(rootPage: number, key: SqlValue[]): Promise<SqlValue[] | null> {
+    let page = await this.readBTreePage(rootPage)
+
+    while (page.type === PAGE_INTERIOR_INDEX) {
+      // Interior index cells hold real entries, not copies of leaf entries
+      let child = page.rightPointer
+      for (const cellOffset of page.cellOffsets) {
+        const record = await this.readIndexCell(page, cellOffset + 4)
+        const order = compareKey(key, record)
+        if (order === 0) return record
+        if (order < 0) {
+          child = page.data.getUint32(cellOffset)
+          break
+        }
+      }
+      page = await this.readBTreePage(child)
+    }
+    if (page.type !== PAGE_LEAF_INDEX) throw new Error(`SQLite page ${rootPage} is not an index page`)
+
+    for (const cellOffset of page.cellOffsets) {
+      const record = await this.readIndexCell(page, cellOffset)
+      const order = compareKey(key, record)
+      if (order === 0) return record
+      if (order < 0) break
+    }
+    return null
+  }
+
+  /**
+   * Read sqlite_master, which is always rooted at page 1
+   */
+  async readSchema(): Promise<SqliteSchemaEntry[]> {
+    const entries: SqliteSchemaEntry[] = []
+    for await (const { values } of this.scanTable(1)) {
+      const [type, name, tableName, rootPage, sql] = values
+      entries.push({
+        type: String(type),
+        name: String(name),
+        tableName: String(tableName),
+        rootPage: Number(rootPage),
+        sql: typeof sql === 'string' ? sql : null,
+      })
+    }
+    return entries
+  }
+}
+
+// ============================================================================
+// Schema SQL helpers
+// ============================================================================
+
+const unquote = (name: string) => name.trim().replace(/^["'`[]|["'`\]]$/g, '').toLowerCase()
+
+// Split a parenthesized definition list on top-level commas
+function splitDefinitions(sql: string): string[] {
+  const start = sql.indexOf('(')
+  const end = sql.lastIndexOf(')')
+  if (start === -1 || end <= start) return []
+
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of sql.slice(start + 1, end)) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+export interface TableColumns {
+  names: string[] // lower-case column names in record order
+  rowidAlias: number // index of an INTEGER PRIMARY KEY column, -1 if none
+  uniqueKeys: string[][] // column lists of table-level UNIQUE / PRIMARY KEY constraints
+}
+
+/**
+ * Column layout of a table from its CREATE TABLE statement
+ */
+export function parseTableColumns(sql: string): TableColumns {
+  const names: string[] = []
+  const uniqueKeys: string[][] = []
+  let rowidAlias = -1
+
+  splitDefinitions(sql).forEach(definition => {
+    const constraint = definition.match(/^(?:CONSTRAINT\s+\S+\s+)?(UNIQUE|PRIMARY\s+KEY)\s*\(([^)]*)\)/i)
+    if (constraint) {
+      uniqueKeys.push(constraint[2].split(',').map(unquote))
+      return
+    }
+    if (/^(CONSTRAINT|CHECK|FOREIGN)\b/i.test(definition)) return
+
+    const name = definition.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)/)
+    if (!name) return
+    if (/^\S+\s+INTEGER\s+PRIMARY\s+KEY/i.test(definition)) rowidAlias = names.length
+    names.push(unquote(name[1]))
+  })
+
+  return { names, rowidAlias, uniqueKeys }
+}
+
+/**
+ * Indexed column names from a CREATE INDEX statement
+ */
+export function parseIndexColumns(sql: string): string[] {
+  return splitDefinitions(sql).map(column => unquote(column.split(/\s+/)[0]))
+}
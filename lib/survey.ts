@@ -0,0 +1,155 @@
+// Area survey: lawnmower (boustrophedon) waypoint grids covering a polygon
+
+import type { GeoPoint } from '@/types/types'
+
+const EARTH_RADIUS = 6371e3 // meters
+const MAX_SURVEY_LINES = 200
+
+export interface SurveySettings {
+  lineSpacing: number // meters between adjacent passes
+  heading: number // degrees from north that passes are flown along
+  altitude: number // meters above home
+}
+
+export interface SurveyGrid {
+  waypoints: GeoPoint[]
+  lineCount: number
+}
+
+interface LocalPoint {
+  x: number // meters east of the origin
+  y: number // meters north of the origin
+}
+
+/**
+ * Spacing between passes for a camera whose ground footprint is `footprintWidth`
+ * meters across-track, keeping `sidelap` percent overlap between images
+ */
+export function lineSpacingFromFootprint(footprintWidth: number, sidelap: number): number {
+  return footprintWidth * (1 - Math.min(Math.max(sidelap, 0), 95) / 100)
+}
+
+// Equirectangular projection around the polygon; survey areas are small enough
+function toLocal(origin: GeoPoint) {
+  const scale = (Math.PI / 180) * EARTH_RADIUS
+  const cosLat = Math.cos((origin.lat * Math.PI) / 180)
+  return {
+    project: (p: GeoPoint): LocalPoint => ({
+      x: (p.lon - origin.lon) * scale * cosLat,
+      y: (p.lat - origin.lat) * scale,
+    }),
+    unproject: (p: LocalPoint): GeoPoint => ({
+      lat: origin.lat + p.y / scale,
+      lon: origin.lon + p.x / (scale * cosLat),
+    }),
+  }
+}
+
+/**
+ * Area of a polygon in square meters
+ */
+export function polygonArea(area: GeoPoint[]): number {
+  if (area.length < 3) return 0
+  const { project } = toLocal(area[0])
+  const points = area.map(project)
+  let sum = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    sum += points[j].x * points[i].y - points[i].x * points[j].y
+  }
+  return Math.abs(sum) / 2
+}
+
+/**
+ * Generate a grid of passes across the polygon, flown along `heading` and
+ * alternating direction so each pass starts where the previous one ended.
+ * On concave areas a pass that crosses a gap is flown straight across it.
+ */
+export function generateSurveyGrid(area: GeoPoint[], settings: SurveySettings): SurveyGrid {
+  if (area.length < 3) {
+    throw new Error('Survey area needs at least 3 vertices')
+  }
+  if (!(settings.lineSpacing > 0)) {
+    throw new Error('Line spacing must be greater than 0')
+  }
+
+  const origin = {
+    lat: area.reduce((sum, p) => sum + p.lat, 0) / area.length,
+    lon: area.reduce((sum, p) => sum + p.lon, 0) / area.length,
+  }
+  const { project, unproject } = toLocal(origin)
+
+  // Along-track (w) and across-track (u) axes for the chosen heading
+  const rad = (settings.heading * Math.PI) / 180
+  const along = { x: Math.sin(rad), y: Math.cos(rad) }
+  const across = { x: Math.cos(rad), y: -Math.sin(rad) }
+
+  const vertices = area.map(project).map(p => ({
+    u: p.x * across.x + p.y * across.y,
+    w: p.x * along.x + p.y * along.y,
+  }))
+
+  const minU = Math.min(...vertices.map(v => v.u))
+  const maxU = Math.max(...vertices.map(v => v.u))
+  const lineCount = Math.floor((maxU - minU) / settings.lineSpacing) + 1
+
+  if (lineCount > MAX_SURVEY_LINES) {
+    throw new Error(`Line spacing is too small for this area (${lineCount} passes, max ${MAX_SURVEY_LINES})`)
+  }
+
+  // Center the passes so the margin is equal on both sides
+  const offset = (maxU - minU - (lineCount - 1) * settings.lineSpacing) / 2
+  const waypoints: GeoPoint[] = []
+  let flown = 0
+
+  for (let line = 0; line < lineCount; line++) {
+    const u = minU + offset + line * settings.lineSpacing
+
+    const crossings: number[] = []
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[j]
+      const b = vertices[i]
+      if (a.u <= u === b.u <= u) continue
+      crossings.push(a.w + ((u - a.u) / (b.u - a.u)) * (b.w - a.w))
+    }
+    if (crossings.length < 2) continue
+
+    crossings.sort((a, b) => a - b)
+    const pass = flown % 2 === 0 ? crossings : crossings.reverse()
+    flown++
+
+    pass.forEach(w => {
+      waypoints.push(unproject({
+        x: u * across.x + w * along.x,
+        y: u * across.y + w * along.y,
+      }))
+    })
+  }
+
+  return { waypoints, lineCount: flown }
+}
+
+export interface StoredSurvey {
+  area: GeoPoint[]
+  line_spacing: number
+  heading: number
+  altitude: number
+}
+
+/**
+ * Read the survey stored with a mission; null when absent or malformed
+ */
+export function parseSurvey(raw: any): StoredSurvey | null {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.area)) return null
+
+  const area: GeoPoint[] = raw.area.filter(
+    (p: any) => p && Number.isFinite(p.lat) && Number.isFinite(p.lon)
+  )
+  if (area.length < 3) return null
+
+  const line_spacing = Number(raw.line_spacing)
+  const heading = Number(raw.heading)
+  const altitude = Number(raw.altitude)
+  if (![line_spacing, heading, altitude].every(Number.isFinite)) return null
+
+  return { area, line_spacing, heading, altitude }
+}
@@ -0,0 +1,409 @@
+// Telemetry adapters: convert each backend's message shape into the canonical
+// TelemetryData model, validating every field on the way
+
+import {
+  TelemetryData,
+  TelemetrySource,
+  TelemetryPosition,
+  TelemetryVelocity,
+  TelemetryAttitude,
+  TelemetryBattery,
+  TelemetryGPS,
+  TelemetryValidationError,
+} from '@/types/types'
+
+// ============================================================================
+// Wire formats
+// ============================================================================
+
+// Flight control FastAPI backend (/telemetry, /ws/telemetry)
+export interface FastApiTelemetryMessage {
+  timestamp?: number | string
+  position?: { lat: number; lon: number; alt: number; relative_alt?: number }
+  current_position?: { lat: number; lon: number; alt: number }
+  velocity?: { vx: number; vy: number; vz: number; ground_speed?: number }
+  attitude?: { roll: number; pitch: number; yaw: number }
+  battery?: { voltage?: number; current?: number; remaining: number }
+  gps?: { satellites: number; fix_type: number; hdop?: number }
+  armed?: boolean
+  flying?: boolean
+  mode?: string
+  flight_mode?: string
+  mission_current?: number
+  mission_count?: number
+}
+
+// PX4/MAVSDK bridge: flat fields, altitude in meters AMSL
+export interface Px4BridgeTelemetryMessage {
+  timestamp?: string | number
+  armed?: boolean
+  mode?: string
+  latitude: number
+  longitude: number
+  altitude: number
+  relative_altitude?: number
+  heading?: number
+  roll?: number
+  pitch?: number
+  yaw?: number
+  ground_speed?: number
+  air_speed?: number
+  climb_rate?: number
+  battery_voltage?: number
+  battery_current?: number
+  battery_remaining?: number
+  gps_fix?: number
+  satellites_visible?: number
+  mission_current?: number
+  mission_count?: number
+}
+
+// Multi-vehicle simulator
+export interface SimulatorTelemetryMessage {
+  timestamp?: number | string
+  vehicle_id: string
+  position?: { lat: number; lon: number; alt: number; relative_alt?: number }
+  velocity?: { vx: number; vy: number; vz: number; ground_speed?: number }
+  attitude?: { roll: number; pitch: number; yaw: number }
+  battery?: { voltage?: number; current?: number; remaining?: number; level?: number }
+  gps?: { satellites: number; fix_type: number; hdop?: number; eph?: number; epv?: number }
+  status?: { armed?: boolean; mode?: string; system_status?: string }
+  mission?: { current_waypoint?: number; total_waypoints?: number; distance_to_waypoint?: number }
+}
+
+// ============================================================================
+// Validation helpers
+// ============================================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isPresent = (value: unknown): boolean => value !== undefined && value !== null
+
+const normalizeHeading = (deg: number): number => ((deg % 360) + 360) % 360
+
+/**
+ * Collects every problem in a frame so a rejection explains all of them at once.
+ * Zero is a valid value everywhere: fields are only "missing" when absent.
+ */
+class FrameReader {
+  issues: string[] = []
+
+  number(value: unknown, path: string, required = false): number | undefined {
+    if (!isPresent(value)) {
+      if (required) this.issues.push(`${path} is missing`)
+      return undefined
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.issues.push(`${path} is not a finite number (got ${JSON.stringify(value)})`)
+      return undefined
+    }
+    return value
+  }
+
+  inRange(value: number | undefined, min: number, max: number, path: string): number | undefined {
+    if (value === undefined) return undefined
+    if (value < min || value > max) {
+      this.issues.push(`${path} is out of range (${value}, expected ${min}..${max})`)
+      return undefined
+    }
+    return value
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (!isPresent(value)) return undefined
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${path} is not a boolean`)
+      return undefined
+    }
+    return value
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (!isPresent(value)) return undefined
+    if (typeof value !== 'string') {
+      this.issues.push(`${path} is not a string`)
+      return undefined
+    }
+    return value
+  }
+
+  object(value: unknown, path: string): Record<string, any> | undefined {
+    if (!isPresent(value)) return undefined
+    if (!isObject(value)) {
+      this.issues.push(`${path} is not an object`)
+      return undefined
+    }
+    return value
+  }
+
+  timestamp(value: unknown, path: string): number {
+    if (!isPresent(value)) return Date.now()
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      // Seconds since epoch from Python backends, milliseconds from JS ones
+      return value < 1e12 ? value * 1000 : value
+    }
+    if (typeof value === 'string') {
+      const parsed = Date.parse(value)
+      if (!isNaN(parsed)) return parsed
+    }
+
+    this.issues.push(`${path} is not a valid timestamp`)
+    return Date.now()
+  }
+}
+
+function readPosition(
+  reader: FrameReader,
+  lat: unknown,
+  lon: unknown,
+  alt: unknown,
+  relativeAlt: unknown,
+  path: string
+): TelemetryPosition | undefined {
+  const latitude = reader.inRange(reader.number(lat, `${path}.lat`, true), -90, 90, `${path}.lat`)
+  const longitude = reader.inRange(reader.number(lon, `${path}.lon`, true), -180, 180, `${path}.lon`)
+  const altitude = reader.number(alt, `${path}.alt`, true)
+  const relative = reader.number(relativeAlt, `${path}.relative_alt`)
+
+  if (latitude === undefined || longitude === undefined || altitude === undefined) return undefined
+  return relative === undefined
+    ? { lat: latitude, lon: longitude, alt: altitude }
+    : { lat: latitude, lon: longitude, alt: altitude, relative_alt: relative }
+}
+
+function readPositionObject(reader: FrameReader, value: unknown, path: string): TelemetryPosition | undefined {
+  const obj = reader.object(value, path)
+  if (!obj) return undefined
+  return readPosition(reader, obj.lat, obj.lon, obj.alt, obj.relative_alt, path)
+}
+
+function readVelocity(reader: FrameReader, value: unknown, path: string): TelemetryVelocity | undefined {
+  const obj = reader.object(value, path)
+  if (!obj) return undefined
+
+  const vx = reader.number(obj.vx, `${path}.vx`, true)
+  const vy = reader.number(obj.vy, `${path}.vy`, true)
+  const vz = reader.number(obj.vz, `${path}.vz`, true)
+  const groundSpeed = reader.number(obj.ground_speed, `${path}.ground_speed`)
+
+  if (vx === undefined || vy === undefined || vz === undefined) return undefined
+  return { vx, vy, vz, ground_speed: groundSpeed ?? Math.sqrt(vx ** 2 + vy ** 2) }
+}
+
+function readAttitude(reader: FrameReader, value: unknown, path: string): TelemetryAttitude | undefined {
+  const obj = reader.object(value, path)
+  if (!obj) return undefined
+
+  const roll = reader.number(obj.roll, `${path}.roll`, true)
+  const pitch = reader.number(obj.pitch, `${path}.pitch`, true)
+  const yaw = reader.number(obj.yaw, `${path}.yaw`, true)
+
+  if (roll === undefined || pitch === undefined || yaw === undefined) return undefined
+  return { roll, pitch, yaw }
+}
+
+function readBattery(
+  reader: FrameReader,
+  voltage: unknown,
+  current: unknown,
+  remaining: unknown,
+  path: string
+): TelemetryBattery | undefined {
+  const percent = reader.inRange(reader.number(remaining, `${path}.remaining`, true), 0, 100, `${path}.remaining`)
+  const volts = reader.number(voltage, `${path}.voltage`)
+  const amps = reader.number(current, `${path}.current`)
+
+  if (percent === undefined) return undefined
+  const battery: TelemetryBattery = { remaining: percent }
+  if (volts !== undefined) battery.voltage = volts
+  if (amps !== undefined) battery.current = amps
+  return battery
+}
+
+function readGps(
+  reader: FrameReader,
+  satellites: unknown,
+  fixType: unknown,
+  hdop: unknown,
+  path: string
+): TelemetryGPS | undefined {
+  const sats = reader.number(satellites, `${path}.satellites`, true)
+  const fix = reader.number(fixType, `${path}.fix_type`, true)
+  const dilution = reader.number(hdop, `${path}.hdop`)
+
+  if (sats === undefined || fix === undefined) return undefined
+  return dilution === undefined ? { satellites: sats, fix_type: fix } : { satellites: sats, fix_type: fix, hdop: dilution }
+}
+
+// Reject frames with problems, or that carry nothing a view could use
+function finish(reader: FrameReader, frame: TelemetryData, raw: unknown): TelemetryData {
+  const hasData =
+    frame.position || frame.velocity || frame.attitude || frame.battery || frame.gps ||
+    frame.armed !== undefined || frame.flight_mode !== undefined
+
+  if (!hasData && reader.issues.length === 0) {
+    reader.issues.push('frame contains no telemetry fields')
+  }
+
+  if (reader.issues.length > 0) {
+    throw new TelemetryValidationError(
+      `Malformed ${frame.source} telemetry frame: ${reader.issues.join('; ')}`,
+      reader.issues,
+      raw
+    )
+  }
+
+  return frame
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * FastAPI flight backend: nested position/velocity/attitude objects
+ */
+export function adaptFastApiTelemetry(raw: FastApiTelemetryMessage): TelemetryData {
+  const reader = new FrameReader()
+  const positionPath = isPresent(raw.position) ? 'position' : 'current_position'
+  const attitude = readAttitude(reader, raw.attitude, 'attitude')
+  const battery = reader.object(raw.battery, 'battery')
+  const gps = reader.object(raw.gps, 'gps')
+
+  const frame: TelemetryData = {
+    timestamp: reader.timestamp(raw.timestamp, 'timestamp'),
+    source: 'fastapi',
+    position: readPositionObject(reader, raw.position ?? raw.current_position, positionPath),
+    velocity: readVelocity(reader, raw.velocity, 'velocity'),
+    attitude,
+    heading: attitude ? normalizeHeading(attitude.yaw) : undefined,
+    battery: battery && readBattery(reader, battery.voltage, battery.current, battery.remaining, 'battery'),
+    gps: gps && readGps(reader, gps.satellites, gps.fix_type, gps.hdop, 'gps'),
+    armed: reader.boolean(raw.armed, 'armed'),
+    flying: reader.boolean(raw.flying, 'flying'),
+    flight_mode: reader.string(raw.flight_mode ?? raw.mode, 'flight_mode'),
+    mission_current: reader.number(raw.mission_current, 'mission_current'),
+    mission_count: reader.number(raw.mission_count, 'mission_count'),
+  }
+
+  return finish(reader, frame, raw)
+}
+
+/**
+ * PX4 bridge: flat MAVSDK-style fields; velocity is rebuilt from ground speed,
+ * heading and climb rate
+ */
+export function adaptPx4BridgeTelemetry(raw: Px4BridgeTelemetryMessage): TelemetryData {
+  const reader = new FrameReader()
+
+  const heading = reader.number(raw.heading, 'heading')
+  const groundSpeed = reader.number(raw.ground_speed, 'ground_speed')
+  const climbRate = reader.number(raw.climb_rate, 'climb_rate')
+  const hasAttitude = isPresent(raw.roll) || isPresent(raw.pitch) || isPresent(raw.yaw)
+  const attitude = hasAttitude ? readAttitude(reader, { roll: raw.roll, pitch: raw.pitch, yaw: raw.yaw }, 'attitude') : undefined
+  const track = heading ?? attitude?.yaw
+
+  let velocity: TelemetryVelocity | undefined
+  if (groundSpeed !== undefined && track !== undefined) {
+    const rad = (track * Math.PI) / 180
+    velocity = {
+      vx: groundSpeed * Math.cos(rad),
+      vy: groundSpeed * Math.sin(rad),
+      vz: -(climbRate ?? 0),
+      ground_speed: groundSpeed,
+    }
+  }
+
+  const hasBattery = isPresent(raw.battery_remaining) || isPresent(raw.battery_voltage)
+  const hasGps = isPresent(raw.gps_fix) || isPresent(raw.satellites_visible)
+
+  const frame: TelemetryData = {
+    timestamp: reader.timestamp(raw.timestamp, 'timestamp'),
+    source: 'px4_bridge',
+    position: readPosition(reader, raw.latitude, raw.longitude, raw.altitude, raw.relative_altitude, 'position'),
+    velocity,
+    attitude,
+    heading: track !== undefined ? normalizeHeading(track) : undefined,
+    battery: hasBattery
+      ? readBattery(reader, raw.battery_voltage, raw.battery_current, raw.battery_remaining, 'battery')
+      : undefined,
+    gps: hasGps ? readGps(reader, raw.satellites_visible, raw.gps_fix, undefined, 'gps') : undefined,
+    armed: reader.boolean(raw.armed, 'armed'),
+    flight_mode: reader.string(raw.mode, 'mode'),
+    mission_current: reader.number(raw.mission_current, 'mission_current'),
+    mission_count: reader.number(raw.mission_count, 'mission_count'),
+  }
+
+  return finish(reader, frame, raw)
+}
+
+/**
+ * Simulator: nested frames with vehicle_id, status and mission sub-objects
+ */
+export function adaptSimulatorTelemetry(raw: SimulatorTelemetryMessage): TelemetryData {
+  const reader = new FrameReader()
+  const attitude = readAttitude(reader, raw.attitude, 'attitude')
+  const battery = reader.object(raw.battery, 'battery')
+  const gps = reader.object(raw.gps, 'gps')
+  const status = reader.object(raw.status, 'status')
+  const mission = reader.object(raw.mission, 'mission')
+
+  const frame: TelemetryData = {
+    timestamp: reader.timestamp(raw.timestamp, 'timestamp'),
+    source: 'simulator',
+    vehicle_id: reader.string(raw.vehicle_id, 'vehicle_id'),
+    position: readPositionObject(reader, raw.position, 'position'),
+    velocity: readVelocity(reader, raw.velocity, 'velocity'),
+    attitude,
+    heading: attitude ? normalizeHeading(attitude.yaw) : undefined,
+    battery: battery && readBattery(reader, battery.voltage, battery.current, battery.remaining ?? battery.level, 'battery'),
+    gps: gps && readGps(reader, gps.satellites, gps.fix_type, gps.hdop, 'gps'),
+    armed: reader.boolean(status?.armed, 'status.armed'),
+    flight_mode: reader.string(status?.mode, 'status.mode'),
+    mission_current: reader.number(mission?.current_waypoint, 'mission.current_waypoint'),
+    mission_count: reader.number(mission?.total_waypoints, 'mission.total_waypoints'),
+  }
+
+  return finish(reader, frame, raw)
+}
+
+/**
+ * Identify which backend produced a raw message
+ */
+export function detectTelemetrySource(raw: unknown): TelemetrySource | null {
+  if (!isObject(raw)) return null
+  if ('latitude' in raw && !('position' in raw)) return 'px4_bridge'
+  if ('vehicle_id' in raw || isObject(raw.status) || isObject(raw.mission)) return 'simulator'
+  if (['position', 'current_position', 'velocity', 'attitude', 'battery', 'gps'].some(key => key in raw)) {
+    return 'fastapi'
+  }
+  return null
+}
+
+/**
+ * Convert any supported raw message into canonical telemetry.
+ * Throws TelemetryValidationError for malformed or unrecognised frames.
+ */
+export function parseTelemetryFrame(raw: unknown, source?: TelemetrySource): TelemetryData {
+  const resolved = source ?? detectTelemetrySource(raw)
+
+  if (!isObject(raw) || !resolved) {
+    throw new TelemetryValidationError(
+      'Unrecognised telemetry message',
+      ['message does not match any known telemetry format'],
+      raw
+    )
+  }
+
+  switch (resolved) {
+    case 'px4_bridge':
+      return adaptPx4BridgeTelemetry(raw as Px4BridgeTelemetryMessage)
+    case 'simulator':
+      return adaptSimulatorTelemetry(raw as SimulatorTelemetryMessage)
+    case 'fastapi':
+    default:
+      return adaptFastApiTelemetry(raw as FastApiTelemetryMessage)
+  }
+}
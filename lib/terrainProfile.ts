@@ -0,0 +1,183 @@
+// Terrain profile along a route: ground elevation from the loaded DEM tiles
+// against the planned flight altitude, and conversion of waypoint altitudes
+// between home-relative, AMSL and above-terrain frames
+
+import { TERRAIN_CONFIG } from '@/config/missionExecution.config'
+import { distanceBetween } from '@/lib/geofence'
+import { parseWaypointAltitude, ValidationWaypoint } from '@/lib/missionValidation'
+import type { AltitudeFrame } from '@/types'
+import type { GeoPoint } from '@/types/types'
+
+export type ElevationLookup = (point: GeoPoint) => number | null
+
+export interface ProfileWaypoint extends ValidationWaypoint {
+  frame?: AltitudeFrame // relative when absent
+}
+
+// All heights in meters above mean sea level, distances in meters from the start
+export interface TerrainProfileSample {
+  distance: number
+  terrain: number | null
+  flight: number | null
+}
+
+export interface TerrainProfileWaypoint {
+  index: number
+  distance: number
+  terrain: number | null
+  altitude: number | null
+  clearance: number | null // flight altitude above the ground
+}
+
+export interface TerrainProfileLeg {
+  index: number // waypoint the leg starts from
+  minClearance: number | null
+  minClearanceDistance: number | null
+}
+
+export interface TerrainProfile {
+  homeElevation: number | null // ground under the first waypoint, where the vehicle arms
+  totalDistance: number
+  samples: TerrainProfileSample[]
+  waypoints: TerrainProfileWaypoint[]
+  legs: TerrainProfileLeg[]
+  coverage: number // share of samples with terrain data, 0 to 1
+}
+
+/**
+ * Height above mean sea level of an altitude given in `frame`, or null when
+ * the terrain it depends on is unknown
+ */
+export function toAmsl(alt: number, frame: AltitudeFrame, terrain: number | null, homeElevation: number | null): number | null {
+  if (frame === 'amsl') return alt
+  if (frame === 'terrain') return terrain === null ? null : terrain + alt
+  return homeElevation === null ? null : homeElevation + alt
+}
+
+/**
+ * Express a height above mean sea level in `frame`
+ */
+export function fromAmsl(amsl: number, frame: AltitudeFrame, terrain: number | null, homeElevation: number | null): number | null {
+  if (frame === 'amsl') return amsl
+  if (frame === 'terrain') return terrain === null ? null : amsl - terrain
+  return homeElevation === null ? null : amsl - homeElevation
+}
+
+/**
+ * Sample the ground and the flight path along a route. Legs between two
+ * above-terrain waypoints follow the ground; other legs climb or descend in
+ * a straight line between their end altitudes.
+ */
+export function buildTerrainProfile(
+  waypoints: ProfileWaypoint[],
+  lookup: ElevationLookup,
+  spacing: number = TERRAIN_CONFIG.profileSampleSpacing
+): TerrainProfile {
+  const legLengths = waypoints.slice(1).map((wp, i) => distanceBetween(waypoints[i], wp))
+  const totalDistance = legLengths.reduce((sum, length) => sum + length, 0)
+  const step = Math.max(spacing, totalDistance / TERRAIN_CONFIG.maxProfileSamples)
+
+  const homeElevation = waypoints.length > 0 ? lookup(waypoints[0]) : null
+
+  let distance = 0
+  const profileWaypoints: TerrainProfileWaypoint[] = waypoints.map((wp, index) => {
+    if (index > 0) distance += legLengths[index - 1]
+    const terrain = lookup(wp)
+    const alt = parseWaypointAltitude(wp.alt)
+    const altitude = alt === undefined ? null : toAmsl(alt, wp.frame ?? 'relative', terrain, homeElevation)
+    return {
+      index,
+      distance,
+      terrain,
+      altitude,
+      clearance: altitude !== null && terrain !== null ? altitude - terrain : null,
+    }
+  })
+
+  const samples: TerrainProfileSample[] = []
+  const legs: TerrainProfileLeg[] = []
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const from = waypoints[i]
+    const to = waypoints[i + 1]
+    const start = profileWaypoints[i]
+    const end = profileWaypoints[i + 1]
+    const followsTerrain = from.frame === 'terrain' && to.frame === 'terrain'
+    const fromAgl = parseWaypointAltitude(from.alt)
+    const toAgl = parseWaypointAltitude(to.alt)
+    const steps = Math.max(Math.ceil(legLengths[i] / step), 1)
+    const leg: TerrainProfileLeg = { index: i, minClearance: null, minClearanceDistance: null }
+
+    // The last leg also samples its end point
+    const lastStep = i === waypoints.length - 2 ? steps : steps - 1
+    for (let s = 0; s <= lastStep; s++) {
+      const f = s / steps
+      const point = { lat: from.lat + (to.lat - from.lat) * f, lon: from.lon + (to.lon - from.lon) * f }
+      const terrain = s === 0 ? start.terrain : s === steps ? end.terrain : lookup(point)
+
+      let flight: number | null = null
+      if (followsTerrain) {
+        flight = terrain !== null && fromAgl !== undefined && toAgl !== undefined
+          ? terrain + fromAgl + (toAgl - fromAgl) * f
+          : null
+      } else if (start.altitude !== null && end.altitude !== null) {
+        flight = start.altitude + (end.altitude - start.altitude) * f
+      }
+
+      const sampleDistance = start.distance + legLengths[i] * f
+      samples.push({ distance: sampleDistance, terrain, flight })
+
+      if (terrain !== null && flight !== null) {
+        const clearance = flight - terrain
+        if (leg.minClearance === null || clearance < leg.minClearance) {
+          leg.minClearance = clearance
+          leg.minClearanceDistance = sampleDistance
+        }
+      }
+    }
+    legs.push(leg)
+  }
+
+  if (waypoints.length === 1) {
+    samples.push({ distance: 0, terrain: profileWaypoints[0].terrain, flight: profileWaypoints[0].altitude })
+  }
+
+  const covered = samples.filter(sample => sample.terrain !== null).length
+  return {
+    homeElevation,
+    totalDistance,
+    samples,
+    waypoints: profileWaypoints,
+    legs,
+    coverage: samples.length > 0 ? covered / samples.length : 0,
+  }
+}
+
+/**
+ * Re-express every waypoint altitude in `frame`, keeping the same height
+ * above sea level. Throws when a waypoint or home lacks the terrain data the
+ * conversion needs.
+ */
+export function convertWaypointAltitudes(
+  waypoints: ProfileWaypoint[],
+  frame: AltitudeFrame,
+  lookup: ElevationLookup
+): number[] {
+  const homeElevation = waypoints.length > 0 ? lookup(waypoints[0]) : null
+
+  return waypoints.map((wp, index) => {
+    const alt = parseWaypointAltitude(wp.alt)
+    if (alt === undefined) throw new Error(`Waypoint ${index + 1} has no altitude`)
+
+    const sourceFrame = wp.frame ?? 'relative'
+    if (sourceFrame === frame) return alt
+
+    const terrain = lookup(wp)
+    const amsl = toAmsl(alt, sourceFrame, terrain, homeElevation)
+    const converted = amsl === null ? null : fromAmsl(amsl, frame, terrain, homeElevation)
+    if (converted === null) {
+      throw new Error(`Waypoint ${index + 1} is not covered by the loaded elevation data`)
+    }
+    return Math.round(converted * 10) / 10
+  })
+}
@@ -0,0 +1,155 @@
+// Web Mercator tile math for offline map downloads and local basemaps
+
+import type { GeoPoint } from '@/types/types'
+
+const EARTH_RADIUS = 6371e3 // meters
+const MAX_MERCATOR_LAT = 85.05112878
+
+export interface TileCoord {
+  z: number
+  x: number
+  y: number
+}
+
+export interface TileBounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+export interface TileSourceOptions {
+  url: string // Leaflet-style template: {s} {z} {x} {y} {r}
+  subdomains?: string
+}
+
+export const tileKey = ({ z, x, y }: TileCoord) => `${z}/${x}/${y}`
+
+/**
+ * Tile containing a position at a zoom level
+ */
+export function tileForPoint(point: GeoPoint, z: number): TileCoord {
+  const n = 2 ** z
+  const lat = Math.min(Math.max(point.lat, -MAX_MERCATOR_LAT), MAX_MERCATOR_LAT)
+  const latRad = (lat * Math.PI) / 180
+
+  const x = Math.floor(((point.lon + 180) / 360) * n)
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n)
+  return { z, x: Math.min(Math.max(x, 0), n - 1), y: Math.min(Math.max(y, 0), n - 1) }
+}
+
+/**
+ * Bounding box around a set of points, grown by `padding` meters on each side
+ */
+export function boundsForPoints(points: GeoPoint[], padding = 0): TileBounds | null {
+  if (points.length === 0) return null
+
+  const latPad = (padding / EARTH_RADIUS) * (180 / Math.PI)
+  const midLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length
+  const lonPad = latPad / Math.max(Math.cos((midLat * Math.PI) / 180), 0.01)
+
+  return {
+    south: Math.max(Math.min(...points.map(p => p.lat)) - latPad, -MAX_MERCATOR_LAT),
+    west: Math.max(Math.min(...points.map(p => p.lon)) - lonPad, -180),
+    north: Math.min(Math.max(...points.map(p => p.lat)) + latPad, MAX_MERCATOR_LAT),
+    east: Math.min(Math.max(...points.map(p => p.lon)) + lonPad, 180),
+  }
+}
+
+// Tile x/y ranges covering the bounds at one zoom level
+function tileRange(bounds: TileBounds, z: number) {
+  const northWest = tileForPoint({ lat: bounds.north, lon: bounds.west }, z)
+  const southEast = tileForPoint({ lat: bounds.south, lon: bounds.east }, z)
+  return { minX: northWest.x, maxX: southEast.x, minY: northWest.y, maxY: southEast.y }
+}
+
+/**
+ * Number of tiles needed to cover the bounds across a zoom range
+ */
+export function countTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z)
+    count += (maxX - minX + 1) * (maxY - minY + 1)
+  }
+  return count
+}
+
+/**
+ * Every tile covering the bounds across a zoom range, lowest zoom first
+ */
+export function* tilesInBounds(bounds: TileBounds, minZoom: number, maxZoom: number): Generator<TileCoord> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z)
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        yield { z, x, y }
+      }
+    }
+  }
+}
+
+/**
+ * Expand a tile URL template the way Leaflet does. Subdomains rotate with the
+ * tile position so cached URLs match what the map requests.
+ */
+export function tileUrl({ url, subdomains = '' }: TileSourceOptions, tile: TileCoord, retina = false): string {
+  const s = subdomains ? subdomains[Math.abs(tile.x + tile.y) % subdomains.length] : ''
+  return url
+    .replace('{s}', s)
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y))
+    .replace('{r}', retina ? '@2x' : '')
+}
+
+/**
+ * Convert between XYZ and TMS row numbering (MBTiles stores TMS rows)
+ */
+export const flipY = ({ z, y }: TileCoord) => 2 ** z - 1 - y
+
+// ============================================================================
+// Local tile archives (MBTiles / PMTiles)
+// ============================================================================
+
+export type TileImageFormat = 'png' | 'jpg' | 'webp' | 'avif'
+
+export interface TileArchiveMetadata {
+  name: string
+  format: TileImageFormat
+  minZoom: number
+  maxZoom: number
+  bounds: TileBounds | null
+  attribution?: string
+}
+
+/**
+ * A read-only raster basemap loaded from a local file
+ */
+export interface TileArchive {
+  kind: 'mbtiles' | 'pmtiles'
+  metadata: TileArchiveMetadata
+  getTile(tile: TileCoord): Promise<Blob | null>
+}
+
+export const TILE_MIME_TYPES: Record<TileImageFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+}
+
+/**
+ * Normalize a tile format name from archive metadata; null for vector or
+ * unknown formats, which a raster map layer cannot draw
+ */
+export function parseTileImageFormat(format: string | undefined): TileImageFormat | null {
+  switch ((format || '').toLowerCase()) {
+    case 'png': return 'png'
+    case 'jpg':
+    case 'jpeg': return 'jpg'
+    case 'webp': return 'webp'
+    case 'avif': return 'avif'
+    default: return null
+  }
+}
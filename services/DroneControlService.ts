@@ -1,4 +1,15 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { API_CONFIG, MISSION_CONTROL_CONFIG } from '@/config/missionExecution.config'
+import { CallOptions, httpRequest } from '@/lib/http'
+import type { InterlockOverride } from '@/lib/interlocks'
+import { buildMissionItems, MissionItemWaypoint } from '@/lib/missionItems'
+import { parseWaypointAltitude } from '@/lib/missionValidation'
+import auditService from '@/services/auditService'
+import interlockService from '@/services/interlockService'
+import permissionService from '@/services/permissionService'
+import { DEFAULT_VEHICLE_ID } from '@/services/telemetryService'
+import { parseTelemetryFrame } from '@/lib/telemetry'
+import type { AuditAction, InterlockId, PermissionId } from '@/types'
+import { MissionItem, MissionUploadResponse, TelemetryData } from '@/types/types'
 
 /**
  * Interface definitions for API requests and responses
@@ -38,6 +49,24 @@ export interface MissionControlRequest {
   force_stop?: boolean
 }
 
+// A waypoint as backends that predate mission items read it
+export interface UploadWaypoint {
+  latitude: number
+  longitude: number
+  altitude: number
+  frame: string
+  speed?: number
+  acceptance_radius?: number
+}
+
+export interface MissionUploadRequest {
+  mission_id: string
+  vehicle_id: string
+  waypoints: UploadWaypoint[]
+  mission_items: MissionItem[] // the full command list; what the vehicle flies
+  connection_string: string
+}
+
 export interface DroneStatus {
   connected: boolean
   armed: boolean
@@ -61,42 +90,78 @@ export interface DroneStatus {
   message: string
 }
 
-export interface TelemetryData {
-  position?: {
-    lat: number
-    lon: number
-    alt: number
-  }
-  velocity?: {
-    vx: number
-    vy: number
-    vz: number
-  }
-  attitude?: {
-    roll: number
-    pitch: number
-    yaw: number
-  }
-  battery?: {
-    voltage: number
-    current: number
-    remaining: number
-  }
-  gps?: {
-    satellites: number
-    fix_type: number
-    hdop: number
-  }
+// A vehicle or mission command as sent and audited
+interface Command {
+  action: AuditAction
+  path: string
+  body?: object
+  parameters?: Record<string, unknown> // what the audit log records; the body when absent
+  errorMessage: string
+  missionId?: string
+  permissions?: PermissionId[] // checked before sending
+  interlocks?: InterlockId[] // each needs a matching override in options.overrides to be sent
+}
+
+export interface CommandOptions extends CallOptions {
+  overrides?: InterlockOverride[] // how the operator got past the command's safety interlocks
+  vehicleId?: string // the vehicle commanded, as the audit log and the backend know it
+}
+
+export interface MissionStartOptions extends CommandOptions {
+  geofenceBreached?: boolean // the vehicle is outside a geofence, so starting needs geofence_override
 }
 
+const DEFAULT_UPLOAD_VEHICLE_ID = 'UAV-001'
+
 /**
  * DroneControlService - Handles all drone control operations
+ *
+ * Commands are POSTs sent exactly once with MISSION_CONTROL_CONFIG.commandTimeout:
+ * a retried arm or takeoff could act twice. Status and telemetry reads are
+ * polls, given API_CONFIG.pollTimeout and dropped rather than retried when slow.
+ * Arming, takeoff and mission execution need the signed-in user's role to
+ * permit them and reject with PermissionDeniedError otherwise. Disarm, land,
+ * RTL, pause and stop are always allowed so anyone at the station can make
+ * the vehicle safe. Force-arm, force-start, disarming in flight and starting
+ * a mission while a geofence is breached are held back by safety interlocks and need
+ * a matching override in `options.overrides`. Every command, refused or not,
+ * goes in the audit log.
  */
 class DroneControlService {
   private baseUrl: string
 
   constructor() {
-    this.baseUrl = API_BASE_URL
+    this.baseUrl = API_CONFIG.vehicleUrl
+  }
+
+  /**
+   * Send a vehicle or mission command, without retries, and audit it
+   */
+  private command(command: Command, options: CommandOptions): Promise<ApiResponse> {
+    const context = {
+      vehicle_id: options.vehicleId ?? DEFAULT_VEHICLE_ID,
+      mission_id: command.missionId,
+      parameters: command.parameters ?? { ...command.body },
+    }
+    return auditService.run(
+      command.action,
+      context,
+      async () => {
+        command.permissions?.forEach(permission => permissionService.require(permission))
+        command.interlocks?.forEach(id => {
+          interlockService.authorize(id, options.overrides?.find(override => override.interlock === id), context)
+        })
+        return httpRequest<ApiResponse>(`${this.baseUrl}${command.path}`, {
+          method: 'POST',
+          body: command.body,
+          errorMessage: command.errorMessage,
+          timeout: MISSION_CONTROL_CONFIG.commandTimeout,
+          retries: 0,
+          signal: options.signal,
+        })
+      },
+      { failure: response => (response.success === false ? response.message || command.errorMessage : null) }
+    )
   }
 
   // ============================================================================
@@ -106,59 +171,40 @@ class DroneControlService {
   /**
    * Get current drone status
    */
-  async getStatus(): Promise<DroneStatus> {
-    const response = await fetch(`${this.baseUrl}/status`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  async getStatus(options: CallOptions = {}): Promise<DroneStatus> {
+    const data = await httpRequest<any>(`${this.baseUrl}/status`, {
+      errorMessage: 'Failed to get status',
+      timeout: API_CONFIG.pollTimeout,
+      retries: 0,
+      signal: options.signal,
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to get status' }))
-      throw new Error(error.detail || 'Failed to get status')
-    }
-
-    const data = await response.json()
     return data.data || data
   }
 
   /**
-   * Get telemetry data
+   * Get telemetry data as a validated canonical frame
    */
-  async getTelemetry(): Promise<TelemetryData> {
-    const response = await fetch(`${this.baseUrl}/telemetry`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  async getTelemetry(options: CallOptions = {}): Promise<TelemetryData> {
+    const data = await httpRequest<any>(`${this.baseUrl}/telemetry`, {
+      errorMessage: 'Failed to get telemetry',
+      timeout: API_CONFIG.pollTimeout,
+      retries: 0,
+      signal: options.signal,
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to get telemetry' }))
-      throw new Error(error.detail || 'Failed to get telemetry')
-    }
-
-    return response.json()
+    return parseTelemetryFrame(data.data || data, 'fastapi')
   }
 
   /**
    * Connect to simulator
    */
-  async connect(): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/connect`, {
+  async connect(options: CallOptions = {}): Promise<ApiResponse> {
+    return httpRequest<ApiResponse>(`${this.baseUrl}/connect`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      errorMessage: 'Failed to connect to simulator',
+      timeout: MISSION_CONTROL_CONFIG.commandTimeout,
+      retries: 0,
+      signal: options.signal,
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to connect' }))
-      throw new Error(error.detail || 'Failed to connect to simulator')
-    }
-
-    return response.json()
   }
 
   // ============================================================================
@@ -168,113 +214,77 @@ class DroneControlService {
   /**
    * Arm vehicle motors
    */
-  async armVehicle(missionId: string, forceArm: boolean = false): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/vehicle/arm`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        mission_id: missionId,
-        force_arm: forceArm,
-      } as VehicleArmRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to arm vehicle' }))
-      throw new Error(error.detail || 'Failed to arm vehicle')
-    }
-
-    return response.json()
+  async armVehicle(missionId: string, forceArm: boolean = false, options: CommandOptions = {}): Promise<ApiResponse> {
+    const request: VehicleArmRequest = { mission_id: missionId, force_arm: forceArm }
+    return this.command({
+      action: 'arm',
+      path: '/api/v1/vehicle/arm',
+      body: request,
+      errorMessage: 'Failed to arm vehicle',
+      missionId,
+      permissions: ['control_vehicle'],
+      interlocks: forceArm ? ['force_arm'] : [],
+    }, options)
   }
 
   /**
-   * Disarm vehicle motors
+   * Disarm vehicle motors. In flight this needs the disarm_in_flight override.
    */
-  async disarmVehicle(missionId: string): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/vehicle/disarm`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        mission_id: missionId,
-      } as VehicleDisarmRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to disarm vehicle' }))
-      throw new Error(error.detail || 'Failed to disarm vehicle')
-    }
-
-    return response.json()
+  async disarmVehicle(missionId: string, options: CommandOptions = {}): Promise<ApiResponse> {
+    // When the status cannot be read, never stand in the way of making the vehicle safe
+    const flying = await this.getStatus({ signal: options.signal }).then(status => status.flying, () => false)
+    const request: VehicleDisarmRequest = { mission_id: missionId }
+    return this.command({
+      action: 'disarm',
+      path: '/api/v1/vehicle/disarm',
+      body: request,
+      errorMessage: 'Failed to disarm vehicle',
+      missionId,
+      interlocks: flying ? ['disarm_in_flight'] : [],
+    }, options)
   }
 
   /**
    * Takeoff to specified altitude
    */
-  async takeoff(missionId: string, altitude: number): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/vehicle/takeoff`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        mission_id: missionId,
-        altitude: altitude,
-      } as TakeoffRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to takeoff' }))
-      throw new Error(error.detail || 'Failed to initiate takeoff')
-    }
-
-    return response.json()
+  async takeoff(missionId: string, altitude: number, options: CommandOptions = {}): Promise<ApiResponse> {
+    const request: TakeoffRequest = { mission_id: missionId, altitude }
+    return this.command({
+      action: 'takeoff',
+      path: '/api/v1/vehicle/takeoff',
+      body: request,
+      errorMessage: 'Failed to initiate takeoff',
+      missionId,
+      permissions: ['control_vehicle'],
+    }, options)
   }
 
   /**
    * Land vehicle
    */
-  async land(missionId: string): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/vehicle/land`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        mission_id: missionId,
-      } as LandRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to land' }))
-      throw new Error(error.detail || 'Failed to initiate landing')
-    }
-
-    return response.json()
+  async land(missionId: string, options: CommandOptions = {}): Promise<ApiResponse> {
+    const request: LandRequest = { mission_id: missionId }
+    return this.command({
+      action: 'land',
+      path: '/api/v1/vehicle/land',
+      body: request,
+      errorMessage: 'Failed to initiate landing',
+      missionId,
+    }, options)
   }
 
   /**
    * Return to launch
    */
-  async returnToLaunch(missionId: string): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/vehicle/rtl`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        mission_id: missionId,
-      } as RTLRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to RTL' }))
-      throw new Error(error.detail || 'Failed to initiate Return to Launch')
-    }
-
-    return response.json()
+  async returnToLaunch(missionId: string, options: CommandOptions = {}): Promise<ApiResponse> {
+    const request: RTLRequest = { mission_id: missionId }
+    return this.command({
+      action: 'rtl',
+      path: '/api/v1/vehicle/rtl',
+      body: request,
+      errorMessage: 'Failed to initiate Return to Launch',
+      missionId,
+    }, options)
   }
 
   // ============================================================================
@@ -284,83 +294,55 @@ class DroneControlService {
   /**
    * Start mission execution
    */
-  async startMission(missionId: string, forceStart: boolean = false): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/start`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        force_start: forceStart,
-      } as MissionControlRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to start mission' }))
-      throw new Error(error.detail || 'Failed to start mission')
-    }
-
-    return response.json()
+  async startMission(missionId: string, forceStart: boolean = false, options: MissionStartOptions = {}): Promise<ApiResponse> {
+    const request: MissionControlRequest = { force_start: forceStart }
+    const interlocks: InterlockId[] = forceStart ? ['force_start'] : []
+    if (options.geofenceBreached) interlocks.push('geofence_override')
+    return this.command({
+      action: 'mission_start',
+      path: `/api/v1/missions/${missionId}/start`,
+      body: request,
+      errorMessage: 'Failed to start mission',
+      missionId,
+      permissions: forceStart ? ['execute_missions', 'force_start'] : ['execute_missions'],
+      interlocks,
+    }, options)
   }
 
   /**
    * Pause mission execution
    */
-  async pauseMission(missionId: string): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/pause`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to pause mission' }))
-      throw new Error(error.detail || 'Failed to pause mission')
-    }
-
-    return response.json()
+  async pauseMission(missionId: string, options: CommandOptions = {}): Promise<ApiResponse> {
+    return this.command({
+      action: 'mission_pause',
+      path: `/api/v1/missions/${missionId}/pause`,
+      errorMessage: 'Failed to pause mission',
+      missionId,
+    }, options)
   }
 
   /**
    * Stop mission execution
    */
-  async stopMission(missionId: string, forceStop: boolean = false): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/stop`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        force_stop: forceStop,
-      } as MissionControlRequest),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to stop mission' }))
-      throw new Error(error.detail || 'Failed to stop mission')
-    }
-
-    return response.json()
+  async stopMission(missionId: string, forceStop: boolean = false, options: CommandOptions = {}): Promise<ApiResponse> {
+    const request: MissionControlRequest = { force_stop: forceStop }
+    return this.command({
+      action: 'mission_stop',
+      path: `/api/v1/missions/${missionId}/stop`,
+      body: request,
+      errorMessage: 'Failed to stop mission',
+      missionId,
+    }, options)
   }
 
   /**
    * Get mission status
    */
-  async getMissionStatus(missionId: string): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/status`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  async getMissionStatus(missionId: string, options: CallOptions = {}): Promise<ApiResponse> {
+    return httpRequest<ApiResponse>(`${this.baseUrl}/api/v1/missions/${missionId}/status`, {
+      errorMessage: 'Failed to get mission status',
+      signal: options.signal,
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to get mission status' }))
-      throw new Error(error.detail || 'Failed to get mission status')
-    }
-
-    return response.json()
   }
 
   // ============================================================================
@@ -368,28 +350,51 @@ class DroneControlService {
   // ============================================================================
 
   /**
-   * Upload mission waypoints to vehicle
+   * Upload a mission to the vehicle as MAVLink mission items, with loiters,
+   * camera and gimbal actions. Throws before sending if a waypoint has no
+   * usable position or altitude.
    */
-  async uploadMission(waypoints: Array<{ lat: number; lon: number; alt: number }>): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/mission/upload`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        waypoints: waypoints,
-      }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to upload mission' }))
-      throw new Error(error.detail || 'Failed to upload mission')
+  async uploadMission(
+    missionId: string,
+    waypoints: MissionItemWaypoint[],
+    options: CommandOptions = {}
+  ): Promise<MissionUploadResponse> {
+    const request: MissionUploadRequest = {
+      mission_id: missionId,
+      vehicle_id: options.vehicleId || DEFAULT_UPLOAD_VEHICLE_ID,
+      waypoints: waypoints.map(toUploadWaypoint),
+      mission_items: buildMissionItems(waypoints),
+      connection_string: MISSION_CONTROL_CONFIG.vehicleConnection,
     }
+    return this.command({
+      action: 'mission_upload',
+      path: `/api/v1/missions/upload-to-px4/${missionId}`,
+      body: request,
+      parameters: { waypoint_count: request.waypoints.length, mission_item_count: request.mission_items.length },
+      errorMessage: 'Failed to upload mission',
+      missionId,
+      permissions: ['execute_missions'],
+    }, options)
+  }
+}
 
-    return response.json()
+function toUploadWaypoint(wp: MissionItemWaypoint, index: number): UploadWaypoint {
+  const latitude = Number(wp.lat)
+  const longitude = Number(wp.lon)
+  const altitude = parseWaypointAltitude(wp.alt)
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || altitude === undefined) {
+    throw new Error(`Waypoint ${index + 1} has invalid coordinates`)
+  }
+  return {
+    latitude,
+    longitude,
+    altitude,
+    frame: wp.frame ?? 'relative',
+    speed: wp.speed,
+    acceptance_radius: wp.acceptanceRadius,
   }
 }
 
 // Export singleton instance
 const droneControlService = new DroneControlService()
-export default droneControlService
\ No newline at end of file
+export default droneControlService
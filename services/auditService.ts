@@ -0,0 +1,234 @@
+// services/auditService.ts
+// Who did what, to which vehicle and mission, and how it turned out. Vehicle
+// commands and mission changes are recorded here as they are made and sent
+// to the backend audit trail. Entries the backend has not accepted yet are
+// kept in local storage and sent with the next ones, so an outage or a
+// reload does not lose them.
+
+import { API_URL } from '@/lib/api'
+import { API_CONFIG, AUDIT_CONFIG } from '@/config/missionExecution.config'
+import { auditBatchSchema, auditPageSchema, type AuditEntry, type AuditPage } from '@/lib/auditSchemas'
+import { CallOptions, httpRequest } from '@/lib/http'
+import { InterlockError } from '@/lib/interlocks'
+import type { TransitionActor } from '@/lib/missionLifecycle'
+import { PermissionDeniedError } from '@/lib/permissions'
+import permissionService from '@/services/permissionService'
+import sessionService from '@/services/sessionService'
+import type { AuditAction, AuditResult } from '@/types'
+
+export type { AuditEntry, AuditPage } from '@/lib/auditSchemas'
+
+// What an entry is about. The user is whoever is signed in unless `actor` says otherwise.
+export interface AuditContext {
+  actor?: TransitionActor | null
+  vehicle_id?: string | null
+  mission_id?: string | number | null
+  parameters?: Record<string, unknown>
+}
+
+export interface AuditOutcome<T> {
+  failure?: (value: T) => string | null // why a call that resolved still failed, e.g. a command the vehicle refused
+  details?: (value: T) => AuditContext // what is only known afterwards, e.g. a new mission's id
+}
+
+export interface AuditQuery {
+  search?: string // matched against user, vehicle, mission and parameters
+  action?: AuditAction
+  result?: AuditResult
+  user_id?: string
+  vehicle_id?: string
+  mission_id?: string
+  from?: string // ISO 8601, inclusive
+  to?: string // ISO 8601, exclusive
+  skip?: number
+  limit?: number
+}
+
+const entryId = () => `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+function loadPending(): AuditEntry[] {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIT_CONFIG.pendingKey) ?? '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch {
+    return []
+  }
+}
+
+class AuditService {
+  private pending: AuditEntry[] = loadPending()
+  private sending: Promise<void> | null = null
+  private listeners: Set<() => void> = new Set()
+
+  constructor() {
+    if (sessionService.getUser()) this.flushInBackground()
+    sessionService.subscribe(user => {
+      if (user) this.flushInBackground()
+    })
+  }
+
+  /**
+   * Be told when entries are recorded or reach the backend. Returns the
+   * unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Entries recorded here that the backend has not accepted yet, oldest first
+   */
+  getPending(): AuditEntry[] {
+    return this.pending
+  }
+
+  /**
+   * Run `perform` and record how it went: denied when it threw
+   * PermissionDeniedError or InterlockError, failed when it threw anything
+   * else or `outcome.failure` finds fault with the result. Resolves or
+   * rejects as `perform` does.
+   */
+  async run<T>(action: AuditAction, context: AuditContext, perform: () => Promise<T>, outcome: AuditOutcome<T> = {}): Promise<T> {
+    let value: T
+    try {
+      value = await perform()
+    } catch (error) {
+      const denied = error instanceof PermissionDeniedError || error instanceof InterlockError
+      this.record(action, context, denied ? 'denied' : 'failure', errorMessage(error))
+      throw error
+    }
+
+    const failure = outcome.failure?.(value) ?? null
+    const details = outcome.details?.(value) ?? {}
+    this.record(
+      action,
+      { ...context, ...details, parameters: { ...context.parameters, ...details.parameters } },
+      failure ? 'failure' : 'success',
+      failure ?? undefined
+    )
+    return value
+  }
+
+  /**
+   * Record something that happened and send it to the backend in the background
+   */
+  record(action: AuditAction, context: AuditContext, result: AuditResult, error?: string): AuditEntry {
+    const user = context.actor === undefined ? sessionService.getUser() : context.actor
+    const entry: AuditEntry = {
+      id: entryId(),
+      timestamp: new Date().toISOString(),
+      user_id: user?.id ?? null,
+      user_name: user?.name ?? 'Unknown',
+      role: user?.role ?? null,
+      action,
+      vehicle_id: context.vehicle_id ?? null,
+      mission_id: context.mission_id === undefined || context.mission_id === null ? null : String(context.mission_id),
+      parameters: context.parameters ?? {},
+      result,
+      ...(error ? { error } : {}),
+    }
+
+    let pending = [...this.pending, entry]
+    if (pending.length > AUDIT_CONFIG.maxPending) {
+      console.warn(`Audit backlog full, dropping ${pending.length - AUDIT_CONFIG.maxPending} unsent entries`)
+      pending = pending.slice(-AUDIT_CONFIG.maxPending)
+    }
+    this.update(pending)
+    this.flushInBackground()
+    return entry
+  }
+
+  /**
+   * Send the entries the backend has not accepted yet. Concurrent callers
+   * share one attempt. Nothing is sent while nobody is signed in.
+   */
+  flush(): Promise<void> {
+    if (!this.sending) {
+      this.sending = this.sendPending().finally(() => {
+        this.sending = null
+      })
+    }
+    return this.sending
+  }
+
+  /**
+   * Search the audit trail, newest first. Needs view_audit_log.
+   */
+  async search(query: AuditQuery = {}, options: CallOptions = {}): Promise<AuditPage> {
+    permissionService.require('view_audit_log')
+    const queryParams = new URLSearchParams()
+
+    if (query.search) queryParams.append('search', query.search)
+    if (query.action) queryParams.append('action', query.action)
+    if (query.result) queryParams.append('result', query.result)
+    if (query.user_id) queryParams.append('user_id', query.user_id)
+    if (query.vehicle_id) queryParams.append('vehicle_id', query.vehicle_id)
+    if (query.mission_id) queryParams.append('mission_id', query.mission_id)
+    if (query.from) queryParams.append('from', query.from)
+    if (query.to) queryParams.append('to', query.to)
+    if (query.skip) queryParams.append('skip', query.skip.toString())
+    queryParams.append('limit', (query.limit ?? AUDIT_CONFIG.pageSize).toString())
+
+    return httpRequest(`${API_URL}${AUDIT_CONFIG.path}?${queryParams.toString()}`, {
+      signal: options.signal,
+      method: 'GET',
+      response: auditPageSchema,
+      errorMessage: 'Failed to search the audit log',
+    })
+  }
+
+  /**
+   * Every entry matching `query`, up to AUDIT_CONFIG.exportLimit, for export
+   */
+  async searchAll(query: AuditQuery = {}, options: CallOptions = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = []
+    while (entries.length < AUDIT_CONFIG.exportLimit) {
+      const page = await this.search({ ...query, skip: entries.length }, options)
+      entries.push(...page.entries)
+      if (page.entries.length === 0 || entries.length >= page.total) break
+    }
+    return entries.slice(0, AUDIT_CONFIG.exportLimit)
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch(error => console.warn('Audit entries kept to send later:', error))
+  }
+
+  private async sendPending(): Promise<void> {
+    // Entries recorded while a batch is out go in the next one
+    while (this.pending.length > 0 && sessionService.getAccessToken()) {
+      const batch = this.pending.slice(0, AUDIT_CONFIG.pageSize)
+      await httpRequest(`${API_URL}${AUDIT_CONFIG.path}`, {
+        method: 'POST',
+        body: auditBatchSchema.parse({ entries: batch }, 'request'),
+        response: null,
+        errorMessage: 'Failed to send audit entries',
+        // Entries carry their own ids, so sending one twice does no harm
+        retries: API_CONFIG.retryAttempts,
+      })
+      const sent = new Set(batch.map(entry => entry.id))
+      this.update(this.pending.filter(entry => !sent.has(entry.id)))
+    }
+  }
+
+  private update(pending: AuditEntry[]): void {
+    this.pending = pending
+    try {
+      localStorage.setItem(AUDIT_CONFIG.pendingKey, JSON.stringify(pending))
+    } catch (error) {
+      console.warn('Could not keep unsent audit entries:', error)
+    }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+// Singleton instance
+const auditService = new AuditService()
+
+export default auditService
@@ -0,0 +1,325 @@
+// services/flightRecorder.ts
+// Records telemetry frames and the camera feed into a replayable flight session
+
+import type { DroneStatus } from '@/hooks/useWebSocketTelemetry'
+import type { TelemetryData } from '@/types/types'
+
+export const FLIGHT_SESSION_VERSION = 1
+
+const VIDEO_CAPTURE_FPS = 15
+const VIDEO_MAX_WIDTH = 1280
+const VIDEO_MAX_HEIGHT = 720
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export interface RecordedFrame {
+  t: number // milliseconds since the session started
+  videoTime: number | null // seconds into the recorded video, null when no video was captured
+  telemetry: TelemetryData
+  status?: Partial<DroneStatus>
+}
+
+export interface FlightSessionVideo {
+  fileName: string
+  mimeType: string
+  startOffset: number // milliseconds since the session started
+}
+
+export interface FlightSession {
+  version: number
+  id: string
+  missionId?: string
+  missionName?: string
+  startedAt: string
+  duration: number
+  frames: RecordedFrame[]
+  video: FlightSessionVideo | null
+}
+
+export interface FlightRecording {
+  session: FlightSession
+  video: Blob | null
+}
+
+export interface FlightSessionMeta {
+  missionId?: string
+  missionName?: string
+}
+
+type VideoSource = HTMLVideoElement | HTMLImageElement
+
+/**
+ * Find the index of the last frame at or before the given session time
+ */
+export function findFrameIndex(frames: RecordedFrame[], t: number): number {
+  let low = 0
+  let high = frames.length - 1
+  let result = -1
+
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (frames[mid].t <= t) {
+      result = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Parse and validate a session file produced by FlightRecorder
+ */
+export function parseFlightSession(text: string): FlightSession {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Flight session file is not valid JSON')
+  }
+
+  if (!data || data.version !== FLIGHT_SESSION_VERSION || !Array.isArray(data.frames)) {
+    throw new Error('Unsupported or corrupt flight session file')
+  }
+
+  const frames: RecordedFrame[] = data.frames
+    .filter((frame: any) => frame && typeof frame.t === 'number' && frame.telemetry)
+    .sort((a: RecordedFrame, b: RecordedFrame) => a.t - b.t)
+
+  return {
+    version: data.version,
+    id: String(data.id ?? ''),
+    missionId: data.missionId,
+    missionName: data.missionName,
+    startedAt: String(data.startedAt ?? ''),
+    duration: typeof data.duration === 'number' ? data.duration : frames[frames.length - 1]?.t ?? 0,
+    frames,
+    video: data.video ?? null,
+  }
+}
+
+/**
+ * Save a recording to disk: the session JSON plus the video file it references
+ */
+export function downloadFlightRecording(recording: FlightRecording): void {
+  const baseName = recording.session.id
+  const json = JSON.stringify(recording.session)
+  downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.json`)
+
+  if (recording.video && recording.session.video) {
+    downloadBlob(recording.video, recording.session.video.fileName)
+  }
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+function pickVideoMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+/**
+ * FlightRecorder - captures every telemetry frame (no path cap) and, when a
+ * camera source is attached, the video it shows. Video is drawn through a
+ * canvas so the recording survives stream reconnects as one continuous file.
+ */
+export class FlightRecorder {
+  private session: FlightSession | null = null
+  private startTime = 0
+  private videoSource: VideoSource | null = null
+  private drawTimer: NodeJS.Timeout | null = null
+  private mediaRecorder: MediaRecorder | null = null
+  private videoChunks: Blob[] = []
+  private videoStartTime: number | null = null
+  private videoUnavailable = false
+
+  /**
+   * Begin a new session
+   */
+  start(meta: FlightSessionMeta = {}): void {
+    if (this.session) {
+      console.warn('Flight recording already in progress')
+      return
+    }
+
+    const startedAt = new Date()
+    this.startTime = Date.now()
+    this.videoChunks = []
+    this.videoStartTime = null
+    this.videoUnavailable = false
+    this.session = {
+      version: FLIGHT_SESSION_VERSION,
+      id: `flight-${meta.missionId ?? 'session'}-${startedAt.toISOString().replace(/[:.]/g, '-')}`,
+      missionId: meta.missionId,
+      missionName: meta.missionName,
+      startedAt: startedAt.toISOString(),
+      duration: 0,
+      frames: [],
+      video: null,
+    }
+
+    console.log('⏺️ Flight recording started')
+
+    if (this.videoSource) {
+      this.startVideoCapture()
+    }
+  }
+
+  /**
+   * Record one telemetry frame with the current video timestamp
+   */
+  record(telemetry: TelemetryData, status?: Partial<DroneStatus> | null): void {
+    if (!this.session) return
+
+    const now = Date.now()
+    this.session.frames.push({
+      t: now - this.startTime,
+      videoTime: this.videoStartTime !== null ? (now - this.videoStartTime) / 1000 : null,
+      telemetry,
+      status: status ?? undefined,
+    })
+  }
+
+  /**
+   * Point the recorder at the element currently showing the camera feed
+   */
+  setVideoSource(element: VideoSource | null): void {
+    this.videoSource = element
+
+    if (element && this.session && !this.mediaRecorder && !this.videoUnavailable) {
+      this.startVideoCapture()
+    }
+  }
+
+  /**
+   * Finish the session and return it with the captured video
+   */
+  async stop(): Promise<FlightRecording | null> {
+    const session = this.session
+    if (!session) return null
+
+    this.session = null
+    session.duration = Date.now() - this.startTime
+
+    const video = await this.stopVideoCapture()
+    if (video && this.videoStartTime !== null) {
+      session.video = {
+        fileName: `${session.id}.webm`,
+        mimeType: video.type,
+        startOffset: this.videoStartTime - this.startTime,
+      }
+    }
+
+    console.log(`⏹️ Flight recording stopped: ${session.frames.length} frames`)
+    return { session, video: session.video ? video : null }
+  }
+
+  isRecording(): boolean {
+    return this.session !== null
+  }
+
+  getFrameCount(): number {
+    return this.session?.frames.length ?? 0
+  }
+
+  getElapsed(): number {
+    return this.session ? Date.now() - this.startTime : 0
+  }
+
+  private startVideoCapture(): void {
+    const mimeType = pickVideoMimeType()
+    if (!mimeType) {
+      console.warn('Video recording is not supported in this browser')
+      this.videoUnavailable = true
+      return
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = VIDEO_MAX_WIDTH
+    canvas.height = VIDEO_MAX_HEIGHT
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    // A cross-origin MJPEG source without CORS taints the canvas and cannot be recorded
+    if (!this.drawFrame(ctx, canvas)) {
+      console.warn('Camera feed cannot be recorded (cross-origin stream without CORS)')
+      this.videoUnavailable = true
+      return
+    }
+
+    try {
+      const recorder = new MediaRecorder(canvas.captureStream(VIDEO_CAPTURE_FPS), { mimeType })
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.videoChunks.push(event.data)
+      }
+      recorder.start(1000)
+
+      this.mediaRecorder = recorder
+      this.videoStartTime = Date.now()
+      this.drawTimer = setInterval(() => {
+        if (!this.drawFrame(ctx, canvas) && !this.videoUnavailable) {
+          console.warn('Camera feed cannot be recorded (cross-origin stream without CORS)')
+          this.videoUnavailable = true
+        }
+      }, 1000 / VIDEO_CAPTURE_FPS)
+    } catch (error) {
+      console.error('Failed to start video recording:', error)
+      this.videoUnavailable = true
+    }
+  }
+
+  private drawFrame(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement): boolean {
+    const source = this.videoSource
+    ctx.fillStyle = '#000'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    if (!source) return true
+
+    const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth
+    const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight
+    if (!sourceWidth || !sourceHeight) return true
+
+    const scale = Math.min(canvas.width / sourceWidth, canvas.height / sourceHeight)
+    const width = sourceWidth * scale
+    const height = sourceHeight * scale
+
+    try {
+      ctx.drawImage(source, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height)
+      ctx.getImageData(0, 0, 1, 1) // throws if the canvas is now tainted
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private stopVideoCapture(): Promise<Blob | null> {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer)
+      this.drawTimer = null
+    }
+
+    const recorder = this.mediaRecorder
+    this.mediaRecorder = null
+
+    if (!recorder) return Promise.resolve(null)
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const chunks = this.videoChunks
+        this.videoChunks = []
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null)
+      }
+      recorder.stop()
+      recorder.stream.getTracks().forEach(track => track.stop())
+    })
+  }
+}
@@ -0,0 +1,225 @@
+// services/geocoder.ts
+// Place search for route planning. Typed coordinates are answered locally,
+// place names come from the bundled offline gazetteer first, and the online
+// provider is only asked to top up results when it is reachable.
+
+import { GEOCODING_CONFIG } from '@/config/missionExecution.config'
+import { formatCoordinate, parseCoordinates } from '@/lib/coordinates'
+
+export type GeocodeSource = 'coordinates' | 'gazetteer' | 'online'
+
+export interface GeocodeResult {
+  id: string
+  label: string
+  lat: number
+  lon: number
+  source: GeocodeSource
+}
+
+/**
+ * A place-search backend. Providers return an empty list when they have
+ * nothing to offer and throw only when they could not be queried.
+ */
+export interface GeocoderProvider {
+  readonly name: string
+  search(query: string, limit: number): Promise<GeocodeResult[]>
+}
+
+interface GazetteerEntry {
+  name: string
+  lat: number
+  lon: number
+  region?: string
+  corridor?: string
+  aliases?: string[]
+}
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9 ]/g, '').trim()
+
+/**
+ * Answers decimal, DMS and MGRS input without any lookup
+ */
+export class CoordinateProvider implements GeocoderProvider {
+  readonly name = 'coordinates'
+
+  async search(query: string): Promise<GeocodeResult[]> {
+    const point = parseCoordinates(query)
+    if (!point) return []
+
+    return [{
+      id: `coord:${point.lat.toFixed(6)},${point.lon.toFixed(6)}`,
+      label: `${formatCoordinate(point)} (${point.format.toUpperCase()})`,
+      lat: point.lat,
+      lon: point.lon,
+      source: 'coordinates',
+    }]
+  }
+}
+
+/**
+ * Offline place names loaded once from the bundled gazetteer file
+ */
+export class GazetteerProvider implements GeocoderProvider {
+  readonly name = 'gazetteer'
+  private entries: Promise<GazetteerEntry[]> | null = null
+
+  constructor(private readonly url: string) {}
+
+  private load(): Promise<GazetteerEntry[]> {
+    if (!this.entries) {
+      this.entries = fetch(this.url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Gazetteer request failed with status ${response.status}`)
+          return response.json()
+        })
+        .then((data: any) => (Array.isArray(data?.places) ? data.places : []).filter(
+          (entry: any) => typeof entry?.name === 'string' && Number.isFinite(entry.lat) && Number.isFinite(entry.lon)
+        ))
+        .catch(error => {
+          // Allow a later search to retry the load
+          this.entries = null
+          throw error
+        })
+    }
+    return this.entries
+  }
+
+  // Lower is better: exact name, then prefix, then word prefix, then substring
+  private rank(entry: GazetteerEntry, query: string): number | null {
+    const names = [entry.name, ...(entry.aliases || [])].map(normalize)
+    if (names.some(name => name === query)) return 0
+    if (names.some(name => name.startsWith(query))) return 1
+    if (names.some(name => name.split(' ').some(word => word.startsWith(query)))) return 2
+    if (names.some(name => name.includes(query))) return 3
+    return null
+  }
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const term = normalize(query)
+    if (!term) return []
+
+    const entries = await this.load()
+    return entries
+      .map(entry => ({ entry, rank: this.rank(entry, term) }))
+      .filter((match): match is { entry: GazetteerEntry; rank: number } => match.rank !== null)
+      .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, limit)
+      .map(({ entry }) => ({
+        id: `gazetteer:${entry.name}:${entry.lat},${entry.lon}`,
+        label: entry.region ? `${entry.name}, ${entry.region}` : entry.name,
+        lat: entry.lat,
+        lon: entry.lon,
+        source: 'gazetteer' as const,
+      }))
+  }
+}
+
+/**
+ * Nominatim-compatible online search. Skipped while the browser is offline
+ * and for a while after a failed request, so field sites without internet
+ * don't wait on a timeout for every keystroke.
+ */
+export class NominatimProvider implements GeocoderProvider {
+  readonly name = 'online'
+  private unreachableUntil = 0
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly countryCodes: string,
+    private readonly timeout: number,
+    private readonly retryDelay: number
+  ) {}
+
+  isAvailable(): boolean {
+    if (!this.baseUrl) return false
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return false
+    return Date.now() >= this.unreachableUntil
+  }
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    if (!this.isAvailable()) return []
+
+    const params = new URLSearchParams({ format: 'json', q: query, limit: String(limit) })
+    if (this.countryCodes) params.set('countrycodes', this.countryCodes)
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.timeout)
+
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/search?${params}`, {
+        signal: controller.signal,
+      })
+      if (!response.ok) throw new Error(`Online geocoder returned status ${response.status}`)
+
+      const data = await response.json()
+      return (Array.isArray(data) ? data : []).map((item: any) => ({
+        id: `online:${item.place_id}`,
+        label: item.display_name,
+        lat: parseFloat(item.lat),
+        lon: parseFloat(item.lon),
+        source: 'online' as const,
+      })).filter(result => Number.isFinite(result.lat) && Number.isFinite(result.lon))
+    } catch (error) {
+      this.unreachableUntil = Date.now() + this.retryDelay
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+class GeocoderService {
+  private coordinates: GeocoderProvider = new CoordinateProvider()
+  private providers: GeocoderProvider[] = [
+    new GazetteerProvider(GEOCODING_CONFIG.gazetteerUrl),
+    new NominatimProvider(
+      GEOCODING_CONFIG.onlineUrl,
+      GEOCODING_CONFIG.countryCodes,
+      GEOCODING_CONFIG.onlineTimeout,
+      GEOCODING_CONFIG.onlineRetryDelay
+    ),
+  ]
+
+  /**
+   * Replace the place-name providers, queried in order until enough results
+   * are found. Coordinate input is always handled first.
+   */
+  setProviders(providers: GeocoderProvider[]): void {
+    this.providers = providers
+  }
+
+  /**
+   * Search for a place or typed coordinates. A failing provider is skipped
+   * so one unreachable backend never hides results from the others.
+   */
+  async search(query: string, limit: number = GEOCODING_CONFIG.maxResults): Promise<GeocodeResult[]> {
+    const text = query.trim()
+    if (!text) return []
+
+    const coordinates = await this.coordinates.search(text, limit)
+    if (coordinates.length > 0) return coordinates
+
+    const results: GeocodeResult[] = []
+    for (const provider of this.providers) {
+      if (results.length >= limit) break
+      try {
+        const found = await provider.search(text, limit - results.length)
+        found.forEach(result => {
+          if (!results.some(existing => isSamePlace(existing, result))) results.push(result)
+        })
+      } catch (error) {
+        console.warn(`Geocoder provider "${provider.name}" failed:`, error)
+      }
+    }
+    return results.slice(0, limit)
+  }
+}
+
+// Online results often repeat a gazetteer place under a longer name
+const isSamePlace = (a: GeocodeResult, b: GeocodeResult) =>
+  Math.abs(a.lat - b.lat) < 0.01 && Math.abs(a.lon - b.lon) < 0.01
+
+// Singleton instance
+const geocoder = new GeocoderService()
+
+export default geocoder
@@ -0,0 +1,115 @@
+// services/interlockService.ts
+// Gets hazardous commands past their safety interlocks (lib/interlocks.ts).
+// A second person approves by entering their own credentials at this
+// station; the backend checks them and keeps its own record. Every override
+// used, and every one refused, goes in the audit log.
+
+import { API_URL } from '@/lib/api'
+import { INTERLOCK_CONFIG } from '@/config/missionExecution.config'
+import { interlockApprovalSchema } from '@/lib/authSchemas'
+import { CallOptions, httpRequest } from '@/lib/http'
+import {
+  INTERLOCKS,
+  InterlockError,
+  overrideBlocker,
+  type InterlockApproval,
+  type InterlockOverride,
+} from '@/lib/interlocks'
+import auditService, { type AuditContext } from '@/services/auditService'
+import permissionService from '@/services/permissionService'
+import sessionService from '@/services/sessionService'
+import type { InterlockId } from '@/types'
+
+class InterlockService {
+  // Approval ids already spent; each approval covers one command
+  private used: Set<string> = new Set()
+
+  /**
+   * Have the backend check a second person's credentials and record their
+   * approval of interlock `id`. Rejects with ApiError 401 or 403 for wrong
+   * credentials, and with InterlockError when the approver is the person
+   * asking or their role could not give the command themselves.
+   */
+  async requestApproval(
+    id: InterlockId,
+    username: string,
+    password: string,
+    context: AuditContext = {},
+    options: CallOptions = {}
+  ): Promise<InterlockApproval> {
+    const interlock = INTERLOCKS[id]
+    const requester = sessionService.getUser()
+    const response = await httpRequest(`${API_URL}${INTERLOCK_CONFIG.approvalPath}`, {
+      signal: options.signal,
+      method: 'POST',
+      body: {
+        interlock: id,
+        username: username.trim(),
+        password,
+        requested_by: requester?.id,
+        vehicle_id: context.vehicle_id ?? undefined,
+        mission_id: context.mission_id ?? undefined,
+      },
+      response: interlockApprovalSchema,
+      errorMessage: `${interlock.label} approval failed`,
+    })
+
+    const approver = { id: response.approver.id, name: response.approver.name, role: response.approver.role }
+    if (requester && approver.id === requester.id) {
+      throw new InterlockError(id, `${interlock.label} has to be approved by someone else`)
+    }
+    if (!permissionService.can(interlock.permission, approver)) {
+      throw new InterlockError(id, `${approver.name}'s role cannot approve ${interlock.label.toLowerCase()}`)
+    }
+    return { id: response.approval_id, approver, receivedAt: Date.now() }
+  }
+
+  /**
+   * Why `override` would not get the signed-in user past interlock `id` now,
+   * or null when it would. Nothing is logged and no approval is spent, so a
+   * command sequence can be checked before any of it is sent.
+   */
+  blocker(id: InterlockId, override: InterlockOverride | undefined): string | null {
+    const interlock = INTERLOCKS[id]
+    const approval = override?.approval
+    const blocker = overrideBlocker(id, override, sessionService.getUser())
+    if (blocker) return blocker
+    if (approval && this.used.has(approval.id)) return 'That approval has already been used; ask for it again'
+    if (approval && !permissionService.can(interlock.permission, approval.approver)) {
+      return `${approval.approver.name}'s role can no longer approve ${interlock.label.toLowerCase()}`
+    }
+    return null
+  }
+
+  /**
+   * Check that `override` gets the signed-in user past interlock `id`, and
+   * log the override. Throws InterlockError, also logged, when it does not.
+   */
+  authorize(id: InterlockId, override: InterlockOverride | undefined, context: AuditContext = {}): void {
+    const approval = override?.approval
+    const blocker = this.blocker(id, override)
+
+    const logged = {
+      ...context,
+      parameters: {
+        ...context.parameters,
+        interlock: id,
+        approval_id: approval?.id,
+        approver_id: approval?.approver.id,
+        approver_name: approval?.approver.name,
+        approver_role: approval?.approver.role,
+      },
+    }
+    if (blocker) {
+      auditService.record('interlock_override', logged, 'denied', blocker)
+      throw new InterlockError(id, blocker)
+    }
+    if (approval) this.used.add(approval.id)
+    auditService.record('interlock_override', logged, 'success')
+  }
+}
+
+// Singleton instance
+const interlockService = new InterlockService()
+
+export default interlockService
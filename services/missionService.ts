@@ -1,266 +1,258 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { API_URL } from '@/lib/api'
+import { CallOptions, httpRequest } from '@/lib/http'
+import { applyTransition, MISSION_EVENT_LABELS, TransitionDetails } from '@/lib/missionLifecycle'
+import {
+  apiMissionSchema,
+  missionCountsSchema,
+  missionCreateSchema,
+  missionListSchema,
+  missionStatusUpdateSchema,
+  missionUpdateSchema,
+  preflightRecordSchema,
+  type ApiMission,
+  type MissionCounts,
+  type MissionCreateRequest,
+  type MissionUpdateRequest,
+  type PaginatedResponse,
+  type PreflightRecord,
+} from '@/lib/missionSchemas'
+import { EVENT_PERMISSIONS } from '@/lib/permissions'
+import auditService from '@/services/auditService'
+import permissionService from '@/services/permissionService'
+import sessionService from '@/services/sessionService'
+import type { MissionEvent, MissionState } from '@/types'
+
+export type { CallOptions } from '@/lib/http'
+export type {
+  ApiMission,
+  ApiWaypoint,
+  MissionCounts,
+  MissionCreateRequest,
+  MissionUpdateRequest,
+  PaginatedResponse,
+  PreflightRecord,
+} from '@/lib/missionSchemas'
 
 export interface GetMissionsParams {
   status?: string
   corridor?: string
   mission_type?: string
   created_by?: string
+  search?: string
+  skip?: number
   limit?: number
-  offset?: number
 }
 
-class MissionService {
+// The actor is always the signed-in user, so approvals rest on an authenticated session
+export interface TransitionOptions extends CallOptions, Pick<TransitionDetails, 'reason'> {
+  perform?: () => Promise<unknown> // carries the move out; it is recorded only once this succeeds
+}
+
+// Moves the backend carries out itself, each at /api/missions/{id}/{action}
+export type MissionAction = 'start' | 'pause' | 'complete'
+
+/**
+ * Everything the app does with missions. MissionService talks to the
+ * backend; MockMissionService keeps missions in memory. Aborting
+ * `options.signal` cancels the call with ApiCancelledError. MissionService
+ * rejects changes the signed-in user's role does not permit with
+ * PermissionDeniedError, and records every change in the audit log.
+ */
+export interface MissionApi {
+  getMissions(params?: GetMissionsParams, options?: CallOptions): Promise<PaginatedResponse>
+  getMissionById(id: number, options?: CallOptions): Promise<ApiMission>
+  createMission(mission: MissionCreateRequest, options?: CallOptions): Promise<ApiMission>
+  updateMission(id: number, updates: MissionUpdateRequest, options?: CallOptions): Promise<ApiMission>
+  deleteMission(id: number, options?: CallOptions): Promise<void>
+  getMissionStats(options?: CallOptions): Promise<MissionCounts>
+  transitionMission(id: number, event: MissionEvent, options?: TransitionOptions): Promise<ApiMission>
+  runMissionAction(id: number, action: MissionAction, options?: CallOptions): Promise<ApiMission>
+  recordPreflight(id: number, record: PreflightRecord, options?: CallOptions): Promise<ApiMission>
+}
+
+class MissionService implements MissionApi {
   /**
-   * Get all missions with optional filters
+   * Get one page of missions with optional filters
    */
-  async getMissions(params?: GetMissionsParams): Promise<any> {
+  async getMissions(params?: GetMissionsParams, options: CallOptions = {}): Promise<PaginatedResponse> {
     const queryParams = new URLSearchParams()
-    
+
     if (params?.status) queryParams.append('status', params.status)
     if (params?.corridor) queryParams.append('corridor', params.corridor)
     if (params?.mission_type) queryParams.append('mission_type', params.mission_type)
     if (params?.created_by) queryParams.append('created_by', params.created_by)
+    if (params?.search) queryParams.append('search', params.search)
+    if (params?.skip) queryParams.append('skip', params.skip.toString())
     if (params?.limit) queryParams.append('limit', params.limit.toString())
-    if (params?.offset) queryParams.append('offset', params.offset.toString())
-
-    const url = `${API_BASE_URL}/api/missions${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
 
-    const response = await fetch(url, {
+    const query = queryParams.toString()
+    return httpRequest(`${API_URL}/api/missions${query ? `?${query}` : ''}`, {
+      signal: options.signal,
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      response: missionListSchema,
+      errorMessage: 'Failed to fetch missions',
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch missions' }))
-      throw new Error(error.detail || 'Failed to fetch missions')
-    }
-
-    return response.json()
   }
 
   /**
    * Get a single mission by ID
    */
-  async getMissionById(id: number): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}`, {
+  async getMissionById(id: number, options: CallOptions = {}): Promise<ApiMission> {
+    return httpRequest(`${API_URL}/api/missions/${id}`, {
+      signal: options.signal,
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      response: apiMissionSchema,
+      errorMessage: 'Mission not found',
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Mission not found' }))
-      throw new Error(error.detail || 'Mission not found')
-    }
-
-    return response.json()
   }
 
   /**
-   * Create a new mission
+   * Create a new mission. The request is checked before it is sent.
    */
-  async createMission(mission: any): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(mission),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to create mission' }))
-      throw new Error(error.detail || 'Failed to create mission')
-    }
-
-    return response.json()
+  async createMission(mission: MissionCreateRequest, options: CallOptions = {}): Promise<ApiMission> {
+    const context = { vehicle_id: mission.vehicle_id, parameters: { mission_name: mission.mission_name } }
+    return auditService.run('mission_create', context, async () => {
+      permissionService.require('create_missions')
+      return httpRequest(`${API_URL}/api/missions`, {
+        signal: options.signal,
+        method: 'POST',
+        body: missionCreateSchema.parse(mission, 'request'),
+        response: apiMissionSchema,
+        errorMessage: 'Failed to create mission',
+      })
+    }, { details: created => ({ mission_id: created.id }) })
   }
 
   /**
-   * Update an existing mission
+   * Update an existing mission; fields left out are unchanged
    */
-  async updateMission(id: number, updates: Partial<any>): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(updates),
+  async updateMission(id: number, updates: MissionUpdateRequest, options: CallOptions = {}): Promise<ApiMission> {
+    const context = { mission_id: id, vehicle_id: updates.vehicle_id, parameters: { fields: Object.keys(updates) } }
+    return auditService.run('mission_update', context, async () => {
+      permissionService.require('edit_missions')
+      return httpRequest(`${API_URL}/api/missions/${id}`, {
+        signal: options.signal,
+        method: 'PUT',
+        body: missionUpdateSchema.parse(updates, 'request'),
+        response: apiMissionSchema,
+        errorMessage: 'Failed to update mission',
+      })
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to update mission' }))
-      throw new Error(error.detail || 'Failed to update mission')
-    }
-
-    return response.json()
   }
 
   /**
    * Delete a mission
    */
-  async deleteMission(id: number): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  async deleteMission(id: number, options: CallOptions = {}): Promise<void> {
+    return auditService.run('mission_delete', { mission_id: id }, async () => {
+      permissionService.require('delete_missions')
+      return httpRequest(`${API_URL}/api/missions/${id}`, {
+        signal: options.signal,
+        method: 'DELETE',
+        response: null,
+        errorMessage: 'Failed to delete mission',
+      })
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to delete mission' }))
-      throw new Error(error.detail || 'Failed to delete mission')
-    }
   }
 
   /**
-   * Get mission statistics
+   * Get mission counts, in total and by status
    */
-  async getMissionStats(): Promise<{
-    total: number
-    by_status: Record<string, number>
-  }> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/stats`, {
+  async getMissionStats(options: CallOptions = {}): Promise<MissionCounts> {
+    return httpRequest(`${API_URL}/api/missions/stats`, {
+      signal: options.signal,
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      response: missionCountsSchema,
+      errorMessage: 'Failed to fetch stats',
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to fetch stats' }))
-      throw new Error(error.detail || 'Failed to fetch stats')
-    }
-
-    return response.json()
   }
 
   /**
-   * 🆕 NEW: Update mission status
+   * Move a mission through its lifecycle. The move is checked against the
+   * mission's current state first and recorded in its status history; throws
+   * MissionTransitionError when it is not allowed. The signed-in user makes
+   * the move. `options.perform` runs after the checks and before the move is
+   * recorded, so a move that fails to happen is never recorded.
    */
-  async updateMissionStatus(id: number, newStatus: string): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}/status`, {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        status: newStatus 
+  async transitionMission(id: number, event: MissionEvent, options: TransitionOptions = {}): Promise<ApiMission> {
+    const actor = sessionService.getUser()
+    const context = { actor, mission_id: id, parameters: { event, reason: options.reason } }
+    let from: MissionState | undefined
+    return auditService.run('mission_transition', context, async () => {
+      permissionService.require(EVENT_PERMISSIONS[event], actor)
+      const mission = await this.getMissionById(id, options)
+      from = mission.status
+      const transition = applyTransition(mission, event, { actor, reason: options.reason })
+      await options.perform?.()
+      return httpRequest(`${API_URL}/api/missions/${id}/status`, {
+        signal: options.signal,
+        method: 'PATCH',
+        body: missionStatusUpdateSchema.parse({ status: transition.to, transition }, 'request'),
+        response: apiMissionSchema,
+        errorMessage: `Failed to ${MISSION_EVENT_LABELS[event].toLowerCase()} mission`,
+      })
+    }, {
+      details: updated => ({
+        vehicle_id: updated.vehicle_id,
+        parameters: { from, to: updated.status },
       }),
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to update mission status' }))
-      throw new Error(error.detail || 'Failed to update mission status')
-    }
-
-    return response.json()
   }
 
   /**
-   * 🆕 NEW: Start a mission (convenience method)
+   * Have the backend start, pause or complete a mission. This does not record
+   * the move; pass it to transitionMission as `perform` to do both.
    */
-  async startMission(id: number): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}/start`, {
+  async runMissionAction(id: number, action: MissionAction, options: CallOptions = {}): Promise<ApiMission> {
+    permissionService.require(EVENT_PERMISSIONS[action])
+    return httpRequest(`${API_URL}/api/missions/${id}/${action}`, {
+      signal: options.signal,
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      response: apiMissionSchema,
+      errorMessage: `Failed to ${action} mission`,
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to start mission' }))
-      throw new Error(error.detail || 'Failed to start mission')
-    }
-
-    return response.json()
   }
 
   /**
-   * 🆕 NEW: Pause a mission (convenience method)
+   * Store a completed pre-flight checklist with the mission, replacing the
+   * one stored before. Needs control_vehicle, as arming does.
    */
-  async pauseMission(id: number): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}/pause`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to pause mission' }))
-      throw new Error(error.detail || 'Failed to pause mission')
+  async recordPreflight(id: number, record: PreflightRecord, options: CallOptions = {}): Promise<ApiMission> {
+    const context = {
+      mission_id: id,
+      vehicle_id: record.vehicle_id,
+      parameters: { checklists: record.checklists, items: record.items.map(item => item.id) },
     }
-
-    return response.json()
-  }
-
-  /**
-   * 🆕 NEW: Complete a mission (convenience method)
-   */
-  async completeMission(id: number): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/api/missions/${id}/complete`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    return auditService.run('preflight_checklist', context, async () => {
+      permissionService.require('control_vehicle')
+      return httpRequest(`${API_URL}/api/missions/${id}/preflight`, {
+        signal: options.signal,
+        method: 'PUT',
+        body: preflightRecordSchema.parse(record, 'request'),
+        response: apiMissionSchema,
+        errorMessage: 'Failed to save the pre-flight checklist',
+      })
     })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to complete mission' }))
-      throw new Error(error.detail || 'Failed to complete mission')
-    }
-
-    return response.json()
   }
 }
 
 export const missionService = new MissionService()
 
-// Helper function to transform frontend data to backend format
-const transformMissionData = (data: any) => {
-  return {
-    mission_name: data.missionName || data.mission_name,
-    mission_type: data.missionType || data.mission_type,
-    corridor: data.corridor ? {
-      value: data.corridor.value,
-      label: data.corridor.label,
-      color: data.corridor.color,
-      description: data.corridor.description,
-    } : null,
-    mission_stats: data.mission_stats || data.missionStats ? {
-      total_distance: data.mission_stats?.total_distance || data.missionStats?.totalDistance || 0,
-      flight_time: data.mission_stats?.flight_time || data.missionStats?.flightTime || 0,
-      battery_usage: data.mission_stats?.battery_usage || data.missionStats?.batteryUsage || 0,
-    } : null,
-    waypoints: data.waypoints || [],
-    status: data.status || 'draft',
-    created_by: data.createdBy || data.created_by,
-    notes: data.notes || '',
-    vehicle_id: data.vehicleId || data.vehicle_id,
-    operator_id: data.operatorId || data.operator_id,
-  }
-}
-
 // Export convenience functions
-export const getMissions = (params?: GetMissionsParams) => missionService.getMissions(params)
-export const getMissionById = (id: number) => missionService.getMissionById(id)
-export const createMission = (data: any) => {
-  const transformedData = transformMissionData(data)
-  return missionService.createMission(transformedData)
-}
-export const updateMission = (id: number, data: Partial<any>) => {
-  const transformedData = transformMissionData(data)
-  return missionService.updateMission(id, transformedData)
-}
+export const getMissions = (params?: GetMissionsParams, options?: CallOptions) => missionService.getMissions(params, options)
+export const getMissionById = (id: number, options?: CallOptions) => missionService.getMissionById(id, options)
+export const createMission = (data: MissionCreateRequest, options?: CallOptions) => missionService.createMission(data, options)
+export const updateMission = (id: number, data: MissionUpdateRequest, options?: CallOptions) =>
+  missionService.updateMission(id, data, options)
+
+export const deleteMission = (id: number, options?: CallOptions) => missionService.deleteMission(id, options)
+export const getMissionStats = (options?: CallOptions) => missionService.getMissionStats(options)
+
+export const transitionMission = (id: number, event: MissionEvent, options?: TransitionOptions) =>
+  missionService.transitionMission(id, event, options)
 
-export const deleteMission = (id: number) => missionService.deleteMission(id)
-export const getMissionStats = () => missionService.getMissionStats()
+export const runMissionAction = (id: number, action: MissionAction, options?: CallOptions) =>
+  missionService.runMissionAction(id, action, options)
 
-export const updateMissionStatus = (id: number, status: string) => missionService.updateMissionStatus(id, status)
-export const startMission = (id: number) => missionService.startMission(id)
-export const pauseMission = (id: number) => missionService.pauseMission(id)
-export const completeMission = (id: number) => missionService.completeMission(id)
\ No newline at end of file
+export const recordPreflight = (id: number, record: PreflightRecord, options?: CallOptions) =>
+  missionService.recordPreflight(id, record, options)
@@ -0,0 +1,165 @@
+// services/mockMissionService.ts
+// In-memory MissionApi for tests and for working on screens without the
+// backend. Missions are generated from the API schemas, so a mock always has
+// the shape the real client returns.
+
+import { ApiError } from '@/lib/api'
+import { applyTransition, type TransitionActor } from '@/lib/missionLifecycle'
+import {
+  apiMissionSchema,
+  missionCreateSchema,
+  missionStatusUpdateSchema,
+  missionUpdateSchema,
+  preflightRecordSchema,
+  type ApiMission,
+  type MissionCounts,
+  type MissionCreateRequest,
+  type MissionUpdateRequest,
+  type PaginatedResponse,
+  type PreflightRecord,
+} from '@/lib/missionSchemas'
+import { generateMock } from '@/lib/schema'
+import type { GetMissionsParams, MissionApi, TransitionOptions } from '@/services/missionService'
+import sessionService from '@/services/sessionService'
+import type { MissionEvent } from '@/types'
+
+export interface MockTransitionOptions extends TransitionOptions {
+  actor?: TransitionActor | null // who makes the move; the signed-in user when absent
+}
+
+/**
+ * A schema-valid mission. The same seed always gives the same mission;
+ * overrides replace generated fields. Its status history starts empty.
+ */
+export function mockApiMission(overrides: Partial<ApiMission> = {}, seed = 1): ApiMission {
+  return apiMissionSchema.parse(
+    { ...generateMock(apiMissionSchema, seed), id: seed, status_history: [], ...overrides },
+    'mock'
+  )
+}
+
+// Flatten a create/update request into the response shape, as the backend does
+function applyRequest(mission: ApiMission, request: MissionUpdateRequest): ApiMission {
+  const { corridor, mission_stats, vehicle_id, operator_id, created_by, ...rest } = request
+  return {
+    ...mission,
+    ...rest,
+    ...(corridor !== undefined ? {
+      corridor_value: corridor?.value,
+      corridor_label: corridor?.label,
+      corridor_color: corridor?.color,
+      corridor_description: corridor?.description,
+    } : {}),
+    ...(mission_stats ? mission_stats : {}),
+    ...(vehicle_id !== undefined ? { vehicle_id: vehicle_id ?? undefined } : {}),
+    ...(operator_id !== undefined ? { operator_id: operator_id ?? undefined } : {}),
+    ...(created_by !== undefined ? { created_by: created_by ?? undefined } : {}),
+    updated_at: new Date().toISOString(),
+  }
+}
+
+export class MockMissionService implements MissionApi {
+  private missions: Map<number, ApiMission> = new Map()
+  private nextId: number
+
+  /**
+   * Start with the given missions, or `count` generated ones
+   */
+  constructor(initial: ApiMission[] | number = 3) {
+    const missions = typeof initial === 'number'
+      ? Array.from({ length: initial }, (_, i) => mockApiMission({}, i + 1))
+      : initial
+    missions.forEach(mission => this.missions.set(mission.id, mission))
+    this.nextId = Math.max(0, ...missions.map(mission => mission.id)) + 1
+  }
+
+  private find(id: number): ApiMission {
+    const mission = this.missions.get(id)
+    if (!mission) throw new ApiError(404, 'Mission not found', `/api/missions/${id}`, 'Mission not found')
+    return mission
+  }
+
+  private save(mission: ApiMission): ApiMission {
+    const checked = apiMissionSchema.parse(mission, 'response')
+    this.missions.set(checked.id, checked)
+    return checked
+  }
+
+  async getMissions(params: GetMissionsParams = {}): Promise<PaginatedResponse> {
+    const search = params.search?.toLowerCase()
+    const matching = Array.from(this.missions.values()).filter(mission =>
+      (!params.status || mission.status === params.status) &&
+      (!params.corridor || mission.corridor_value === params.corridor) &&
+      (!params.mission_type || mission.mission_type === params.mission_type) &&
+      (!params.created_by || mission.created_by === params.created_by) &&
+      (!search || mission.mission_name.toLowerCase().includes(search))
+    )
+    const skip = params.skip ?? 0
+    const limit = params.limit ?? matching.length
+    return { missions: matching.slice(skip, skip + limit), total: matching.length, skip, limit }
+  }
+
+  async getMissionById(id: number): Promise<ApiMission> {
+    return this.find(id)
+  }
+
+  async createMission(request: MissionCreateRequest): Promise<ApiMission> {
+    const checked = missionCreateSchema.parse(request, 'request')
+    const now = new Date().toISOString()
+    const mission = applyRequest({
+      id: this.nextId++,
+      mission_name: checked.mission_name,
+      status: 'draft',
+      status_history: [],
+      waypoints: [],
+      created_at: now,
+    }, checked)
+    return this.save(mission)
+  }
+
+  async updateMission(id: number, updates: MissionUpdateRequest): Promise<ApiMission> {
+    return this.save(applyRequest(this.find(id), missionUpdateSchema.parse(updates, 'request')))
+  }
+
+  async deleteMission(id: number): Promise<void> {
+    this.find(id)
+    this.missions.delete(id)
+  }
+
+  async getMissionStats(): Promise<MissionCounts> {
+    const by_status: Record<string, number> = {}
+    this.missions.forEach(mission => {
+      by_status[mission.status] = (by_status[mission.status] ?? 0) + 1
+    })
+    return { total: this.missions.size, by_status }
+  }
+
+  // Tests can act as anyone; the real service only ever uses the session
+  async transitionMission(id: number, event: MissionEvent, options: MockTransitionOptions = {}): Promise<ApiMission> {
+    const mission = this.find(id)
+    const actor = options.actor === undefined ? sessionService.getUser() : options.actor
+    const transition = applyTransition(mission, event, { actor, reason: options.reason })
+    await options.perform?.()
+    const checked = missionStatusUpdateSchema.parse({ status: transition.to, transition }, 'request')
+    return this.save({
+      ...mission,
+      status: checked.status,
+      status_history: [...(mission.status_history ?? []), checked.transition],
+      updated_at: transition.at,
+    })
+  }
+
+  // There is nothing to carry out in memory; transitionMission records the move
+  async runMissionAction(id: number): Promise<ApiMission> {
+    return this.find(id)
+  }
+
+  async recordPreflight(id: number, record: PreflightRecord): Promise<ApiMission> {
+    const mission = this.find(id)
+    return this.save({
+      ...mission,
+      preflight_checklist: preflightRecordSchema.parse(record, 'request'),
+      updated_at: new Date().toISOString(),
+    })
+  }
+}
@@ -0,0 +1,117 @@
+// services/permissionService.ts
+// What each role is permitted to do. Starts from the defaults in lib/data.ts
+// and loads the grants administrators have set from the backend whenever
+// someone signs in. Administrators change them from Roles & Permissions.
+
+import { API_URL } from '@/lib/api'
+import { rolePermissionsSchema, type RolePermissionsResponse } from '@/lib/authSchemas'
+import { CallOptions, httpRequest } from '@/lib/http'
+import { USER_ROLES } from '@/lib/missionLifecycle'
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_GRANTS,
+  PERMISSION_IDS,
+  PermissionDeniedError,
+  type RolePermissions,
+} from '@/lib/permissions'
+import sessionService, { type SessionUser } from '@/services/sessionService'
+import type { PermissionId, UserRole } from '@/types'
+
+// Known ids only, plus the grants a role can never lose; missing roles keep their defaults
+function toRolePermissions(response: RolePermissionsResponse): RolePermissions {
+  return Object.fromEntries(USER_ROLES.map(role => {
+    const granted = response.roles[role] ?? DEFAULT_ROLE_PERMISSIONS[role]
+    const known = PERMISSION_IDS.filter(id => granted.includes(id) || LOCKED_GRANTS[role]?.includes(id))
+    return [role, known]
+  })) as RolePermissions
+}
+
+class PermissionService {
+  private grants: RolePermissions = DEFAULT_ROLE_PERMISSIONS
+  private listeners: Set<() => void> = new Set()
+
+  constructor() {
+    if (sessionService.getUser()) this.reload()
+    sessionService.subscribe(user => {
+      if (user) {
+        this.reload()
+      } else {
+        this.update(DEFAULT_ROLE_PERMISSIONS)
+      }
+    })
+  }
+
+  /**
+   * Be told when the grants change. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getRolePermissions(): RolePermissions {
+    return this.grants
+  }
+
+  /**
+   * Whether `user`, by default the signed-in one, has `permission`
+   */
+  can(permission: PermissionId, user: Pick<SessionUser, 'role'> | null = sessionService.getUser()): boolean {
+    return !!user && this.grants[user.role].includes(permission)
+  }
+
+  /**
+   * Throw PermissionDeniedError unless `user`, by default the signed-in one,
+   * has `permission`
+   */
+  require(permission: PermissionId, user: Pick<SessionUser, 'role'> | null = sessionService.getUser()): void {
+    if (!this.can(permission, user)) throw new PermissionDeniedError(permission)
+  }
+
+  /**
+   * Fetch the grants in force from the backend
+   */
+  async load(options: CallOptions = {}): Promise<RolePermissions> {
+    const response = await httpRequest(`${API_URL}/api/roles/permissions`, {
+      signal: options.signal,
+      response: rolePermissionsSchema,
+      errorMessage: 'Failed to load role permissions',
+    })
+    this.update(toRolePermissions(response))
+    return this.grants
+  }
+
+  /**
+   * Replace what `role` is permitted to do. Needs manage_roles; grants a role
+   * must keep are added back.
+   */
+  async setRolePermissions(role: UserRole, permissions: PermissionId[], options: CallOptions = {}): Promise<RolePermissions> {
+    this.require('manage_roles')
+    const granted = PERMISSION_IDS.filter(id => permissions.includes(id) || LOCKED_GRANTS[role]?.includes(id))
+    const response = await httpRequest(`${API_URL}/api/roles/${encodeURIComponent(role)}/permissions`, {
+      signal: options.signal,
+      method: 'PUT',
+      body: { permissions: granted },
+      response: rolePermissionsSchema,
+      errorMessage: `Failed to update ${role} permissions`,
+    })
+    this.update(toRolePermissions(response))
+    return this.grants
+  }
+
+  private reload(): void {
+    this.load().catch(error => console.warn('Using default role permissions:', error))
+  }
+
+  private update(grants: RolePermissions): void {
+    this.grants = grants
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+// Singleton instance
+const permissionService = new PermissionService()
+
+export default permissionService
@@ -0,0 +1,281 @@
+// services/sessionService.ts
+// Who is signed in, and the tokens that prove it. Signs in against the
+// backend auth endpoints, keeps the session across reloads, refreshes the
+// access token before it expires and hands it to every backend request
+// (lib/http.ts) and the telemetry socket. Screens read the current user to
+// decide what they offer, and mission transitions record them in the history.
+
+import { API_URL, ApiError } from '@/lib/api'
+import { AUTH_CONFIG } from '@/config/missionExecution.config'
+import { httpRequest, setAuthProvider, type AuthProvider } from '@/lib/http'
+import {
+  loginResponseSchema,
+  refreshResponseSchema,
+  type AuthUser,
+  type RefreshResponse,
+} from '@/lib/authSchemas'
+import type { TransitionActor } from '@/lib/missionLifecycle'
+
+export interface SessionUser extends TransitionActor {
+  email?: string
+  initials: string
+}
+
+type SessionListener = (user: SessionUser | null) => void
+
+// What is kept in storage between reloads
+interface StoredSession {
+  user: SessionUser
+  accessToken: string
+  refreshToken?: string
+  expiresAt: number // epoch milliseconds
+}
+
+const toSessionUser = (user: AuthUser): SessionUser => ({
+  id: user.id,
+  name: user.name,
+  role: user.role,
+  email: user.email,
+  initials: user.name
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .slice(0, 2)
+    .join(''),
+})
+
+// Expiry from the token's exp claim. The signature is the backend's to check.
+function tokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const { exp } = JSON.parse(atob(payload))
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+const expiresAt = (response: RefreshResponse) =>
+  response.expires_in !== undefined
+    ? Date.now() + response.expires_in * 1000
+    : tokenExpiry(response.access_token) ?? Date.now()
+
+function isStoredSession(value: any): value is StoredSession {
+  return typeof value?.accessToken === 'string' &&
+    typeof value?.expiresAt === 'number' &&
+    typeof value?.user?.id === 'string' &&
+    typeof value?.user?.role === 'string'
+}
+
+class SessionService implements AuthProvider {
+  private session: StoredSession | null = null
+  private storage: Storage | null = null
+  private listeners: Set<SessionListener> = new Set()
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null
+  private refreshing: Promise<boolean> | null = null
+  private notice: string | null = null
+
+  constructor() {
+    setAuthProvider(this)
+  }
+
+  /**
+   * Be told when someone signs in or out. Returns the unsubscribe function.
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getUser(): SessionUser | null {
+    return this.session?.user ?? null
+  }
+
+  getAccessToken(): string | null {
+    return this.session?.accessToken ?? null
+  }
+
+  /**
+   * Why the last session ended when the user did not sign out themselves,
+   * e.g. it expired. Cleared once read.
+   */
+  takeNotice(): string | null {
+    const notice = this.notice
+    this.notice = null
+    return notice
+  }
+
+  /**
+   * Pick up the session saved by an earlier page load, refreshing its token
+   * if it has expired. Resolves with the user, or null when there is none.
+   */
+  async restore(): Promise<SessionUser | null> {
+    if (this.session) return this.session.user
+
+    for (const storage of [localStorage, sessionStorage]) {
+      let saved: unknown
+      try {
+        saved = JSON.parse(storage.getItem(AUTH_CONFIG.storageKey) ?? 'null')
+      } catch {
+        saved = null
+      }
+      if (!isStoredSession(saved)) {
+        storage.removeItem(AUTH_CONFIG.storageKey)
+        continue
+      }
+
+      this.storage = storage
+      this.session = saved
+      if (saved.expiresAt - Date.now() > AUTH_CONFIG.refreshMargin) {
+        this.scheduleRefresh(saved.expiresAt - Date.now() - AUTH_CONFIG.refreshMargin)
+      } else {
+        // Ends the session when the refresh token is no longer accepted
+        await this.refresh()
+      }
+      if (this.session) this.notify()
+      return this.getUser()
+    }
+    return null
+  }
+
+  /**
+   * Sign in with a username and password. `remember` keeps the session after
+   * the browser closes; otherwise it lasts as long as the tab. Throws
+   * ApiError 401 for wrong credentials.
+   */
+  async signIn(username: string, password: string, remember = false): Promise<SessionUser> {
+    const response = await httpRequest(`${API_URL}${AUTH_CONFIG.loginPath}`, {
+      method: 'POST',
+      body: { username: username.trim(), password },
+      response: loginResponseSchema,
+      errorMessage: 'Sign in failed',
+      auth: false,
+    })
+
+    this.clear()
+    this.storage = remember ? localStorage : sessionStorage
+    this.notice = null
+    this.start({
+      user: toSessionUser(response.user),
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token,
+      expiresAt: expiresAt(response),
+    })
+    return this.session!.user
+  }
+
+  /**
+   * Get a new access token with the refresh token. Concurrent callers share
+   * one request. Resolves false, ending the session, when the backend no
+   * longer accepts the refresh token.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  /**
+   * End the session here and on the backend
+   */
+  async signOut(): Promise<void> {
+    const refreshToken = this.session?.refreshToken
+    const accessToken = this.session?.accessToken
+    this.end(null)
+
+    if (!accessToken) return
+    try {
+      await fetch(`${API_URL}${AUTH_CONFIG.logoutPath}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+        keepalive: true,
+      })
+    } catch (error) {
+      // The tokens are gone from this browser; the backend lets them expire
+      console.warn('Could not revoke the session on the backend:', error)
+    }
+  }
+
+  private async requestRefresh(): Promise<boolean> {
+    const session = this.session
+    if (!session?.refreshToken) {
+      this.end('Your session has expired. Sign in again.')
+      return false
+    }
+
+    try {
+      const response = await httpRequest(`${API_URL}${AUTH_CONFIG.refreshPath}`, {
+        method: 'POST',
+        body: { refresh_token: session.refreshToken },
+        response: refreshResponseSchema,
+        errorMessage: 'Session refresh failed',
+        auth: false,
+      })
+      // Signed out, or someone else signed in, while the request was out
+      if (this.session !== session) return this.session !== null
+
+      this.start({
+        user: response.user ? toSessionUser(response.user) : session.user,
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token ?? session.refreshToken,
+        expiresAt: expiresAt(response),
+      })
+      return true
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+        if (this.session === session) this.end('Your session has expired. Sign in again.')
+        return false
+      }
+      // The backend is unreachable; keep the session and try again shortly
+      console.warn('Session refresh failed, retrying:', error)
+      this.scheduleRefresh(AUTH_CONFIG.refreshMargin / 4)
+      return false
+    }
+  }
+
+  private start(session: StoredSession): void {
+    const changedUser = JSON.stringify(this.session?.user) !== JSON.stringify(session.user)
+    this.session = session
+    this.storage?.setItem(AUTH_CONFIG.storageKey, JSON.stringify(session))
+    this.scheduleRefresh(session.expiresAt - Date.now() - AUTH_CONFIG.refreshMargin)
+    if (changedUser) this.notify()
+  }
+
+  private end(notice: string | null): void {
+    const hadSession = this.session !== null
+    this.clear()
+    this.notice = notice
+    if (hadSession) this.notify()
+  }
+
+  private clear(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer)
+    this.refreshTimer = null
+    this.storage?.removeItem(AUTH_CONFIG.storageKey)
+    this.storage = null
+    this.session = null
+  }
+
+  private scheduleRefresh(delay: number): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer)
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null
+      void this.refresh()
+    }, Math.max(0, delay))
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.getUser()))
+  }
+}
+
+// Singleton instance
+const sessionService = new SessionService()
+
+export default sessionService
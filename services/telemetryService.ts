@@ -1,288 +1,501 @@
 // services/telemetryService.ts
-// Real-time telemetry service for connecting to UAV via WebSocket
-
-export interface TelemetryData {
-  timestamp: number
-  vehicle_id: string
-  position: {
-    lat: number
-    lon: number
-    alt: number
-    relative_alt: number
-  }
-  velocity: {
-    vx: number
-    vy: number
-    vz: number
-    ground_speed: number
-  }
-  attitude: {
-    roll: number
-    pitch: number
-    yaw: number
-  }
-  battery: {
-    voltage: number
-    current: number
-    remaining: number
-    level: number
-  }
-  gps: {
-    satellites: number
-    fix_type: number
-    hdop: number
-    eph: number
-    epv: number
-  }
-  status: {
-    armed: boolean
-    mode: string
-    system_status: string
-  }
-  mission?: {
-    current_waypoint: number
-    total_waypoints: number
-    distance_to_waypoint: number
-  }
-}
+// Shared real-time telemetry client: one multiplexed WebSocket per endpoint,
+// shared by every view that subscribes to it. Speaks either the backend's JSON
+// protocol, with an endpoint per vehicle, or raw MAVLink v2 from a plain
+// WebSocket bridge that carries every vehicle on one stream. Connections carry
+// the signed-in user's access token.
+
+import { AUTH_CONFIG, WEBSOCKET_CONFIG } from '@/config/missionExecution.config'
+import { detectTelemetrySource, parseTelemetryFrame } from '@/lib/telemetry'
+import { MavlinkParser, MavlinkTelemetryDecoder, type MavlinkFrame } from '@/lib/mavlink'
+import sessionService from '@/services/sessionService'
+import { TelemetryData, TelemetryValidationError, VehicleStatusText } from '@/types/types'
+
+export const DEFAULT_VEHICLE_ID = 'default'
+
+const MAX_RECONNECT_DELAY = 30000
+
+export type TelemetryConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed'
+
+export type TelemetryProtocol = 'json' | 'mavlink'
 
 export interface TelemetrySubscription {
-  onData: (data: TelemetryData) => void
+  missionId?: string
+  onTelemetry?: (data: TelemetryData) => void
+  onStatus?: (status: any) => void
+  onConnectionChange?: (state: TelemetryConnectionState) => void
+  onInvalidFrame?: (error: TelemetryValidationError) => void
+  onStatusText?: (message: VehicleStatusText) => void
   onError?: (error: Error) => void
-  onConnect?: () => void
-  onDisconnect?: () => void
 }
 
-class TelemetryService {
+// One vehicle's subscribers and latest state on a connection
+interface VehicleFeed {
+  vehicleId: string
+  subscribers: Set<TelemetrySubscription>
+  latestTelemetry: TelemetryData | null
+  latestStatus: any
+  invalidFrames: number
+  mavlinkDecoder: MavlinkTelemetryDecoder | null
+}
+
+// A numeric vehicle id selects that MAVLink system; otherwise follow the first autopilot
+const mavlinkDecoderFor = (vehicleId: string) => {
+  const systemId = Number(vehicleId)
+  return new MavlinkTelemetryDecoder(Number.isInteger(systemId) ? systemId : undefined)
+}
+
+/**
+ * A single socket and the vehicles subscribed over it. A MAVLink bridge
+ * carries several vehicles, so its frames are parsed once and routed to each
+ * vehicle by system id. Mission subscriptions are reference counted so the
+ * server only hears about each mission once.
+ */
+class TelemetryConnection {
   private ws: WebSocket | null = null
+  private feeds: Map<string, VehicleFeed> = new Map()
+  private missionRefs: Map<string, number> = new Map()
   private reconnectTimeout: NodeJS.Timeout | null = null
-  private subscribers: Set<TelemetrySubscription> = new Set()
+  private pingInterval: NodeJS.Timeout | null = null
   private reconnectAttempts = 0
-  private maxReconnectAttempts = 10
-  private reconnectDelay = 2000
-  private isConnecting = false
-  private wsUrl: string
+  private state: TelemetryConnectionState = 'idle'
+  private mavlinkParser: MavlinkParser | null = null
+
+  constructor(
+    private readonly url: string,
+    private readonly protocol: TelemetryProtocol,
+    private readonly onIdle: () => void
+  ) {}
+
+  /**
+   * Add a subscriber to a vehicle, replaying its latest known state
+   */
+  add(vehicleId: string, subscription: TelemetrySubscription): void {
+    let feed = this.feeds.get(vehicleId)
+    if (!feed) {
+      feed = {
+        vehicleId,
+        subscribers: new Set(),
+        latestTelemetry: null,
+        latestStatus: null,
+        invalidFrames: 0,
+        mavlinkDecoder: this.protocol === 'mavlink' ? mavlinkDecoderFor(vehicleId) : null,
+      }
+      this.feeds.set(vehicleId, feed)
+    }
+
+    feed.subscribers.add(subscription)
+    if (subscription.missionId) this.retainMission(subscription.missionId)
 
-  constructor() {
-    // Use environment variable or default to localhost
-    this.wsUrl = process.env.NEXT_PUBLIC_DRONE_WS_URL || 'ws://localhost:8002/ws/telemetry'
+    subscription.onConnectionChange?.(this.state)
+    if (feed.latestStatus) subscription.onStatus?.(feed.latestStatus)
+    if (feed.latestTelemetry) subscription.onTelemetry?.(feed.latestTelemetry)
+
+    if (this.state === 'idle') {
+      this.open()
+    }
   }
 
   /**
-   * Connect to the telemetry WebSocket server
+   * Remove a subscriber; the socket closes with the last one on any vehicle
    */
-  connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) {
-      console.log('Already connected or connecting')
-      return
+  remove(vehicleId: string, subscription: TelemetrySubscription): void {
+    const feed = this.feeds.get(vehicleId)
+    if (!feed?.subscribers.delete(subscription)) return
+    if (subscription.missionId) this.releaseMission(subscription.missionId)
+
+    if (feed.subscribers.size === 0) this.feeds.delete(vehicleId)
+    if (this.feeds.size === 0) {
+      this.close()
+      this.onIdle()
     }
+  }
 
-    this.isConnecting = true
-    console.log('Connecting to telemetry service:', this.wsUrl)
+  /**
+   * Send a JSON message if the socket is open. MAVLink bridges forward
+   * everything to the autopilot, so nothing is sent over them.
+   */
+  send(message: Record<string, any>): boolean {
+    if (this.protocol === 'mavlink') return false
+    if (this.ws?.readyState !== WebSocket.OPEN) return false
+    this.ws.send(JSON.stringify(message))
+    return true
+  }
 
+  /**
+   * Start over after the reconnect budget was exhausted
+   */
+  reconnect(): void {
+    this.clearTimers()
+    this.ws?.close()
+    this.ws = null
+    this.reconnectAttempts = 0
+    this.open()
+  }
+
+  getState(): TelemetryConnectionState {
+    return this.state
+  }
+
+  getInvalidFrameCount(vehicleId: string): number {
+    return this.feeds.get(vehicleId)?.invalidFrames ?? 0
+  }
+
+  private open(): void {
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting')
+    console.log(`🔌 Connecting to telemetry: ${this.url}`)
+
+    let ws: WebSocket
     try {
-      this.ws = new WebSocket(this.wsUrl)
-
-      this.ws.onopen = () => {
-        console.log('✅ Telemetry WebSocket connected')
-        this.isConnecting = false
-        this.reconnectAttempts = 0
-        
-        // Notify all subscribers of connection
-        this.subscribers.forEach(sub => {
-          if (sub.onConnect) sub.onConnect()
-        })
+      ws = new WebSocket(this.authenticatedUrl())
+    } catch (error) {
+      console.error('❌ Failed to create WebSocket:', error)
+      this.scheduleReconnect()
+      return
+    }
+
+    if (this.protocol === 'mavlink') {
+      ws.binaryType = 'arraybuffer'
+      // A new stream may start mid-frame or come from a restarted vehicle
+      this.mavlinkParser = new MavlinkParser()
+      this.feeds.forEach(feed => { feed.mavlinkDecoder = mavlinkDecoderFor(feed.vehicleId) })
+    }
+
+    ws.onopen = () => {
+      console.log(`✅ Telemetry connected (${this.url})`)
+      this.reconnectAttempts = 0
+      this.setState('open')
+      if (this.protocol === 'json') {
+        this.missionRefs.forEach((_, missionId) => this.subscribeMission(missionId))
+        this.startPing()
       }
+    }
 
-      this.ws.onmessage = (event) => {
-        try {
-          const data: TelemetryData = JSON.parse(event.data)
-          
-          // Notify all subscribers of new data
-          this.subscribers.forEach(sub => {
-            sub.onData(data)
-          })
-        } catch (error) {
-          console.error('Error parsing telemetry data:', error)
-        }
+    ws.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleMavlink(event.data)
+        return
       }
 
-      this.ws.onerror = (error) => {
-        console.error('❌ Telemetry WebSocket error:', error)
-        this.isConnecting = false
-        
-        // Notify all subscribers of error
-        this.subscribers.forEach(sub => {
-          if (sub.onError) sub.onError(new Error('WebSocket connection error'))
-        })
+      let message: any
+      try {
+        message = JSON.parse(event.data)
+      } catch (error) {
+        console.error('❌ Error parsing telemetry message:', error)
+        return
       }
+      this.dispatch(message)
+    }
 
-      this.ws.onclose = (event) => {
-        console.log('🔌 Telemetry WebSocket closed:', event.code, event.reason)
-        this.isConnecting = false
-        this.ws = null
-        
-        // Notify all subscribers of disconnection
-        this.subscribers.forEach(sub => {
-          if (sub.onDisconnect) sub.onDisconnect()
-        })
-
-        // Attempt to reconnect if there are active subscribers
-        if (this.subscribers.size > 0 && this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.scheduleReconnect()
-        }
+    ws.onerror = () => {
+      console.error(`❌ Telemetry WebSocket error (${this.url})`)
+      this.notify(sub => sub.onError?.(new Error('Telemetry WebSocket connection error')))
+    }
+
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return
+      console.log(`🔌 Telemetry closed (Code: ${event.code})`)
+      this.ws = null
+      this.clearTimers()
+      // The server refused the token; have a new one ready for the reconnect
+      if (event.code === AUTH_CONFIG.socketUnauthorizedCode) void sessionService.refresh()
+      if (this.feeds.size > 0) {
+        this.scheduleReconnect()
       }
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error)
-      this.isConnecting = false
-      this.scheduleReconnect()
     }
+
+    this.ws = ws
+  }
+
+  // Read on every connect, so reconnects use the latest token
+  private authenticatedUrl(): string {
+    const token = sessionService.getAccessToken()
+    if (!token) return this.url
+    const separator = this.url.includes('?') ? '&' : '?'
+    return `${this.url}${separator}${AUTH_CONFIG.socketTokenParam}=${encodeURIComponent(token)}`
+  }
+
+  private close(): void {
+    this.clearTimers()
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+    this.reconnectAttempts = 0
+    this.mavlinkParser = null
+    this.setState('idle')
   }
 
-  /**
-   * Schedule a reconnection attempt
-   */
   private scheduleReconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout)
+    if (this.reconnectAttempts >= WEBSOCKET_CONFIG.maxReconnectAttempts) {
+      console.log('❌ Max telemetry reconnection attempts reached')
+      this.setState('failed')
+      return
     }
 
-    this.reconnectAttempts++
-    const delay = this.reconnectDelay * Math.min(this.reconnectAttempts, 5)
-    
-    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`)
-    
+    this.reconnectAttempts += 1
+    this.setState('reconnecting')
+
+    const delay = Math.min(
+      WEBSOCKET_CONFIG.reconnectInterval * Math.pow(2, this.reconnectAttempts - 1),
+      MAX_RECONNECT_DELAY
+    )
+    console.log(`🔄 Telemetry reconnecting in ${delay}ms (Attempt ${this.reconnectAttempts}/${WEBSOCKET_CONFIG.maxReconnectAttempts})`)
+
     this.reconnectTimeout = setTimeout(() => {
-      this.connect()
+      this.reconnectTimeout = null
+      this.open()
     }, delay)
   }
 
+  private startPing(): void {
+    this.pingInterval = setInterval(() => {
+      this.send({ action: 'ping' })
+    }, WEBSOCKET_CONFIG.pingInterval)
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval)
+      this.pingInterval = null
+    }
+  }
+
+  private retainMission(missionId: string): void {
+    const count = this.missionRefs.get(missionId) ?? 0
+    this.missionRefs.set(missionId, count + 1)
+    if (count === 0) this.subscribeMission(missionId)
+  }
+
+  private releaseMission(missionId: string): void {
+    const count = this.missionRefs.get(missionId) ?? 0
+    if (count <= 1) {
+      this.missionRefs.delete(missionId)
+      this.send({ action: 'unsubscribe', mission_id: missionId })
+    } else {
+      this.missionRefs.set(missionId, count - 1)
+    }
+  }
+
+  private subscribeMission(missionId: string): void {
+    if (this.send({ action: 'subscribe', mission_id: missionId })) {
+      console.log(`📡 Subscribed to mission: ${missionId}`)
+    }
+  }
+
+  // JSON endpoints are per vehicle, so every feed on the socket hears each message
+  private dispatch(message: any): void {
+    switch (message.type) {
+      case 'telemetry_update':
+      case 'telemetry':
+        this.handleFrame(message.data || message)
+        break
+      case 'status_update':
+        if (message.data) {
+          this.feeds.forEach(feed => {
+            feed.latestStatus = { ...feed.latestStatus, ...message.data }
+            this.notifyFeed(feed, sub => sub.onStatus?.(message.data))
+          })
+        }
+        break
+      case 'connection_info':
+        console.log('🔌 Connection info:', message)
+        break
+      case 'error':
+        console.error('❌ Telemetry server error:', message.message)
+        this.notify(sub => sub.onError?.(new Error(message.message || 'Telemetry server error')))
+        break
+      case 'pong':
+        break
+      default:
+        // Some bridges send bare frames without a type envelope
+        if (detectTelemetrySource(message)) {
+          this.handleFrame(message)
+        }
+        break
+    }
+  }
+
+  // Convert to canonical telemetry; malformed frames are reported, never passed on
+  private handleFrame(raw: any): void {
+    let frame: TelemetryData
+    try {
+      frame = parseTelemetryFrame(raw)
+    } catch (error) {
+      if (!(error instanceof TelemetryValidationError)) throw error
+      this.feeds.forEach(feed => this.rejectFrame(feed, error))
+      return
+    }
+
+    this.feeds.forEach(feed => this.publish(feed, frame))
+  }
+
+  // Parse once, then give each vehicle's decoder the frames from its system.
+  // A feed still looking for its first autopilot sees everything until it locks on.
+  private handleMavlink(data: ArrayBuffer): void {
+    if (!this.mavlinkParser) return
+
+    const { frames, errors } = this.mavlinkParser.push(data)
+    const bySystem: Map<number, MavlinkFrame[]> = new Map()
+    frames.forEach(frame => {
+      const group = bySystem.get(frame.systemId)
+      if (group) group.push(frame)
+      else bySystem.set(frame.systemId, [frame])
+    })
+
+    this.feeds.forEach(feed => {
+      const decoder = feed.mavlinkDecoder
+      if (!decoder) return
+      const systemId = decoder.followedSystemId
+      const routed = systemId === undefined ? frames : bySystem.get(systemId) ?? []
+
+      const { telemetry, statusTexts, errors: rejected } = decoder.decodeParsed({ frames: routed, errors }, data)
+      rejected.forEach(error => this.rejectFrame(feed, error))
+      statusTexts.forEach(message => {
+        console.log(`📟 Vehicle message (${feed.vehicleId}): ${message.text}`)
+        this.notifyFeed(feed, sub => sub.onStatusText?.(message))
+      })
+      telemetry.forEach(frame => this.publish(feed, frame))
+    })
+  }
+
+  private publish(feed: VehicleFeed, frame: TelemetryData): void {
+    feed.latestTelemetry = frame
+    this.notifyFeed(feed, sub => sub.onTelemetry?.(frame))
+  }
+
+  private rejectFrame(feed: VehicleFeed, error: TelemetryValidationError): void {
+    feed.invalidFrames += 1
+    console.warn(`⚠️ Rejected telemetry frame (${feed.vehicleId}):`, error.issues, error.raw)
+    this.notifyFeed(feed, sub => sub.onInvalidFrame?.(error))
+  }
+
+  private setState(state: TelemetryConnectionState): void {
+    if (this.state === state) return
+    this.state = state
+    this.notify(sub => sub.onConnectionChange?.(state))
+  }
+
+  private notify(callback: (subscription: TelemetrySubscription) => void): void {
+    this.feeds.forEach(feed => this.notifyFeed(feed, callback))
+  }
+
+  private notifyFeed(feed: VehicleFeed, callback: (subscription: TelemetrySubscription) => void): void {
+    feed.subscribers.forEach(sub => {
+      try {
+        callback(sub)
+      } catch (error) {
+        console.error('❌ Telemetry subscriber failed:', error)
+      }
+    })
+  }
+}
+
+class TelemetryService {
+  // Keyed by URL: vehicles behind one MAVLink bridge share its socket
+  private connections: Map<string, TelemetryConnection> = new Map()
+
   /**
-   * Subscribe to telemetry updates
+   * Subscribe to a vehicle's telemetry, opening its connection on first use
    */
-  subscribe(subscription: TelemetrySubscription): () => void {
-    this.subscribers.add(subscription)
-    
-    // Auto-connect if not connected
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      this.connect()
+  subscribe(vehicleId: string, subscription: TelemetrySubscription): () => void {
+    const url = this.getVehicleUrl(vehicleId)
+    let connection = this.connections.get(url)
+    if (!connection) {
+      connection = new TelemetryConnection(url, this.getProtocol(), () => {
+        this.connections.delete(url)
+      })
+      this.connections.set(url, connection)
     }
 
-    // Return unsubscribe function
+    const current = connection
+    current.add(vehicleId, subscription)
+
     return () => {
-      this.subscribers.delete(subscription)
-      
-      // Disconnect if no more subscribers
-      if (this.subscribers.size === 0) {
-        this.disconnect()
-      }
+      current.remove(vehicleId, subscription)
     }
   }
 
+  /**
+   * Send a raw message over a vehicle's connection
+   */
+  send(vehicleId: string, message: Record<string, any>): boolean {
+    return this.connectionFor(vehicleId)?.send(message) ?? false
+  }
+
   /**
    * Send a command to the drone
    */
-  sendCommand(command: string, params?: any): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      const message = {
-        type: 'command',
-        command,
-        params,
-        timestamp: Date.now()
-      }
-      this.ws.send(JSON.stringify(message))
-    } else {
-      console.warn('Cannot send command: WebSocket not connected')
+  sendCommand(vehicleId: string, command: string, params?: any): boolean {
+    const sent = this.send(vehicleId, {
+      type: 'command',
+      command,
+      params,
+      timestamp: Date.now()
+    })
+    if (!sent) {
+      console.warn(this.getProtocol() === 'mavlink'
+        ? 'Cannot send command: MAVLink bridge connections are receive-only'
+        : 'Cannot send command: telemetry not connected')
     }
+    return sent
   }
 
   /**
-   * Request telemetry for a specific vehicle
+   * Reset backoff and reconnect a vehicle's connection
    */
-  requestVehicleTelemetry(vehicleId: string): void {
-    this.sendCommand('subscribe_vehicle', { vehicle_id: vehicleId })
+  reconnect(vehicleId: string): void {
+    this.connectionFor(vehicleId)?.reconnect()
   }
 
   /**
-   * Stop telemetry for a specific vehicle
+   * Get current connection state for a vehicle
    */
-  stopVehicleTelemetry(vehicleId: string): void {
-    this.sendCommand('unsubscribe_vehicle', { vehicle_id: vehicleId })
+  getConnectionState(vehicleId: string): TelemetryConnectionState {
+    return this.connectionFor(vehicleId)?.getState() ?? 'idle'
   }
 
   /**
-   * Disconnect from the WebSocket
+   * Number of frames rejected by validation since the connection opened
    */
-  disconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout)
-      this.reconnectTimeout = null
-    }
-
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
-    }
-
-    this.reconnectAttempts = 0
-    this.subscribers.clear()
+  getInvalidFrameCount(vehicleId: string = DEFAULT_VEHICLE_ID): number {
+    return this.connectionFor(vehicleId)?.getInvalidFrameCount(vehicleId) ?? 0
   }
 
   /**
    * Get current connection status
    */
-  isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN
+  isConnected(vehicleId: string = DEFAULT_VEHICLE_ID): boolean {
+    return this.getConnectionState(vehicleId) === 'open'
   }
 
   /**
-   * Get number of active subscribers
+   * Wire protocol of the configured telemetry endpoint
    */
-  getSubscriberCount(): number {
-    return this.subscribers.size
+  getProtocol(): TelemetryProtocol {
+    return WEBSOCKET_CONFIG.protocol === 'mavlink' ? 'mavlink' : 'json'
   }
-}
-
-// Singleton instance
-const telemetryService = new TelemetryService()
-
-export default telemetryService
-
-// Export helper hook for React components
-export function useTelemetrySubscription(
-  onData: (data: TelemetryData) => void,
-  onConnect?: () => void,
-  onDisconnect?: () => void,
-  onError?: (error: Error) => void
-): { isConnected: boolean; disconnect: () => void } {
-  const [isConnected, setIsConnected] = React.useState(false)
-
-  React.useEffect(() => {
-    const subscription: TelemetrySubscription = {
-      onData,
-      onConnect: () => {
-        setIsConnected(true)
-        if (onConnect) onConnect()
-      },
-      onDisconnect: () => {
-        setIsConnected(false)
-        if (onDisconnect) onDisconnect()
-      },
-      onError
-    }
 
-    const unsubscribe = telemetryService.subscribe(subscription)
+  /**
+   * WebSocket URL for a vehicle; the default vehicle uses the configured URL as-is.
+   * A MAVLink bridge carries every system on one stream, so its URL is shared.
+   */
+  getVehicleUrl(vehicleId: string): string {
+    if (vehicleId === DEFAULT_VEHICLE_ID || this.getProtocol() === 'mavlink') return WEBSOCKET_CONFIG.url
 
-    return () => {
-      unsubscribe()
-    }
-  }, [onData, onConnect, onDisconnect, onError])
+    const separator = WEBSOCKET_CONFIG.url.includes('?') ? '&' : '?'
+    return `${WEBSOCKET_CONFIG.url}${separator}vehicle_id=${encodeURIComponent(vehicleId)}`
+  }
 
-  return {
-    isConnected,
-    disconnect: () => telemetryService.disconnect()
+  private connectionFor(vehicleId: string): TelemetryConnection | undefined {
+    return this.connections.get(this.getVehicleUrl(vehicleId))
   }
 }
 
-// React import (add this at the top of the file in actual implementation)
-import React from 'react'
\ No newline at end of file
+// Singleton instance
+const telemetryService = new TelemetryService()
+
+export default telemetryService
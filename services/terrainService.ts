@@ -0,0 +1,142 @@
+// services/terrainService.ts
+// Local elevation data for terrain-aware planning: SRTM HGT and GeoTIFF
+// tiles loaded from disk, kept in IndexedDB so they survive reloads, and
+// sampled for ground elevation anywhere they cover.
+
+import { ElevationTile, openElevationFile, sampleElevation } from '@/lib/elevation'
+import { createIdbStore } from '@/lib/idbStore'
+import type { TileBounds } from '@/lib/tiles'
+import type { GeoPoint } from '@/types/types'
+
+export interface ElevationDataset {
+  id: string
+  fileName: string
+  name: string
+  format: ElevationTile['format']
+  bounds: TileBounds
+  resolution: number // approximate meters per pixel
+  addedAt: string
+}
+
+interface StoredElevationFile {
+  id: string
+  fileName: string
+  file: Blob
+  addedAt: string
+}
+
+const elevationStore = createIdbStore<StoredElevationFile>('skyroutex-elevation', 'dem')
+
+const toDataset = (id: string, fileName: string, tile: ElevationTile, addedAt: string): ElevationDataset => ({
+  id,
+  fileName,
+  name: tile.name,
+  format: tile.format,
+  bounds: tile.bounds,
+  resolution: tile.resolution,
+  addedAt,
+})
+
+class TerrainService {
+  private datasets: Map<string, { dataset: ElevationDataset; tile: ElevationTile }> = new Map()
+  private listeners: Set<() => void> = new Set()
+  private restoring: Promise<void> | null = null
+
+  /**
+   * Be notified when elevation files are added or removed.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Reopen elevation files saved in earlier sessions. Safe to call repeatedly.
+   */
+  restore(): Promise<void> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve()
+    if (!this.restoring) {
+      this.restoring = (async () => {
+        const stored = await elevationStore.getAll()
+        for (const entry of stored) {
+          try {
+            const tile = await openElevationFile(entry.file, entry.fileName)
+            this.datasets.set(entry.id, { dataset: toDataset(entry.id, entry.fileName, tile, entry.addedAt), tile })
+          } catch (error) {
+            console.warn(`Could not reopen elevation file ${entry.fileName}:`, error)
+          }
+        }
+        this.notify()
+      })().catch(error => {
+        console.error('Failed to restore elevation data:', error)
+      })
+    }
+    return this.restoring
+  }
+
+  /**
+   * Load HGT or GeoTIFF files and keep them for later sessions. Files that
+   * cannot be read are reported together after the rest are loaded.
+   */
+  async addFiles(files: File[]): Promise<ElevationDataset[]> {
+    const added: ElevationDataset[] = []
+    const failures: string[] = []
+
+    for (const file of files) {
+      try {
+        const tile = await openElevationFile(file, file.name)
+        const dataset = toDataset(`dem-${Date.now()}-${added.length}`, file.name, tile, new Date().toISOString())
+
+        try {
+          await elevationStore.put({ id: dataset.id, fileName: file.name, file, addedAt: dataset.addedAt })
+        } catch (error) {
+          // Still usable for this session
+          console.warn(`Could not store elevation file ${file.name} for later sessions:`, error)
+        }
+
+        this.datasets.set(dataset.id, { dataset, tile })
+        added.push(dataset)
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : `${file.name} could not be read`)
+      }
+    }
+
+    if (added.length > 0) this.notify()
+    if (failures.length > 0) throw new Error(failures.join('\n'))
+    return added
+  }
+
+  async remove(id: string): Promise<void> {
+    this.datasets.delete(id)
+    this.notify()
+    await elevationStore.delete(id)
+  }
+
+  getDatasets(): ElevationDataset[] {
+    return Array.from(this.datasets.values()).map(entry => entry.dataset)
+  }
+
+  hasData(): boolean {
+    return this.datasets.size > 0
+  }
+
+  /**
+   * Ground elevation in meters above mean sea level, or null where no
+   * loaded file covers the point
+   */
+  elevationAt(point: GeoPoint): number | null {
+    return sampleElevation(Array.from(this.datasets.values(), entry => entry.tile), point)
+  }
+}
+
+// Singleton instance
+const terrainService = new TerrainService()
+
+export default terrainService
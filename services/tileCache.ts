@@ -0,0 +1,338 @@
+// services/tileCache.ts
+// Offline map tiles for every map view: online tiles are kept in the browser
+// Cache API as they are viewed or pre-downloaded for a mission area, and
+// local MBTiles/PMTiles basemaps are kept in IndexedDB so they survive reloads.
+// Tiles come from the active local basemap first, then the network, then the cache.
+
+import { MAP_TILES_CONFIG } from '@/config/missionExecution.config'
+import { createIdbStore } from '@/lib/idbStore'
+import { openMbtiles } from '@/lib/mbtiles'
+import { openPmtiles } from '@/lib/pmtiles'
+import {
+  countTiles,
+  TileArchive,
+  TileArchiveMetadata,
+  TileBounds,
+  TileCoord,
+  tilesInBounds,
+  tileUrl,
+} from '@/lib/tiles'
+
+const ACTIVE_BASEMAP_KEY = 'skyroutex.activeBasemap'
+
+export interface MapTileSource {
+  id: string // stable cache namespace, independent of subdomain rotation
+  url: string
+  subdomains?: string
+  attribution?: string
+  maxZoom?: number
+  overlay?: boolean // overlays (labels) are never replaced by a local basemap
+}
+
+export interface LocalBasemap {
+  id: string
+  fileName: string
+  kind: TileArchive['kind']
+  metadata: TileArchiveMetadata
+  addedAt: string
+}
+
+export interface PrefetchProgress {
+  total: number
+  downloaded: number
+  cached: number // already in the cache before this download
+  failed: number
+}
+
+export interface PrefetchOptions {
+  bounds: TileBounds
+  minZoom: number
+  maxZoom: number
+  sources: MapTileSource[]
+  signal?: AbortSignal
+  onProgress?: (progress: PrefetchProgress) => void
+}
+
+interface StoredBasemap {
+  id: string
+  fileName: string
+  file: Blob
+  addedAt: string
+}
+
+export const IMAGERY_SOURCE: MapTileSource = { ...MAP_TILES_CONFIG.imagery }
+export const LABELS_SOURCE: MapTileSource = { ...MAP_TILES_CONFIG.labels, overlay: true }
+
+// Retina only changes the image for sources with an {r} placeholder
+const cacheKey = (source: MapTileSource, tile: TileCoord, retina: boolean) =>
+  `/__map-tiles/${source.id}/${tile.z}/${tile.x}/${tile.y}${retina && source.url.includes('{r}') ? '@2x' : ''}`
+
+const hasCacheStorage = () => typeof caches !== 'undefined'
+
+const basemapStore = createIdbStore<StoredBasemap>('skyroutex-offline-maps', 'basemaps')
+
+// Open a local file as a tile archive, choosing the format from its magic bytes
+async function openTileArchive(file: Blob, fileName: string): Promise<TileArchive> {
+  const magic = new TextDecoder().decode(await file.slice(0, 16).arrayBuffer())
+  if (magic.startsWith('PMTiles')) return openPmtiles(file, fileName)
+  if (magic.startsWith('SQLite format 3')) return openMbtiles(file, fileName)
+  throw new Error(`${fileName} is not an MBTiles or PMTiles file`)
+}
+
+class TileCacheService {
+  private basemaps: Map<string, { basemap: LocalBasemap; archive: TileArchive }> = new Map()
+  private activeBasemapId: string | null = null
+  private listeners: Set<() => void> = new Set()
+  private restoring: Promise<void> | null = null
+
+  /**
+   * Be notified when local basemaps are added, removed or switched.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  }
+
+  // ==========================================================================
+  // Tile loading
+  // ==========================================================================
+
+  private async fetchTile(source: MapTileSource, tile: TileCoord, retina: boolean, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), MAP_TILES_CONFIG.networkTimeout)
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+
+    try {
+      const response = await fetch(tileUrl(source, tile, retina), { signal: controller.signal })
+      if (!response.ok) throw new Error(`Tile request failed with status ${response.status}`)
+      return response
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  /**
+   * Load one tile image. Throws when it is in neither the active basemap,
+   * the network nor the cache.
+   */
+  async loadTile(source: MapTileSource, tile: TileCoord, retina = false): Promise<Blob> {
+    if (!source.overlay) {
+      const active = this.getActiveArchive()
+      const { minZoom, maxZoom } = active?.metadata ?? { minZoom: 0, maxZoom: -1 }
+      if (active && tile.z >= minZoom && tile.z <= maxZoom) {
+        const blob = await active.getTile(tile).catch(error => {
+          console.warn('Local basemap tile read failed:', error)
+          return null
+        })
+        if (blob) return blob
+      }
+    }
+
+    const key = cacheKey(source, tile, retina)
+    const cache = hasCacheStorage() ? await caches.open(MAP_TILES_CONFIG.cacheName) : null
+
+    if (this.isOnline()) {
+      try {
+        const response = await this.fetchTile(source, tile, retina)
+        if (cache) {
+          cache.put(key, response.clone()).catch(error => console.warn('Tile cache write failed:', error))
+        }
+        return await response.blob()
+      } catch (error) {
+        // Fall through to the cache; the network is often only half up in the field
+      }
+    }
+
+    const cached = await cache?.match(key)
+    if (cached) return cached.blob()
+    throw new Error(`Tile ${tile.z}/${tile.x}/${tile.y} is not available offline`)
+  }
+
+  // ==========================================================================
+  // Pre-download
+  // ==========================================================================
+
+  /**
+   * Number of tile requests a pre-download of the bounds would make
+   */
+  estimatePrefetch(bounds: TileBounds, minZoom: number, maxZoom: number, sourceCount: number): number {
+    return countTiles(bounds, minZoom, maxZoom) * sourceCount
+  }
+
+  /**
+   * Download every tile covering the bounds into the cache. Tiles already
+   * cached are skipped, so an interrupted download can simply be restarted.
+   */
+  async prefetch(options: PrefetchOptions): Promise<PrefetchProgress> {
+    const { bounds, minZoom, maxZoom, sources, signal, onProgress } = options
+    if (!hasCacheStorage()) {
+      throw new Error('Offline tile storage is not available in this browser (requires HTTPS)')
+    }
+    if (!this.isOnline()) {
+      throw new Error('Cannot download tiles while offline')
+    }
+
+    const total = this.estimatePrefetch(bounds, minZoom, maxZoom, sources.length)
+    if (total > MAP_TILES_CONFIG.maxPrefetchTiles) {
+      throw new Error(
+        `Area needs ${total.toLocaleString()} tiles; the limit is ${MAP_TILES_CONFIG.maxPrefetchTiles.toLocaleString()}. ` +
+        'Lower the maximum zoom or shrink the area.'
+      )
+    }
+
+    const cache = await caches.open(MAP_TILES_CONFIG.cacheName)
+    const progress: PrefetchProgress = { total, downloaded: 0, cached: 0, failed: 0 }
+    const retina = typeof window !== 'undefined' && window.devicePixelRatio > 1
+
+    const jobs = (function* () {
+      for (const tile of tilesInBounds(bounds, minZoom, maxZoom)) {
+        for (const source of sources) yield { source, tile }
+      }
+    })()
+
+    const worker = async () => {
+      for (let job = jobs.next(); !job.done; job = jobs.next()) {
+        if (signal?.aborted) return
+        const { source, tile } = job.value
+        const key = cacheKey(source, tile, retina)
+
+        try {
+          if (await cache.match(key)) {
+            progress.cached++
+          } else {
+            const response = await this.fetchTile(source, tile, retina, signal)
+            await cache.put(key, response)
+            progress.downloaded++
+          }
+        } catch (error) {
+          if (signal?.aborted) return
+          progress.failed++
+        }
+        onProgress?.({ ...progress })
+      }
+    }
+
+    await Promise.all(Array.from({ length: MAP_TILES_CONFIG.prefetchConcurrency }, worker))
+    return progress
+  }
+
+  /**
+   * Number of tiles currently held in the offline cache
+   */
+  async getCachedTileCount(): Promise<number> {
+    if (!hasCacheStorage()) return 0
+    const cache = await caches.open(MAP_TILES_CONFIG.cacheName)
+    return (await cache.keys()).length
+  }
+
+  async clearCache(): Promise<void> {
+    if (hasCacheStorage()) await caches.delete(MAP_TILES_CONFIG.cacheName)
+  }
+
+  // ==========================================================================
+  // Local basemaps
+  // ==========================================================================
+
+  /**
+   * Reopen basemaps saved in earlier sessions. Safe to call repeatedly.
+   */
+  restoreBasemaps(): Promise<void> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve()
+    if (!this.restoring) {
+      this.restoring = (async () => {
+        const stored = await basemapStore.getAll()
+        for (const entry of stored) {
+          try {
+            const archive = await openTileArchive(entry.file, entry.fileName)
+            this.basemaps.set(entry.id, {
+              basemap: { id: entry.id, fileName: entry.fileName, kind: archive.kind, metadata: archive.metadata, addedAt: entry.addedAt },
+              archive,
+            })
+          } catch (error) {
+            console.warn(`Could not reopen basemap ${entry.fileName}:`, error)
+          }
+        }
+
+        const active = localStorage.getItem(ACTIVE_BASEMAP_KEY)
+        this.activeBasemapId = active && this.basemaps.has(active) ? active : null
+        this.notify()
+      })().catch(error => {
+        console.error('Failed to restore local basemaps:', error)
+      })
+    }
+    return this.restoring
+  }
+
+  /**
+   * Load an MBTiles or PMTiles file, keep it for later sessions and make it
+   * the active basemap
+   */
+  async addBasemap(file: File): Promise<LocalBasemap> {
+    const archive = await openTileArchive(file, file.name)
+    const basemap: LocalBasemap = {
+      id: `basemap-${Date.now()}`,
+      fileName: file.name,
+      kind: archive.kind,
+      metadata: archive.metadata,
+      addedAt: new Date().toISOString(),
+    }
+
+    try {
+      await basemapStore.put({ id: basemap.id, fileName: file.name, file, addedAt: basemap.addedAt })
+    } catch (error) {
+      // Still usable for this session
+      console.warn(`Could not store basemap ${file.name} for later sessions:`, error)
+    }
+
+    this.basemaps.set(basemap.id, { basemap, archive })
+    this.setActiveBasemap(basemap.id)
+    return basemap
+  }
+
+  async removeBasemap(id: string): Promise<void> {
+    this.basemaps.delete(id)
+    if (this.activeBasemapId === id) this.setActiveBasemap(null)
+    else this.notify()
+    await basemapStore.delete(id)
+  }
+
+  /**
+   * Draw base layers from a local basemap, or from online tiles when null
+   */
+  setActiveBasemap(id: string | null): void {
+    this.activeBasemapId = id && this.basemaps.has(id) ? id : null
+    if (this.activeBasemapId) localStorage.setItem(ACTIVE_BASEMAP_KEY, this.activeBasemapId)
+    else localStorage.removeItem(ACTIVE_BASEMAP_KEY)
+    this.notify()
+  }
+
+  getBasemaps(): LocalBasemap[] {
+    return Array.from(this.basemaps.values()).map(entry => entry.basemap)
+  }
+
+  getActiveBasemap(): LocalBasemap | null {
+    return this.activeBasemapId ? this.basemaps.get(this.activeBasemapId)?.basemap ?? null : null
+  }
+
+  private getActiveArchive(): TileArchive | null {
+    return this.activeBasemapId ? this.basemaps.get(this.activeBasemapId)?.archive ?? null : null
+  }
+}
+
+// Singleton instance
+const tileCache = new TileCacheService()
+
+export default tileCache
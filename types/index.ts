@@ -1,5 +1,108 @@
 import { LucideIcon } from 'lucide-react'
 
+// Where a mission is in its life, from first sketch to the end of its flight
+export type MissionState =
+  | 'draft'
+  | 'planned' // submitted, waiting for a commander's decision
+  | 'approved'
+  | 'rejected' // turned down by a commander; revise to plan again
+  | 'uploaded' // on the vehicle, not yet started
+  | 'in_flight'
+  | 'paused'
+  | 'completed'
+  | 'aborted' // stopped by the operator
+  | 'failed'
+
+// What moves a mission from one state to another
+export type MissionEvent =
+  | 'submit' // planner asks for approval
+  | 'approve'
+  | 'request_changes' // commander sends the plan back to draft with comments
+  | 'reject'
+  | 'revise' // back to draft for changes; approval has to be given again
+  | 'upload'
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'complete'
+  | 'abort'
+  | 'fail'
+
+// One entry of a mission's status history
+export interface MissionTransition {
+  event: MissionEvent
+  from: MissionState
+  to: MissionState
+  at: string // ISO 8601
+  by?: string // name of who made the change
+  by_id?: string
+  role?: UserRole // their role at the time
+  reason?: string // also a reviewer's comments
+}
+
+// Something recorded in the audit log; AUDIT_ACTION_LABELS in lib/audit.ts names each one
+export type AuditAction =
+  | 'arm'
+  | 'disarm'
+  | 'takeoff'
+  | 'land'
+  | 'rtl'
+  | 'mission_upload'
+  | 'mission_start'
+  | 'mission_pause'
+  | 'mission_stop'
+  | 'mission_create'
+  | 'mission_update'
+  | 'mission_delete'
+  | 'mission_transition' // any lifecycle move, e.g. approve or abort
+  | 'interlock_override' // a safety interlock was confirmed, and approved if it needs a second person
+  | 'preflight_checklist' // a completed pre-flight checklist was stored with its mission
+
+export type AuditResult =
+  | 'success'
+  | 'failure' // sent, but the backend or vehicle refused it or did not answer
+  | 'denied' // the user's role or a safety interlock does not permit it; nothing was sent
+
+// A hazardous command held back by a safety interlock; INTERLOCKS in lib/interlocks.ts describes each one
+export type InterlockId =
+  | 'force_arm' // arm despite failed pre-arm checks
+  | 'force_start' // stop the active mission to start another
+  | 'disarm_in_flight' // cut the motors while airborne
+  | 'geofence_override' // start a mission while a geofence is breached
+
+// A pre-flight check made from telemetry; PREFLIGHT_CHECKS in lib/preflight.ts describes each one
+export type PreflightCheck =
+  | 'gps_fix' // fix type and satellite count
+  | 'battery'
+  | 'home_position'
+  | 'mission_uploaded' // and the vehicle confirmed every waypoint
+  | 'geofence_clear'
+
+export interface PreflightItem {
+  id: string
+  label: string
+  check?: PreflightCheck // made from telemetry when set; otherwise the operator signs the item off
+}
+
+export interface PreflightThresholds {
+  minGpsFixType: number // 2 = 2D, 3 = 3D, 4 and up are DGPS and RTK
+  minSatellites: number
+  minBattery: number // percent
+}
+
+// Applies to missions of `missionTypes` flown by vehicles with `airframes`
+// or `vehicleIds`; to all of them when those are missing. Every checklist
+// that applies is worked through, with the strictest thresholds among them.
+export interface PreflightChecklist {
+  id: string
+  name: string
+  missionTypes?: string[]
+  airframes?: Airframe[]
+  vehicleIds?: string[]
+  thresholds?: Partial<PreflightThresholds>
+  items: PreflightItem[]
+}
+
 export interface Mission {
   id: string
   name: string
@@ -7,7 +110,7 @@ export interface Mission {
   type: string
   vehicle: string
   operator: string
-  status: 'In Flight' | 'Completed' | 'Pending' | 'Low Battery' | 'Failed'
+  status: MissionState
   progress: number
   date: string
   time: string
@@ -24,26 +127,69 @@ export interface MissionType {
   color: string
 }
 
+// Something a role may do; PERMISSIONS in lib/permissions.ts describes each one
+export type PermissionId =
+  | 'view_missions'
+  | 'create_missions'
+  | 'edit_missions'
+  | 'delete_missions'
+  | 'approve_missions'
+  | 'execute_missions' // upload, start, pause, complete and abort
+  | 'control_vehicle' // arm and take off
+  | 'force_start' // start over a mission that is already active
+  | 'manage_users'
+  | 'manage_roles'
+  | 'view_audit_log'
+
 export interface Permission {
+  id: PermissionId
   name: string
   description: string
-  allowed: boolean
 }
 
 export interface Role {
-  name: string
+  name: UserRole
   description: string
   color: string
   activeUsers: number
-  permissions: Permission[]
+  permissions: PermissionId[] // granted unless an administrator changed them
 }
 
+// Altitude reference: above home, above mean sea level, or above the terrain below
+export type AltitudeFrame = 'relative' | 'amsl' | 'terrain'
+
+// How the vehicle behaves on reaching a waypoint
+export type WaypointCommand = 'waypoint' | 'loiter_time' | 'loiter_turns' | 'land'
+
+// Run in order once the waypoint is reached, before flying on
+export type WaypointAction =
+  | { type: 'roi'; lat: number; lon: number; alt: number } // point the vehicle and camera at a location, alt relative to home
+  | { type: 'roi_clear' }
+  | { type: 'camera_trigger_distance'; distance: number } // meters between photos
+  | { type: 'camera_trigger_interval'; interval: number } // seconds between photos
+  | { type: 'camera_stop' }
+  | { type: 'gimbal_pitch'; pitch: number } // degrees, negative is down
+  | { type: 'delay'; seconds: number }
+  | { type: 'return_to_launch' }
+
+export type WaypointActionType = WaypointAction['type']
+
 export interface Waypoint {
   id: string
   label: string
   coords: string
   alt: string
   color: string
+  lat: number
+  lon: number
+  holdTime?: number // seconds to hover or loiter on arrival
+  frame?: AltitudeFrame // relative when absent
+  speed?: number // m/s from this waypoint on; vehicle cruise speed when absent
+  acceptanceRadius?: number // meters; autopilot default when absent
+  command?: WaypointCommand // plain waypoint when absent
+  loiterTurns?: number // for loiter_turns
+  loiterRadius?: number // meters, for loiter commands; autopilot default when absent
+  actions?: WaypointAction[]
 }
 
 export interface MenuItem {
@@ -51,9 +197,23 @@ export interface MenuItem {
   label: string
   icon: LucideIcon
   indent?: boolean
+  permission?: PermissionId // needed to open the page
 }
 
 // NEW TYPES FOR VEHICLE LIBRARY
+export type Airframe = 'Multirotor' | 'Fixed-Wing' | 'VTOL'
+
+// Performance figures used for mission time and battery estimates
+export interface VehicleProfile {
+  airframe: Airframe
+  cruiseSpeed: number // m/s
+  climbSpeed: number // m/s, also used for descent
+  batteryCapacity: number // Wh
+  consumptionPerKm: number // Wh per km in cruise
+  consumptionPerHoverMinute: number // Wh per minute hovering, or loitering for fixed-wing
+  maxWind: number // m/s
+}
+
 export interface Vehicle {
   id: string
   name: string
@@ -65,14 +225,17 @@ export interface Vehicle {
   flightHours: number
   lastMission: string
   missions: number
+  profile: VehicleProfile
 }
 
 // NEW TYPES FOR OPERATOR LIBRARY
+export type UserRole = 'Operator' | 'Planner' | 'Commander' | 'Administrator'
+
 export interface Operator {
   id: string
   name: string
   initials: string
-  role: 'Operator' | 'Planner' | 'Commander' | 'Administrator'
+  role: UserRole
   status: 'Active' | 'Offline' | 'On Mission' | 'On Leave'
   email: string
   phone: string
@@ -7,23 +7,68 @@
 // Telemetry Types
 // ============================================================================
 
+// Canonical telemetry model. Every backend message shape is converted into
+// this by the adapters in lib/telemetry.ts (or the MAVLink decoder in
+// lib/mavlink.ts) before any view sees it.
+
+export type TelemetrySource = 'fastapi' | 'px4_bridge' | 'simulator' | 'mavlink';
+
+export interface TelemetryPosition {
+  lat: number;
+  lon: number;
+  alt: number; // meters
+  relative_alt?: number; // meters above home
+}
+
+export interface TelemetryVelocity {
+  vx: number; // m/s north
+  vy: number; // m/s east
+  vz: number; // m/s down (NED)
+  ground_speed?: number;
+}
+
+export interface TelemetryAttitude {
+  roll: number; // degrees
+  pitch: number;
+  yaw: number;
+}
+
+export interface TelemetryBattery {
+  remaining: number; // percentage
+  voltage?: number;
+  current?: number;
+}
+
+export interface TelemetryGPS {
+  satellites: number;
+  fix_type: number;
+  hdop?: number;
+}
+
 export interface TelemetryData {
-  timestamp: string;
-  armed: boolean;
-  mode: string;
-  latitude: number;
-  longitude: number;
-  altitude: number;
-  relative_altitude: number;
-  heading: number;
-  ground_speed: number;
-  air_speed: number;
-  climb_rate: number;
-  battery_voltage: number;
-  battery_current: number;
-  battery_remaining: number;
-  gps_fix: number;
-  satellites_visible: number;
+  timestamp: number; // milliseconds since epoch
+  source: TelemetrySource;
+  vehicle_id?: string;
+  position?: TelemetryPosition;
+  velocity?: TelemetryVelocity;
+  attitude?: TelemetryAttitude;
+  heading?: number; // degrees, 0-360
+  battery?: TelemetryBattery;
+  gps?: TelemetryGPS;
+  armed?: boolean;
+  flying?: boolean;
+  flight_mode?: string;
+  mission_current?: number;
+  mission_count?: number;
+}
+
+// Autopilot text message (MAVLink STATUSTEXT); severity follows MAV_SEVERITY,
+// 0 = emergency through 7 = debug
+export interface VehicleStatusText {
+  timestamp: number;
+  severity: number;
+  text: string;
+  vehicle_id?: string;
 }
 
 // ============================================================================
@@ -57,9 +102,28 @@ export interface MissionWaypoint {
   hold_time?: number;
 }
 
+// One MAVLink mission item as uploaded to the autopilot. Params follow the
+// MAV_CMD definition; NaN means "leave unchanged" and is sent as null. x/y are
+// degrees (the bridge scales them for MISSION_ITEM_INT) and zero for commands
+// without a position.
+export interface MissionItem {
+  seq: number;
+  command: number; // MAV_CMD
+  frame: number; // MAV_FRAME
+  param1: number;
+  param2: number;
+  param3: number;
+  param4: number;
+  x: number;
+  y: number;
+  z: number;
+  autocontinue: boolean;
+}
+
 export interface MissionUploadPayload {
   mission_id: string;
   waypoints: MissionWaypoint[];
+  mission_items?: MissionItem[]; // full command list; waypoints alone carry no actions
 }
 
 // ============================================================================
@@ -82,6 +146,7 @@ export interface ConnectionStatus {
 export interface MissionUploadResponse extends CommandResponse {
   data?: {
     waypoint_count: number;
+    mission_item_count?: number; // mission items the vehicle accepted
   };
 }
 
@@ -143,6 +208,76 @@ export interface MapBounds {
   west: number;
 }
 
+// ============================================================================
+// Geofence Types
+// ============================================================================
+
+// Inclusion fences mark where the vehicle must stay; exclusion fences mark
+// airspace it must not enter. Floors and ceilings are meters above home and
+// are unbounded when omitted.
+
+export type GeofenceMode = 'inclusion' | 'exclusion';
+
+export type GeofenceShape = 'polygon' | 'circle';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export type GeofenceGeometry =
+  | { shape: 'polygon'; vertices: GeoPoint[] }
+  | { shape: 'circle'; center: GeoPoint; radius: number }; // radius in meters
+
+export type Geofence = GeofenceGeometry & {
+  id: string;
+  name: string;
+  mode: GeofenceMode;
+  floor?: number;
+  ceiling?: number;
+};
+
+export type GeofenceBreachKind = 'outside_inclusion' | 'inside_exclusion' | 'below_floor' | 'above_ceiling';
+
+export interface GeofenceBreach {
+  fenceId: string | null; // null when outside every inclusion fence
+  fenceName: string;
+  kind: GeofenceBreachKind;
+  message: string;
+}
+
+// ============================================================================
+// Mission Validation Types
+// ============================================================================
+
+export type MissionIssueSeverity = 'error' | 'warning';
+
+export type MissionIssueCode =
+  | 'too_few_waypoints'
+  | 'too_many_waypoints'
+  | 'invalid_coordinates'
+  | 'missing_altitude'
+  | 'altitude_below_min'
+  | 'altitude_above_max'
+  | 'leg_leaves_corridor'
+  | 'leg_enters_exclusion'
+  | 'leg_outside_altitude_band'
+  | 'terrain_clearance_low'
+  | 'terrain_not_covered'
+  | 'invalid_action'
+  | 'mission_continues_after_end'
+  | 'no_corridor'
+  | 'no_vehicle'
+  | 'battery_over_budget';
+
+// Errors block saving and upload; warnings are shown but do not
+export interface MissionIssue {
+  code: MissionIssueCode;
+  severity: MissionIssueSeverity;
+  message: string;
+  waypointIndex?: number; // for legs, the waypoint the leg starts from
+}
+
 // ============================================================================
 // Flight Modes
 // ============================================================================
@@ -200,6 +335,16 @@ export class MissionUploadError extends Error {
   }
 }
 
+export class MissionValidationError extends Error {
+  issues: MissionIssue[];
+
+  constructor(message: string, issues: MissionIssue[]) {
+    super(message);
+    this.name = 'MissionValidationError';
+    this.issues = issues;
+  }
+}
+
 export class TelemetryError extends Error {
   constructor(message: string) {
     super(message);
@@ -207,6 +352,18 @@ export class TelemetryError extends Error {
   }
 }
 
+export class TelemetryValidationError extends TelemetryError {
+  issues: string[];
+  raw: unknown;
+
+  constructor(message: string, issues: string[], raw: unknown) {
+    super(message);
+    this.name = 'TelemetryValidationError';
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
 // ============================================================================
 // State Types
 // ============================================================================
@@ -266,10 +423,8 @@ export function isTelemetryData(data: any): data is TelemetryData {
   return (
     typeof data === 'object' &&
     data !== null &&
-    'timestamp' in data &&
-    'armed' in data &&
-    'latitude' in data &&
-    'longitude' in data
+    typeof data.timestamp === 'number' &&
+    typeof data.source === 'string'
   );
 }
 